@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { PersistentStore } from './persistent-store';
+
+const keyArb = fc.string({ minLength: 1, maxLength: 20 })
+    .filter(s => s !== '__proto__' && s !== 'constructor');
+
+/**
+ * PersistentStoreのテスト
+ */
+describe('PersistentStore', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    /**
+     * 保存した内容は初期値として復元できる
+     */
+    it('should restore values from persisted data', () => {
+        fc.assert(
+            fc.property(
+                fc.dictionary(keyArb, fc.integer()),
+                (entries) => {
+                    const persist = vi.fn().mockResolvedValue(undefined);
+                    const store = new PersistentStore<number>(undefined, persist);
+                    Object.entries(entries).forEach(([key, value]) => store.set(key, value));
+
+                    const restored = new PersistentStore<number>(store.toJSON(), persist);
+
+                    expect(restored.toJSON()).toEqual(store.toJSON());
+                    expect(restored.size).toBe(Object.keys(entries).length);
+                }
+            ),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 連続した変更は1回の保存にまとめられる
+     */
+    it('should debounce persistence of consecutive changes', async () => {
+        const persist = vi.fn().mockResolvedValue(undefined);
+        const store = new PersistentStore<string>(undefined, persist, 500);
+
+        store.set('a', '1');
+        store.set('b', '2');
+        store.delete('a');
+
+        expect(persist).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(500);
+
+        expect(persist).toHaveBeenCalledTimes(1);
+        expect(persist).toHaveBeenCalledWith({ b: '2' });
+    });
+
+    /**
+     * flushで保留中の保存を即座に実行する
+     */
+    it('should persist immediately on flush', async () => {
+        const persist = vi.fn().mockResolvedValue(undefined);
+        const store = new PersistentStore<string>({ a: '1' }, persist);
+
+        await store.flush();
+        expect(persist).not.toHaveBeenCalled();
+
+        store.set('b', '2');
+        await store.flush();
+
+        expect(persist).toHaveBeenCalledWith({ a: '1', b: '2' });
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(persist).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * 存在しないキーの削除では保存しない
+     */
+    it('should not persist when deleting a missing key', async () => {
+        const persist = vi.fn().mockResolvedValue(undefined);
+        const store = new PersistentStore<string>(undefined, persist);
+
+        expect(store.delete('missing')).toBe(false);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(persist).not.toHaveBeenCalled();
+    });
+
+    /**
+     * 読み込み直した内容で置き換えても保存せず、保留中の保存も取り消す
+     */
+    it('should replace contents without persisting', async () => {
+        const persist = vi.fn().mockResolvedValue(undefined);
+        const store = new PersistentStore<string>({ a: '1' }, persist);
+
+        store.set('b', '2');
+        store.replace({ c: '3' });
+
+        expect(store.toJSON()).toEqual({ c: '3' });
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(persist).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,98 @@
+// プラグインデータに保存するキー付きストア
+export class PersistentStore<T> {
+    private data = new Map<string, T>();
+    private persistTimer?: ReturnType<typeof setTimeout>;
+
+    /**
+     * @param initialData プラグインデータから読み込んだ初期値
+     * @param persist ストアの内容を保存する処理（変更からdebounceMs後に呼ばれる）
+     * @param debounceMs 保存を遅延させる時間（ミリ秒）
+     */
+    constructor(
+        initialData: Record<string, T> | undefined,
+        private persist: (data: Record<string, T>) => Promise<void>,
+        private debounceMs = 1000
+    ) {
+        if (initialData && typeof initialData === 'object') {
+            Object.entries(initialData).forEach(([key, value]) => {
+                this.data.set(key, value);
+            });
+        }
+    }
+
+    get(key: string): T | undefined {
+        return this.data.get(key);
+    }
+
+    has(key: string): boolean {
+        return this.data.has(key);
+    }
+
+    set(key: string, value: T): void {
+        this.data.set(key, value);
+        this.schedulePersist();
+    }
+
+    delete(key: string): boolean {
+        const deleted = this.data.delete(key);
+        if (deleted) {
+            this.schedulePersist();
+        }
+        return deleted;
+    }
+
+    /**
+     * 読み込み直した内容で置き換える（保存は行わず、保留中の保存は取り消す）
+     */
+    replace(data: Record<string, T>): void {
+        if (this.persistTimer) {
+            clearTimeout(this.persistTimer);
+            this.persistTimer = undefined;
+        }
+        this.data.clear();
+        Object.entries(data).forEach(([key, value]) => {
+            this.data.set(key, value);
+        });
+    }
+
+    entries(): [string, T][] {
+        return Array.from(this.data.entries());
+    }
+
+    get size(): number {
+        return this.data.size;
+    }
+
+    toJSON(): Record<string, T> {
+        const result: Record<string, T> = {};
+        this.data.forEach((value, key) => {
+            result[key] = value;
+        });
+        return result;
+    }
+
+    /**
+     * 保留中の保存を即座に実行する
+     */
+    async flush(): Promise<void> {
+        if (!this.persistTimer) {
+            return;
+        }
+        clearTimeout(this.persistTimer);
+        this.persistTimer = undefined;
+        await this.persist(this.toJSON());
+    }
+
+    private schedulePersist(): void {
+        if (this.persistTimer) {
+            clearTimeout(this.persistTimer);
+        }
+
+        this.persistTimer = setTimeout(() => {
+            this.persistTimer = undefined;
+            this.persist(this.toJSON()).catch(error => {
+                console.error('Failed to persist store:', error);
+            });
+        }, this.debounceMs);
+    }
+}
@@ -3,21 +3,65 @@ import { DIContainer } from './container';
 import { EventBus, IEventBus } from './event-bus';
 import { ConfigProvider } from '../providers/config-provider';
 import { ObsidianStorageAdapter } from '../implementations/storage/obsidian-storage';
+import { CanvasLayoutFile } from '../implementations/storage/canvas-layout-file';
+import { migrateLegacyLayout } from '../utils/canvas-layout';
 import { NoteRepository } from '../implementations/data/note-repository';
 import { DataManager } from '../implementations/data/data-manager';
+import { HistoryManager } from '../implementations/data/history-manager';
+import { TrashManager } from '../implementations/data/trash-manager';
+import { ArchivePolicy } from '../implementations/data/archive-policy';
+import { RecurrenceService } from '../implementations/data/recurrence-service';
+import { ReminderService } from '../implementations/data/reminder-service';
+import { BoardManager, DEFAULT_BOARD_ID } from '../implementations/data/board-manager';
+import { JsonCanvasService } from '../implementations/data/json-canvas-service';
+import { toCanvasFileBaseName } from '../utils/json-canvas';
+import { DueReminder } from '../interfaces/data/i-reminder-service';
+import { showReminderNotice } from '../ui/reminder-notice';
+import { DEFAULT_SNOOZE_MINUTES } from '../utils/reminder';
+import { SavedFilterParts, serializeSavedFilter } from '../utils/filter-condition';
+import { createSavedView, parseSavedViews, upsertSavedView } from '../utils/saved-views';
+import { NameInputModal } from '../ui/name-input-modal';
+import { SavedViewSuggestModal } from '../ui/saved-view-suggest-modal';
+import { BoardSuggestModal } from '../ui/board-suggest-modal';
+import { CanvasFileSuggestModal } from '../ui/canvas-file-suggest-modal';
 import { PostodoView } from '../ui/postodo-view';
 import { PostodoSettingsTab } from '../settings/postodo-settings-tab';
 import { PostodoSettings, DEFAULT_SETTINGS } from '../types/config-types';
-import { SERVICE_TOKENS } from '../types/core-types';
+import { SERVICE_TOKENS, StickyNote, TrashEntry, ReminderState, Board } from '../types/core-types';
 import { IStorageAdapter } from '../interfaces/storage/i-storage-adapter';
 import { ErrorHandler } from '../utils/error-handler';
 import { NamingStrategyFactory } from '../implementations/naming/naming-strategy-factory';
+import { ConflictResolver } from '../implementations/sync/conflict-resolver';
+import { SyncManager } from '../implementations/sync/sync-manager';
+import { SyncStrategy, ConflictResolution } from '../types/config-types';
+import { ConflictResolutionModal } from '../ui/conflict-resolution-modal';
+import { PersistentStore } from './persistent-store';
+import { getTranslations, Language } from '../i18n/translations';
+
+// ゴミ箱の保存期間を確認する間隔（ミリ秒）
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// 閉じている間に過ぎたリマインダーを個別に通知する最大件数（超えた分は件数だけ通知する）
+const MAX_MISSED_REMINDER_NOTICES = 3;
 
 export class PostodoPlugin {
     private container!: DIContainer;
     private settings!: PostodoSettings;
     private configProvider!: ConfigProvider;
     private errorHandler!: ErrorHandler;
+    private syncManager!: SyncManager;
+    private conflictResolver!: ConflictResolver;
+    private syncSnapshots!: PersistentStore<StickyNote>;
+    private trashEntries!: PersistentStore<TrashEntry>;
+    private trashManager!: TrashManager;
+    private archivePolicy!: ArchivePolicy;
+    private recurrenceService!: RecurrenceService;
+    private reminderStates!: PersistentStore<ReminderState>;
+    private reminderService!: ReminderService;
+    private canvasLayout!: CanvasLayoutFile;
+    private jsonCanvasService!: JsonCanvasService;
+    // 以前プラグインデータに保存していたボードと表示位置（キャンバスファイルへの移行が済むまでプラグインデータに残す）
+    private legacyLayoutData: { boards?: unknown; viewports?: unknown } = {};
 
     constructor(
         private app: App,
@@ -43,11 +87,57 @@ export class PostodoPlugin {
         // リボンアイコンの追加
         this.addRibbonIcon();
 
+        // キャンバスファイルの読み込み（ファイルの一覧はレイアウトの準備後に揃う）
+        this.app.workspace.onLayoutReady(() => this.loadCanvasLayout());
+
+        // 保存期間を過ぎたゴミ箱内の付箋を削除（起動時と1時間ごと）
+        this.app.workspace.onLayoutReady(() => this.purgeExpiredTrash());
+        this.plugin.registerInterval(window.setInterval(() => this.purgeExpiredTrash(), TRASH_PURGE_INTERVAL_MS));
+
+        // 完了した付箋の自動アーカイブの後にリマインダーを設定する（起動時）
+        this.app.workspace.onLayoutReady(async () => {
+            if (this.configProvider.get<boolean>('archive.autoArchive')) {
+                await this.archiveCompletedNotes(false);
+            }
+            await this.startReminders();
+        });
+
         console.log('Postodo plugin loaded successfully');
     }
 
     async onunload(): Promise<void> {
         // クリーンアップ処理
+        if (this.syncManager) {
+            // 手動・定期同期で保留中の変更を書き込んでから終了する
+            await this.syncManager.flush();
+            this.syncManager.cleanup();
+        }
+        
+        if (this.recurrenceService) {
+            this.recurrenceService.cleanup();
+        }
+        
+        if (this.reminderService) {
+            this.reminderService.cleanup();
+        }
+        
+        if (this.syncSnapshots) {
+            await this.syncSnapshots.flush();
+        }
+        
+        if (this.trashEntries) {
+            await this.trashEntries.flush();
+        }
+        
+        if (this.reminderStates) {
+            await this.reminderStates.flush();
+        }
+        
+        if (this.canvasLayout) {
+            await this.canvasLayout.flush();
+            this.canvasLayout.cleanup();
+        }
+        
         if (this.container) {
             this.container.clear();
         }
@@ -56,11 +146,19 @@ export class PostodoPlugin {
     }
 
     private async loadSettings(): Promise<void> {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.plugin.loadData());
+        // 同期の記録、ゴミ箱の記録、リマインダーの通知状態は設定と同じプラグインデータに保存しているため分離する
+        // ビューポートとボードは現在はキャンバスファイルに保存しているため、キャンバスファイルへの移行にだけ使用する
+        // 移行が済むまでは保存時に書き戻し、プラグインデータから失われないようにする
+        const { syncSnapshots, viewports, trashEntries, reminderStates, boards, ...settings } = (await this.plugin.loadData()) || {};
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+        this.legacyLayoutData = { boards, viewports };
+        this.syncSnapshots = new PersistentStore<StickyNote>(syncSnapshots, () => this.savePluginData());
+        this.trashEntries = new PersistentStore<TrashEntry>(trashEntries, () => this.savePluginData());
+        this.reminderStates = new PersistentStore<ReminderState>(reminderStates, () => this.savePluginData());
     }
 
     async saveSettings(): Promise<void> {
-        await this.plugin.saveData(this.settings);
+        await this.savePluginData();
         
         // 設定変更をシステム全体に通知
         if (this.configProvider) {
@@ -68,6 +166,16 @@ export class PostodoPlugin {
         }
     }
 
+    private async savePluginData(): Promise<void> {
+        await this.plugin.saveData({
+            ...this.settings,
+            syncSnapshots: this.syncSnapshots.toJSON(),
+            trashEntries: this.trashEntries.toJSON(),
+            reminderStates: this.reminderStates.toJSON(),
+            ...this.legacyLayoutData
+        });
+    }
+
     private initializeDIContainer(): void {
         this.container = new DIContainer();
 
@@ -93,12 +201,50 @@ export class PostodoPlugin {
         });
 
         // データサービスの登録
-        this.container.registerFactory(SERVICE_TOKENS.NOTE_REPOSITORY, () => {
-            const storageAdapter = this.container.resolve<IStorageAdapter>(SERVICE_TOKENS.STORAGE_ADAPTER);
-            const eventBus = this.container.resolve<IEventBus>(SERVICE_TOKENS.EVENT_BUS);
-            const configProvider = this.container.resolve(SERVICE_TOKENS.CONFIG);
-            return new NoteRepository(storageAdapter, eventBus, this.app.vault, configProvider);
+        // ファイル変更の検出と同期を一本化するため、リポジトリは単一インスタンスを共有する
+        const storageAdapter = this.container.resolve<IStorageAdapter>(SERVICE_TOKENS.STORAGE_ADAPTER);
+
+        // 付箋の位置・重なり順、ボード、ボードごとのビューポートはキャンバスファイルに保存する（読み込みはレイアウトの準備後に行う）
+        this.canvasLayout = new CanvasLayoutFile(storageAdapter, eventBus, () => {
+            const folder = this.configProvider.get<string>('postodoFolder') || 'Postodo';
+            const fileName = this.configProvider.get<string>('canvasFileName') || 'postodo-canvas.md';
+            return `${folder}/${fileName}`;
+        });
+        this.container.registerFactory(SERVICE_TOKENS.CANVAS_LAYOUT, () => this.canvasLayout);
+        this.container.registerFactory(SERVICE_TOKENS.VIEWPORT_STORE, () => this.canvasLayout.viewports);
+        this.trashManager = new TrashManager(storageAdapter, this.trashEntries, this.configProvider);
+        this.container.registerFactory(SERVICE_TOKENS.TRASH_MANAGER, () => this.trashManager);
+        const noteRepository = new NoteRepository(storageAdapter, eventBus, this.app.vault, this.configProvider, this.trashManager);
+        this.container.registerFactory(SERVICE_TOKENS.NOTE_REPOSITORY, () => noteRepository);
+        this.archivePolicy = new ArchivePolicy(noteRepository, eventBus, this.configProvider);
+
+        // 同期サービスの登録
+        this.conflictResolver = new ConflictResolver();
+        this.conflictResolver.setUserChoiceHandler((fileNote, uiNote, baseNote) => {
+            const t = getTranslations(this.settings.language as Language || 'ja');
+            return ConflictResolutionModal.prompt(this.app, fileNote, uiNote, t, baseNote);
         });
+        this.container.registerFactory(SERVICE_TOKENS.CONFLICT_RESOLVER, () => this.conflictResolver);
+
+        this.syncManager = new SyncManager(noteRepository, this.conflictResolver, eventBus, undefined, this.syncSnapshots);
+        this.container.registerFactory(SERVICE_TOKENS.SYNC_STRATEGY, () => this.syncManager);
+        this.syncManager.startWatching();
+        this.applyStorageSettings();
+
+        // 同期設定の変更を反映
+        eventBus.on('config-changed', (event) => {
+            if (typeof event?.path === 'string' && event.path.startsWith('storage.')) {
+                this.applyStorageSettings();
+            }
+        });
+
+        // 操作履歴は全てのビューとDataManagerで共有する
+        const history = new HistoryManager();
+        this.container.registerFactory(SERVICE_TOKENS.HISTORY_MANAGER, () => history);
+
+        // ボード上の移動も同じ操作履歴で元に戻せるようにする
+        const boardManager = new BoardManager(this.canvasLayout.boards, eventBus, history, this.canvasLayout.positions, this.canvasLayout.groups);
+        this.container.registerFactory(SERVICE_TOKENS.BOARD_MANAGER, () => boardManager);
 
         // NamingStrategyFactoryの作成（カスタムフォーマットを設定）
         const customNamingFormat = this.settings.customNamingFormat || 'Sticky-{YYYY}{MM}{DD}-{HH}{mm}{ss}';
@@ -108,8 +254,122 @@ export class PostodoPlugin {
             const noteRepository = this.container.resolve<NoteRepository>(SERVICE_TOKENS.NOTE_REPOSITORY);
             const eventBus = this.container.resolve<IEventBus>(SERVICE_TOKENS.EVENT_BUS);
             const configProvider = this.container.resolve<ConfigProvider>(SERVICE_TOKENS.CONFIG);
-            return new DataManager(noteRepository, eventBus, configProvider, namingStrategyFactory);
+            const syncManager = this.container.resolve<SyncManager>(SERVICE_TOKENS.SYNC_STRATEGY);
+            return new DataManager(noteRepository, eventBus, configProvider, namingStrategyFactory, syncManager, history);
         });
+
+        // ボードとObsidianの.canvasファイルの書き出し・読み込み
+        this.jsonCanvasService = new JsonCanvasService(
+            storageAdapter,
+            this.container.resolve<DataManager>(SERVICE_TOKENS.DATA_MANAGER),
+            boardManager,
+            history
+        );
+
+        // 繰り返しタスクが完了した時に次の付箋を作成する（作成は操作履歴で元に戻せる）
+        this.recurrenceService = new RecurrenceService(this.container.resolve<DataManager>(SERVICE_TOKENS.DATA_MANAGER), eventBus, history);
+        this.recurrenceService.startWatching();
+
+        // 期日・予定日のリマインダー（付箋の読み込みはレイアウトの準備後に行う）
+        this.reminderService = new ReminderService(
+            noteRepository,
+            this.container.resolve<DataManager>(SERVICE_TOKENS.DATA_MANAGER),
+            eventBus,
+            this.configProvider,
+            this.reminderStates
+        );
+        this.reminderService.setReminderHandler((reminders, missed) => this.showReminders(reminders, missed));
+    }
+
+    private applyStorageSettings(): void {
+        const conflictResolution = this.configProvider.get<ConflictResolution>('storage.conflictResolution') || 'auto-merge';
+        this.conflictResolver.setResolutionMode(conflictResolution);
+
+        const strategy = this.configProvider.get<SyncStrategy>('storage.syncStrategy') || 'real-time';
+        const intervalSeconds = this.configProvider.get<number>('storage.syncInterval') || 60;
+        this.syncManager.setStrategy(strategy, intervalSeconds * 1000);
+    }
+
+    private async loadCanvasLayout(): Promise<void> {
+        const { boards, viewports } = this.legacyLayoutData;
+        const result = await this.canvasLayout.load(migrateLegacyLayout(boards, viewports, this.settings.canvasFileName));
+        if (!result.success) {
+            // 読み込めないファイルは上書きしないため、付箋の移動は保存されない（移行元の状態もプラグインデータに残す）
+            console.error('Failed to load canvas layout:', result.error);
+            new Notice(getTranslations(this.settings.language as Language || 'ja').boards.layoutLoadFailed);
+            return;
+        }
+        if (boards !== undefined || viewports !== undefined) {
+            // キャンバスファイルに移行できたため、プラグインデータから取り除く
+            this.legacyLayoutData = {};
+            await this.savePluginData();
+        }
+    }
+
+    private async purgeExpiredTrash(): Promise<void> {
+        const result = await this.trashManager.purgeExpired();
+        if (!result.success) {
+            console.warn('Failed to purge expired trash:', result.error);
+        }
+    }
+
+    /**
+     * 完了した付箋をアーカイブする
+     * @param notifyWhenEmpty アーカイブする付箋がない場合も通知するかどうか
+     */
+    private async archiveCompletedNotes(notifyWhenEmpty: boolean): Promise<void> {
+        const t = getTranslations(this.settings.language as Language || 'ja');
+        const result = await this.archivePolicy.run();
+
+        if (!result.success) {
+            console.warn('Failed to archive completed notes:', result.error);
+            new Notice(t.archive.error);
+            return;
+        }
+
+        const { archivedIds, failed } = result.data;
+        if (failed > 0) {
+            new Notice(t.archive.failed.replace('{count}', String(failed)));
+        } else if (archivedIds.length > 0) {
+            new Notice(t.archive.archived.replace('{count}', String(archivedIds.length)));
+        } else if (notifyWhenEmpty) {
+            new Notice(t.archive.nothingToArchive);
+        }
+    }
+
+    private async startReminders(): Promise<void> {
+        const result = await this.reminderService.start();
+        if (!result.success) {
+            console.warn('Failed to start reminders:', result.error);
+            new Notice(getTranslations(this.settings.language as Language || 'ja').reminder.loadFailed);
+        }
+    }
+
+    /**
+     * リマインダーをスヌーズと完了のボタン付きで通知する
+     * @param missed 閉じている間に過ぎたリマインダーの場合は、多すぎる分を件数だけの通知にまとめる
+     */
+    private showReminders(reminders: DueReminder[], missed: boolean): void {
+        const t = getTranslations(this.settings.language as Language || 'ja');
+        const snoozeMinutes = this.configProvider.get<number>('reminders.snoozeMinutes') || DEFAULT_SNOOZE_MINUTES;
+        const shown = missed ? reminders.slice(0, MAX_MISSED_REMINDER_NOTICES) : reminders;
+
+        shown.forEach(reminder => {
+            showReminderNotice(reminder, t, snoozeMinutes, {
+                snooze: ({ reminder }) => this.reminderService.snooze(reminder.key, snoozeMinutes),
+                complete: async ({ reminder }) => {
+                    const result = await this.reminderService.complete(reminder.noteId);
+                    if (!result.success) {
+                        console.warn(`Failed to complete ${reminder.noteId}:`, result.error);
+                        new Notice(t.reminder.completeFailed);
+                    }
+                }
+            });
+        });
+
+        if (reminders.length > shown.length) {
+            new Notice(t.reminder.missed.replace('{count}', String(reminders.length - shown.length)));
+        }
     }
 
     private registerView(): void {
@@ -138,6 +398,181 @@ export class PostodoPlugin {
             }
         });
 
+        // 保留中の変更をファイルに書き込むコマンド
+        this.plugin.addCommand({
+            id: 'sync-now',
+            name: 'Sync Now',
+            callback: async () => {
+                await this.syncNow();
+            }
+        });
+
+        // 全ての付箋が収まるように表示するコマンド
+        this.plugin.addCommand({
+            id: 'zoom-to-fit',
+            name: 'Zoom to Fit',
+            callback: () => {
+                this.getOpenViews().forEach(view => view.zoomToFit());
+            }
+        });
+
+        // 付箋を検索するコマンド
+        this.plugin.addCommand({
+            id: 'search-notes',
+            name: 'Search Notes',
+            checkCallback: (checking: boolean) => {
+                const view = this.app.workspace.getActiveViewOfType(PostodoView) || this.getOpenViews()[0];
+                if (!view) return false;
+                if (!checking) {
+                    this.app.workspace.revealLeaf(view.leaf);
+                    view.focusSearch();
+                }
+                return true;
+            }
+        });
+
+        // 付箋を優先度順に並べるコマンド
+        this.plugin.addCommand({
+            id: 'arrange-by-priority',
+            name: 'Arrange Notes by Priority',
+            callback: () => {
+                this.getOpenViews().forEach(view => view.arrangeNotes('priority'));
+            }
+        });
+
+        // 現在のフィルターを初期フィルターとして保存するコマンド
+        this.plugin.addCommand({
+            id: 'save-filter-as-default',
+            name: 'Save Current Filter as Initial Filter',
+            checkCallback: (checking: boolean) => {
+                const view = this.app.workspace.getActiveViewOfType(PostodoView) || this.getOpenViews()[0];
+                if (!view) return false;
+                if (!checking) {
+                    this.saveFilterAsDefault(view.getSavedFilter());
+                }
+                return true;
+            }
+        });
+
+        // 現在のフィルター・表示位置・並び順に名前を付けて保存するコマンド
+        this.plugin.addCommand({
+            id: 'save-current-view',
+            name: 'Save Current View',
+            checkCallback: (checking: boolean) => {
+                const view = this.app.workspace.getActiveViewOfType(PostodoView) || this.getOpenViews()[0];
+                if (!view) return false;
+                if (!checking) {
+                    this.saveCurrentView(view);
+                }
+                return true;
+            }
+        });
+
+        // 保存した表示に切り替えるコマンド
+        this.plugin.addCommand({
+            id: 'switch-saved-view',
+            name: 'Switch Saved View',
+            checkCallback: (checking: boolean) => {
+                const view = this.app.workspace.getActiveViewOfType(PostodoView) || this.getOpenViews()[0];
+                if (!view) return false;
+                if (!checking) {
+                    const t = getTranslations(this.settings.language as Language || 'ja');
+                    new SavedViewSuggestModal(this.app, parseSavedViews(this.settings.savedViews), t, (savedView) => {
+                        view.applySavedView(savedView);
+                        new Notice(t.views.switched.replace('{name}', savedView.name));
+                    }).open();
+                }
+                return true;
+            }
+        });
+
+        // ボードを切り替えるコマンド
+        this.plugin.addCommand({
+            id: 'switch-board',
+            name: 'Switch Board',
+            checkCallback: (checking: boolean) => {
+                const view = this.app.workspace.getActiveViewOfType(PostodoView) || this.getOpenViews()[0];
+                if (!view) return false;
+                if (!checking) {
+                    const t = getTranslations(this.settings.language as Language || 'ja');
+                    const boardManager = this.container.resolve<BoardManager>(SERVICE_TOKENS.BOARD_MANAGER);
+                    const boards: Board[] = [
+                        { id: DEFAULT_BOARD_ID, name: t.boards.allNotes, positions: {} },
+                        ...boardManager.getBoards()
+                    ];
+                    new BoardSuggestModal(this.app, boards, t, async (board) => {
+                        await view.switchBoard(board.id);
+                        new Notice(t.boards.switched.replace('{name}', board.name));
+                    }).open();
+                }
+                return true;
+            }
+        });
+
+        // 新しいボードを作成するコマンド
+        this.plugin.addCommand({
+            id: 'create-board',
+            name: 'Create Board',
+            checkCallback: (checking: boolean) => {
+                const view = this.app.workspace.getActiveViewOfType(PostodoView) || this.getOpenViews()[0];
+                if (!view) return false;
+                if (!checking) {
+                    view.createBoard();
+                }
+                return true;
+            }
+        });
+
+        // 表示中のボードを.canvasファイルに書き出すコマンド
+        this.plugin.addCommand({
+            id: 'export-board-to-canvas',
+            name: 'Export Board to Canvas',
+            checkCallback: (checking: boolean) => {
+                const view = this.app.workspace.getActiveViewOfType(PostodoView) || this.getOpenViews()[0];
+                if (!view) return false;
+                if (!checking) {
+                    this.exportBoardToCanvas(view.getBoardId());
+                }
+                return true;
+            }
+        });
+
+        // .canvasファイルを表示中のボードに読み込むコマンド
+        this.plugin.addCommand({
+            id: 'import-canvas',
+            name: 'Import Canvas',
+            checkCallback: (checking: boolean) => {
+                const view = this.app.workspace.getActiveViewOfType(PostodoView) || this.getOpenViews()[0];
+                if (!view) return false;
+                if (!checking) {
+                    const t = getTranslations(this.settings.language as Language || 'ja');
+                    new CanvasFileSuggestModal(this.app, t, (file) => {
+                        this.importCanvas(file.path, view.getBoardId());
+                    }).open();
+                }
+                return true;
+            }
+        });
+
+        // 表示方法をキャンバスとカンバンで切り替えるコマンド
+        this.plugin.addCommand({
+            id: 'toggle-kanban-layout',
+            name: 'Toggle Kanban Layout',
+            callback: async () => {
+                this.settings.ui.layout = this.settings.ui.layout === 'kanban' ? 'canvas' : 'kanban';
+                await this.saveSettings();
+            }
+        });
+
+        // 完了した付箋をアーカイブするコマンド
+        this.plugin.addCommand({
+            id: 'archive-completed-notes',
+            name: 'Archive Completed Notes',
+            callback: async () => {
+                await this.archiveCompletedNotes(true);
+            }
+        });
+
         // 全ての付箋を表示するコマンド
         this.plugin.addCommand({
             id: 'show-all-notes',
@@ -148,6 +583,65 @@ export class PostodoPlugin {
         });
     }
 
+    private async saveFilterAsDefault(parts: SavedFilterParts): Promise<void> {
+        this.settings.defaultDisplayFilter = serializeSavedFilter(parts);
+        await this.saveSettings();
+        new Notice(getTranslations(this.settings.language as Language || 'ja').filter.savedAsDefault);
+    }
+
+    /**
+     * 現在の表示に名前を付けて保存し、その表示を選択中にする
+     * 同じ名前の表示がある場合は上書きする
+     */
+    private async saveCurrentView(view: PostodoView): Promise<void> {
+        const t = getTranslations(this.settings.language as Language || 'ja');
+        const views = parseSavedViews(this.settings.savedViews);
+        const name = await NameInputModal.prompt(this.app, t.views.nameModal, views.map(v => v.name));
+        if (!name) return;
+
+        const state = view.getCurrentViewState();
+        const savedViews = upsertSavedView(views, createSavedView(name, state.filter, state.sort, state.viewport));
+        this.settings.savedViews = savedViews;
+        await this.saveSettings();
+
+        view.applySavedView(savedViews.find(v => v.name === name.trim())!);
+        new Notice(t.views.saved.replace('{name}', name.trim()));
+    }
+
+    private async exportBoardToCanvas(boardId: string): Promise<void> {
+        const t = getTranslations(this.settings.language as Language || 'ja');
+        const boardManager = this.container.resolve<BoardManager>(SERVICE_TOKENS.BOARD_MANAGER);
+        const baseName = toCanvasFileBaseName(boardManager.getBoard(boardId)?.name || 'Postodo');
+
+        const result = await this.jsonCanvasService.exportBoard(boardId, baseName);
+        if (!result.success) {
+            console.error('Failed to export the board:', result.error);
+            new Notice(t.jsonCanvas.exportFailed);
+            return;
+        }
+        new Notice(t.jsonCanvas.exported
+            .replace('{count}', String(result.data.count))
+            .replace('{path}', result.data.filePath));
+    }
+
+    private async importCanvas(filePath: string, boardId: string): Promise<void> {
+        const t = getTranslations(this.settings.language as Language || 'ja');
+        const result = await this.jsonCanvasService.importCanvas(filePath, boardId);
+        if (!result.success) {
+            console.error('Failed to import the canvas file:', result.error);
+            new Notice(t.jsonCanvas.importFailed);
+            return;
+        }
+
+        const { created, placed, skipped } = result.data;
+        new Notice(t.jsonCanvas.imported
+            .replace('{created}', String(created))
+            .replace('{placed}', String(placed)));
+        if (skipped > 0) {
+            new Notice(t.jsonCanvas.skipped.replace('{count}', String(skipped)));
+        }
+    }
+
     private addRibbonIcon(): void {
         this.plugin.addRibbonIcon('sticky-note', 'Postodo', (evt: MouseEvent) => {
             this.activateView();
@@ -174,6 +668,12 @@ export class PostodoPlugin {
         }
     }
 
+    private getOpenViews(): PostodoView[] {
+        return this.app.workspace.getLeavesOfType('postodo-view')
+            .map(leaf => leaf.view)
+            .filter((view): view is PostodoView => view instanceof PostodoView);
+    }
+
     private async createQuickNote(): Promise<void> {
         try {
             const dataManager = this.container.resolve<DataManager>(SERVICE_TOKENS.DATA_MANAGER);
@@ -200,6 +700,22 @@ export class PostodoPlugin {
         }
     }
 
+    private async syncNow(): Promise<void> {
+        const t = getTranslations(this.settings.language as Language || 'ja');
+
+        if (this.syncManager.getDirtyCount() === 0) {
+            new Notice(t.sync.nothingToSync);
+            return;
+        }
+
+        const result = await this.syncManager.flush();
+        if (result.failed > 0) {
+            new Notice(t.sync.failed.replace('{count}', String(result.failed)));
+        } else {
+            new Notice(t.sync.synced.replace('{count}', String(result.synced)));
+        }
+    }
+
     private async showAllNotes(): Promise<void> {
         try {
             const dataManager = this.container.resolve<DataManager>(SERVICE_TOKENS.DATA_MANAGER);
@@ -38,6 +38,221 @@ export interface Translations {
         complete: string;
         incomplete: string;
     };
+    // Sync
+    sync: {
+        pendingChanges: string;
+        pendingTooltip: string;
+        synced: string;
+        nothingToSync: string;
+        failed: string;
+    };
+    // Canvas Viewport
+    viewport: {
+        zoomIn: string;
+        zoomOut: string;
+        resetZoom: string;
+        zoomToFit: string;
+    };
+    // Bulk actions on selected notes
+    bulkActions: {
+        selectedCount: string;
+        moveToFolder: string;
+        copyFilenames: string;
+        colorChanged: string;
+        sizeChanged: string;
+        markedComplete: string;
+        markedIncomplete: string;
+        deleted: string;
+        moved: string;
+        filenamesCopied: string;
+        partialFailure: string;
+    };
+    // Move to Folder Modal
+    moveModal: {
+        title: string;
+        description: string;
+        placeholder: string;
+        move: string;
+        cancel: string;
+    };
+    // Trash panel
+    trash: {
+        title: string;
+        open: string;
+        empty: string;
+        restore: string;
+        purge: string;
+        emptyTrash: string;
+        deletedAt: string;
+        restored: string;
+        purged: string;
+        emptied: string;
+        restoreFailed: string;
+        purgeFailed: string;
+        notInFolderMode: string;
+        confirmEmptyMessage: string;
+        cancel: string;
+    };
+    // Archive
+    archive: {
+        showArchived: string;
+        archived: string;
+        nothingToArchive: string;
+        failed: string;
+        error: string;
+    };
+    // Due dates
+    due: {
+        overdue: string;
+        today: string;
+        overdueTooltip: string;
+        todayTooltip: string;
+    };
+    // Combined filter conditions
+    filter: {
+        conditionActive: string;
+        clearCondition: string;
+        savedAsDefault: string;
+    };
+    // Priority
+    priority: {
+        filter: string;
+        options: {
+            all: string;
+            normal: string;
+            high: string;
+            highest: string;
+        };
+        levels: {
+            highest: string;
+            high: string;
+            normal: string;
+            low: string;
+        };
+        tooltip: string;
+    };
+    // Boards
+    boards: {
+        label: string;
+        allNotes: string;
+        menu: string;
+        newBoard: string;
+        renameBoard: string;
+        deleteBoard: string;
+        deleteConfirmTitle: string;
+        deleteConfirmMessage: string;
+        cancel: string;
+        delete: string;
+        created: string;
+        switched: string;
+        switchPlaceholder: string;
+        addToBoard: string;
+        removeFromBoard: string;
+        added: string;
+        removed: string;
+        groupNotes: string;
+        ungroupNotes: string;
+        grouped: string;
+        ungrouped: string;
+        layoutLoadFailed: string;
+        nameModal: {
+            title: string;
+            placeholder: string;
+            save: string;
+            cancel: string;
+        };
+        renameModal: {
+            title: string;
+            placeholder: string;
+            save: string;
+            cancel: string;
+        };
+    };
+    // JSON Canvas export and import
+    jsonCanvas: {
+        exported: string;
+        exportFailed: string;
+        importPlaceholder: string;
+        noCanvasFiles: string;
+        imported: string;
+        skipped: string;
+        importFailed: string;
+    };
+    // Kanban layout
+    kanban: {
+        noValue: string;
+        incomplete: string;
+        complete: string;
+        moveToColumn: string;
+        moved: string;
+    };
+    // Search
+    search: {
+        placeholder: string;
+        count: string;
+        noMatches: string;
+    };
+    // Saved views
+    views: {
+        group: string;
+        sortOrders: {
+            priority: string;
+            due: string;
+            created: string;
+            title: string;
+        };
+        arrange: string;
+        arranged: string;
+        saved: string;
+        switched: string;
+        switchPlaceholder: string;
+        noViews: string;
+        nameModal: {
+            title: string;
+            placeholder: string;
+            save: string;
+            cancel: string;
+        };
+    };
+    // Reminders
+    reminder: {
+        due: string;
+        scheduled: string;
+        missed: string;
+        snooze: string;
+        complete: string;
+        completeFailed: string;
+        loadFailed: string;
+    };
+    // Undo / Redo
+    history: {
+        undone: string;
+        redone: string;
+        nothingToUndo: string;
+        nothingToRedo: string;
+        failed: string;
+        actions: {
+            create: string;
+            update: string;
+            delete: string;
+            rename: string;
+            move: string;
+        };
+    };
+    // Conflict Resolution Modal
+    conflictModal: {
+        title: string;
+        description: string;
+        fileVersion: string;
+        canvasVersion: string;
+        mergedVersion: string;
+        titleLabel: string;
+        completed: string;
+        incomplete: string;
+        keepFile: string;
+        keepCanvas: string;
+        useMerged: string;
+    };
     // Common (shared between context menu and settings)
     common: {
         colors: {
@@ -101,8 +316,23 @@ export interface Translations {
                     incomplete: string;
                     complete: string;
                     all: string;
+                    dueSoon: string;
+                    custom: string;
                 };
             };
+            condition: {
+                name: string;
+                desc: string;
+                invalid: string;
+            };
+        };
+        savedViews: {
+            title: string;
+            desc: string;
+            empty: string;
+            viewport: string;
+            sort: string;
+            delete: string;
         };
         rendering: {
             title: string;
@@ -126,6 +356,10 @@ export interface Translations {
                     periodic: string;
                 };
             };
+            syncInterval: {
+                name: string;
+                desc: string;
+            };
             conflictResolution: {
                 name: string;
                 desc: string;
@@ -136,6 +370,56 @@ export interface Translations {
                 };
             };
         };
+        trash: {
+            title: string;
+            mode: {
+                name: string;
+                desc: string;
+                options: {
+                    folder: string;
+                    vault: string;
+                    permanent: string;
+                };
+            };
+            folder: {
+                name: string;
+                desc: string;
+            };
+            autoPurgeDays: {
+                name: string;
+                desc: string;
+            };
+        };
+        archive: {
+            title: string;
+            autoArchive: {
+                name: string;
+                desc: string;
+            };
+            afterDays: {
+                name: string;
+                desc: string;
+            };
+            folder: {
+                name: string;
+                desc: string;
+            };
+        };
+        reminders: {
+            title: string;
+            enabled: {
+                name: string;
+                desc: string;
+            };
+            defaultTime: {
+                name: string;
+                desc: string;
+            };
+            snoozeMinutes: {
+                name: string;
+                desc: string;
+            };
+        };
         ui: {
             title: string;
             showGrid: {
@@ -146,6 +430,35 @@ export interface Translations {
                 name: string;
                 desc: string;
             };
+            gridSize: {
+                name: string;
+                desc: string;
+            };
+            dueSoonDays: {
+                name: string;
+                desc: string;
+            };
+            layout: {
+                name: string;
+                desc: string;
+                canvas: string;
+                kanban: string;
+            };
+            kanbanSource: {
+                name: string;
+                desc: string;
+                completion: string;
+                tag: string;
+                field: string;
+            };
+            kanbanField: {
+                name: string;
+                desc: string;
+            };
+            kanbanColumns: {
+                name: string;
+                desc: string;
+            };
         };
         noteDefaults: {
             title: string;
@@ -213,6 +526,204 @@ export const translations: Record<Language, Translations> = {
             complete: 'Completed',
             incomplete: 'Incomplete',
         },
+        sync: {
+            pendingChanges: '{count} unsynced',
+            pendingTooltip: 'Click to write pending changes to files',
+            synced: 'Synced {count} notes',
+            nothingToSync: 'No pending changes',
+            failed: 'Failed to sync {count} notes',
+        },
+        viewport: {
+            zoomIn: 'Zoom in',
+            zoomOut: 'Zoom out',
+            resetZoom: 'Reset zoom',
+            zoomToFit: 'Zoom to fit',
+        },
+        bulkActions: {
+            selectedCount: '{count} notes selected',
+            moveToFolder: 'Move to folder...',
+            copyFilenames: 'Copy filenames',
+            colorChanged: 'Changed the color of {count} notes',
+            sizeChanged: 'Changed the size of {count} notes',
+            markedComplete: 'Marked {count} notes complete',
+            markedIncomplete: 'Marked {count} notes incomplete',
+            deleted: 'Deleted {count} notes',
+            moved: 'Moved {count} notes to {folder}',
+            filenamesCopied: 'Copied {count} filenames',
+            partialFailure: '{message}, {failed} failed',
+        },
+        moveModal: {
+            title: 'Move notes to folder',
+            description: 'Move {count} notes into a subfolder of "{root}".',
+            placeholder: 'Folder name',
+            move: 'Move',
+            cancel: 'Cancel',
+        },
+        trash: {
+            title: 'Trash',
+            open: 'Show trash',
+            empty: 'Trash is empty',
+            restore: 'Restore',
+            purge: 'Delete permanently',
+            emptyTrash: 'Empty trash',
+            deletedAt: 'Deleted {date}',
+            restored: 'Restored "{title}"',
+            purged: 'Deleted "{title}" permanently',
+            emptied: 'Deleted {count} notes permanently',
+            restoreFailed: 'Could not restore the note. A file may already exist at its original path.',
+            purgeFailed: 'Could not delete the note permanently',
+            notInFolderMode: 'Deleted notes are not kept here. Choose the Postodo trash folder in settings to restore them.',
+            confirmEmptyMessage: 'Permanently delete {count} notes in the trash? This cannot be undone.',
+            cancel: 'Cancel',
+        },
+        archive: {
+            showArchived: 'Show archived',
+            archived: 'Archived {count} completed notes',
+            nothingToArchive: 'No completed notes to archive',
+            failed: 'Failed to archive {count} notes',
+            error: 'Could not archive completed notes',
+        },
+        due: {
+            overdue: 'Overdue',
+            today: 'Today',
+            overdueTooltip: 'Overdue by {days} days (due {date})',
+            todayTooltip: 'Due or scheduled today',
+        },
+        filter: {
+            conditionActive: 'Custom filter ✕',
+            clearCondition: 'Clear the custom filter conditions',
+            savedAsDefault: 'Saved the current filter as the initial filter',
+        },
+        priority: {
+            filter: 'Priority filter',
+            options: {
+                all: 'All priorities',
+                normal: 'Normal and above',
+                high: 'High and above',
+                highest: 'Highest only',
+            },
+            levels: {
+                highest: 'Highest',
+                high: 'High',
+                normal: 'Normal',
+                low: 'Low',
+            },
+            tooltip: 'Priority: {level}',
+        },
+        boards: {
+            label: 'Board',
+            allNotes: 'All notes',
+            menu: 'Board actions',
+            newBoard: 'New board',
+            renameBoard: 'Rename board',
+            deleteBoard: 'Delete board',
+            deleteConfirmTitle: 'Delete board',
+            deleteConfirmMessage: 'Delete the board "{name}"? The notes stay in the vault and on other boards.',
+            cancel: 'Cancel',
+            delete: 'Delete',
+            created: 'Created the board "{name}"',
+            switched: 'Switched to the board "{name}"',
+            switchPlaceholder: 'Choose a board',
+            addToBoard: 'Add to board',
+            removeFromBoard: 'Remove from this board',
+            added: 'Added {count} notes to "{name}"',
+            removed: 'Removed {count} notes from this board',
+            groupNotes: 'Group notes',
+            ungroupNotes: 'Ungroup',
+            grouped: 'Grouped {count} notes',
+            ungrouped: 'Ungrouped the notes',
+            layoutLoadFailed: 'Could not read the canvas file. Note positions will not be saved until it is fixed.',
+            nameModal: {
+                title: 'New board',
+                placeholder: 'Board name',
+                save: 'Create',
+                cancel: 'Cancel',
+            },
+            renameModal: {
+                title: 'Rename board',
+                placeholder: 'Board name',
+                save: 'Rename',
+                cancel: 'Cancel',
+            },
+        },
+        jsonCanvas: {
+            exported: 'Exported {count} notes to {path}',
+            exportFailed: 'Failed to export the board',
+            importPlaceholder: 'Choose a canvas file to import',
+            noCanvasFiles: 'No canvas files in this vault',
+            imported: 'Imported {created} new notes and placed {placed} existing notes',
+            skipped: '{count} nodes could not be imported',
+            importFailed: 'Failed to import the canvas file',
+        },
+        kanban: {
+            noValue: 'No value',
+            incomplete: 'Incomplete',
+            complete: 'Complete',
+            moveToColumn: 'Move to column',
+            moved: 'Moved to "{column}"',
+        },
+        search: {
+            placeholder: 'Search notes',
+            count: '{current}/{total}',
+            noMatches: 'No matches',
+        },
+        views: {
+            group: 'Saved views',
+            sortOrders: {
+                priority: 'Priority',
+                due: 'Due date',
+                created: 'Created date',
+                title: 'Title',
+            },
+            arrange: 'Arrange by {sort}',
+            arranged: 'Arranged {count} notes by {sort}',
+            saved: 'Saved the view "{name}"',
+            switched: 'Switched to the view "{name}"',
+            switchPlaceholder: 'Choose a saved view',
+            noViews: 'No saved views yet',
+            nameModal: {
+                title: 'Save current view',
+                placeholder: 'View name',
+                save: 'Save',
+                cancel: 'Cancel',
+            },
+        },
+        reminder: {
+            due: 'Due {time}: {title}',
+            scheduled: 'Scheduled {time}: {title}',
+            missed: 'You missed {count} more reminders while Obsidian was closed',
+            snooze: 'Snooze {minutes} min',
+            complete: 'Complete',
+            completeFailed: 'Could not complete the note',
+            loadFailed: 'Could not load reminders',
+        },
+        history: {
+            undone: 'Undid {action} ({count})',
+            redone: 'Redid {action} ({count})',
+            nothingToUndo: 'Nothing to undo',
+            nothingToRedo: 'Nothing to redo',
+            failed: 'Could not apply the change. The note may have been modified elsewhere.',
+            actions: {
+                create: 'create',
+                update: 'edit',
+                delete: 'delete',
+                rename: 'rename',
+                move: 'move',
+            },
+        },
+        conflictModal: {
+            title: 'Resolve conflict',
+            description: 'The note "{title}" was changed both in its file and on the canvas. Choose which version to keep.',
+            fileVersion: 'File version',
+            canvasVersion: 'Canvas version',
+            mergedVersion: 'Merged result',
+            titleLabel: 'Title',
+            completed: 'Completed',
+            incomplete: 'Incomplete',
+            keepFile: 'Keep file version',
+            keepCanvas: 'Keep canvas version',
+            useMerged: 'Use merged result',
+        },
         common: {
             colors: {
                 yellow: 'Yellow',
@@ -274,8 +785,23 @@ export const translations: Record<Language, Translations> = {
                         incomplete: 'Show incomplete only',
                         complete: 'Show complete only',
                         all: 'Show all',
+                        dueSoon: 'Show notes due within {days} days',
+                        custom: 'Custom (see below)',
                     },
                 },
+                condition: {
+                    name: 'Initial filter conditions (JSON)',
+                    desc: 'Combine conditions with "and", "or" and "not", for example {"type":"and","conditions":[{"type":"completion","status":"incomplete"},{"type":"tag","tag":"work"}]}. Available types: completion, tag, color, size, text, date, priority, has-links. Leave empty to use the filter above',
+                    invalid: 'Invalid filter conditions',
+                },
+            },
+            savedViews: {
+                title: 'Saved Views',
+                desc: 'Views saved from the canvas with "Save current view". They are stored in the plugin settings, so they are shared wherever the settings are synced.',
+                empty: 'No saved views yet',
+                viewport: 'Restores the saved position and zoom',
+                sort: 'Arrange order',
+                delete: 'Delete view',
             },
             rendering: {
                 title: 'Rendering Settings',
@@ -299,6 +825,10 @@ export const translations: Record<Language, Translations> = {
                         periodic: 'Periodic (sync at intervals)',
                     },
                 },
+                syncInterval: {
+                    name: 'Sync interval (seconds)',
+                    desc: 'How often pending changes are written to files in periodic mode',
+                },
                 conflictResolution: {
                     name: 'Conflict handling',
                     desc: 'How to handle when both UI and file are modified',
@@ -309,6 +839,56 @@ export const translations: Record<Language, Translations> = {
                     },
                 },
             },
+            trash: {
+                title: 'Trash',
+                mode: {
+                    name: 'When a note is deleted',
+                    desc: 'Where deleted note files go',
+                    options: {
+                        folder: 'Move to the Postodo trash folder (restorable)',
+                        vault: 'Move to the vault trash (.trash)',
+                        permanent: 'Delete permanently',
+                    },
+                },
+                folder: {
+                    name: 'Trash folder',
+                    desc: 'Folder inside the Postodo folder. Names starting with "." are hidden from the file explorer',
+                },
+                autoPurgeDays: {
+                    name: 'Empty trash after (days)',
+                    desc: 'Notes older than this are deleted permanently. Set to 0 to keep them forever',
+                },
+            },
+            archive: {
+                title: 'Archive',
+                autoArchive: {
+                    name: 'Archive completed notes on startup',
+                    desc: 'Move completed notes into the archive folder when Obsidian starts',
+                },
+                afterDays: {
+                    name: 'Archive after (days)',
+                    desc: 'Completed notes are archived once this many days have passed since completion',
+                },
+                folder: {
+                    name: 'Archive folder',
+                    desc: 'Folder inside the Postodo folder. Notes are sorted into YYYY-MM subfolders by completion month',
+                },
+            },
+            reminders: {
+                title: 'Reminders',
+                enabled: {
+                    name: 'Enable reminders',
+                    desc: 'Show a notice when a note reaches its due (📅) or scheduled (⏳) date. Add a time such as "📅 2026-10-20 14:00" to be reminded at that time',
+                },
+                defaultTime: {
+                    name: 'Default reminder time',
+                    desc: 'Time (HH:mm) used for dates without a time',
+                },
+                snoozeMinutes: {
+                    name: 'Snooze (minutes)',
+                    desc: 'How long to wait before reminding again after snoozing',
+                },
+            },
             ui: {
                 title: 'Appearance',
                 showGrid: {
@@ -317,7 +897,36 @@ export const translations: Record<Language, Translations> = {
                 },
                 snapToGrid: {
                     name: 'Snap to grid',
-                    desc: 'Align notes to grid when dragging',
+                    desc: 'Align notes to grid when dragging or creating them (hold Alt to place freely)',
+                },
+                gridSize: {
+                    name: 'Grid size',
+                    desc: 'Spacing of the grid lines in pixels',
+                },
+                dueSoonDays: {
+                    name: 'Due soon (days)',
+                    desc: 'The "due soon" filter shows incomplete notes due within this many days, including overdue ones',
+                },
+                layout: {
+                    name: 'Layout',
+                    desc: 'Place notes freely on the canvas, or stack them in kanban columns. Positions on the canvas are kept while the kanban is shown',
+                    canvas: 'Canvas',
+                    kanban: 'Kanban',
+                },
+                kanbanSource: {
+                    name: 'Kanban columns by',
+                    desc: 'What decides the column of a note. Dragging a note to another column rewrites this value',
+                    completion: 'Completion',
+                    tag: 'Tag',
+                    field: 'Frontmatter field',
+                },
+                kanbanField: {
+                    name: 'Kanban field',
+                    desc: 'Frontmatter field used for the columns (for example status)',
+                },
+                kanbanColumns: {
+                    name: 'Kanban columns',
+                    desc: 'Tags or field values shown as columns, separated by commas. Tags cannot contain spaces',
                 },
             },
             noteDefaults: {
@@ -384,6 +993,204 @@ export const translations: Record<Language, Translations> = {
             complete: '完了済み',
             incomplete: '未完了',
         },
+        sync: {
+            pendingChanges: '未同期 {count}件',
+            pendingTooltip: 'クリックして保留中の変更をファイルに書き込む',
+            synced: '{count}件の付箋を同期しました',
+            nothingToSync: '保留中の変更はありません',
+            failed: '{count}件の付箋の同期に失敗しました',
+        },
+        viewport: {
+            zoomIn: '拡大',
+            zoomOut: '縮小',
+            resetZoom: '倍率をリセット',
+            zoomToFit: '全体を表示',
+        },
+        bulkActions: {
+            selectedCount: '{count}件の付箋を選択中',
+            moveToFolder: 'フォルダに移動...',
+            copyFilenames: 'ファイル名をコピー',
+            colorChanged: '{count}件の付箋の色を変更しました',
+            sizeChanged: '{count}件の付箋のサイズを変更しました',
+            markedComplete: '{count}件の付箋を完了にしました',
+            markedIncomplete: '{count}件の付箋を未完了にしました',
+            deleted: '{count}件の付箋を削除しました',
+            moved: '{count}件の付箋を{folder}に移動しました',
+            filenamesCopied: '{count}件のファイル名をコピーしました',
+            partialFailure: '{message}（{failed}件は失敗しました）',
+        },
+        moveModal: {
+            title: '付箋をフォルダに移動',
+            description: '{count}件の付箋を「{root}」内のフォルダに移動します。',
+            placeholder: 'フォルダ名',
+            move: '移動',
+            cancel: 'キャンセル',
+        },
+        trash: {
+            title: 'ゴミ箱',
+            open: 'ゴミ箱を表示',
+            empty: 'ゴミ箱は空です',
+            restore: '復元',
+            purge: '完全に削除',
+            emptyTrash: 'ゴミ箱を空にする',
+            deletedAt: '{date}に削除',
+            restored: '「{title}」を復元しました',
+            purged: '「{title}」を完全に削除しました',
+            emptied: '{count}件の付箋を完全に削除しました',
+            restoreFailed: '付箋を復元できませんでした。元のパスに既にファイルがある可能性があります',
+            purgeFailed: '付箋を完全に削除できませんでした',
+            notInFolderMode: '削除した付箋はここに保管されません。復元するには設定でPostodoのゴミ箱フォルダを選択してください',
+            confirmEmptyMessage: 'ゴミ箱内の{count}件の付箋を完全に削除しますか？この操作は元に戻せません',
+            cancel: 'キャンセル',
+        },
+        archive: {
+            showArchived: 'アーカイブを表示',
+            archived: '完了した付箋を{count}件アーカイブしました',
+            nothingToArchive: 'アーカイブする完了済みの付箋はありません',
+            failed: '{count}件の付箋のアーカイブに失敗しました',
+            error: '完了した付箋をアーカイブできませんでした',
+        },
+        due: {
+            overdue: '期限切れ',
+            today: '今日',
+            overdueTooltip: '期日（{date}）を{days}日過ぎています',
+            todayTooltip: '今日が期日または予定日です',
+        },
+        filter: {
+            conditionActive: 'カスタム条件 ✕',
+            clearCondition: 'カスタム条件を解除',
+            savedAsDefault: '現在のフィルターを初期フィルターとして保存しました',
+        },
+        priority: {
+            filter: '優先度フィルター',
+            options: {
+                all: 'すべての優先度',
+                normal: '通常以上',
+                high: '高以上',
+                highest: '最高のみ',
+            },
+            levels: {
+                highest: '最高',
+                high: '高',
+                normal: '通常',
+                low: '低',
+            },
+            tooltip: '優先度: {level}',
+        },
+        boards: {
+            label: 'ボード',
+            allNotes: 'すべての付箋',
+            menu: 'ボードの操作',
+            newBoard: '新しいボード',
+            renameBoard: 'ボードの名前を変更',
+            deleteBoard: 'ボードを削除',
+            deleteConfirmTitle: 'ボードを削除',
+            deleteConfirmMessage: 'ボード「{name}」を削除しますか？付箋はVaultと他のボードに残ります。',
+            cancel: 'キャンセル',
+            delete: '削除',
+            created: 'ボード「{name}」を作成しました',
+            switched: 'ボード「{name}」に切り替えました',
+            switchPlaceholder: 'ボードを選択',
+            addToBoard: 'ボードに追加',
+            removeFromBoard: 'このボードから外す',
+            added: '{count}件の付箋を「{name}」に追加しました',
+            removed: '{count}件の付箋をこのボードから外しました',
+            groupNotes: 'グループにまとめる',
+            ungroupNotes: 'グループを解除',
+            grouped: '{count}件の付箋をグループにまとめました',
+            ungrouped: 'グループを解除しました',
+            layoutLoadFailed: 'キャンバスファイルを読み込めませんでした。修正するまで付箋の位置は保存されません。',
+            nameModal: {
+                title: '新しいボード',
+                placeholder: 'ボードの名前',
+                save: '作成',
+                cancel: 'キャンセル',
+            },
+            renameModal: {
+                title: 'ボードの名前を変更',
+                placeholder: 'ボードの名前',
+                save: '変更',
+                cancel: 'キャンセル',
+            },
+        },
+        jsonCanvas: {
+            exported: '{count}件の付箋を{path}に書き出しました',
+            exportFailed: 'ボードを書き出せませんでした',
+            importPlaceholder: '読み込むキャンバスファイルを選択',
+            noCanvasFiles: 'Vaultにキャンバスファイルがありません',
+            imported: '{created}件の付箋を作成し、{placed}件の既存の付箋を配置しました',
+            skipped: '{count}件のノードは読み込めませんでした',
+            importFailed: 'キャンバスファイルを読み込めませんでした',
+        },
+        kanban: {
+            noValue: '値なし',
+            incomplete: '未完了',
+            complete: '完了',
+            moveToColumn: '列に移動',
+            moved: '「{column}」に移動しました',
+        },
+        search: {
+            placeholder: '付箋を検索',
+            count: '{current}/{total}',
+            noMatches: '一致なし',
+        },
+        views: {
+            group: '保存した表示',
+            sortOrders: {
+                priority: '優先度',
+                due: '期日',
+                created: '作成日',
+                title: 'タイトル',
+            },
+            arrange: '{sort}順に整列',
+            arranged: '{count}件の付箋を{sort}順に整列しました',
+            saved: '表示「{name}」を保存しました',
+            switched: '表示「{name}」に切り替えました',
+            switchPlaceholder: '保存した表示を選択',
+            noViews: '保存した表示はありません',
+            nameModal: {
+                title: '現在の表示を保存',
+                placeholder: '表示の名前',
+                save: '保存',
+                cancel: 'キャンセル',
+            },
+        },
+        reminder: {
+            due: '期日 {time}: {title}',
+            scheduled: '予定日 {time}: {title}',
+            missed: 'Obsidianを閉じている間に他に{count}件のリマインダーがありました',
+            snooze: '{minutes}分後に再通知',
+            complete: '完了',
+            completeFailed: '付箋を完了にできませんでした',
+            loadFailed: 'リマインダーを読み込めませんでした',
+        },
+        history: {
+            undone: '{action}を元に戻しました（{count}件）',
+            redone: '{action}をやり直しました（{count}件）',
+            nothingToUndo: '元に戻す操作がありません',
+            nothingToRedo: 'やり直す操作がありません',
+            failed: '操作を反映できませんでした。付箋が他の場所で変更された可能性があります',
+            actions: {
+                create: '作成',
+                update: '編集',
+                delete: '削除',
+                rename: '名前の変更',
+                move: '移動',
+            },
+        },
+        conflictModal: {
+            title: '競合の解決',
+            description: '付箋「{title}」はファイルとキャンバスの両方で変更されています。残す内容を選択してください。',
+            fileVersion: 'ファイルの内容',
+            canvasVersion: 'キャンバスの内容',
+            mergedVersion: 'マージ結果',
+            titleLabel: 'タイトル',
+            completed: '完了済み',
+            incomplete: '未完了',
+            keepFile: 'ファイルの内容を残す',
+            keepCanvas: 'キャンバスの内容を残す',
+            useMerged: 'マージ結果を使う',
+        },
         common: {
             colors: {
                 yellow: '黄色',
@@ -445,8 +1252,23 @@ export const translations: Record<Language, Translations> = {
                         incomplete: '未完了のみ表示',
                         complete: '完了済みのみ表示',
                         all: 'すべて表示',
+                        dueSoon: '期日が{days}日以内のもののみ表示',
+                        custom: 'カスタム（下記の条件）',
                     },
                 },
+                condition: {
+                    name: '初期フィルターの条件（JSON）',
+                    desc: '条件を"and"・"or"・"not"で組み合わせます。例: {"type":"and","conditions":[{"type":"completion","status":"incomplete"},{"type":"tag","tag":"work"}]}。使用できる種類: completion、tag、color、size、text、date、priority、has-links。空の場合は上のフィルターを使用します',
+                    invalid: 'フィルターの条件が正しくありません',
+                },
+            },
+            savedViews: {
+                title: '保存した表示',
+                desc: 'キャンバスで「現在の表示を保存」した表示です。プラグインの設定に保存されるため、設定を同期している環境で共有されます。',
+                empty: '保存した表示はありません',
+                viewport: '保存した表示位置とズームに移動します',
+                sort: '整列の並び順',
+                delete: '表示を削除',
             },
             rendering: {
                 title: '描画設定',
@@ -470,6 +1292,10 @@ export const translations: Record<Language, Translations> = {
                         periodic: '定期的（一定間隔で同期）',
                     },
                 },
+                syncInterval: {
+                    name: '同期間隔（秒）',
+                    desc: '定期同期で保留中の変更をファイルに書き込む間隔',
+                },
                 conflictResolution: {
                     name: '競合時の処理',
                     desc: 'UIとファイルの両方が変更された場合の処理方法',
@@ -480,6 +1306,56 @@ export const translations: Record<Language, Translations> = {
                     },
                 },
             },
+            trash: {
+                title: 'ゴミ箱',
+                mode: {
+                    name: '付箋を削除した時の動作',
+                    desc: '削除した付箋のファイルの移動先',
+                    options: {
+                        folder: 'Postodoのゴミ箱フォルダに移動（復元可能）',
+                        vault: 'Vaultのゴミ箱（.trash）に移動',
+                        permanent: '完全に削除',
+                    },
+                },
+                folder: {
+                    name: 'ゴミ箱フォルダ',
+                    desc: 'Postodoフォルダ内のフォルダ名。「.」で始まる名前はファイルエクスプローラーに表示されません',
+                },
+                autoPurgeDays: {
+                    name: '自動で完全に削除するまでの日数',
+                    desc: 'この日数を過ぎた付箋は完全に削除されます。0にすると自動削除しません',
+                },
+            },
+            archive: {
+                title: 'アーカイブ',
+                autoArchive: {
+                    name: '起動時に完了した付箋をアーカイブ',
+                    desc: 'Obsidianの起動時に完了した付箋をアーカイブフォルダに移動します',
+                },
+                afterDays: {
+                    name: 'アーカイブするまでの日数',
+                    desc: '完了してからこの日数が過ぎた付箋をアーカイブします',
+                },
+                folder: {
+                    name: 'アーカイブフォルダ',
+                    desc: 'Postodoフォルダ内のフォルダ名。付箋は完了した月ごとにYYYY-MMのサブフォルダに分けられます',
+                },
+            },
+            reminders: {
+                title: 'リマインダー',
+                enabled: {
+                    name: 'リマインダーを有効にする',
+                    desc: '付箋の期日（📅）や予定日（⏳）になったら通知します。「📅 2026-10-20 14:00」のように時刻を書くとその時刻に通知します',
+                },
+                defaultTime: {
+                    name: '既定の通知時刻',
+                    desc: '時刻のない日付を通知する時刻（HH:mm）',
+                },
+                snoozeMinutes: {
+                    name: 'スヌーズ（分）',
+                    desc: 'スヌーズしてからもう一度通知するまでの時間',
+                },
+            },
             ui: {
                 title: '外観設定',
                 showGrid: {
@@ -488,7 +1364,36 @@ export const translations: Record<Language, Translations> = {
                 },
                 snapToGrid: {
                     name: 'グリッドに吸着',
-                    desc: '付箋をドラッグ時にグリッドに合わせて配置します',
+                    desc: '付箋のドラッグ時や作成時にグリッドに合わせて配置します（Altキーを押している間は自由に配置）',
+                },
+                gridSize: {
+                    name: 'グリッドサイズ',
+                    desc: 'グリッド線の間隔（ピクセル）',
+                },
+                dueSoonDays: {
+                    name: '期日が近いとみなす日数',
+                    desc: '「期日が近い」フィルターでは、期日がこの日数以内（期限切れを含む）の未完了の付箋を表示します',
+                },
+                layout: {
+                    name: '表示方法',
+                    desc: '付箋をキャンバスに自由に配置するか、カンバンの列に積み重ねて表示します。カンバンの表示中もキャンバスでの位置は保持されます',
+                    canvas: 'キャンバス',
+                    kanban: 'カンバン',
+                },
+                kanbanSource: {
+                    name: 'カンバンの列',
+                    desc: '付箋の列を決める値です。付箋を別の列にドラッグすると、この値を書き換えます',
+                    completion: '完了状態',
+                    tag: 'タグ',
+                    field: 'フロントマターの項目',
+                },
+                kanbanField: {
+                    name: 'カンバンの項目',
+                    desc: '列に分けるフロントマターの項目名（例: status）',
+                },
+                kanbanColumns: {
+                    name: 'カンバンの列の値',
+                    desc: '列として表示するタグまたは項目の値をカンマ区切りで指定します。タグには空白を含められません',
                 },
             },
             noteDefaults: {
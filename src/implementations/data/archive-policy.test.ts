@@ -0,0 +1,159 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { ArchivePolicy, getMonthlyArchiveFolder, resolveArchiveFolder, selectNotesToArchive } from './archive-policy';
+import { isInFolder } from '../../utils/path-utils';
+import { EventBus } from '../../core/event-bus';
+import { ConfigProvider } from '../../providers/config-provider';
+import { INoteRepository } from '../../interfaces/data/i-note-repository';
+import { StickyNote, Result } from '../../types/core-types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createNote(id: string, completed: boolean, modified: number, filePath = `Postodo/${id}.md`): StickyNote {
+    return {
+        id,
+        filePath,
+        title: id,
+        content: 'content',
+        position: { x: 0, y: 0, zIndex: 1 },
+        dimensions: { width: 200, height: 180 },
+        appearance: { color: 'yellow', size: 'medium', rotation: 0 },
+        completed,
+        metadata: { created: '', modified: new Date(modified).toISOString(), tags: [], links: [], attachments: [] }
+    } as StickyNote;
+}
+
+/**
+ * アーカイブ先のパス計算と対象の選択のテスト
+ */
+describe('archive selection', () => {
+    /**
+     * 完了した月のサブフォルダはアーカイブフォルダ内のYYYY-MM形式になる
+     */
+    it('should place notes into a YYYY-MM subfolder of the archive folder', () => {
+        fc.assert(
+            fc.property(fc.integer({ min: 0, max: 4102444800000 }), (time) => {
+                const archiveFolder = resolveArchiveFolder('Postodo', 'Archive');
+                const date = new Date(time);
+                const folder = getMonthlyArchiveFolder(archiveFolder, date);
+
+                expect(isInFolder(folder, archiveFolder)).toBe(true);
+                const month = folder.substring(archiveFolder.length + 1);
+                expect(month).toMatch(/^\d{4}-\d{2}$/);
+                expect(Number(month.slice(0, 4))).toBe(date.getFullYear());
+                expect(Number(month.slice(5))).toBe(date.getMonth() + 1);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * フォルダ指定の前後の区切り文字は無視し、空の場合は既定のフォルダを使う
+     */
+    it('should normalize the configured archive folder', () => {
+        expect(resolveArchiveFolder('Postodo', '/Done/')).toBe('Postodo/Done');
+        expect(resolveArchiveFolder('Postodo', '')).toBe('Postodo/Archive');
+        expect(resolveArchiveFolder('Postodo', undefined)).toBe('Postodo/Archive');
+    });
+
+    /**
+     * 完了してから指定日数が過ぎた付箋だけが選ばれ、未完了やアーカイブ済みの付箋は選ばれない
+     */
+    it('should select only notes completed long enough ago', () => {
+        fc.assert(
+            fc.property(
+                fc.array(fc.record({ completed: fc.boolean(), age: fc.integer({ min: 0, max: 100 }), archived: fc.boolean() }), { maxLength: 10 }),
+                fc.integer({ min: 0, max: 60 }),
+                (specs, days) => {
+                    const now = 200 * DAY_MS;
+                    const notes = specs.map((spec, i) => createNote(
+                        `note-${i}`,
+                        spec.completed,
+                        now - spec.age * DAY_MS,
+                        spec.archived ? `Postodo/Archive/2020-01/note-${i}.md` : `Postodo/note-${i}.md`
+                    ));
+
+                    const selected = selectNotesToArchive(notes, days, now, 'Postodo/Archive');
+
+                    const expected = notes.filter((_, i) => specs[i].completed && !specs[i].archived && specs[i].age >= days);
+                    expect(selected).toEqual(expected);
+                }
+            ),
+            { numRuns: 100 }
+        );
+    });
+});
+
+/**
+ * ArchivePolicyのテスト
+ */
+describe('ArchivePolicy', () => {
+    const createRepository = (notes: StickyNote[], failingIds: string[] = []) => ({
+        findAll: vi.fn(async (): Promise<Result<StickyNote[]>> => ({ success: true, data: notes })),
+        move: vi.fn(async (id: string, folder: string): Promise<Result<StickyNote>> => {
+            if (failingIds.includes(id)) {
+                return { success: false, error: new Error('move failed') };
+            }
+            const note = notes.find(n => n.id === id)!;
+            return { success: true, data: { ...note, filePath: `${folder}/${id}.md` } };
+        })
+    });
+
+    const createConfig = () => new ConfigProvider({ postodoFolder: 'Postodo', archive: { autoArchive: false, afterDays: 7, folder: 'Archive' } } as any);
+
+    /**
+     * 対象の付箋を完了した月のフォルダに移動し、アーカイブを通知する
+     */
+    it('should move notes into monthly folders and emit an event', async () => {
+        const now = new Date(2025, 5, 20).getTime();
+        const completedAt = new Date(2025, 4, 3).getTime();
+        const notes = [
+            createNote('old', true, completedAt),
+            createNote('recent', true, now - DAY_MS),
+            createNote('open', false, completedAt)
+        ];
+        const repository = createRepository(notes);
+        const eventBus = new EventBus();
+        const listener = vi.fn();
+        eventBus.on('notes-archived', listener);
+        const policy = new ArchivePolicy(repository as unknown as INoteRepository, eventBus, createConfig());
+
+        const result = await policy.run(now);
+
+        expect(result).toEqual({ success: true, data: { archivedIds: ['old'], failed: 0 } });
+        expect(repository.move).toHaveBeenCalledTimes(1);
+        expect(repository.move).toHaveBeenCalledWith('old', 'Postodo/Archive/2025-05');
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener.mock.calls[0][0]).toEqual({ noteIds: ['old'] });
+    });
+
+    /**
+     * 移動に失敗した付箋があっても残りの付箋はアーカイブする
+     */
+    it('should continue archiving when a note fails to move', async () => {
+        const now = 100 * DAY_MS;
+        const notes = [createNote('a', true, DAY_MS), createNote('b', true, DAY_MS)];
+        const repository = createRepository(notes, ['a']);
+        const policy = new ArchivePolicy(repository as unknown as INoteRepository, new EventBus(), createConfig());
+
+        const result = await policy.run(now);
+
+        expect(result).toEqual({ success: true, data: { archivedIds: ['b'], failed: 1 } });
+    });
+
+    /**
+     * 対象の付箋がない場合は通知しない
+     */
+    it('should not emit an event when nothing is archived', async () => {
+        const repository = createRepository([createNote('open', false, 0)]);
+        const eventBus = new EventBus();
+        const listener = vi.fn();
+        eventBus.on('notes-archived', listener);
+        const policy = new ArchivePolicy(repository as unknown as INoteRepository, eventBus, createConfig());
+
+        const result = await policy.run(100 * DAY_MS);
+
+        expect(result).toEqual({ success: true, data: { archivedIds: [], failed: 0 } });
+        expect(listener).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,104 @@
+import { IArchivePolicy, ArchiveResult } from '../../interfaces/data/i-archive-policy';
+import { INoteRepository } from '../../interfaces/data/i-note-repository';
+import { StickyNote, Result } from '../../types/core-types';
+import { IEventBus } from '../../core/event-bus';
+import { ConfigProvider } from '../../providers/config-provider';
+import { isInFolder, normalizeFolderPath } from '../../utils/path-utils';
+
+export const DEFAULT_ARCHIVE_FOLDER = 'Archive';
+export const DEFAULT_ARCHIVE_AFTER_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * アーカイブフォルダのパスを返す（Postodoフォルダからの相対パスとして扱う）
+ */
+export function resolveArchiveFolder(postodoFolder: string, folder: string | undefined): string {
+    return `${postodoFolder}/${normalizeFolderPath(folder) || DEFAULT_ARCHIVE_FOLDER}`;
+}
+
+/**
+ * 完了した月のサブフォルダ（YYYY-MM）のパスを返す
+ */
+export function getMonthlyArchiveFolder(archiveFolder: string, completedAt: Date): string {
+    const year = completedAt.getFullYear();
+    const month = String(completedAt.getMonth() + 1).padStart(2, '0');
+    return `${archiveFolder}/${year}-${month}`;
+}
+
+/**
+ * 付箋が完了した日時を返す
+ * 完了日時が記録されていない付箋（完了日時の記録に対応する前に完了したもの）は最終更新日時を完了日時とみなす
+ */
+export function getCompletedAt(note: StickyNote): Date | null {
+    if (!note.completed) return null;
+    const time = Date.parse(note.completedAt || note.metadata.modified);
+    return Number.isFinite(time) ? new Date(time) : null;
+}
+
+/**
+ * 完了してから指定日数が過ぎた、まだアーカイブされていない付箋を返す
+ */
+export function selectNotesToArchive(
+    notes: StickyNote[],
+    afterDays: number,
+    now: number,
+    archiveFolder: string
+): StickyNote[] {
+    const threshold = now - Math.max(0, afterDays) * DAY_MS;
+    return notes.filter(note => {
+        if (isInFolder(note.filePath, archiveFolder)) return false;
+        const completedAt = getCompletedAt(note);
+        return completedAt !== null && completedAt.getTime() <= threshold;
+    });
+}
+
+/**
+ * アーカイブポリシーの実装
+ * ファイルはフロントマターを含めてそのまま移動する
+ */
+export class ArchivePolicy implements IArchivePolicy {
+    constructor(
+        private noteRepository: INoteRepository,
+        private eventBus: IEventBus,
+        private configProvider?: ConfigProvider
+    ) {}
+
+    getArchiveFolder(): string {
+        const postodoFolder = this.configProvider?.get<string>('postodoFolder') || 'Postodo';
+        return resolveArchiveFolder(postodoFolder, this.configProvider?.get<string>('archive.folder'));
+    }
+
+    async run(now = Date.now()): Promise<Result<ArchiveResult>> {
+        try {
+            const notesResult = await this.noteRepository.findAll();
+            if (!notesResult.success) {
+                return { success: false, error: notesResult.error };
+            }
+
+            const afterDays = this.configProvider?.get<number>('archive.afterDays') ?? DEFAULT_ARCHIVE_AFTER_DAYS;
+            const archiveFolder = this.getArchiveFolder();
+            const targets = selectNotesToArchive(notesResult.data, afterDays, now, archiveFolder);
+
+            const archivedIds: string[] = [];
+            let failed = 0;
+            for (const note of targets) {
+                const folder = getMonthlyArchiveFolder(archiveFolder, getCompletedAt(note)!);
+                const result = await this.noteRepository.move(note.id, folder);
+                if (result.success) {
+                    archivedIds.push(note.id);
+                } else {
+                    console.warn(`Failed to archive note ${note.id}:`, result.error);
+                    failed++;
+                }
+            }
+
+            if (archivedIds.length > 0) {
+                this.eventBus.emit('notes-archived', { noteIds: archivedIds });
+            }
+            return { success: true, data: { archivedIds, failed } };
+        } catch (error) {
+            return { success: false, error: error as Error };
+        }
+    }
+}
@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import { BoardManager, DEFAULT_BOARD_ID } from './board-manager';
+import { HistoryManager } from './history-manager';
+import { EventBus } from '../../core/event-bus';
+import { PersistentStore } from '../../core/persistent-store';
+import { StickyNote, Board, NoteGroup, Position } from '../../types/core-types';
+
+function createNote(id: string, x = 0, y = 0): StickyNote {
+    return {
+        id,
+        filePath: `Postodo/${id}.md`,
+        title: id,
+        content: id,
+        position: { x, y, zIndex: 1 },
+        dimensions: { width: 200, height: 180 },
+        appearance: { color: 'yellow', size: 'medium', rotation: 0 },
+        completed: false,
+        metadata: { created: '', modified: '', tags: [], links: [], attachments: [] }
+    } as StickyNote;
+}
+
+/**
+ * BoardManagerのテスト
+ */
+describe('BoardManager', () => {
+    let eventBus: EventBus;
+    let store: PersistentStore<Board>;
+    let history: HistoryManager;
+    let manager: BoardManager;
+
+    beforeEach(() => {
+        eventBus = new EventBus();
+        store = new PersistentStore<Board>(undefined, vi.fn().mockResolvedValue(undefined));
+        history = new HistoryManager();
+        manager = new BoardManager(store, eventBus, history);
+    });
+
+    /**
+     * ボードの作成・名前の変更・削除ができ、空や重複する名前は受け付けない
+     */
+    it('should create, rename and delete boards', async () => {
+        const changed = vi.fn();
+        eventBus.on('boards-changed', changed);
+
+        const created = await manager.createBoard(' Sprint ');
+        expect(created.success).toBe(true);
+        if (!created.success) return;
+        expect(created.data.name).toBe('Sprint');
+
+        expect((await manager.createBoard('Sprint')).success).toBe(false);
+        expect((await manager.createBoard('  ')).success).toBe(false);
+
+        const other = await manager.createBoard('Backlog');
+        expect(other.success).toBe(true);
+        expect((await manager.renameBoard(created.data.id, 'Backlog')).success).toBe(false);
+        expect((await manager.renameBoard(created.data.id, 'Sprint 2')).success).toBe(true);
+        expect(manager.getBoard(created.data.id)?.name).toBe('Sprint 2');
+
+        expect((await manager.deleteBoard(created.data.id)).success).toBe(true);
+        expect((await manager.deleteBoard(created.data.id)).success).toBe(false);
+        expect(manager.getBoards().map(board => board.name)).toEqual(['Backlog']);
+        expect(changed).toHaveBeenCalledTimes(4);
+    });
+
+    /**
+     * 同じ付箋を複数のボードに別々の位置で置くことができ、付箋のファイルの位置は変わらない
+     */
+    it('should keep separate positions for the same note on each board', async () => {
+        await fc.assert(
+            fc.asyncProperty(
+                fc.integer({ min: -1000, max: 1000 }),
+                fc.integer({ min: -1000, max: 1000 }),
+                async (x, y) => {
+                    const local = new BoardManager(new PersistentStore<Board>(undefined, vi.fn().mockResolvedValue(undefined)), new EventBus());
+                    const a = await local.createBoard('A');
+                    const b = await local.createBoard('B');
+                    if (!a.success || !b.success) throw new Error('failed to create boards');
+                    const note = createNote('n1', 10, 20);
+
+                    await local.addNotes(a.data.id, [{ id: note.id, position: note.position }]);
+                    await local.addNotes(b.data.id, [{ id: note.id, position: note.position }]);
+                    await local.setPositions(b.data.id, [{ id: note.id, position: { x, y, zIndex: 1 } }]);
+
+                    expect(local.placeNotes(a.data.id, [note])[0].position).toEqual({ x: 10, y: 20, zIndex: 1 });
+                    expect(local.placeNotes(b.data.id, [note])[0].position).toEqual({ x, y, zIndex: 1 });
+                    expect(note.position).toEqual({ x: 10, y: 20, zIndex: 1 });
+                }
+            ),
+            { numRuns: 50 }
+        );
+    });
+
+    /**
+     * 追加済みの付箋の位置は上書きせず、外した付箋はボードに表示されない
+     */
+    it('should add and remove notes', async () => {
+        const notesChanged = vi.fn();
+        eventBus.on('board-notes-changed', notesChanged);
+        const created = await manager.createBoard('Sprint');
+        if (!created.success) throw created.error;
+        const boardId = created.data.id;
+        const notes = [createNote('n1'), createNote('n2'), createNote('n3')];
+
+        await manager.addNotes(boardId, [{ id: 'n1', position: { x: 1, y: 1, zIndex: 1 } }]);
+        await manager.addNotes(boardId, [
+            { id: 'n1', position: { x: 99, y: 99, zIndex: 1 } },
+            { id: 'n2', position: { x: 2, y: 2, zIndex: 1 } }
+        ]);
+        expect(manager.placeNotes(boardId, notes).map(note => [note.id, note.position.x])).toEqual([['n1', 1], ['n2', 2]]);
+
+        await manager.removeNotes(boardId, ['n1']);
+        expect(manager.placeNotes(boardId, notes).map(note => note.id)).toEqual(['n2']);
+        expect(notesChanged).toHaveBeenCalledTimes(3);
+        expect((await manager.addNotes('missing', [])).success).toBe(false);
+    });
+
+    /**
+     * ボード上の移動は操作履歴で元に戻せ、ボードに含まれない付箋は移動しない
+     */
+    it('should undo and redo position changes', async () => {
+        const positionsChanged = vi.fn();
+        eventBus.on('board-positions-changed', positionsChanged);
+        const created = await manager.createBoard('Sprint');
+        if (!created.success) throw created.error;
+        const boardId = created.data.id;
+        await manager.addNotes(boardId, [{ id: 'n1', position: { x: 0, y: 0, zIndex: 1 } }]);
+
+        await manager.setPositions(boardId, [
+            { id: 'n1', position: { x: 50, y: 60, zIndex: 2 } },
+            { id: 'other', position: { x: 5, y: 5, zIndex: 1 } }
+        ]);
+        expect(manager.getBoard(boardId)?.positions).toEqual({ n1: { x: 50, y: 60, zIndex: 2 } });
+        expect(history.canUndo()).toBe(true);
+
+        await history.undo();
+        expect(manager.getBoard(boardId)?.positions.n1).toEqual({ x: 0, y: 0, zIndex: 1 });
+
+        await history.redo();
+        expect(manager.getBoard(boardId)?.positions.n1).toEqual({ x: 50, y: 60, zIndex: 2 });
+        expect(positionsChanged).toHaveBeenCalledTimes(3);
+        expect(positionsChanged.mock.calls[1][0]).toEqual({
+            boardId,
+            placements: [{ id: 'n1', position: { x: 0, y: 0, zIndex: 1 } }]
+        });
+    });
+
+    /**
+     * 既定のボードでは全ての付箋を表示し、移動した付箋だけを保存した位置にする
+     * 初めての移動を元に戻すと保存した位置を削除し、付箋のファイルの位置に戻す
+     */
+    it('should save positions on the default board without rewriting notes', async () => {
+        const positions = new PersistentStore<Position>(undefined, vi.fn().mockResolvedValue(undefined));
+        const local = new BoardManager(store, eventBus, history, positions);
+        const positionsChanged = vi.fn();
+        eventBus.on('board-positions-changed', positionsChanged);
+        const notes = [createNote('n1', 10, 10), createNote('n2', 20, 20)];
+
+        await local.setPositions(DEFAULT_BOARD_ID, [{ id: 'n1', position: { x: 100, y: 100, zIndex: 2 } }]);
+
+        expect(local.placeNotes(DEFAULT_BOARD_ID, notes).map(note => [note.id, note.position.x])).toEqual([['n1', 100], ['n2', 20]]);
+        expect(notes[0].position.x).toBe(10);
+
+        await history.undo();
+        expect(positions.has('n1')).toBe(false);
+        expect(positionsChanged.mock.calls[1][0]).toEqual({ boardId: DEFAULT_BOARD_ID, placements: [{ id: 'n1', position: undefined }] });
+
+        await history.redo();
+        expect(positions.get('n1')).toEqual({ x: 100, y: 100, zIndex: 2 });
+    });
+
+    /**
+     * 付箋は1つのボードで1つのグループにだけ含まれ、付箋が1つ以下になったグループは解除される
+     */
+    it('should group and ungroup notes on a board', async () => {
+        const groups = new PersistentStore<NoteGroup>(undefined, vi.fn().mockResolvedValue(undefined));
+        const local = new BoardManager(store, eventBus, history, undefined, groups);
+        const groupsChanged = vi.fn();
+        eventBus.on('board-groups-changed', groupsChanged);
+        const notes = [createNote('n1', 0, 0), createNote('n2', 300, 100), createNote('n3', 600, 0)];
+
+        expect((await local.groupNotes(DEFAULT_BOARD_ID, [notes[0]])).success).toBe(false);
+        expect((await local.groupNotes('missing', notes)).success).toBe(false);
+
+        const first = await local.groupNotes(DEFAULT_BOARD_ID, [notes[0], notes[1]]);
+        if (!first.success) throw first.error;
+        expect(first.data.bounds).toEqual({ x: -16, y: -16, width: 532, height: 312 });
+
+        // 別のグループにまとめると元のグループは付箋が1つになるため解除される
+        const second = await local.groupNotes(DEFAULT_BOARD_ID, [notes[1], notes[2]]);
+        if (!second.success) throw second.error;
+        expect(local.getGroups(DEFAULT_BOARD_ID).map(group => group.noteIds)).toEqual([['n2', 'n3']]);
+
+        local.updateGroupBounds(DEFAULT_BOARD_ID, [{ ...notes[1], position: { x: 400, y: 100, zIndex: 1 } }, notes[2]]);
+        expect(local.getGroups(DEFAULT_BOARD_ID)[0].bounds).toEqual({ x: 384, y: -16, width: 432, height: 312 });
+
+        expect((await local.ungroupNotes(DEFAULT_BOARD_ID, ['n3'])).success).toBe(true);
+        expect(local.getGroups(DEFAULT_BOARD_ID)).toEqual([]);
+        expect((await local.ungroupNotes(DEFAULT_BOARD_ID, ['n3'])).success).toBe(false);
+        expect(groupsChanged).toHaveBeenCalledTimes(3);
+    });
+
+    /**
+     * ボードから外した付箋はグループからも外れ、ボードを削除するとそのボードのグループも削除される
+     */
+    it('should drop group membership with the board', async () => {
+        const groups = new PersistentStore<NoteGroup>(undefined, vi.fn().mockResolvedValue(undefined));
+        const local = new BoardManager(store, eventBus, history, undefined, groups);
+        const created = await local.createBoard('Sprint');
+        if (!created.success) throw created.error;
+        const boardId = created.data.id;
+        const notes = [createNote('n1'), createNote('n2'), createNote('n3')];
+        await local.addNotes(boardId, notes.map(note => ({ id: note.id, position: note.position })));
+
+        await local.groupNotes(boardId, notes);
+        await local.groupNotes(DEFAULT_BOARD_ID, notes);
+        await local.removeNotes(boardId, ['n1']);
+        expect(local.getGroups(boardId).map(group => group.noteIds)).toEqual([['n2', 'n3']]);
+
+        await local.deleteBoard(boardId);
+        expect(local.getGroups(boardId)).toEqual([]);
+        expect(local.getGroups(DEFAULT_BOARD_ID)).toHaveLength(1);
+    });
+});
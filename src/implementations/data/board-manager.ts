@@ -0,0 +1,308 @@
+import { IBoardManager, BoardPlacement } from '../../interfaces/data/i-board-manager';
+import { IHistoryManager } from '../../interfaces/data/i-history-manager';
+import { StickyNote, Board, NoteGroup, Position, Result } from '../../types/core-types';
+import { IEventBus } from '../../core/event-bus';
+import { PersistentStore } from '../../core/persistent-store';
+import { ValidationError } from '../../utils/error-handler';
+import { getGroupBounds } from '../../utils/canvas-layout';
+
+// ボードを指定しない表示（Postodoフォルダの全ての付箋をファイルに保存した位置で表示する）
+export const DEFAULT_BOARD_ID = 'default';
+
+/**
+ * 付箋のうちボードに含まれるものを、ボード上の位置に置き換えて返す
+ */
+export function placeNotesOnBoard(board: Board, notes: StickyNote[]): StickyNote[] {
+    return notes
+        .filter(note => board.positions[note.id] !== undefined)
+        .map(note => ({ ...note, position: { ...board.positions[note.id] } }));
+}
+
+/**
+ * ボード管理の実装
+ * ボードと既定のボードでの位置はキャンバスファイルに保存し、付箋の移動は付箋のファイルを書き換えない
+ */
+export class BoardManager implements IBoardManager {
+    /**
+     * @param store 名前付きのボードの保存先
+     * @param defaultPositions 既定のボードで移動した付箋の位置の保存先
+     * @param groups 付箋のグループの保存先
+     */
+    constructor(
+        private store: PersistentStore<Board>,
+        private eventBus: IEventBus,
+        private history?: IHistoryManager,
+        private defaultPositions?: PersistentStore<Position>,
+        private groups?: PersistentStore<NoteGroup>
+    ) {}
+
+    getBoards(): Board[] {
+        return this.store.entries().map(([, board]) => board);
+    }
+
+    getBoard(boardId: string): Board | undefined {
+        return this.store.get(boardId);
+    }
+
+    async createBoard(name: string): Promise<Result<Board>> {
+        const validationError = this.validateName(name);
+        if (validationError) {
+            return { success: false, error: validationError };
+        }
+
+        const board: Board = {
+            id: 'board-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9),
+            name: name.trim(),
+            positions: {}
+        };
+        this.store.set(board.id, board);
+        this.notifyBoardsChanged();
+        return { success: true, data: board };
+    }
+
+    async renameBoard(boardId: string, name: string): Promise<Result<Board>> {
+        const board = this.store.get(boardId);
+        if (!board) {
+            return { success: false, error: new Error(`Board not found: ${boardId}`) };
+        }
+        const validationError = this.validateName(name, boardId);
+        if (validationError) {
+            return { success: false, error: validationError };
+        }
+
+        const renamed = { ...board, name: name.trim() };
+        this.store.set(boardId, renamed);
+        this.notifyBoardsChanged();
+        return { success: true, data: renamed };
+    }
+
+    async deleteBoard(boardId: string): Promise<Result<void>> {
+        if (!this.store.delete(boardId)) {
+            return { success: false, error: new Error(`Board not found: ${boardId}`) };
+        }
+        this.getGroups(boardId).forEach(group => this.groups!.delete(group.id));
+        this.notifyBoardsChanged();
+        return { success: true, data: undefined };
+    }
+
+    async addNotes(boardId: string, placements: BoardPlacement[]): Promise<Result<Board>> {
+        const board = this.store.get(boardId);
+        if (!board) {
+            return { success: false, error: new Error(`Board not found: ${boardId}`) };
+        }
+
+        const positions = { ...board.positions };
+        placements.forEach(({ id, position }) => {
+            if (positions[id] === undefined) {
+                positions[id] = { ...position };
+            }
+        });
+        const updated = { ...board, positions };
+        this.store.set(boardId, updated);
+        this.eventBus.emit('board-notes-changed', { boardId });
+        return { success: true, data: updated };
+    }
+
+    async removeNotes(boardId: string, noteIds: string[]): Promise<Result<Board>> {
+        const board = this.store.get(boardId);
+        if (!board) {
+            return { success: false, error: new Error(`Board not found: ${boardId}`) };
+        }
+
+        const positions = { ...board.positions };
+        noteIds.forEach(id => delete positions[id]);
+        const updated = { ...board, positions };
+        this.store.set(boardId, updated);
+        this.removeFromGroups(boardId, noteIds);
+        this.eventBus.emit('board-notes-changed', { boardId });
+        return { success: true, data: updated };
+    }
+
+    async setPositions(boardId: string, placements: BoardPlacement[]): Promise<Result<void>> {
+        if (boardId === DEFAULT_BOARD_ID && this.defaultPositions) {
+            return this.setDefaultPositions(placements);
+        }
+
+        const board = this.store.get(boardId);
+        if (!board) {
+            return { success: false, error: new Error(`Board not found: ${boardId}`) };
+        }
+
+        // ボードに含まれない付箋は移動しない
+        const moved = placements.filter(({ id }) => board.positions[id] !== undefined);
+        const previous: BoardPlacement[] = moved.map(({ id }) => ({ id, position: { ...board.positions[id] } }));
+        this.writePositions(board, moved);
+
+        if (this.history && !this.history.isApplying && moved.length > 0) {
+            this.history.record({
+                type: 'update',
+                noteCount: moved.length,
+                undo: () => this.restorePositions(boardId, previous),
+                redo: () => this.restorePositions(boardId, moved)
+            });
+        }
+        return { success: true, data: undefined };
+    }
+
+    placeNotes(boardId: string, notes: StickyNote[]): StickyNote[] {
+        if (boardId === DEFAULT_BOARD_ID) {
+            return notes.map(note => {
+                const position = this.defaultPositions?.get(note.id);
+                return position ? { ...note, position: { ...position } } : note;
+            });
+        }
+
+        const board = this.store.get(boardId);
+        return board ? placeNotesOnBoard(board, notes) : [];
+    }
+
+    getGroups(boardId: string): NoteGroup[] {
+        if (!this.groups) return [];
+        return this.groups.entries()
+            .map(([, group]) => group)
+            .filter(group => group.boardId === boardId);
+    }
+
+    async groupNotes(boardId: string, notes: StickyNote[]): Promise<Result<NoteGroup>> {
+        if (!this.groups) {
+            return { success: false, error: new Error('Note groups are not available') };
+        }
+        if (boardId !== DEFAULT_BOARD_ID && !this.store.get(boardId)) {
+            return { success: false, error: new Error(`Board not found: ${boardId}`) };
+        }
+        const bounds = getGroupBounds(notes);
+        if (!bounds || notes.length < 2) {
+            return { success: false, error: new ValidationError('A group needs at least two notes', 'noteIds', notes.length) };
+        }
+
+        const noteIds = notes.map(note => note.id);
+        this.removeFromGroups(boardId, noteIds);
+        const group: NoteGroup = {
+            id: 'group-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9),
+            boardId,
+            noteIds,
+            bounds
+        };
+        this.groups.set(group.id, group);
+        this.eventBus.emit('board-groups-changed', { boardId });
+        return { success: true, data: group };
+    }
+
+    async ungroupNotes(boardId: string, noteIds: string[]): Promise<Result<void>> {
+        const targets = this.getGroups(boardId).filter(group => group.noteIds.some(id => noteIds.includes(id)));
+        if (targets.length === 0) {
+            return { success: false, error: new Error('No group contains the notes') };
+        }
+
+        targets.forEach(group => this.groups!.delete(group.id));
+        this.eventBus.emit('board-groups-changed', { boardId });
+        return { success: true, data: undefined };
+    }
+
+    updateGroupBounds(boardId: string, notes: StickyNote[]): void {
+        this.getGroups(boardId).forEach(group => {
+            const bounds = getGroupBounds(notes.filter(note => group.noteIds.includes(note.id)));
+            if (!bounds) return;
+
+            const current = group.bounds;
+            if (current.x !== bounds.x || current.y !== bounds.y || current.width !== bounds.width || current.height !== bounds.height) {
+                this.groups!.set(group.id, { ...group, bounds });
+            }
+        });
+    }
+
+    /**
+     * 付箋をボード上のグループから外し、付箋が1つ以下になったグループは解除する
+     */
+    private removeFromGroups(boardId: string, noteIds: string[]): void {
+        this.getGroups(boardId).forEach(group => {
+            const remaining = group.noteIds.filter(id => !noteIds.includes(id));
+            if (remaining.length === group.noteIds.length) return;
+
+            if (remaining.length < 2) {
+                this.groups!.delete(group.id);
+            } else {
+                this.groups!.set(group.id, { ...group, noteIds: remaining });
+            }
+        });
+    }
+
+    /**
+     * 既定のボードで付箋を移動する
+     * 移動前の位置がない付箋（付箋のファイルの位置で表示していた付箋）は、元に戻すとファイルの位置に戻す
+     */
+    private async setDefaultPositions(placements: BoardPlacement[]): Promise<Result<void>> {
+        const store = this.defaultPositions!;
+        const previous = placements.map(({ id }) => ({ id, position: store.get(id) }));
+        this.writeDefaultPositions(placements);
+
+        if (this.history && !this.history.isApplying && placements.length > 0) {
+            this.history.record({
+                type: 'update',
+                noteCount: placements.length,
+                undo: async () => {
+                    this.writeDefaultPositions(previous);
+                    return { success: true, data: undefined };
+                },
+                redo: async () => {
+                    this.writeDefaultPositions(placements);
+                    return { success: true, data: undefined };
+                }
+            });
+        }
+        return { success: true, data: undefined };
+    }
+
+    /**
+     * @param placements 位置がundefinedの付箋は保存した位置を削除する
+     */
+    private writeDefaultPositions(placements: { id: string; position?: Position }[]): void {
+        placements.forEach(({ id, position }) => {
+            if (position) {
+                this.defaultPositions!.set(id, { ...position });
+            } else {
+                this.defaultPositions!.delete(id);
+            }
+        });
+        this.eventBus.emit('board-positions-changed', {
+            boardId: DEFAULT_BOARD_ID,
+            placements: placements.map(({ id, position }) => ({ id, position }))
+        });
+    }
+
+    private writePositions(board: Board, placements: BoardPlacement[]): void {
+        const positions: Record<string, Position> = { ...board.positions };
+        placements.forEach(({ id, position }) => {
+            positions[id] = { ...position };
+        });
+        this.store.set(board.id, { ...board, positions });
+        this.eventBus.emit('board-positions-changed', { boardId: board.id, placements });
+    }
+
+    /**
+     * 元に戻す・やり直す時に位置を書き戻す（ボードが削除されている場合は失敗する）
+     */
+    private async restorePositions(boardId: string, placements: BoardPlacement[]): Promise<Result<void>> {
+        const board = this.store.get(boardId);
+        if (!board) {
+            return { success: false, error: new Error(`Board not found: ${boardId}`) };
+        }
+        this.writePositions(board, placements.filter(({ id }) => board.positions[id] !== undefined));
+        return { success: true, data: undefined };
+    }
+
+    private validateName(name: string, boardId?: string): ValidationError | null {
+        const trimmed = name.trim();
+        if (!trimmed) {
+            return new ValidationError('Board name must not be empty', 'boardName', name);
+        }
+        if (this.getBoards().some(board => board.id !== boardId && board.name === trimmed)) {
+            return new ValidationError(`Board already exists: ${trimmed}`, 'boardName', name);
+        }
+        return null;
+    }
+
+    private notifyBoardsChanged(): void {
+        this.eventBus.emit('boards-changed', { boards: this.getBoards() });
+    }
+}
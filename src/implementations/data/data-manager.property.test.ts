@@ -1,9 +1,14 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as fc from 'fast-check';
 import { DataManager } from './data-manager';
-import { NoteRepository } from './note-repository';
+import { NoteRepository, applyNoteUpdate, invertNoteUpdate } from './note-repository';
+import { HistoryManager } from './history-manager';
+import { RecurrenceService } from './recurrence-service';
+import { TrashManager } from './trash-manager';
+import { PersistentStore } from '../../core/persistent-store';
+import { ConfigProvider } from '../../providers/config-provider';
 import { EventBus } from '../../core/event-bus';
-import { StickyNote, CreateNoteOptions, NoteColor, NoteSize, Result } from '../../types/core-types';
+import { StickyNote, CreateNoteOptions, NoteColor, NoteSize, TrashEntry, Result } from '../../types/core-types';
 import { IStorageAdapter } from '../../interfaces/storage/i-storage-adapter';
 
 /**
@@ -1088,3 +1093,469 @@ describe('DataManager - Property 10: 外観変更の永続化', () => {
         );
     });
 });
+
+/**
+ * 複数の付箋の一括更新
+ * グループドラッグ後の位置をまとめて書き込む
+ */
+describe('DataManager - 複数の付箋の一括更新', () => {
+    let storageAdapter: MockStorageAdapter;
+    let eventBus: EventBus;
+    let noteRepository: NoteRepository;
+    let dataManager: DataManager;
+
+    beforeEach(() => {
+        storageAdapter = new MockStorageAdapter();
+        eventBus = new EventBus();
+        noteRepository = new NoteRepository(storageAdapter, eventBus);
+        dataManager = new DataManager(noteRepository, eventBus);
+        // タイムスタンプ形式のファイル名が重複しないよう時刻を進められるようにする
+        vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    /**
+     * 全ての付箋の位置がファイルに書き込まれる
+     */
+    it('should persist every position in the batch', async () => {
+        await fc.assert(
+            fc.asyncProperty(
+                fc.array(fc.tuple(validCreateNoteOptionsArb, validPositionArb), { minLength: 1, maxLength: 5 }),
+                async (entries) => {
+                    storageAdapter.clear();
+
+                    const notes: StickyNote[] = [];
+                    for (const [createOptions] of entries) {
+                        const createResult = await dataManager.createNote(createOptions);
+                        expect(createResult.success).toBe(true);
+                        if (createResult.success) notes.push(createResult.data);
+                        vi.setSystemTime(Date.now() + 1);
+                    }
+
+                    const result = await dataManager.updateNotes(
+                        notes.map((note, i) => ({ id: note.id, options: { position: entries[i][1] } }))
+                    );
+                    expect(result.success).toBe(true);
+
+                    notes.forEach((note, i) => {
+                        const fileContent = storageAdapter.getFiles().get(note.filePath);
+                        expect(fileContent).toContain(`x: ${entries[i][1].x}`);
+                        expect(fileContent).toContain(`y: ${entries[i][1].y}`);
+                    });
+                }
+            ),
+            { numRuns: 20 }
+        );
+    });
+
+    /**
+     * 1件でも検証エラーがあればどの付箋も更新しない
+     */
+    it('should not write any note when one update is invalid', async () => {
+        const first = await dataManager.createNote({ content: 'first', position: { x: 10, y: 10, zIndex: 1 } });
+        vi.setSystemTime(Date.now() + 1);
+        const second = await dataManager.createNote({ content: 'second', position: { x: 20, y: 20, zIndex: 1 } });
+        if (!first.success || !second.success) throw new Error('setup failed');
+
+        const updateListener = vi.fn();
+        eventBus.on('note-updated', updateListener);
+
+        const result = await dataManager.updateNotes([
+            { id: first.data.id, options: { position: { x: 300, y: 300, zIndex: 1 } } },
+            { id: second.data.id, options: { position: { x: -1, y: 20, zIndex: 1 } } }
+        ]);
+
+        expect(result.success).toBe(false);
+        expect(updateListener).not.toHaveBeenCalled();
+        expect(storageAdapter.getFiles().get(first.data.filePath)).toContain('x: 10');
+    });
+});
+
+/**
+ * 付箋のフォルダ移動
+ */
+describe('DataManager - 付箋のフォルダ移動', () => {
+    let storageAdapter: MockStorageAdapter;
+    let eventBus: EventBus;
+    let noteRepository: NoteRepository;
+    let dataManager: DataManager;
+
+    beforeEach(() => {
+        storageAdapter = new MockStorageAdapter();
+        eventBus = new EventBus();
+        noteRepository = new NoteRepository(storageAdapter, eventBus);
+        dataManager = new DataManager(noteRepository, eventBus);
+    });
+
+    /**
+     * ファイル名を保ったまま移動先のフォルダにファイルが移る
+     */
+    it('should move the Note_File into the target folder', async () => {
+        const createResult = await dataManager.createNote({ content: 'move me' });
+        if (!createResult.success) throw new Error('setup failed');
+        const note = createResult.data;
+        const fileName = note.filePath.split('/').pop();
+
+        const result = await dataManager.moveNote(note.id, 'Postodo/Archive/');
+
+        expect(result.success).toBe(true);
+        if (!result.success) return;
+        expect(result.data.filePath).toBe(`Postodo/Archive/${fileName}`);
+        expect(storageAdapter.getFiles().has(note.filePath)).toBe(false);
+        expect(storageAdapter.getFiles().get(result.data.filePath)).toContain('move me');
+    });
+
+    /**
+     * 親フォルダを含むパスへの移動は拒否する
+     */
+    it('should reject folder paths that escape with ..', async () => {
+        const createResult = await dataManager.createNote({ content: 'stay' });
+        if (!createResult.success) throw new Error('setup failed');
+
+        const result = await dataManager.moveNote(createResult.data.id, 'Postodo/../Other');
+
+        expect(result.success).toBe(false);
+        expect(storageAdapter.getFiles().has(createResult.data.filePath)).toBe(true);
+    });
+});
+
+/**
+ * 操作履歴（元に戻す・やり直す）
+ */
+describe('DataManager - 操作履歴', () => {
+    let storageAdapter: MockStorageAdapter;
+    let eventBus: EventBus;
+    let noteRepository: NoteRepository;
+    let history: HistoryManager;
+    let dataManager: DataManager;
+
+    beforeEach(() => {
+        storageAdapter = new MockStorageAdapter();
+        eventBus = new EventBus();
+        noteRepository = new NoteRepository(storageAdapter, eventBus);
+        history = new HistoryManager();
+        dataManager = new DataManager(noteRepository, eventBus, undefined, undefined, undefined, history);
+        vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    /**
+     * 打ち消しの更新を適用すると、更新日時以外は元の付箋に戻る
+     */
+    it('should invert any update back to the original note', () => {
+        fc.assert(
+            fc.property(
+                validCreateNoteOptionsArb,
+                fc.record({
+                    title: validTitleArb,
+                    content: validContentArb,
+                    position: validPositionArb,
+                    appearance: validAppearanceArb.chain(a => fc.subarray(Object.keys(a) as (keyof typeof a)[])
+                        .map(keys => Object.fromEntries(keys.map(key => [key, a[key]])))),
+                    completed: fc.boolean()
+                }, { requiredKeys: [] }),
+                (createOptions, options) => {
+                    const note: StickyNote = {
+                        id: 'note-1',
+                        filePath: 'Postodo/note-1.md',
+                        title: createOptions.title || '',
+                        content: createOptions.content,
+                        position: { x: 10, y: 20, zIndex: 1 },
+                        dimensions: { width: 200, height: 180 },
+                        appearance: { color: 'yellow', size: 'medium', rotation: 0 },
+                        completed: false,
+                        metadata: { created: '2024-01-01T00:00:00.000Z', modified: '2024-01-01T00:00:00.000Z', tags: [], links: [], attachments: [] }
+                    } as StickyNote;
+
+                    const updated = applyNoteUpdate(note, options);
+                    const restored = applyNoteUpdate(updated, invertNoteUpdate(note, options));
+
+                    expect({ ...restored, metadata: note.metadata }).toEqual(note);
+                }
+            ),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 削除を元に戻すとファイルとフロントマターがそのまま復元される
+     */
+    it('should restore the exact Note_File when undoing a delete', async () => {
+        const createResult = await dataManager.createNote({ content: 'restore me', position: { x: 40, y: 50, zIndex: 1 } });
+        if (!createResult.success) throw new Error('setup failed');
+        const note = createResult.data;
+        const originalContent = storageAdapter.getFiles().get(note.filePath);
+
+        await dataManager.deleteNote(note.id);
+        expect(storageAdapter.getFiles().has(note.filePath)).toBe(false);
+
+        const createdListener = vi.fn();
+        eventBus.on('note-created', createdListener);
+
+        const undoResult = await history.undo();
+
+        expect(undoResult.success && undoResult.data?.type).toBe('delete');
+        expect(storageAdapter.getFiles().get(note.filePath)).toBe(originalContent);
+        expect(createdListener.mock.calls[0][0]).toEqual({ note });
+
+        await history.redo();
+        expect(storageAdapter.getFiles().has(note.filePath)).toBe(false);
+    });
+
+    /**
+     * 作成を元に戻すとファイルが削除され、やり直すと復元される
+     */
+    it('should remove and restore a created note', async () => {
+        const createResult = await dataManager.createNote({ content: 'created' });
+        if (!createResult.success) throw new Error('setup failed');
+        const filePath = createResult.data.filePath;
+        const originalContent = storageAdapter.getFiles().get(filePath);
+
+        await history.undo();
+        expect(storageAdapter.getFiles().has(filePath)).toBe(false);
+
+        await history.redo();
+        expect(storageAdapter.getFiles().get(filePath)).toBe(originalContent);
+    });
+
+    /**
+     * 一括更新は1回の操作で元に戻る
+     */
+    it('should undo a batch update as a single entry', async () => {
+        const first = await dataManager.createNote({ content: 'first', position: { x: 10, y: 10, zIndex: 1 } });
+        vi.setSystemTime(Date.now() + 1);
+        const second = await dataManager.createNote({ content: 'second', position: { x: 20, y: 20, zIndex: 1 } });
+        if (!first.success || !second.success) throw new Error('setup failed');
+
+        await dataManager.updateNotes([
+            { id: first.data.id, options: { position: { x: 300, y: 310, zIndex: 1 } } },
+            { id: second.data.id, options: { position: { x: 400, y: 410, zIndex: 1 } } }
+        ]);
+
+        const undoResult = await history.undo();
+
+        expect(undoResult.success && undoResult.data?.noteCount).toBe(2);
+        expect(storageAdapter.getFiles().get(first.data.filePath)).toContain('x: 10');
+        expect(storageAdapter.getFiles().get(second.data.filePath)).toContain('x: 20');
+    });
+
+    /**
+     * 移動を元に戻すと元のパスにファイルが戻る
+     */
+    it('should move the Note_File back when undoing a move', async () => {
+        const createResult = await dataManager.createNote({ content: 'go and return' });
+        if (!createResult.success) throw new Error('setup failed');
+        const note = createResult.data;
+        const originalContent = storageAdapter.getFiles().get(note.filePath);
+
+        const moveResult = await dataManager.moveNote(note.id, 'Postodo/Archive');
+        if (!moveResult.success) throw new Error('move failed');
+
+        await history.undo();
+
+        expect(storageAdapter.getFiles().get(note.filePath)).toBe(originalContent);
+        expect(storageAdapter.getFiles().has(moveResult.data.filePath)).toBe(false);
+
+        const found = await noteRepository.findById(note.id);
+        expect(found.success && found.data?.filePath).toBe(note.filePath);
+    });
+
+    /**
+     * 完了にすると完了日時と履歴を記録して通知し、元に戻すと記録も元に戻る
+     */
+    it('should record completion and restore it when undoing', async () => {
+        const createResult = await dataManager.createNote({ content: 'finish me' });
+        if (!createResult.success) throw new Error('setup failed');
+        const note = createResult.data;
+        const originalContent = storageAdapter.getFiles().get(note.filePath);
+        const completedListener = vi.fn();
+        eventBus.on('note-completed', completedListener);
+
+        vi.setSystemTime(new Date('2025-03-04T05:06:07.000Z'));
+        const updateResult = await dataManager.updateNote(note.id, { completed: true });
+
+        expect(updateResult.success && updateResult.data.completedAt).toBe('2025-03-04T05:06:07.000Z');
+        expect(updateResult.success && updateResult.data.completionHistory).toEqual([
+            { completed: true, at: '2025-03-04T05:06:07.000Z' }
+        ]);
+        expect(storageAdapter.getFiles().get(note.filePath)).toContain('postodo_completed_at: 2025-03-04T05:06:07.000Z');
+        expect(completedListener).toHaveBeenCalledTimes(1);
+        expect(completedListener.mock.calls[0][0]).toEqual({
+            note: updateResult.success && updateResult.data,
+            completedAt: '2025-03-04T05:06:07.000Z'
+        });
+
+        await history.undo();
+        expect(storageAdapter.getFiles().get(note.filePath)).toBe(originalContent);
+
+        await history.redo();
+        expect(completedListener).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * タグとフロントマターの項目を書き込み、元に戻すと位置を変えずに元のファイルに戻る
+     */
+    it('should write tags and frontmatter fields and restore them when undoing', async () => {
+        const createResult = await dataManager.createNote({ content: 'move me', position: { x: 30, y: 40, zIndex: 2 } });
+        if (!createResult.success) throw new Error('setup failed');
+        const note = createResult.data;
+        const originalContent = storageAdapter.getFiles().get(note.filePath);
+
+        const updateResult = await dataManager.updateNote(note.id, {
+            tags: ['postodo', 'doing'],
+            properties: { status: 'doing' }
+        });
+
+        expect(updateResult.success && updateResult.data.metadata.tags).toEqual(['postodo', 'doing']);
+        expect(updateResult.success && updateResult.data.position).toEqual(note.position);
+        const written = storageAdapter.getFiles().get(note.filePath)!;
+        expect(written).toContain('  - doing\n');
+        expect(written).toContain('status: doing\n');
+
+        await history.undo();
+        expect(storageAdapter.getFiles().get(note.filePath)).toBe(originalContent);
+
+        // postodoタグを外す更新は付箋として読み込めなくなるため受け付けない
+        const invalid = await dataManager.updateNote(note.id, { tags: ['doing'] });
+        expect(invalid.success).toBe(false);
+    });
+
+    /**
+     * 繰り返しタスクの完了を取り消して完了し直しても次の付箋は重ねて作成せず、
+     * 次の付箋の作成を元に戻した後に完了し直すと改めて作成する
+     */
+    it('should create the next occurrence only once when a recurring note is completed again', async () => {
+        const recurrence = new RecurrenceService(dataManager, eventBus, history);
+        recurrence.startWatching();
+        vi.setSystemTime(new Date('2025-03-03T09:00:00.000Z'));
+        const createResult = await dataManager.createNote({ content: 'Water plants 🔁 every week 📅 2025-03-03' });
+        if (!createResult.success) throw new Error('setup failed');
+        const note = createResult.data;
+        const countOccurrences = () => storageAdapter.getFiles().size;
+        const getNextId = async () => {
+            const found = await dataManager.getNote(note.id);
+            return found.success ? found.data?.recurrenceNextId : undefined;
+        };
+
+        // 作成する付箋のファイル名が重ならないよう時刻を進める
+        vi.setSystemTime(new Date('2025-03-04T09:00:00.000Z'));
+        await dataManager.updateNote(note.id, { completed: true });
+        await vi.waitFor(async () => expect(await getNextId()).toBeDefined());
+        expect(storageAdapter.getFiles().get(note.filePath)).toContain(`postodo_recurrence_next: ${await getNextId()}`);
+
+        for (let i = 0; i < 2; i++) {
+            await dataManager.updateNote(note.id, { completed: false });
+            await dataManager.updateNote(note.id, { completed: true });
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+        expect(countOccurrences()).toBe(2);
+
+        // 完了の取り消し・完了し直し（4回）の後、次の付箋の作成と記録を1回で元に戻す
+        for (let i = 0; i < 5; i++) {
+            await history.undo();
+        }
+        expect(countOccurrences()).toBe(1);
+        expect(await getNextId()).toBeUndefined();
+
+        vi.setSystemTime(new Date('2025-03-05T09:00:00.000Z'));
+        await dataManager.updateNote(note.id, { completed: false });
+        await dataManager.updateNote(note.id, { completed: true });
+        await vi.waitFor(() => expect(countOccurrences()).toBe(2));
+        recurrence.cleanup();
+    });
+});
+
+/**
+ * ゴミ箱への削除と復元
+ */
+describe('DataManager - ゴミ箱', () => {
+    let storageAdapter: MockStorageAdapter;
+    let eventBus: EventBus;
+    let trashManager: TrashManager;
+    let history: HistoryManager;
+    let dataManager: DataManager;
+
+    beforeEach(() => {
+        storageAdapter = new MockStorageAdapter();
+        eventBus = new EventBus();
+        const configProvider = new ConfigProvider({ postodoFolder: 'Postodo', trash: { mode: 'folder', folder: '.trash', autoPurgeDays: 30 } } as any);
+        trashManager = new TrashManager(
+            storageAdapter,
+            new PersistentStore<TrashEntry>(undefined, vi.fn().mockResolvedValue(undefined)),
+            configProvider
+        );
+        const noteRepository = new NoteRepository(storageAdapter, eventBus, undefined, configProvider, trashManager);
+        history = new HistoryManager();
+        dataManager = new DataManager(noteRepository, eventBus, undefined, undefined, undefined, history);
+    });
+
+    /**
+     * 削除した付箋はゴミ箱フォルダに移り、復元すると元のファイルに戻る
+     */
+    it('should move deleted notes to the trash folder and restore them', async () => {
+        const createResult = await dataManager.createNote({ content: 'trash me' });
+        if (!createResult.success) throw new Error('setup failed');
+        const note = createResult.data;
+        const originalContent = storageAdapter.getFiles().get(note.filePath);
+
+        await dataManager.deleteNote(note.id);
+
+        const entry = trashManager.get(note.id);
+        expect(entry?.originalPath).toBe(note.filePath);
+        expect(storageAdapter.getFiles().has(note.filePath)).toBe(false);
+        expect(storageAdapter.getFiles().get(entry!.trashPath)).toBe(originalContent);
+
+        const restoreResult = await dataManager.restoreFromTrash(note.id);
+
+        expect(restoreResult.success && restoreResult.data.id).toBe(note.id);
+        expect(storageAdapter.getFiles().get(note.filePath)).toBe(originalContent);
+        expect(trashManager.get(note.id)).toBeUndefined();
+    });
+
+    /**
+     * 削除を元に戻すとゴミ箱から復元され、ゴミ箱に記録が残らない
+     */
+    it('should restore from the trash when undoing a delete', async () => {
+        const createResult = await dataManager.createNote({ content: 'undo me' });
+        if (!createResult.success) throw new Error('setup failed');
+        const note = createResult.data;
+
+        await dataManager.deleteNote(note.id);
+        const trashPath = trashManager.get(note.id)!.trashPath;
+
+        await history.undo();
+
+        expect(storageAdapter.getFiles().has(note.filePath)).toBe(true);
+        expect(storageAdapter.getFiles().has(trashPath)).toBe(false);
+        expect(trashManager.getEntries()).toEqual([]);
+    });
+
+    /**
+     * キャッシュにない付箋をIDで探す場合も、ゴミ箱内のファイルは対象にしない
+     */
+    it('should not find trashed notes by id', async () => {
+        const createResult = await dataManager.createNote({ content: 'find me' });
+        if (!createResult.success) throw new Error('setup failed');
+        const note = createResult.data;
+        await dataManager.deleteNote(note.id);
+
+        const vault = {
+            getMarkdownFiles: () => Array.from(storageAdapter.getFiles().keys()).map(path => ({ path })),
+            read: async (file: { path: string }) => storageAdapter.getFiles().get(file.path)!
+        };
+        const configProvider = new ConfigProvider({ postodoFolder: 'Postodo', trash: { mode: 'folder', folder: '.trash', autoPurgeDays: 30 } } as any);
+        const freshRepository = new NoteRepository(storageAdapter, eventBus, vault as any, configProvider, trashManager);
+
+        expect(await freshRepository.findById(note.id)).toEqual({ success: true, data: null });
+
+        await dataManager.restoreFromTrash(note.id);
+        const restored = await new NoteRepository(storageAdapter, eventBus, vault as any, configProvider, trashManager).findById(note.id);
+        expect(restored.success && restored.data?.filePath).toBe(note.filePath);
+    });
+});
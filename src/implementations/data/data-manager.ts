@@ -1,14 +1,19 @@
 import { IDataManager } from '../../interfaces/data/i-data-manager';
 import { INoteRepository } from '../../interfaces/data/i-note-repository';
-import { StickyNote, CreateNoteOptions, UpdateNoteOptions, Result } from '../../types/core-types';
+import { StickyNote, CreateNoteOptions, UpdateNoteOptions, NoteUpdate, NoteFileSnapshot, FindNotesOptions, Result } from '../../types/core-types';
 import { IEventBus } from '../../core/event-bus';
 import { NoteValidator } from '../../utils/validators';
-import { ErrorHandler, ValidationError } from '../../utils/error-handler';
+import { ErrorHandler, ValidationError, SyncError } from '../../utils/error-handler';
 import { ConfigProvider } from '../../providers/config-provider';
 import { INamingStrategy } from '../../interfaces/naming/i-naming-strategy';
 import { NamingStrategyFactory } from '../naming/naming-strategy-factory';
 import { NamingStrategyType, DisplayFilterType } from '../../types/config-types';
 import { IDisplayFilter } from '../../interfaces/ui/i-display-filter';
+import { ISyncManager } from '../../interfaces/sync/i-sync-manager';
+import { IHistoryManager, HistoryCommand } from '../../interfaces/data/i-history-manager';
+import { applyNoteUpdate, invertNoteUpdate } from './note-repository';
+import { applyCompletionChange } from '../../utils/completion';
+import { DEFAULT_DUE_SOON_DAYS, isDueWithin } from '../../utils/due-date';
 
 export class DataManager implements IDataManager {
     private editingNotes = new Set<string>();
@@ -21,7 +26,9 @@ export class DataManager implements IDataManager {
         private noteRepository: INoteRepository,
         private eventBus: IEventBus,
         private configProvider?: ConfigProvider,
-        namingStrategyFactory?: NamingStrategyFactory
+        namingStrategyFactory?: NamingStrategyFactory,
+        private syncManager?: ISyncManager,
+        private history?: IHistoryManager
     ) {
         this.errorHandler = ErrorHandler.getInstance(eventBus);
         this.namingStrategyFactory = namingStrategyFactory || new NamingStrategyFactory();
@@ -96,6 +103,7 @@ export class DataManager implements IDataManager {
             if (result.success) {
                 console.log(`[DEBUG] Note creation successful:`, note.id);
                 this.eventBus.emit('note-created', { note });
+                this.recordCreate(note.id);
                 return { success: true, data: note };
             } else {
                 console.error(`[DEBUG] Note creation failed:`, result.error);
@@ -114,14 +122,8 @@ export class DataManager implements IDataManager {
 
     async updateNote(id: string, options: UpdateNoteOptions): Promise<Result<StickyNote>> {
         try {
-            // IDのバリデーション
-            const idValidation = NoteValidator.validateNoteId(id);
-            if (!idValidation.valid) {
-                const validationError = new ValidationError(
-                    idValidation.error!,
-                    'noteId',
-                    id
-                );
+            const validationError = this.validateUpdate(id, options);
+            if (validationError) {
                 this.errorHandler.handleError(validationError, {
                     component: 'DataManager',
                     action: 'updateNote',
@@ -130,55 +132,80 @@ export class DataManager implements IDataManager {
                 return { success: false, error: validationError };
             }
 
-            // コンテンツのバリデーション（指定されている場合）
-            if (options.content !== undefined) {
-                const contentValidation = NoteValidator.validateContent(options.content);
-                if (!contentValidation.valid) {
-                    const validationError = new ValidationError(
-                        contentValidation.error!,
-                        'content',
-                        options.content
-                    );
-                    this.errorHandler.handleError(validationError, {
-                        component: 'DataManager',
-                        action: 'updateNote',
-                        noteId: id
+            // 元に戻すため、また完了したかどうかを判定するために更新前の状態を記録する
+            const before = this.isRecordingHistory() || options.completed !== undefined
+                ? await this.noteRepository.findById(id)
+                : undefined;
+
+            // SyncManagerがある場合は競合解決とリトライを経由して保存する
+            const result = this.syncManager
+                ? await this.updateThroughSync(id, options)
+                : await this.noteRepository.update(id, options);
+            
+            if (result.success) {
+                this.eventBus.emit('note-updated', { note: result.data, changes: options });
+                this.emitNoteCompleted(before?.success ? before.data : null, result.data);
+                if (this.isRecordingHistory() && before?.success && before.data) {
+                    const inverse = invertNoteUpdate(before.data, options);
+                    this.recordHistory({
+                        type: 'update',
+                        noteCount: 1,
+                        undo: () => this.toVoidResult(this.updateNote(id, inverse)),
+                        redo: () => this.toVoidResult(this.updateNote(id, options))
                     });
-                    return { success: false, error: validationError };
                 }
+                return result;
             }
+            
+            return result;
+        } catch (error) {
+            this.errorHandler.handleError(error as Error, {
+                component: 'DataManager',
+                action: 'updateNote',
+                noteId: id
+            });
+            return { success: false, error: error as Error };
+        }
+    }
 
-            // 位置のバリデーション（指定されている場合）
-            if (options.position) {
-                const positionValidation = NoteValidator.validatePosition(options.position);
-                if (!positionValidation.valid) {
-                    const validationError = new ValidationError(
-                        positionValidation.error!,
-                        'position',
-                        options.position
-                    );
+    /**
+     * 複数の付箋をまとめて更新する
+     * 全ての更新内容を検証してから書き込むため、検証エラー時はどの付箋も更新しない
+     */
+    async updateNotes(updates: NoteUpdate[]): Promise<Result<StickyNote[]>> {
+        try {
+            for (const update of updates) {
+                const validationError = this.validateUpdate(update.id, update.options);
+                if (validationError) {
                     this.errorHandler.handleError(validationError, {
                         component: 'DataManager',
-                        action: 'updateNote',
-                        noteId: id
+                        action: 'updateNotes',
+                        noteId: update.id
                     });
                     return { success: false, error: validationError };
                 }
             }
 
-            const result = await this.noteRepository.update(id, options);
-            
-            if (result.success) {
-                this.eventBus.emit('note-updated', { note: result.data, changes: options });
-                return result;
+            // 一括更新は1回の操作として元に戻せるようにする
+            const runUpdates = () => Promise.all(
+                updates.map(update => this.updateNote(update.id, update.options))
+            );
+            const results = this.history
+                ? await this.history.batch('update', runUpdates)
+                : await runUpdates();
+
+            const notes: StickyNote[] = [];
+            for (const result of results) {
+                if (!result.success) {
+                    return { success: false, error: result.error };
+                }
+                notes.push(result.data);
             }
-            
-            return result;
+            return { success: true, data: notes };
         } catch (error) {
             this.errorHandler.handleError(error as Error, {
                 component: 'DataManager',
-                action: 'updateNote',
-                noteId: id
+                action: 'updateNotes'
             });
             return { success: false, error: error as Error };
         }
@@ -202,11 +229,22 @@ export class DataManager implements IDataManager {
                 return { success: false, error: validationError };
             }
 
+            // 削除を元に戻せるよう、ファイルの内容をそのまま記録しておく
+            const snapshot = this.isRecordingHistory() ? await this.noteRepository.snapshot(id) : undefined;
+
             const result = await this.noteRepository.delete(id);
             
             if (result.success) {
                 this.editingNotes.delete(id);
                 this.eventBus.emit('note-deleted', { id });
+                if (snapshot?.success) {
+                    this.recordHistory({
+                        type: 'delete',
+                        noteCount: 1,
+                        undo: () => this.restoreDeleted(snapshot.data),
+                        redo: () => this.deleteNote(id)
+                    });
+                }
             }
             
             return result;
@@ -253,9 +291,14 @@ export class DataManager implements IDataManager {
                 return { success: false, error: validationError };
             }
 
+            const before = this.isRecordingHistory() ? await this.noteRepository.snapshot(id) : undefined;
+
             const result = await this.noteRepository.rename(id, newTitle);
             
             if (result.success) {
+                if (before?.success) {
+                    await this.recordFileChange('rename', before.data);
+                }
                 this.eventBus.emit('note-renamed', { 
                     note: result.data, 
                     newTitle 
@@ -278,6 +321,192 @@ export class DataManager implements IDataManager {
         }
     }
 
+    /**
+     * 付箋のファイルを別のフォルダに移動する
+     * @param targetFolder 移動先のフォルダパス（Vaultのルートからの相対パス）
+     */
+    async moveNote(id: string, targetFolder: string): Promise<Result<StickyNote>> {
+        try {
+            // IDのバリデーション
+            const idValidation = NoteValidator.validateNoteId(id);
+            if (!idValidation.valid) {
+                const validationError = new ValidationError(
+                    idValidation.error!,
+                    'noteId',
+                    id
+                );
+                this.errorHandler.handleError(validationError, {
+                    component: 'DataManager',
+                    action: 'moveNote',
+                    noteId: id
+                });
+                return { success: false, error: validationError };
+            }
+
+            // フォルダパスのバリデーション（親フォルダへの移動は許可しない）
+            const folder = targetFolder.trim().replace(/^\/+|\/+$/g, '');
+            if (!folder || folder.split('/').some(segment => segment === '' || segment === '.' || segment === '..')) {
+                const validationError = new ValidationError(
+                    'フォルダパスが無効です',
+                    'targetFolder',
+                    targetFolder
+                );
+                this.errorHandler.handleError(validationError, {
+                    component: 'DataManager',
+                    action: 'moveNote',
+                    noteId: id
+                });
+                return { success: false, error: validationError };
+            }
+
+            const before = this.isRecordingHistory() ? await this.noteRepository.snapshot(id) : undefined;
+
+            const result = await this.noteRepository.move(id, folder);
+
+            if (result.success) {
+                if (before?.success) {
+                    await this.recordFileChange('move', before.data);
+                }
+                // ファイルパスの変更をUIに反映
+                this.eventBus.emit('note-updated', { note: result.data, changes: {} });
+            }
+
+            return result;
+        } catch (error) {
+            this.errorHandler.handleError(error as Error, {
+                component: 'DataManager',
+                action: 'moveNote',
+                noteId: id
+            });
+            return { success: false, error: error as Error };
+        }
+    }
+
+    /**
+     * 操作を履歴に記録するかどうか（元に戻す・やり直すの実行中は記録しない）
+     */
+    private isRecordingHistory(): boolean {
+        return !!this.history && !this.history.isApplying;
+    }
+
+    private recordHistory(command: HistoryCommand): void {
+        if (this.isRecordingHistory()) {
+            this.history!.record(command);
+        }
+    }
+
+    /**
+     * 作成を記録する
+     * 元に戻す際に削除前のファイルを記録し、やり直しではその内容を復元する
+     */
+    private recordCreate(id: string): void {
+        let deleted: NoteFileSnapshot | undefined;
+        this.recordHistory({
+            type: 'create',
+            noteCount: 1,
+            undo: async () => {
+                const snapshot = await this.noteRepository.snapshot(id);
+                if (!snapshot.success) {
+                    return { success: false, error: snapshot.error };
+                }
+                deleted = snapshot.data;
+                return this.deleteNote(id);
+            },
+            redo: async () => deleted
+                ? this.restoreDeleted(deleted)
+                : { success: false, error: new Error(`No snapshot to restore: ${id}`) }
+        });
+    }
+
+    /**
+     * リネームや移動のようにファイル自体が変わる操作を、前後のファイルの内容で記録する
+     */
+    private async recordFileChange(type: 'rename' | 'move', before: NoteFileSnapshot): Promise<void> {
+        if (!this.isRecordingHistory()) return;
+
+        const after = await this.noteRepository.snapshot(before.note.id);
+        if (!after.success) return;
+
+        this.recordHistory({
+            type,
+            noteCount: 1,
+            undo: () => this.restoreSnapshot(before, true),
+            redo: () => this.restoreSnapshot(after.data, true)
+        });
+    }
+
+    /**
+     * 削除した付箋を復元する
+     * ゴミ箱にある場合はゴミ箱から戻し、ない場合は記録したファイルの内容で復元する
+     */
+    private async restoreDeleted(snapshot: NoteFileSnapshot): Promise<Result<void>> {
+        const trashResult = await this.noteRepository.restoreFromTrash(snapshot.note.id);
+        if (trashResult.success && trashResult.data) {
+            this.eventBus.emit('note-created', { note: trashResult.data });
+            return { success: true, data: undefined };
+        }
+        return this.restoreSnapshot(snapshot, false);
+    }
+
+    /**
+     * 記録したファイルの内容で付箋を復元し、UIに反映する
+     * @param exists 付箋が現在も存在するかどうか（存在しない場合は作成として通知する）
+     */
+    private async restoreSnapshot(snapshot: NoteFileSnapshot, exists: boolean): Promise<Result<void>> {
+        const result = await this.noteRepository.restore(snapshot);
+        if (!result.success) {
+            this.errorHandler.handleError(result.error, {
+                component: 'DataManager',
+                action: 'restoreSnapshot',
+                noteId: snapshot.note.id
+            });
+            return { success: false, error: result.error };
+        }
+
+        if (exists) {
+            this.eventBus.emit('note-updated', { note: result.data, changes: {} });
+        } else {
+            this.eventBus.emit('note-created', { note: result.data });
+        }
+        return { success: true, data: undefined };
+    }
+
+    private async toVoidResult(promise: Promise<Result<unknown>>): Promise<Result<void>> {
+        const result = await promise;
+        return result.success ? { success: true, data: undefined } : { success: false, error: result.error };
+    }
+
+    /**
+     * ゴミ箱内の付箋を元のパスに戻す
+     */
+    async restoreFromTrash(id: string): Promise<Result<StickyNote>> {
+        try {
+            const result = await this.noteRepository.restoreFromTrash(id);
+            if (!result.success) {
+                this.errorHandler.handleError(result.error, {
+                    component: 'DataManager',
+                    action: 'restoreFromTrash',
+                    noteId: id
+                });
+                return { success: false, error: result.error };
+            }
+
+            if (!result.data) {
+                return { success: false, error: new Error(`Note not found in trash: ${id}`) };
+            }
+
+            this.eventBus.emit('note-created', { note: result.data });
+            return { success: true, data: result.data };
+        } catch (error) {
+            this.errorHandler.handleError(error as Error, {
+                component: 'DataManager',
+                action: 'restoreFromTrash',
+                noteId: id
+            });
+            return { success: false, error: error as Error };
+        }
+    }
+
     async getNote(id: string): Promise<Result<StickyNote | null>> {
         try {
             // IDのバリデーション
@@ -307,9 +536,9 @@ export class DataManager implements IDataManager {
         }
     }
 
-    async getAllNotes(): Promise<Result<StickyNote[]>> {
+    async getAllNotes(options?: FindNotesOptions): Promise<Result<StickyNote[]>> {
         try {
-            return await this.noteRepository.findAll();
+            return await this.noteRepository.findAll(options);
         } catch (error) {
             this.errorHandler.handleError(error as Error, {
                 component: 'DataManager',
@@ -326,7 +555,7 @@ export class DataManager implements IDataManager {
      */
     async getFilteredNotes(filter: IDisplayFilter): Promise<Result<StickyNote[]>> {
         try {
-            const result = await this.noteRepository.findAll();
+            const result = await this.noteRepository.findAll({ includeArchived: filter.includeArchived });
             
             if (!result.success) {
                 return result;
@@ -365,6 +594,11 @@ export class DataManager implements IDataManager {
                 case 'complete':
                     filteredNotes = result.data.filter(note => note.completed);
                     break;
+                case 'due-soon': {
+                    const days = this.configProvider?.get<number>('ui.dueSoonDays') ?? DEFAULT_DUE_SOON_DAYS;
+                    filteredNotes = result.data.filter(note => isDueWithin(note, days));
+                    break;
+                }
                 case 'all':
                 default:
                     filteredNotes = result.data;
@@ -381,6 +615,79 @@ export class DataManager implements IDataManager {
         }
     }
 
+    /**
+     * 更新内容を検証する
+     * @returns 検証エラー（問題がない場合はnull）
+     */
+    private validateUpdate(id: string, options: UpdateNoteOptions): ValidationError | null {
+        // IDのバリデーション
+        const idValidation = NoteValidator.validateNoteId(id);
+        if (!idValidation.valid) {
+            return new ValidationError(idValidation.error!, 'noteId', id);
+        }
+
+        // コンテンツのバリデーション（指定されている場合）
+        if (options.content !== undefined) {
+            const contentValidation = NoteValidator.validateContent(options.content);
+            if (!contentValidation.valid) {
+                return new ValidationError(contentValidation.error!, 'content', options.content);
+            }
+        }
+
+        // 位置のバリデーション（指定されている場合）
+        if (options.position) {
+            const positionValidation = NoteValidator.validatePosition(options.position);
+            if (!positionValidation.valid) {
+                return new ValidationError(positionValidation.error!, 'position', options.position);
+            }
+        }
+
+        // タグのバリデーション（指定されている場合）
+        if (options.tags) {
+            const tagsValidation = NoteValidator.validateTags(options.tags);
+            if (!tagsValidation.valid) {
+                return new ValidationError(tagsValidation.error!, 'tags', options.tags);
+            }
+        }
+
+        // フロントマターの項目名のバリデーション（指定されている場合）
+        for (const key of Object.keys(options.properties || {})) {
+            const keyValidation = NoteValidator.validatePropertyKey(key);
+            if (!keyValidation.valid) {
+                return new ValidationError(keyValidation.error!, 'properties', key);
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * SyncManagerを経由して付箋を更新する
+     */
+    private async updateThroughSync(id: string, options: UpdateNoteOptions): Promise<Result<StickyNote>> {
+        const noteResult = await this.noteRepository.findById(id);
+        if (!noteResult.success) {
+            return { success: false, error: noteResult.error };
+        }
+
+        if (!noteResult.data) {
+            return { success: false, error: new Error(`Note not found: ${id}`) };
+        }
+
+        const baseNote = noteResult.data;
+        const uiNote = applyNoteUpdate(baseNote, options);
+        const syncResult = await this.syncManager!.syncUiChange(uiNote, baseNote);
+
+        if (!syncResult.success || !syncResult.note) {
+            return {
+                success: false,
+                error: new SyncError(syncResult.error || `Failed to sync note ${id}`, id, 'updateNote')
+            };
+        }
+
+        return { success: true, data: syncResult.note };
+    }
+
     isNoteBeingEdited(id: string): boolean {
         return this.editingNotes.has(id);
     }
@@ -388,11 +695,23 @@ export class DataManager implements IDataManager {
     setNoteEditing(id: string, editing: boolean): void {
         if (editing) {
             this.editingNotes.add(id);
+            this.syncManager?.markNoteAsEditing(id);
         } else {
             this.editingNotes.delete(id);
+            this.syncManager?.unmarkNoteAsEditing(id);
         }
     }
 
+    /**
+     * 付箋が未完了から完了になった場合に完了を通知する
+     * 元に戻す・やり直す操作による変更は新たな完了として扱わない
+     */
+    private emitNoteCompleted(before: StickyNote | null, after: StickyNote): void {
+        if (!before || before.completed || !after.completed || !after.completedAt) return;
+        if (this.history?.isApplying) return;
+        this.eventBus.emit('note-completed', { note: after, completedAt: after.completedAt });
+    }
+
     onNoteCreated(callback: (note: StickyNote) => void): () => void {
         return this.eventBus.on('note-created', (event) => {
             callback(event.note);
@@ -412,7 +731,8 @@ export class DataManager implements IDataManager {
     }
 
     private async buildNote(options: CreateNoteOptions): Promise<StickyNote> {
-        const now = new Date().toISOString();
+        const createdAt = new Date();
+        const now = createdAt.toISOString();
         const id = this.generateId();
         
         let postodoFolder = 'Postodo';
@@ -433,7 +753,7 @@ export class DataManager implements IDataManager {
         console.log(`[DEBUG] DataManager.buildNote: Generated fileName '${fileName}'`);
         const filePath = `${postodoFolder}/${fileName}.md`;
         
-        return {
+        const note: StickyNote = {
             id,
             filePath,
             title: options.title || '',
@@ -452,8 +772,11 @@ export class DataManager implements IDataManager {
                 links: [],
                 attachments: []
             },
-            completed: options.completed || false
+            completed: false
         };
+
+        // 完了済みとして作成する場合は作成日時を完了日時として記録する
+        return options.completed ? { ...note, ...applyCompletionChange(note, true, createdAt) } : note;
     }
 
     private generateId(): string {
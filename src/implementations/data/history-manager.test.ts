@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { HistoryManager } from './history-manager';
+import { HistoryCommand } from '../../interfaces/data/i-history-manager';
+import { Result } from '../../types/core-types';
+
+const ok: Result<void> = { success: true, data: undefined };
+
+/**
+ * 配列に値を追加する操作（元に戻すと末尾の値を取り除く）
+ */
+function pushCommand(state: number[], value: number, log?: string[]): HistoryCommand {
+    state.push(value);
+    return {
+        type: 'update',
+        noteCount: 1,
+        undo: async () => {
+            log?.push(`undo:${value}`);
+            state.pop();
+            return ok;
+        },
+        redo: async () => {
+            log?.push(`redo:${value}`);
+            state.push(value);
+            return ok;
+        }
+    };
+}
+
+/**
+ * HistoryManagerのテスト
+ */
+describe('HistoryManager', () => {
+    /**
+     * 全て元に戻すと初期状態に、全てやり直すと最終状態に戻る
+     */
+    it('should restore states by undoing and redoing everything', async () => {
+        await fc.assert(
+            fc.asyncProperty(fc.array(fc.integer(), { maxLength: 20 }), async (values) => {
+                const history = new HistoryManager();
+                const state: number[] = [];
+                values.forEach(value => history.record(pushCommand(state, value)));
+
+                while (history.canUndo()) {
+                    const result = await history.undo();
+                    expect(result.success).toBe(true);
+                }
+                expect(state).toEqual([]);
+
+                while (history.canRedo()) {
+                    await history.redo();
+                }
+                expect(state).toEqual(values);
+            }),
+            { numRuns: 50 }
+        );
+    });
+
+    /**
+     * 元に戻した後に新しい操作を記録するとやり直しの履歴は破棄される
+     */
+    it('should discard redo history when recording a new command', async () => {
+        const history = new HistoryManager();
+        const state: number[] = [];
+        history.record(pushCommand(state, 1));
+        history.record(pushCommand(state, 2));
+
+        await history.undo();
+        expect(history.canRedo()).toBe(true);
+
+        history.record(pushCommand(state, 3));
+        expect(history.canRedo()).toBe(false);
+        expect(state).toEqual([1, 3]);
+    });
+
+    /**
+     * 履歴がない場合はnullを返す
+     */
+    it('should return null when there is nothing to undo or redo', async () => {
+        const history = new HistoryManager();
+
+        expect(await history.undo()).toEqual({ success: true, data: null });
+        expect(await history.redo()).toEqual({ success: true, data: null });
+    });
+
+    /**
+     * まとめた操作は1つの履歴になり、記録と逆の順序で元に戻す
+     */
+    it('should group batched commands into a single entry', async () => {
+        const history = new HistoryManager();
+        const state: number[] = [];
+        const log: string[] = [];
+
+        await history.batch('delete', async () => {
+            history.record(pushCommand(state, 1, log));
+            history.record(pushCommand(state, 2, log));
+            history.record(pushCommand(state, 3, log));
+        });
+
+        const result = await history.undo();
+
+        expect(result.success && result.data?.type).toBe('delete');
+        expect(result.success && result.data?.noteCount).toBe(3);
+        expect(log).toEqual(['undo:3', 'undo:2', 'undo:1']);
+        expect(state).toEqual([]);
+        expect(history.canUndo()).toBe(false);
+
+        await history.redo();
+        expect(state).toEqual([1, 2, 3]);
+    });
+
+    /**
+     * 元に戻す処理中に記録された操作は履歴に残らない
+     */
+    it('should not record commands while applying history', async () => {
+        const history = new HistoryManager();
+        const state: number[] = [];
+
+        history.record({
+            ...pushCommand(state, 1),
+            undo: async () => {
+                history.record(pushCommand(state, 99));
+                return ok;
+            }
+        });
+
+        await history.undo();
+
+        expect(history.canUndo()).toBe(false);
+        expect(history.canRedo()).toBe(true);
+    });
+
+    /**
+     * 最大数を超えた履歴は古いものから破棄される
+     */
+    it('should keep at most the configured number of entries', async () => {
+        const history = new HistoryManager(3);
+        const state: number[] = [];
+        [1, 2, 3, 4, 5].forEach(value => history.record(pushCommand(state, value)));
+
+        let count = 0;
+        while (history.canUndo()) {
+            await history.undo();
+            count++;
+        }
+
+        expect(count).toBe(3);
+        expect(state).toEqual([1, 2]);
+    });
+
+    /**
+     * 失敗した操作は履歴から破棄される
+     */
+    it('should drop a command whose undo fails', async () => {
+        const history = new HistoryManager();
+        const error = new Error('failed');
+        history.record({
+            type: 'delete',
+            noteCount: 1,
+            undo: async () => ({ success: false, error }),
+            redo: async () => ok
+        });
+
+        const result = await history.undo();
+
+        expect(result).toEqual({ success: false, error });
+        expect(history.canUndo()).toBe(false);
+        expect(history.canRedo()).toBe(false);
+    });
+});
@@ -0,0 +1,136 @@
+import { IHistoryManager, HistoryCommand, HistoryActionType } from '../../interfaces/data/i-history-manager';
+import { Result } from '../../types/core-types';
+
+/**
+ * 保持する履歴の最大数
+ */
+export const MAX_HISTORY_SIZE = 100;
+
+/**
+ * 複数の操作を1つの履歴にまとめる
+ * 元に戻す際は記録と逆の順序で実行し、途中で失敗しても残りの操作は実行する
+ */
+export function composeCommands(type: HistoryActionType, commands: HistoryCommand[]): HistoryCommand {
+    const runAll = async (ordered: HistoryCommand[], action: 'undo' | 'redo'): Promise<Result<void>> => {
+        let firstError: Error | undefined;
+        for (const command of ordered) {
+            const result = await command[action]();
+            if (!result.success && !firstError) {
+                firstError = result.error;
+            }
+        }
+        return firstError ? { success: false, error: firstError } : { success: true, data: undefined };
+    };
+
+    return {
+        type,
+        noteCount: commands.reduce((sum, command) => sum + command.noteCount, 0),
+        undo: () => runAll([...commands].reverse(), 'undo'),
+        redo: () => runAll(commands, 'redo')
+    };
+}
+
+/**
+ * 操作履歴の実装
+ */
+export class HistoryManager implements IHistoryManager {
+    private undoStack: HistoryCommand[] = [];
+    private redoStack: HistoryCommand[] = [];
+    private applying = false;
+    private batchDepth = 0;
+    private batchedCommands: HistoryCommand[] = [];
+
+    constructor(private maxSize = MAX_HISTORY_SIZE) {}
+
+    get isApplying(): boolean {
+        return this.applying;
+    }
+
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    record(command: HistoryCommand): void {
+        // 元に戻す・やり直すによる操作自体は記録しない
+        if (this.applying) return;
+
+        if (this.batchDepth > 0) {
+            this.batchedCommands.push(command);
+            return;
+        }
+
+        this.undoStack.push(command);
+        if (this.undoStack.length > this.maxSize) {
+            this.undoStack.shift();
+        }
+        this.redoStack = [];
+    }
+
+    async batch<T>(type: HistoryActionType, fn: () => Promise<T>): Promise<T> {
+        this.batchDepth++;
+        try {
+            return await fn();
+        } finally {
+            this.batchDepth--;
+            if (this.batchDepth === 0) {
+                const commands = this.batchedCommands;
+                this.batchedCommands = [];
+                if (commands.length === 1) {
+                    this.record(commands[0]);
+                } else if (commands.length > 1) {
+                    this.record(composeCommands(type, commands));
+                }
+            }
+        }
+    }
+
+    async undo(): Promise<Result<HistoryCommand | null>> {
+        return this.apply(this.undoStack, this.redoStack, 'undo');
+    }
+
+    async redo(): Promise<Result<HistoryCommand | null>> {
+        return this.apply(this.redoStack, this.undoStack, 'redo');
+    }
+
+    clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+
+    /**
+     * 履歴から操作を取り出して実行し、成功した場合は反対側の履歴に移す
+     * 失敗した操作は状態が不確かなため履歴から破棄する
+     */
+    private async apply(
+        from: HistoryCommand[],
+        to: HistoryCommand[],
+        action: 'undo' | 'redo'
+    ): Promise<Result<HistoryCommand | null>> {
+        if (this.applying) {
+            return { success: false, error: new Error('History operation already in progress') };
+        }
+
+        const command = from.pop();
+        if (!command) {
+            return { success: true, data: null };
+        }
+
+        this.applying = true;
+        try {
+            const result = await command[action]();
+            if (!result.success) {
+                return { success: false, error: result.error };
+            }
+            to.push(command);
+            return { success: true, data: command };
+        } catch (error) {
+            return { success: false, error: error as Error };
+        } finally {
+            this.applying = false;
+        }
+    }
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { JsonCanvasService } from './json-canvas-service';
+import { BoardManager, DEFAULT_BOARD_ID } from './board-manager';
+import { HistoryManager } from './history-manager';
+import { EventBus } from '../../core/event-bus';
+import { PersistentStore } from '../../core/persistent-store';
+import { IDataManager } from '../../interfaces/data/i-data-manager';
+import { IStorageAdapter } from '../../interfaces/storage/i-storage-adapter';
+import { StickyNote, Board, Position, CreateNoteOptions, Result } from '../../types/core-types';
+import { parseJsonCanvas } from '../../utils/json-canvas';
+
+/**
+ * ファイルをメモリ上に保持するストレージ
+ */
+class MemoryStorageAdapter implements IStorageAdapter {
+    files = new Map<string, string>();
+
+    async read(filePath: string): Promise<Result<string>> {
+        const content = this.files.get(filePath);
+        return content !== undefined
+            ? { success: true, data: content }
+            : { success: false, error: new Error(`File not found: ${filePath}`) };
+    }
+
+    async write(filePath: string, content: string): Promise<Result<void>> {
+        this.files.set(filePath, content);
+        return { success: true, data: undefined };
+    }
+
+    async delete(filePath: string): Promise<Result<void>> {
+        this.files.delete(filePath);
+        return { success: true, data: undefined };
+    }
+
+    async exists(filePath: string): Promise<Result<boolean>> {
+        return { success: true, data: this.files.has(filePath) };
+    }
+
+    async list(): Promise<Result<string[]>> {
+        return { success: true, data: Array.from(this.files.keys()) };
+    }
+
+    async createFolder(): Promise<Result<void>> {
+        return { success: true, data: undefined };
+    }
+}
+
+function createNote(id: string, x: number, y: number): StickyNote {
+    return {
+        id,
+        filePath: `Postodo/${id}.md`,
+        title: id,
+        content: id,
+        position: { x, y, zIndex: 1 },
+        dimensions: { width: 200, height: 180 },
+        appearance: { color: 'blue', size: 'medium', rotation: 0 },
+        completed: false,
+        metadata: { created: '', modified: '', tags: [], links: [], attachments: [] }
+    } as StickyNote;
+}
+
+/**
+ * JsonCanvasServiceのテスト
+ */
+describe('JsonCanvasService', () => {
+    let storage: MemoryStorageAdapter;
+    let notes: StickyNote[];
+    let history: HistoryManager;
+    let boardManager: BoardManager;
+    let dataManager: { getAllNotes: ReturnType<typeof vi.fn>; createNote: ReturnType<typeof vi.fn>; deleteNote: ReturnType<typeof vi.fn> };
+    let service: JsonCanvasService;
+
+    beforeEach(() => {
+        storage = new MemoryStorageAdapter();
+        notes = [createNote('n1', 10, 20), createNote('n2', 300, 40)];
+        history = new HistoryManager();
+        const persist = vi.fn().mockResolvedValue(undefined);
+        boardManager = new BoardManager(
+            new PersistentStore<Board>(undefined, persist),
+            new EventBus(),
+            history,
+            new PersistentStore<Position>(undefined, persist)
+        );
+        dataManager = {
+            getAllNotes: vi.fn(async (): Promise<Result<StickyNote[]>> => ({ success: true, data: notes })),
+            createNote: vi.fn(async (options: CreateNoteOptions): Promise<Result<StickyNote>> => {
+                const note = { ...createNote(`created-${notes.length}`, 0, 0), ...options, position: options.position! } as StickyNote;
+                notes.push(note);
+                history.record({
+                    type: 'create',
+                    noteCount: 1,
+                    undo: async () => ({ success: true, data: undefined }),
+                    redo: async () => ({ success: true, data: undefined })
+                });
+                return { success: true, data: note };
+            }),
+            deleteNote: vi.fn()
+        };
+        service = new JsonCanvasService(storage, dataManager as unknown as IDataManager, boardManager, history);
+    });
+
+    /**
+     * ボード上の位置で書き出し、同じ名前のファイルがある場合は番号を付ける
+     */
+    it('should export the board with its positions', async () => {
+        await boardManager.setPositions(DEFAULT_BOARD_ID, [{ id: 'n1', position: { x: 500, y: 600, zIndex: 2 } }]);
+
+        const first = await service.exportBoard(DEFAULT_BOARD_ID, 'Postodo');
+        const second = await service.exportBoard(DEFAULT_BOARD_ID, 'Postodo');
+
+        expect(first).toEqual({ success: true, data: { filePath: 'Postodo.canvas', count: 2 } });
+        expect(second.success && second.data.filePath).toBe('Postodo 1.canvas');
+        const canvas = parseJsonCanvas(storage.files.get('Postodo.canvas')!)!;
+        expect(canvas.nodes.map(node => [node.file, node.x, node.y, node.color])).toEqual([
+            ['Postodo/n2.md', 300, 40, '5'],
+            ['Postodo/n1.md', 500, 600, '5']
+        ]);
+    });
+
+    /**
+     * 読み込んだノードから付箋を作成し、既存の付箋はボードに置き、作成は1回の操作として元に戻せる
+     */
+    it('should import nodes onto a board', async () => {
+        const board = await boardManager.createBoard('Imported');
+        if (!board.success) throw board.error;
+        storage.files.set('Ideas.canvas', JSON.stringify({
+            nodes: [
+                { id: 'a', type: 'text', text: 'Idea', x: 100, y: 100, width: 200, height: 200, color: '1' },
+                { id: 'b', type: 'file', file: 'Postodo/n2.md', x: 400, y: 100, width: 200, height: 200 },
+                { id: 'c', type: 'group', x: 0, y: 0, width: 800, height: 400 }
+            ],
+            edges: []
+        }));
+
+        const result = await service.importCanvas('Ideas.canvas', board.data.id);
+
+        expect(result).toEqual({ success: true, data: { created: 1, placed: 1, skipped: 1 } });
+        expect(dataManager.createNote).toHaveBeenCalledWith(expect.objectContaining({ content: 'Idea', appearance: { color: 'pink' } }));
+        expect(boardManager.placeNotes(board.data.id, notes).map(note => [note.id, note.position.x])).toEqual([
+            ['n2', 400],
+            ['created-2', 100]
+        ]);
+
+        // 作成と配置はまとめて1回で元に戻す
+        const undone = await history.undo();
+        expect(undone.success && undone.data?.type).toBe('create');
+        expect(history.canUndo()).toBe(false);
+    });
+
+    /**
+     * JSON Canvasとして読めないファイルは読み込まない
+     */
+    it('should reject invalid canvas files', async () => {
+        storage.files.set('Broken.canvas', '{');
+
+        const result = await service.importCanvas('Broken.canvas', DEFAULT_BOARD_ID);
+
+        expect(result.success).toBe(false);
+        expect(dataManager.createNote).not.toHaveBeenCalled();
+    });
+});
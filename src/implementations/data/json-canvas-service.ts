@@ -0,0 +1,113 @@
+import { IJsonCanvasService, JsonCanvasExportSummary, JsonCanvasImportSummary } from '../../interfaces/data/i-json-canvas-service';
+import { IDataManager } from '../../interfaces/data/i-data-manager';
+import { IBoardManager } from '../../interfaces/data/i-board-manager';
+import { IHistoryManager } from '../../interfaces/data/i-history-manager';
+import { IStorageAdapter } from '../../interfaces/storage/i-storage-adapter';
+import { StickyNote, Result } from '../../types/core-types';
+import { JsonCanvasImportPlan, exportNotesToJsonCanvas, parseJsonCanvas, planJsonCanvasImport } from '../../utils/json-canvas';
+import { ValidationError } from '../../utils/error-handler';
+import { DEFAULT_BOARD_ID } from './board-manager';
+
+/**
+ * JSON Canvasサービスの実装
+ * 書き出しでは付箋のファイルを表示するノードにし、付箋の内容は.canvasファイルに複製しない
+ */
+export class JsonCanvasService implements IJsonCanvasService {
+    constructor(
+        private storageAdapter: IStorageAdapter,
+        private dataManager: IDataManager,
+        private boardManager: IBoardManager,
+        private history?: IHistoryManager
+    ) {}
+
+    async exportBoard(boardId: string, baseName: string): Promise<Result<JsonCanvasExportSummary>> {
+        const notesResult = await this.dataManager.getAllNotes();
+        if (!notesResult.success) {
+            return notesResult;
+        }
+
+        const notes = this.boardManager.placeNotes(boardId, notesResult.data);
+        const filePath = await this.findAvailablePath(baseName);
+        const content = JSON.stringify(exportNotesToJsonCanvas(notes), null, '\t');
+
+        const result = await this.storageAdapter.write(filePath, content);
+        if (!result.success) {
+            return result;
+        }
+        return { success: true, data: { filePath, count: notes.length } };
+    }
+
+    async importCanvas(filePath: string, boardId: string): Promise<Result<JsonCanvasImportSummary>> {
+        const read = await this.storageAdapter.read(filePath);
+        if (!read.success) {
+            return read;
+        }
+        const canvas = parseJsonCanvas(read.data);
+        if (!canvas) {
+            return { success: false, error: new ValidationError(`Invalid canvas file: ${filePath}`, 'canvas', filePath) };
+        }
+
+        const notesResult = await this.dataManager.getAllNotes();
+        if (!notesResult.success) {
+            return notesResult;
+        }
+        const plan = planJsonCanvasImport(canvas, new Map(notesResult.data.map(note => [note.filePath, note])));
+
+        const apply = () => this.applyImportPlan(plan, boardId);
+        const result = this.history ? await this.history.batch('create', apply) : await apply();
+        if (!result.success) {
+            return result;
+        }
+        const created = result.data;
+
+        return {
+            success: true,
+            data: {
+                created: created.length,
+                placed: plan.place.length,
+                skipped: plan.skipped + plan.create.length - created.length
+            }
+        };
+    }
+
+    /**
+     * 付箋を作成し、作成した付箋と既存の付箋をボードに置く
+     * 作成した付箋は付箋のファイルの位置で、既存の付箋はボード上の位置で表示する
+     */
+    private async applyImportPlan(plan: JsonCanvasImportPlan, boardId: string): Promise<Result<StickyNote[]>> {
+        const created: StickyNote[] = [];
+        for (const options of plan.create) {
+            const result = await this.dataManager.createNote(options);
+            if (result.success) {
+                created.push(result.data);
+            }
+        }
+
+        if (boardId !== DEFAULT_BOARD_ID) {
+            const added = await this.boardManager.addNotes(boardId, [
+                ...created.map(note => ({ id: note.id, position: note.position })),
+                ...plan.place
+            ]);
+            if (!added.success) {
+                return added;
+            }
+        }
+        if (plan.place.length > 0) {
+            const placed = await this.boardManager.setPositions(boardId, plan.place);
+            if (!placed.success) {
+                return placed;
+            }
+        }
+        return { success: true, data: created };
+    }
+
+    private async findAvailablePath(baseName: string): Promise<string> {
+        for (let index = 0; ; index++) {
+            const filePath = index === 0 ? `${baseName}.canvas` : `${baseName} ${index}.canvas`;
+            const exists = await this.storageAdapter.exists(filePath);
+            if (!exists.success || !exists.data) {
+                return filePath;
+            }
+        }
+    }
+}
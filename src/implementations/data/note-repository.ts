@@ -1,22 +1,99 @@
 import { INoteRepository } from '../../interfaces/data/i-note-repository';
 import { IStorageAdapter } from '../../interfaces/storage/i-storage-adapter';
-import { StickyNote, CreateNoteOptions, UpdateNoteOptions, Result } from '../../types/core-types';
+import { StickyNote, Appearance, CreateNoteOptions, UpdateNoteOptions, NotePropertyValue, NoteFileSnapshot, FindNotesOptions, Result } from '../../types/core-types';
 import { IEventBus } from '../../core/event-bus';
+import { ITrashManager } from '../../interfaces/data/i-trash-manager';
+import { isInFolder } from '../../utils/path-utils';
+import { resolveArchiveFolder } from './archive-policy';
+import { applyCompletionUpdate } from '../../utils/completion';
 import { SyncError } from '../../utils/error-handler';
 import { ObsidianStorageAdapter } from '../storage/obsidian-storage';
 import { PostodoNoteDetector } from '../../utils/postodo-note-detector';
 import { Vault, TFile } from 'obsidian';
 
+/**
+ * 付箋に更新オプションを適用した新しい付箋を返す
+ * リポジトリと同期経由の更新で同じマージ規則を使うために共有する
+ */
+export function applyNoteUpdate(note: StickyNote, options: UpdateNoteOptions): StickyNote {
+    // タグとフロントマターの項目はメタデータに反映する
+    const { tags, properties, ...noteOptions } = options;
+    return {
+        ...note,
+        ...noteOptions,
+        ...applyCompletionUpdate(note, options),
+        appearance: {
+            ...note.appearance,
+            ...options.appearance
+        },
+        metadata: {
+            ...note.metadata,
+            ...(tags !== undefined ? { tags: [...tags] } : {}),
+            ...(properties !== undefined ? { properties: applyPropertyUpdate(note.metadata.properties, properties) } : {}),
+            modified: new Date().toISOString()
+        }
+    };
+}
+
+// フロントマターの項目の変更を適用する（nullの項目は削除する）
+function applyPropertyUpdate(
+    current: Record<string, NotePropertyValue> | undefined,
+    changes: Record<string, NotePropertyValue | null>
+): Record<string, NotePropertyValue> {
+    const properties = { ...current };
+    Object.entries(changes).forEach(([key, value]) => {
+        if (value === null) {
+            delete properties[key];
+        } else {
+            properties[key] = value;
+        }
+    });
+    return properties;
+}
+
+/**
+ * 更新オプションを適用する前の付箋から、更新を打ち消すための更新オプションを返す
+ * 更新で指定された項目だけを元の値に戻す
+ */
+export function invertNoteUpdate(note: StickyNote, options: UpdateNoteOptions): UpdateNoteOptions {
+    const inverse: UpdateNoteOptions = {};
+    if (options.title !== undefined) inverse.title = note.title;
+    if (options.content !== undefined) inverse.content = note.content;
+    if (options.position !== undefined) inverse.position = { ...note.position };
+    if (options.dimensions !== undefined) inverse.dimensions = { ...note.dimensions };
+    if (options.completed !== undefined) {
+        // 完了日時と履歴も更新前の値に戻す
+        inverse.completed = note.completed;
+        inverse.completedAt = note.completedAt;
+        inverse.completionHistory = note.completionHistory || [];
+    }
+    if (options.recurrenceNextId !== undefined) inverse.recurrenceNextId = note.recurrenceNextId;
+    if (options.appearance !== undefined) {
+        const keys = Object.keys(options.appearance) as (keyof Appearance)[];
+        inverse.appearance = Object.fromEntries(keys.map(key => [key, note.appearance[key]]));
+    }
+    if (options.tags !== undefined) inverse.tags = [...note.metadata.tags];
+    if (options.properties !== undefined) {
+        // 更新前になかった項目は削除する
+        inverse.properties = Object.fromEntries(
+            Object.keys(options.properties).map(key => [key, note.metadata.properties?.[key] ?? null])
+        );
+    }
+    return inverse;
+}
+
 export class NoteRepository implements INoteRepository {
     private noteCache = new Map<string, StickyNote>();
     private fileWatchers = new Map<string, () => void>();
     private syncStatus = new Map<string, 'syncing' | 'synced' | 'error'>();
+    private stagedNotes = new Map<string, StickyNote>();
 
     constructor(
         private storageAdapter: IStorageAdapter,
         private eventBus: IEventBus,
         private vault?: Vault,
-        private configProvider?: any
+        private configProvider?: any,
+        private trashManager?: ITrashManager
     ) {}
 
 
@@ -36,6 +113,7 @@ export class NoteRepository implements INoteRepository {
             if (result.success) {
                 console.log(`[DEBUG] Successfully saved note ${note.id}`);
                 this.noteCache.set(note.id, note);
+                this.stagedNotes.delete(note.id);
                 this.eventBus.emit('note-saved', { note });
                 
                 setTimeout(() => {
@@ -59,8 +137,11 @@ export class NoteRepository implements INoteRepository {
             }
 
             if (this.vault) {
-                const allFiles = this.vault.getMarkdownFiles();
-                for (const file of allFiles) {
+                // ゴミ箱内のファイルは削除した付箋と同じIDを持つため対象にしない
+                const trashFolder = this.trashManager?.getTrashFolder();
+                const files = this.vault.getMarkdownFiles()
+                    .filter(file => !(trashFolder && isInFolder(file.path, trashFolder)));
+                for (const file of files) {
                     const content = await this.vault.read(file);
                     const postodoData = PostodoNoteDetector.extractPostodoData(content, file.path);
                     
@@ -79,7 +160,11 @@ export class NoteRepository implements INoteRepository {
         }
     }
 
-    async findAll(): Promise<Result<StickyNote[]>> {
+    /**
+     * Postodoフォルダ内の付箋を全て取得する
+     * ゴミ箱内の付箋は含めず、アーカイブ済みの付箋はオプションで指定した場合のみ含める
+     */
+    async findAll(options: FindNotesOptions = {}): Promise<Result<StickyNote[]>> {
         try {
             console.log(`[DEBUG] Finding all postodo notes...`);
             const notes: StickyNote[] = [];
@@ -96,8 +181,16 @@ export class NoteRepository implements INoteRepository {
                     console.warn('Failed to get postodoFolder from config, using default:', error);
                 }
                 
-                // Postodoフォルダのファイルのみをフィルタリング
-                const postodoFiles = allFiles.filter(file => file.path.startsWith(postodoFolder + '/'));
+                // Postodoフォルダのファイルのみをフィルタリング（ゴミ箱内の付箋は除く）
+                const trashFolder = this.trashManager?.getTrashFolder();
+                const archiveFolder = options.includeArchived
+                    ? undefined
+                    : resolveArchiveFolder(postodoFolder, this.configProvider?.get('archive.folder'));
+                const postodoFiles = allFiles.filter(file =>
+                    file.path.startsWith(postodoFolder + '/') &&
+                    !(trashFolder && isInFolder(file.path, trashFolder)) &&
+                    !(archiveFolder && isInFolder(file.path, archiveFolder))
+                );
                 
                 console.log(`[DEBUG] Scanning ${postodoFiles.length} files in ${postodoFolder} folder (filtered from ${allFiles.length} total files)`);
                 
@@ -108,7 +201,9 @@ export class NoteRepository implements INoteRepository {
                         
                         if (postodoData) {
                             console.log(`[DEBUG] Found postodo note in ${file.path}:`, postodoData.id);
-                            const note = PostodoNoteDetector.toStickyNote(postodoData, file.path);
+                            const fileNote = PostodoNoteDetector.toStickyNote(postodoData, file.path);
+                            // 未保存の変更がある付箋はファイルの内容で上書きしない
+                            const note = this.stagedNotes.get(fileNote.id) || fileNote;
                             notes.push(note);
                             this.noteCache.set(note.id, note);
                             this.setupFileWatcher(note.id, file.path);
@@ -127,6 +222,37 @@ export class NoteRepository implements INoteRepository {
         }
     }
 
+    /**
+     * キャッシュを経由せずにファイルの現在の内容から付箋を読み込む
+     * @returns Postodoの付箋でない場合はnull
+     */
+    async readFromFile(filePath: string): Promise<Result<StickyNote | null>> {
+        try {
+            const result = await this.storageAdapter.read(filePath);
+            if (!result.success) {
+                return { success: false, error: result.error };
+            }
+
+            const postodoData = PostodoNoteDetector.extractPostodoData(result.data, filePath);
+            if (!postodoData) {
+                return { success: true, data: null };
+            }
+
+            return { success: true, data: PostodoNoteDetector.toStickyNote(postodoData, filePath) };
+        } catch (error) {
+            return { success: false, error: error as Error };
+        }
+    }
+
+    /**
+     * ファイルに書き込まずに付箋の変更をキャッシュへ反映する
+     * 手動・定期同期で保存を保留している間もUIが最新の状態を参照できるようにする
+     */
+    stageChange(note: StickyNote): void {
+        this.stagedNotes.set(note.id, note);
+        this.noteCache.set(note.id, note);
+    }
+
     async update(id: string, options: UpdateNoteOptions): Promise<Result<StickyNote>> {
         try {
             const noteResult = await this.findById(id);
@@ -138,18 +264,7 @@ export class NoteRepository implements INoteRepository {
                 return { success: false, error: new Error(`Note not found: ${id}`) };
             }
 
-            const updatedNote: StickyNote = {
-                ...noteResult.data,
-                ...options,
-                appearance: {
-                    ...noteResult.data.appearance,
-                    ...options.appearance
-                },
-                metadata: {
-                    ...noteResult.data.metadata,
-                    modified: new Date().toISOString()
-                }
-            };
+            const updatedNote = applyNoteUpdate(noteResult.data, options);
 
             const saveResult = await this.save(updatedNote);
             if (!saveResult.success) {
@@ -169,15 +284,51 @@ export class NoteRepository implements INoteRepository {
                 return { success: false, error: new Error(`Note not found: ${id}`) };
             }
             
-            const result = await this.storageAdapter.delete(noteResult.data.filePath);
+            // ゴミ箱がある場合は設定された削除方法に従う
+            const result = this.trashManager
+                ? await this.trashManager.trash(noteResult.data)
+                : await this.storageAdapter.delete(noteResult.data.filePath);
             
             if (result.success) {
                 this.noteCache.delete(id);
+                this.stagedNotes.delete(id);
                 this.cleanupFileWatcher(id);
                 this.eventBus.emit('note-deleted', { id });
             }
             
-            return result;
+            return result.success ? { success: true, data: undefined } : result;
+        } catch (error) {
+            return { success: false, error: error as Error };
+        }
+    }
+
+    /**
+     * ゴミ箱内の付箋を元のパスに戻して読み込む
+     * @returns ゴミ箱にない場合はnull
+     */
+    async restoreFromTrash(id: string): Promise<Result<StickyNote | null>> {
+        try {
+            if (!this.trashManager?.get(id)) {
+                return { success: true, data: null };
+            }
+
+            const restoreResult = await this.trashManager.restore(id);
+            if (!restoreResult.success) {
+                return { success: false, error: restoreResult.error };
+            }
+
+            const readResult = await this.readFromFile(restoreResult.data.originalPath);
+            if (!readResult.success) {
+                return readResult;
+            }
+
+            const note = readResult.data;
+            if (note) {
+                this.noteCache.set(note.id, note);
+                this.eventBus.emit('note-saved', { note });
+                this.setupFileWatcher(note.id, note.filePath);
+            }
+            return { success: true, data: note };
         } catch (error) {
             return { success: false, error: error as Error };
         }
@@ -243,38 +394,9 @@ export class NoteRepository implements INoteRepository {
                 return { success: true, data: updatedNote };
             }
             
-            // ファイルウォッチャーをクリーンアップ
-            this.cleanupFileWatcher(id);
-            
-            // ストレージアダプターにrenameメソッドがある場合は使用
-            if (this.storageAdapter.rename) {
-                const renameResult = await this.storageAdapter.rename(oldFilePath, newFilePath);
-                if (!renameResult.success) {
-                    // リネームに失敗した場合、ファイルウォッチャーを再設定
-                    this.setupFileWatcher(id, oldFilePath);
-                    return { success: false, error: renameResult.error };
-                }
-            } else {
-                // renameメソッドがない場合は、読み取り→書き込み→削除で対応
-                const readResult = await this.storageAdapter.read(oldFilePath);
-                if (!readResult.success) {
-                    this.setupFileWatcher(id, oldFilePath);
-                    return { success: false, error: readResult.error };
-                }
-                
-                const writeResult = await this.storageAdapter.write(newFilePath, readResult.data);
-                if (!writeResult.success) {
-                    this.setupFileWatcher(id, oldFilePath);
-                    return { success: false, error: writeResult.error };
-                }
-                
-                const deleteResult = await this.storageAdapter.delete(oldFilePath);
-                if (!deleteResult.success) {
-                    // 新しいファイルを削除してロールバック
-                    await this.storageAdapter.delete(newFilePath);
-                    this.setupFileWatcher(id, oldFilePath);
-                    return { success: false, error: deleteResult.error };
-                }
+            const moveResult = await this.moveFile(id, oldFilePath, newFilePath);
+            if (!moveResult.success) {
+                return { success: false, error: moveResult.error };
             }
             
             // 更新されたノートを作成
@@ -317,6 +439,167 @@ export class NoteRepository implements INoteRepository {
         }
     }
 
+    /**
+     * 付箋のファイルを別のフォルダに移動する（ファイル名は変更しない）
+     * @param targetFolder 移動先のフォルダパス
+     */
+    async move(id: string, targetFolder: string): Promise<Result<StickyNote>> {
+        try {
+            const noteResult = await this.findById(id);
+            if (!noteResult.success) {
+                return { success: false, error: noteResult.error };
+            }
+
+            if (!noteResult.data) {
+                return { success: false, error: new Error(`Note not found: ${id}`) };
+            }
+
+            const note = noteResult.data;
+            const fileName = note.filePath.substring(note.filePath.lastIndexOf('/') + 1);
+            const newFilePath = `${targetFolder}/${fileName}`;
+
+            if (newFilePath === note.filePath) {
+                return { success: true, data: note };
+            }
+
+            // 移動先に同名のファイルがある場合は上書きしない
+            const existsResult = await this.storageAdapter.exists(newFilePath);
+            if (existsResult.success && existsResult.data) {
+                return { success: false, error: new Error(`File already exists: ${newFilePath}`) };
+            }
+
+            await this.ensureFolderExists(newFilePath);
+
+            const moveResult = await this.moveFile(id, note.filePath, newFilePath);
+            if (!moveResult.success) {
+                return { success: false, error: moveResult.error };
+            }
+
+            const movedNote: StickyNote = { ...note, filePath: newFilePath };
+            this.noteCache.set(id, movedNote);
+            this.setupFileWatcher(id, newFilePath);
+
+            this.eventBus.emit('note-moved', {
+                noteId: id,
+                oldFilePath: note.filePath,
+                newFilePath
+            });
+
+            return { success: true, data: movedNote };
+        } catch (error) {
+            console.error(`[DEBUG] Error moving note ${id}:`, error);
+            return { success: false, error: error as Error };
+        }
+    }
+
+    /**
+     * 付箋のファイルの現在の内容を記録する（削除や移動を元に戻すために使用）
+     */
+    async snapshot(id: string): Promise<Result<NoteFileSnapshot>> {
+        try {
+            const noteResult = await this.findById(id);
+            if (!noteResult.success) {
+                return { success: false, error: noteResult.error };
+            }
+
+            if (!noteResult.data) {
+                return { success: false, error: new Error(`Note not found: ${id}`) };
+            }
+
+            const readResult = await this.storageAdapter.read(noteResult.data.filePath);
+            if (!readResult.success) {
+                return { success: false, error: readResult.error };
+            }
+
+            return { success: true, data: { note: noteResult.data, content: readResult.data } };
+        } catch (error) {
+            return { success: false, error: error as Error };
+        }
+    }
+
+    /**
+     * 記録した内容で付箋のファイルを復元する
+     * 記録後に付箋が別のパスへ移動している場合は、移動先のファイルを削除する
+     */
+    async restore(snapshot: NoteFileSnapshot): Promise<Result<StickyNote>> {
+        try {
+            const { note, content } = snapshot;
+            const current = this.noteCache.get(note.id);
+
+            this.cleanupFileWatcher(note.id);
+            await this.ensureFolderExists(note.filePath);
+
+            const writeResult = await this.storageAdapter.write(note.filePath, content);
+            if (!writeResult.success) {
+                if (current) {
+                    this.setupFileWatcher(note.id, current.filePath);
+                }
+                return { success: false, error: writeResult.error };
+            }
+
+            if (current && current.filePath !== note.filePath) {
+                const deleteResult = await this.storageAdapter.delete(current.filePath);
+                if (!deleteResult.success) {
+                    console.warn(`Failed to remove ${current.filePath} while restoring ${note.id}:`, deleteResult.error);
+                }
+            }
+
+            this.noteCache.set(note.id, note);
+            this.stagedNotes.delete(note.id);
+            this.eventBus.emit('note-saved', { note });
+
+            setTimeout(() => {
+                this.setupFileWatcher(note.id, note.filePath);
+            }, 100);
+
+            return { success: true, data: note };
+        } catch (error) {
+            return { success: false, error: error as Error };
+        }
+    }
+
+    /**
+     * ファイルを移動する（失敗時は元のファイルのウォッチャーを再設定する）
+     */
+    private async moveFile(id: string, oldFilePath: string, newFilePath: string): Promise<Result<void>> {
+        // ファイルウォッチャーをクリーンアップ
+        this.cleanupFileWatcher(id);
+        
+        // ストレージアダプターにrenameメソッドがある場合は使用
+        if (this.storageAdapter.rename) {
+            const renameResult = await this.storageAdapter.rename(oldFilePath, newFilePath);
+            if (!renameResult.success) {
+                // リネームに失敗した場合、ファイルウォッチャーを再設定
+                this.setupFileWatcher(id, oldFilePath);
+                return { success: false, error: renameResult.error };
+            }
+            return { success: true, data: undefined };
+        }
+
+        // renameメソッドがない場合は、読み取り→書き込み→削除で対応
+        const readResult = await this.storageAdapter.read(oldFilePath);
+        if (!readResult.success) {
+            this.setupFileWatcher(id, oldFilePath);
+            return { success: false, error: readResult.error };
+        }
+        
+        const writeResult = await this.storageAdapter.write(newFilePath, readResult.data);
+        if (!writeResult.success) {
+            this.setupFileWatcher(id, oldFilePath);
+            return { success: false, error: writeResult.error };
+        }
+        
+        const deleteResult = await this.storageAdapter.delete(oldFilePath);
+        if (!deleteResult.success) {
+            // 新しいファイルを削除してロールバック
+            await this.storageAdapter.delete(newFilePath);
+            this.setupFileWatcher(id, oldFilePath);
+            return { success: false, error: deleteResult.error };
+        }
+
+        return { success: true, data: undefined };
+    }
+
     /**
      * ファイル名として使用できるようにタイトルをサニタイズする
      */
@@ -371,19 +654,12 @@ export class NoteRepository implements INoteRepository {
                 
                 if (postodoData && postodoData.id === noteId) {
                     const note = PostodoNoteDetector.toStickyNote(postodoData, filePath);
-                    const oldNote = this.noteCache.get(noteId);
+                    const cachedNote = this.noteCache.get(noteId);
                     
-                    if (!oldNote || oldNote.completed !== note.completed || oldNote.content !== note.content) {
-                        console.log(`File change detected: ${noteId}, completed: ${oldNote?.completed} -> ${note.completed}`);
-                        this.noteCache.set(noteId, note);
-                        
-                        this.eventBus.emit('note-externally-modified', { 
-                            noteId, 
-                            oldNote, 
-                            newNote: note 
-                        });
-                        
-                        this.eventBus.emit('note-updated', { note, changes: {} });
+                    // 反映はSyncManagerが競合解決を通して行う
+                    if (!cachedNote || this.hasFileStateChanged(cachedNote, note)) {
+                        console.log(`File change detected: ${noteId}`);
+                        this.eventBus.emit('note-file-changed', { noteId, filePath });
                     }
                 } else if (this.noteCache.has(noteId)) {
                     // ファイル作成直後の空のファイルの場合、削除しない
@@ -400,6 +676,18 @@ export class NoteRepository implements INoteRepository {
     }
 
 
+    /**
+     * ファイルに書き込まれる項目がキャッシュと異なるかどうかを判定
+     */
+    private hasFileStateChanged(cachedNote: StickyNote, fileNote: StickyNote): boolean {
+        return cachedNote.title !== fileNote.title ||
+            cachedNote.content !== fileNote.content ||
+            cachedNote.completed !== fileNote.completed ||
+            JSON.stringify(cachedNote.position) !== JSON.stringify(fileNote.position) ||
+            JSON.stringify(cachedNote.dimensions) !== JSON.stringify(fileNote.dimensions) ||
+            JSON.stringify(cachedNote.appearance) !== JSON.stringify(fileNote.appearance);
+    }
+
     getSyncStatus(noteId: string): 'syncing' | 'synced' | 'error' | undefined {
         return this.syncStatus.get(noteId);
     }
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NoteSearchIndex } from './note-search-index';
+import { EventBus } from '../../core/event-bus';
+import { StickyNote } from '../../types/core-types';
+
+function createNote(id: string, title: string, content: string, tags: string[] = []): StickyNote {
+    return {
+        id,
+        filePath: `Postodo/${id}.md`,
+        title,
+        content,
+        position: { x: 0, y: 0, zIndex: 1 },
+        dimensions: { width: 200, height: 180 },
+        appearance: { color: 'yellow', size: 'medium', rotation: 0 },
+        completed: false,
+        metadata: { created: '', modified: '', tags, links: [], attachments: [] }
+    } as StickyNote;
+}
+
+/**
+ * NoteSearchIndexのテスト
+ */
+describe('NoteSearchIndex', () => {
+    let eventBus: EventBus;
+    let index: NoteSearchIndex;
+
+    beforeEach(() => {
+        eventBus = new EventBus();
+        index = new NoteSearchIndex(eventBus);
+        index.setNotes([
+            createNote('report', 'Weekly report', 'Send to the team'),
+            createNote('groceries', 'Groceries', 'Buy milk and a report folder'),
+            createNote('tagged', 'Call', 'Phone the client', ['work/clients']),
+            createNote('Sticky-budget', 'Plan', 'Draft numbers')
+        ]);
+    });
+
+    /**
+     * タイトル・本文・タグ・ファイル名で検索し、タイトルでの一致を本文での一致より上位にする
+     */
+    it('should search titles, content, tags and filenames', () => {
+        expect(index.search('report').map(r => r.noteId)).toEqual(['report', 'groceries']);
+        expect(index.search('clients').map(r => r.noteId)).toEqual(['tagged']);
+        expect(index.search('budget').map(r => r.noteId)).toEqual(['Sticky-budget']);
+        expect(index.search('wkly rep').map(r => r.noteId)).toEqual(['report']);
+        expect(index.search('  ')).toEqual([]);
+    });
+
+    /**
+     * 作成・更新・削除のイベントでインデックスを更新し、更新を通知する
+     */
+    it('should follow note events', () => {
+        const listener = vi.fn();
+        index.onChanged(listener);
+
+        eventBus.emit('note-created', { note: createNote('new', 'Quarterly report', '') });
+        expect(index.search('quarterly').map(r => r.noteId)).toEqual(['new']);
+
+        eventBus.emit('note-updated', { note: createNote('report', 'Monthly summary', 'Send to the team'), changes: {} });
+        expect(index.search('weekly')).toEqual([]);
+        expect(index.search('monthly').map(r => r.noteId)).toEqual(['report']);
+
+        eventBus.emit('note-deleted', { id: 'groceries' });
+        expect(index.search('milk')).toEqual([]);
+        expect(listener).toHaveBeenCalledTimes(3);
+
+        index.cleanup();
+        eventBus.emit('note-created', { note: createNote('later', 'Later', '') });
+        expect(index.search('later')).toEqual([]);
+    });
+});
@@ -0,0 +1,121 @@
+import { INoteSearchIndex, NoteSearchResult } from '../../interfaces/data/i-note-search-index';
+import { StickyNote } from '../../types/core-types';
+import { IEventBus } from '../../core/event-bus';
+import { fuzzyScore, normalizeSearchText, splitSearchTerms } from '../../utils/fuzzy-search';
+
+/**
+ * 検索対象の項目ごとの重み（タイトルやタグでの一致を本文での一致より上位にする）
+ */
+const FIELD_WEIGHTS = {
+    title: 3,
+    tags: 2,
+    fileName: 1.5,
+    content: 1
+};
+
+type IndexedFields = Record<keyof typeof FIELD_WEIGHTS, string>;
+
+/**
+ * 付箋の検索インデックスの実装
+ * 正規化したテキストを付箋ごとに保持し、作成・更新・削除のイベントで更新する
+ */
+export class NoteSearchIndex implements INoteSearchIndex {
+    private entries = new Map<string, IndexedFields>();
+    private listeners: (() => void)[] = [];
+    private unsubscribers: (() => void)[];
+
+    constructor(private eventBus: IEventBus) {
+        const setNote = (event: any) => {
+            if (!event?.note) return;
+            this.entries.set(event.note.id, this.createEntry(event.note));
+            this.notifyChanged();
+        };
+        const removeNotes = (noteIds: string[]) => {
+            noteIds.forEach(id => this.entries.delete(id));
+            this.notifyChanged();
+        };
+
+        this.unsubscribers = [
+            this.eventBus.on('note-created', setNote),
+            this.eventBus.on('note-updated', setNote),
+            this.eventBus.on('note-synced-from-file', setNote),
+            this.eventBus.on('note-deleted', (event) => {
+                if (event?.id) removeNotes([event.id]);
+            })
+        ];
+    }
+
+    setNotes(notes: StickyNote[]): void {
+        this.entries.clear();
+        notes.forEach(note => this.entries.set(note.id, this.createEntry(note)));
+        this.notifyChanged();
+    }
+
+    search(query: string): NoteSearchResult[] {
+        const terms = splitSearchTerms(query);
+        if (terms.length === 0) return [];
+
+        const results: NoteSearchResult[] = [];
+        this.entries.forEach((fields, noteId) => {
+            let total = 0;
+            for (const term of terms) {
+                const score = this.scoreTerm(term, fields);
+                if (score === null) return;
+                total += score;
+            }
+            results.push({ noteId, score: total });
+        });
+
+        return results.sort((a, b) => b.score - a.score || a.noteId.localeCompare(b.noteId));
+    }
+
+    onChanged(listener: () => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            const index = this.listeners.indexOf(listener);
+            if (index > -1) {
+                this.listeners.splice(index, 1);
+            }
+        };
+    }
+
+    cleanup(): void {
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+        this.listeners = [];
+        this.entries.clear();
+    }
+
+    private createEntry(note: StickyNote): IndexedFields {
+        return {
+            title: normalizeSearchText(note.title),
+            tags: normalizeSearchText(note.metadata.tags.join(' ')),
+            fileName: normalizeSearchText(note.filePath.split('/').pop() || note.filePath),
+            content: normalizeSearchText(note.content)
+        };
+    }
+
+    /**
+     * 検索語の一致のスコアを返す（最も高く評価される項目のスコアを使用する）
+     */
+    private scoreTerm(term: string, fields: IndexedFields): number | null {
+        let best: number | null = null;
+        (Object.keys(FIELD_WEIGHTS) as (keyof IndexedFields)[]).forEach(field => {
+            const score = fuzzyScore(term, fields[field]);
+            if (score !== null && (best === null || score * FIELD_WEIGHTS[field] > best)) {
+                best = score * FIELD_WEIGHTS[field];
+            }
+        });
+        return best;
+    }
+
+    private notifyChanged(): void {
+        this.listeners.forEach(listener => {
+            try {
+                listener();
+            } catch (error) {
+                console.error('Error in search index listener:', error);
+            }
+        });
+    }
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RecurrenceService } from './recurrence-service';
+import { EventBus } from '../../core/event-bus';
+import { IDataManager } from '../../interfaces/data/i-data-manager';
+import { StickyNote, CreateNoteOptions, Result } from '../../types/core-types';
+
+function createNote(content: string): StickyNote {
+    return {
+        id: 'note-1',
+        filePath: 'Postodo/note-1.md',
+        title: 'Weekly report',
+        content,
+        position: { x: 100, y: 50, zIndex: 3 },
+        dimensions: { width: 200, height: 180 },
+        appearance: { color: 'pink', size: 'medium', rotation: 0 },
+        completed: true,
+        completedAt: '2025-01-07T09:00:00.000Z',
+        metadata: { created: '', modified: '', tags: ['postodo'], links: [], attachments: [] }
+    };
+}
+
+/**
+ * RecurrenceServiceのテスト
+ */
+describe('RecurrenceService', () => {
+    const createDataManager = () => ({
+        createNote: vi.fn(async (options: CreateNoteOptions): Promise<Result<StickyNote>> => ({
+            success: true,
+            data: { ...createNote(options.content), id: 'note-2', completed: false, completedAt: undefined }
+        })),
+        getNote: vi.fn(async (): Promise<Result<StickyNote | null>> => ({ success: true, data: null })),
+        updateNote: vi.fn(async (id: string): Promise<Result<StickyNote>> => ({ success: true, data: { ...createNote(''), id } }))
+    });
+
+    /**
+     * 繰り返しタスクが完了すると次の日付の付箋を作成する
+     */
+    it('should create the next occurrence when a recurring note is completed', async () => {
+        const dataManager = createDataManager();
+        const eventBus = new EventBus();
+        const service = new RecurrenceService(dataManager as unknown as IDataManager, eventBus);
+        const note = createNote('Send report 🔁 every week 📅 2025-01-06');
+
+        const result = await service.createNextOccurrence(note, new Date(2025, 0, 7));
+
+        expect(result.success && result.data?.id).toBe('note-2');
+        expect(dataManager.createNote).toHaveBeenCalledWith({
+            title: 'Weekly report',
+            content: 'Send report 🔁 every week 📅 2025-01-13',
+            position: { x: 124, y: 74, zIndex: 3 },
+            dimensions: { width: 200, height: 180 },
+            appearance: { color: 'pink', size: 'medium', rotation: 0 }
+        });
+        expect(dataManager.updateNote).toHaveBeenCalledWith('note-1', { recurrenceNextId: 'note-2' });
+    });
+
+    /**
+     * 記録した次の付箋が残っている場合は作成せず、削除されていた場合は改めて作成する
+     */
+    it('should not create another occurrence while the recorded one exists', async () => {
+        const dataManager = createDataManager();
+        const service = new RecurrenceService(dataManager as unknown as IDataManager, new EventBus());
+        const note = { ...createNote('Send report 🔁 every week 📅 2025-01-06'), recurrenceNextId: 'note-2' };
+        dataManager.getNote.mockResolvedValueOnce({ success: true, data: { ...createNote(''), id: 'note-2' } });
+
+        expect(await service.createNextOccurrence(note, new Date(2025, 0, 7))).toEqual({ success: true, data: null });
+        expect(dataManager.createNote).not.toHaveBeenCalled();
+
+        const recreated = await service.createNextOccurrence(note, new Date(2025, 0, 7));
+        expect(recreated.success && recreated.data?.id).toBe('note-2');
+        expect(dataManager.getNote).toHaveBeenCalledWith('note-2');
+    });
+
+    /**
+     * 繰り返し指定がない付箋では何もしない
+     */
+    it('should ignore notes without recurrence', async () => {
+        const dataManager = createDataManager();
+        const service = new RecurrenceService(dataManager as unknown as IDataManager, new EventBus());
+
+        const result = await service.createNextOccurrence(createNote('One-off task 📅 2025-01-06'), new Date());
+
+        expect(result).toEqual({ success: true, data: null });
+        expect(dataManager.createNote).not.toHaveBeenCalled();
+    });
+
+    /**
+     * 完了の通知を監視し、終了後は反応しない
+     */
+    it('should react to note-completed events until cleaned up', async () => {
+        const dataManager = createDataManager();
+        const eventBus = new EventBus();
+        const service = new RecurrenceService(dataManager as unknown as IDataManager, eventBus);
+        const note = createNote('Stretch 🔁 every day');
+
+        service.startWatching();
+        eventBus.emit('note-completed', { note, completedAt: note.completedAt });
+        await vi.waitFor(() => expect(dataManager.createNote).toHaveBeenCalledTimes(1));
+
+        service.cleanup();
+        eventBus.emit('note-completed', { note, completedAt: note.completedAt });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(dataManager.createNote).toHaveBeenCalledTimes(1);
+    });
+});
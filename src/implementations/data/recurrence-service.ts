@@ -0,0 +1,101 @@
+import { IRecurrenceService } from '../../interfaces/data/i-recurrence-service';
+import { IDataManager } from '../../interfaces/data/i-data-manager';
+import { IHistoryManager } from '../../interfaces/data/i-history-manager';
+import { StickyNote, Result } from '../../types/core-types';
+import { IEventBus } from '../../core/event-bus';
+import { PostodoNoteDetector } from '../../utils/postodo-note-detector';
+import { parseRecurrence, computeNextTaskDates, replaceTaskDates } from '../../utils/recurrence';
+
+// 次の付箋を完了した付箋から少しずらして配置する距離
+const NEXT_OCCURRENCE_OFFSET = 24;
+
+/**
+ * 繰り返しタスクサービスの実装
+ * 繰り返し指定と日付は付箋の本文にTasksプラグイン形式で書かれているものを使用する
+ * 作成した次の付箋のIDは完了した付箋に記録し、完了を取り消して完了し直しても次の付箋を重ねて作成しない
+ */
+export class RecurrenceService implements IRecurrenceService {
+    private unsubscribe?: () => void;
+    // 次の付箋を作成中の付箋のID（記録を書き込む前に完了し直された場合に重ねて作成しないため）
+    private creating = new Set<string>();
+
+    constructor(
+        private dataManager: IDataManager,
+        private eventBus: IEventBus,
+        private history?: IHistoryManager
+    ) {}
+
+    startWatching(): void {
+        if (this.unsubscribe) return;
+
+        this.unsubscribe = this.eventBus.on('note-completed', async (event) => {
+            if (!event?.note) return;
+
+            const result = await this.createNextOccurrence(event.note, new Date(event.completedAt || Date.now()));
+            if (!result.success) {
+                console.warn(`Failed to create the next occurrence of ${event.note.id}:`, result.error);
+            }
+        });
+    }
+
+    async createNextOccurrence(note: StickyNote, completedAt: Date): Promise<Result<StickyNote | null>> {
+        if (this.creating.has(note.id)) {
+            return { success: true, data: null };
+        }
+
+        this.creating.add(note.id);
+        try {
+            const taskInfo = PostodoNoteDetector.extractTaskMetadata(note.content);
+            const rule = taskInfo.recurrence ? parseRecurrence(taskInfo.recurrence) : null;
+            if (!rule || await this.hasNextOccurrence(note)) {
+                return { success: true, data: null };
+            }
+
+            const nextDates = computeNextTaskDates(taskInfo, rule, completedAt);
+            // 作成と記録を1つの操作として元に戻せるようにする（元に戻すと記録も消え、完了し直すと再び作成する）
+            const create = () => this.createAndRecord(note, replaceTaskDates(note.content, nextDates));
+            return this.history ? await this.history.batch('create', create) : await create();
+        } catch (error) {
+            return { success: false, error: error as Error };
+        } finally {
+            this.creating.delete(note.id);
+        }
+    }
+
+    cleanup(): void {
+        this.unsubscribe?.();
+        this.unsubscribe = undefined;
+    }
+
+    /**
+     * 記録した次の付箋が残っているかどうか（削除された場合は改めて作成する）
+     */
+    private async hasNextOccurrence(note: StickyNote): Promise<boolean> {
+        if (!note.recurrenceNextId) return false;
+        const result = await this.dataManager.getNote(note.recurrenceNextId);
+        return result.success && result.data !== null;
+    }
+
+    private async createAndRecord(note: StickyNote, content: string): Promise<Result<StickyNote | null>> {
+        const result = await this.dataManager.createNote({
+            title: note.title,
+            content,
+            position: {
+                x: note.position.x + NEXT_OCCURRENCE_OFFSET,
+                y: note.position.y + NEXT_OCCURRENCE_OFFSET,
+                zIndex: note.position.zIndex
+            },
+            dimensions: { ...note.dimensions },
+            appearance: { ...note.appearance }
+        });
+        if (!result.success) {
+            return result;
+        }
+
+        const recorded = await this.dataManager.updateNote(note.id, { recurrenceNextId: result.data.id });
+        if (!recorded.success) {
+            console.warn(`Failed to record the next occurrence of ${note.id}:`, recorded.error);
+        }
+        return { success: true, data: result.data };
+    }
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ReminderService } from './reminder-service';
+import { EventBus } from '../../core/event-bus';
+import { PersistentStore } from '../../core/persistent-store';
+import { ConfigProvider } from '../../providers/config-provider';
+import { INoteRepository } from '../../interfaces/data/i-note-repository';
+import { IDataManager } from '../../interfaces/data/i-data-manager';
+import { StickyNote, ReminderState, Result } from '../../types/core-types';
+
+function createNote(id: string, content: string, completed = false): StickyNote {
+    return {
+        id,
+        filePath: `Postodo/${id}.md`,
+        title: id,
+        content,
+        position: { x: 0, y: 0, zIndex: 1 },
+        dimensions: { width: 200, height: 180 },
+        appearance: { color: 'yellow', size: 'medium', rotation: 0 },
+        completed,
+        metadata: { created: '', modified: '', tags: [], links: [], attachments: [] }
+    } as StickyNote;
+}
+
+/**
+ * ReminderServiceのテスト
+ */
+describe('ReminderService', () => {
+    let eventBus: EventBus;
+    let store: PersistentStore<ReminderState>;
+
+    const createService = (notes: StickyNote[], enabled = true) => {
+        const repository = {
+            findAll: vi.fn(async (): Promise<Result<StickyNote[]>> => ({ success: true, data: notes }))
+        };
+        const dataManager = {
+            updateNote: vi.fn(async (id: string): Promise<Result<StickyNote>> => {
+                const note = { ...notes.find(n => n.id === id)!, completed: true };
+                eventBus.emit('note-updated', { note, changes: { completed: true } });
+                return { success: true, data: note };
+            })
+        };
+        const config = new ConfigProvider({ reminders: { enabled, defaultTime: '09:00', snoozeMinutes: 10 } } as any);
+        const service = new ReminderService(
+            repository as unknown as INoteRepository,
+            dataManager as unknown as IDataManager,
+            eventBus,
+            config,
+            store
+        );
+        const handler = vi.fn();
+        service.setReminderHandler(handler);
+        return { service, handler, dataManager };
+    };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(2026, 9, 20, 12, 0));
+        eventBus = new EventBus();
+        store = new PersistentStore<ReminderState>(undefined, vi.fn().mockResolvedValue(undefined));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    /**
+     * 起動時に閉じている間に過ぎたリマインダーをまとめて通知し、二度目の起動では通知しない
+     */
+    it('should catch up missed reminders once on start', async () => {
+        const notes = [
+            createNote('past', 'Report 📅 2026-10-20 10:00'),
+            createNote('future', 'Meeting 📅 2026-10-20 15:00'),
+            createNote('done', 'Done 📅 2026-10-19', true)
+        ];
+        const { service, handler } = createService(notes);
+
+        const result = await service.start();
+
+        expect(result).toEqual({ success: true, data: 1 });
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler.mock.calls[0][0].map((r: any) => r.note.id)).toEqual(['past']);
+        expect(handler.mock.calls[0][1]).toBe(true);
+        service.cleanup();
+
+        const restarted = createService(notes);
+        expect(await restarted.service.start()).toEqual({ success: true, data: 0 });
+        restarted.service.cleanup();
+    });
+
+    /**
+     * 通知日時になるとタイマーで通知する
+     */
+    it('should fire reminders when their time arrives', async () => {
+        const { service, handler } = createService([createNote('future', 'Meeting 📅 2026-10-20 15:00')]);
+        await service.start();
+        expect(handler).not.toHaveBeenCalled();
+
+        // 最大待ち時間ごとに確認し直すため、1時間ずつ進める
+        await vi.advanceTimersByTimeAsync(3 * 60 * 60 * 1000);
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler.mock.calls[0][0][0].reminder.key).toBe('future|due|2026-10-20 15:00');
+        expect(handler.mock.calls[0][1]).toBe(false);
+        service.cleanup();
+    });
+
+    /**
+     * スヌーズしたリマインダーは指定した時間の後にもう一度通知する
+     */
+    it('should fire snoozed reminders again', async () => {
+        const { service, handler } = createService([createNote('past', 'Report 📅 2026-10-20 10:00')]);
+        await service.start();
+        const key = handler.mock.calls[0][0][0].reminder.key;
+
+        service.snooze(key);
+        await vi.advanceTimersByTimeAsync(9 * 60 * 1000);
+        expect(handler).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(60 * 1000);
+        expect(handler).toHaveBeenCalledTimes(2);
+        expect(handler.mock.calls[1][1]).toBe(false);
+        service.cleanup();
+    });
+
+    /**
+     * 完了した付箋や日付を変更した付箋のリマインダーは更新イベントで取り消される
+     */
+    it('should follow note updates', async () => {
+        const note = createNote('future', 'Meeting 📅 2026-10-20 15:00');
+        const { service, handler, dataManager } = createService([note]);
+        await service.start();
+
+        const result = await service.complete('future');
+        expect(result.success).toBe(true);
+        expect(dataManager.updateNote).toHaveBeenCalledWith('future', { completed: true });
+
+        eventBus.emit('note-created', { note: createNote('new', 'Call 📅 2026-10-20 13:00') });
+        await vi.advanceTimersByTimeAsync(4 * 60 * 60 * 1000);
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler.mock.calls[0][0].map((r: any) => r.note.id)).toEqual(['new']);
+        service.cleanup();
+    });
+
+    /**
+     * 無効にしている場合は通知しない
+     */
+    it('should not fire when disabled', async () => {
+        const { service, handler } = createService([createNote('past', 'Report 📅 2026-10-20 10:00')], false);
+
+        expect(await service.start()).toEqual({ success: true, data: 0 });
+        expect(handler).not.toHaveBeenCalled();
+        service.cleanup();
+    });
+});
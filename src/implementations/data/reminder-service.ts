@@ -0,0 +1,180 @@
+import { IReminderService, DueReminder, ReminderHandler } from '../../interfaces/data/i-reminder-service';
+import { INoteRepository } from '../../interfaces/data/i-note-repository';
+import { IDataManager } from '../../interfaces/data/i-data-manager';
+import { StickyNote, ReminderState, Result } from '../../types/core-types';
+import { IEventBus } from '../../core/event-bus';
+import { PersistentStore } from '../../core/persistent-store';
+import { ConfigProvider } from '../../providers/config-provider';
+import {
+    Reminder,
+    DEFAULT_REMINDER_TIME,
+    DEFAULT_SNOOZE_MINUTES,
+    getNoteReminders,
+    findDueReminders,
+    getNextFireTime
+} from '../../utils/reminder';
+
+// タイマーの最大待ち時間（スリープ復帰や時計のずれに備えて定期的に確認し直す）
+const MAX_TIMER_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * リマインダーサービスの実装
+ * 付箋はメモリ上に保持して変更イベントで更新し、通知状態はプラグインデータに保存する
+ */
+export class ReminderService implements IReminderService {
+    private notes = new Map<string, StickyNote>();
+    private handler?: ReminderHandler;
+    private timer?: ReturnType<typeof setTimeout>;
+    private unsubscribers: (() => void)[] = [];
+
+    constructor(
+        private noteRepository: INoteRepository,
+        private dataManager: IDataManager,
+        private eventBus: IEventBus,
+        private configProvider: ConfigProvider,
+        private store: PersistentStore<ReminderState>
+    ) {}
+
+    setReminderHandler(handler: ReminderHandler): void {
+        this.handler = handler;
+    }
+
+    async start(now: number = Date.now()): Promise<Result<number>> {
+        try {
+            this.startWatching();
+
+            const result = await this.noteRepository.findAll();
+            if (!result.success) {
+                return result;
+            }
+
+            this.notes.clear();
+            result.data.forEach(note => this.notes.set(note.id, note));
+            this.pruneStates();
+
+            const missed = this.fire(now, true);
+            this.schedule();
+            return { success: true, data: missed.length };
+        } catch (error) {
+            return { success: false, error: error as Error };
+        }
+    }
+
+    check(now: number = Date.now()): DueReminder[] {
+        const fired = this.fire(now, false);
+        this.schedule();
+        return fired;
+    }
+
+    snooze(key: string, minutes?: number, now: number = Date.now()): void {
+        const snoozeMinutes = minutes ?? (this.configProvider.get<number>('reminders.snoozeMinutes') || DEFAULT_SNOOZE_MINUTES);
+        this.store.set(key, { snoozedUntil: new Date(now + snoozeMinutes * 60 * 1000).toISOString() });
+        this.schedule();
+    }
+
+    async complete(noteId: string): Promise<Result<StickyNote>> {
+        // 完了した付箋のリマインダーは付箋の更新イベントで取り除かれる
+        return this.dataManager.updateNote(noteId, { completed: true });
+    }
+
+    cleanup(): void {
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+        this.clearTimer();
+        this.notes.clear();
+    }
+
+    private startWatching(): void {
+        if (this.unsubscribers.length > 0) return;
+
+        const setNote = (event: any) => {
+            if (!event?.note) return;
+            this.notes.set(event.note.id, event.note);
+            this.schedule();
+        };
+        const removeNotes = (noteIds: string[]) => {
+            noteIds.forEach(id => this.notes.delete(id));
+            this.schedule();
+        };
+
+        this.unsubscribers.push(
+            this.eventBus.on('note-created', setNote),
+            this.eventBus.on('note-updated', setNote),
+            this.eventBus.on('note-synced-from-file', setNote),
+            this.eventBus.on('note-deleted', (event) => {
+                if (event?.id) removeNotes([event.id]);
+            }),
+            this.eventBus.on('notes-archived', (event) => {
+                if (Array.isArray(event?.noteIds)) removeNotes(event.noteIds);
+            }),
+            this.eventBus.on('config-changed', (event) => {
+                if (typeof event?.path === 'string' && event.path.startsWith('reminders.')) {
+                    this.check();
+                }
+            })
+        );
+    }
+
+    private isEnabled(): boolean {
+        return this.configProvider.get<boolean>('reminders.enabled') ?? true;
+    }
+
+    private getReminders(): Reminder[] {
+        const defaultTime = this.configProvider.get<string>('reminders.defaultTime') || DEFAULT_REMINDER_TIME;
+        const reminders: Reminder[] = [];
+        this.notes.forEach(note => reminders.push(...getNoteReminders(note, defaultTime)));
+        return reminders;
+    }
+
+    /**
+     * 通知日時を過ぎたリマインダーを通知済みにして通知する
+     */
+    private fire(now: number, missed: boolean): DueReminder[] {
+        if (!this.isEnabled()) return [];
+
+        const due = findDueReminders(this.getReminders(), key => this.store.get(key), now)
+            .map(reminder => ({ reminder, note: this.notes.get(reminder.noteId)! }));
+        if (due.length === 0) return [];
+
+        const firedAt = new Date(now).toISOString();
+        due.forEach(({ reminder }) => this.store.set(reminder.key, { firedAt }));
+        this.handler?.(due, missed);
+        return due;
+    }
+
+    /**
+     * 次のリマインダーの通知日時にタイマーを設定する
+     */
+    private schedule(): void {
+        this.clearTimer();
+        if (!this.isEnabled()) return;
+
+        const next = getNextFireTime(this.getReminders(), key => this.store.get(key));
+        if (next === null) return;
+
+        const delay = Math.min(Math.max(next - Date.now(), 0), MAX_TIMER_DELAY_MS);
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.check();
+        }, delay);
+    }
+
+    private clearTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    /**
+     * 存在しなくなったリマインダー（付箋の削除や日付の変更）の通知状態を取り除く
+     */
+    private pruneStates(): void {
+        const keys = new Set(this.getReminders().map(reminder => reminder.key));
+        this.store.entries().forEach(([key]) => {
+            if (!keys.has(key)) {
+                this.store.delete(key);
+            }
+        });
+    }
+}
@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import { TrashManager, buildTrashPath, findExpiredEntries, resolveTrashFolder } from './trash-manager';
+import { isInFolder } from '../../utils/path-utils';
+import { PersistentStore } from '../../core/persistent-store';
+import { ConfigProvider } from '../../providers/config-provider';
+import { IStorageAdapter } from '../../interfaces/storage/i-storage-adapter';
+import { StickyNote, TrashEntry, Result } from '../../types/core-types';
+import { TrashMode } from '../../types/config-types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * ファイルをメモリ上に保持するストレージ
+ */
+class MemoryStorageAdapter implements IStorageAdapter {
+    files = new Map<string, string>();
+
+    async read(filePath: string): Promise<Result<string>> {
+        const content = this.files.get(filePath);
+        return content !== undefined
+            ? { success: true, data: content }
+            : { success: false, error: new Error(`File not found: ${filePath}`) };
+    }
+
+    async write(filePath: string, content: string): Promise<Result<void>> {
+        this.files.set(filePath, content);
+        return { success: true, data: undefined };
+    }
+
+    async delete(filePath: string): Promise<Result<void>> {
+        this.files.delete(filePath);
+        return { success: true, data: undefined };
+    }
+
+    async exists(filePath: string): Promise<Result<boolean>> {
+        return { success: true, data: this.files.has(filePath) };
+    }
+
+    async list(folderPath: string): Promise<Result<string[]>> {
+        return { success: true, data: Array.from(this.files.keys()).filter(f => f.startsWith(folderPath)) };
+    }
+
+    async createFolder(): Promise<Result<void>> {
+        return { success: true, data: undefined };
+    }
+}
+
+function createNote(id: string, filePath: string): StickyNote {
+    return {
+        id,
+        filePath,
+        title: id,
+        content: 'content',
+        position: { x: 0, y: 0, zIndex: 1 },
+        dimensions: { width: 200, height: 180 },
+        appearance: { color: 'yellow', size: 'medium', rotation: 0 },
+        completed: false,
+        metadata: { created: '', modified: '', tags: [], links: [], attachments: [] }
+    } as StickyNote;
+}
+
+function createEntry(id: string, deletedAt: number): TrashEntry {
+    return {
+        id,
+        title: id,
+        originalPath: `Postodo/${id}.md`,
+        trashPath: `Postodo/.trash/${deletedAt}-${id}.md`,
+        deletedAt: new Date(deletedAt).toISOString()
+    };
+}
+
+/**
+ * ゴミ箱のパス計算のテスト
+ */
+describe('trash paths', () => {
+    /**
+     * ゴミ箱内のパスはゴミ箱フォルダ内にあり、元のファイル名を保つ
+     */
+    it('should place trashed files inside the trash folder with the original name', () => {
+        fc.assert(
+            fc.property(
+                fc.stringMatching(/^[A-Za-z0-9]{1,10}(\/[A-Za-z0-9]{1,10}){0,2}\.md$/),
+                fc.integer({ min: 0, max: 4102444800000 }),
+                (originalPath, time) => {
+                    const trashFolder = resolveTrashFolder('Postodo', '.trash');
+                    const trashPath = buildTrashPath(trashFolder, originalPath, new Date(time));
+                    const fileName = originalPath.split('/').pop()!;
+
+                    expect(isInFolder(trashPath, trashFolder)).toBe(true);
+                    expect(trashPath.endsWith(`-${fileName}`)).toBe(true);
+                }
+            ),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * フォルダ指定の前後の区切り文字は無視し、空の場合は既定のフォルダを使う
+     */
+    it('should normalize the configured trash folder', () => {
+        expect(resolveTrashFolder('Postodo', '/Trash/')).toBe('Postodo/Trash');
+        expect(resolveTrashFolder('Postodo', '  ')).toBe('Postodo/.trash');
+        expect(resolveTrashFolder('Postodo', undefined)).toBe('Postodo/.trash');
+    });
+
+    /**
+     * 保存期間を過ぎた付箋だけが期限切れになり、0日の場合は期限切れにならない
+     */
+    it('should find entries older than the retention period', () => {
+        fc.assert(
+            fc.property(
+                fc.array(fc.integer({ min: 0, max: 100 }), { maxLength: 10 }),
+                fc.integer({ min: 0, max: 60 }),
+                (ages, days) => {
+                    const now = 200 * DAY_MS;
+                    const entries = ages.map((age, i) => createEntry(`note-${i}`, now - age * DAY_MS));
+
+                    const expired = findExpiredEntries(entries, days, now);
+
+                    const expected = days > 0 ? entries.filter((_, i) => ages[i] >= days) : [];
+                    expect(expired).toEqual(expected);
+                }
+            ),
+            { numRuns: 100 }
+        );
+    });
+});
+
+/**
+ * TrashManagerのテスト
+ */
+describe('TrashManager', () => {
+    let storage: MemoryStorageAdapter;
+    let store: PersistentStore<TrashEntry>;
+
+    const createManager = (mode: TrashMode = 'folder', autoPurgeDays = 30) => new TrashManager(
+        storage,
+        store,
+        new ConfigProvider({ postodoFolder: 'Postodo', trash: { mode, folder: '.trash', autoPurgeDays } } as any)
+    );
+
+    beforeEach(() => {
+        storage = new MemoryStorageAdapter();
+        store = new PersistentStore<TrashEntry>(undefined, vi.fn().mockResolvedValue(undefined));
+    });
+
+    /**
+     * ゴミ箱に移動したファイルは内容を保ったまま元のパスに復元できる
+     */
+    it('should move a note into the trash folder and restore it', async () => {
+        const manager = createManager();
+        storage.files.set('Postodo/a.md', 'original content');
+
+        const trashResult = await manager.trash(createNote('a', 'Postodo/a.md'));
+
+        expect(trashResult.success).toBe(true);
+        if (!trashResult.success || !trashResult.data) return;
+        expect(storage.files.has('Postodo/a.md')).toBe(false);
+        expect(storage.files.get(trashResult.data.trashPath)).toBe('original content');
+        expect(manager.getEntries()).toEqual([trashResult.data]);
+
+        const restoreResult = await manager.restore('a');
+
+        expect(restoreResult.success).toBe(true);
+        expect(storage.files.get('Postodo/a.md')).toBe('original content');
+        expect(storage.files.has(trashResult.data.trashPath)).toBe(false);
+        expect(manager.getEntries()).toEqual([]);
+    });
+
+    /**
+     * 元のパスに別のファイルがある場合は復元しない
+     */
+    it('should not overwrite an existing file when restoring', async () => {
+        const manager = createManager();
+        storage.files.set('Postodo/a.md', 'old');
+        await manager.trash(createNote('a', 'Postodo/a.md'));
+        storage.files.set('Postodo/a.md', 'new');
+
+        const result = await manager.restore('a');
+
+        expect(result.success).toBe(false);
+        expect(storage.files.get('Postodo/a.md')).toBe('new');
+        expect(manager.get('a')).toBeDefined();
+    });
+
+    /**
+     * 完全に削除する設定ではゴミ箱に記録しない
+     */
+    it('should delete permanently without recording an entry', async () => {
+        const manager = createManager('permanent');
+        storage.files.set('Postodo/a.md', 'content');
+
+        const result = await manager.trash(createNote('a', 'Postodo/a.md'));
+
+        expect(result).toEqual({ success: true, data: null });
+        expect(storage.files.size).toBe(0);
+        expect(manager.getEntries()).toEqual([]);
+    });
+
+    /**
+     * 保存期間を過ぎた付箋だけを完全に削除し、変更を通知する
+     */
+    it('should purge only expired entries', async () => {
+        const manager = createManager('folder', 7);
+        const now = 100 * DAY_MS;
+        const oldEntry = createEntry('old', now - 8 * DAY_MS);
+        const recentEntry = createEntry('recent', now - DAY_MS);
+        [oldEntry, recentEntry].forEach(entry => {
+            store.set(entry.id, entry);
+            storage.files.set(entry.trashPath, entry.id);
+        });
+        const listener = vi.fn();
+        manager.onTrashChanged(listener);
+
+        const result = await manager.purgeExpired(now);
+
+        expect(result).toEqual({ success: true, data: 1 });
+        expect(storage.files.has(oldEntry.trashPath)).toBe(false);
+        expect(storage.files.has(recentEntry.trashPath)).toBe(true);
+        expect(manager.getEntries()).toEqual([recentEntry]);
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * ファイルが既に削除されている場合も記録を取り除く
+     */
+    it('should drop entries whose trashed file is already gone', async () => {
+        const manager = createManager();
+        const entry = createEntry('gone', Date.now());
+        store.set(entry.id, entry);
+
+        const result = await manager.purge('gone');
+
+        expect(result.success).toBe(true);
+        expect(manager.get('gone')).toBeUndefined();
+    });
+});
@@ -0,0 +1,244 @@
+import { ITrashManager } from '../../interfaces/data/i-trash-manager';
+import { IStorageAdapter } from '../../interfaces/storage/i-storage-adapter';
+import { StickyNote, TrashEntry, Result } from '../../types/core-types';
+import { TrashMode } from '../../types/config-types';
+import { PersistentStore } from '../../core/persistent-store';
+import { ConfigProvider } from '../../providers/config-provider';
+import { normalizeFolderPath } from '../../utils/path-utils';
+
+export const DEFAULT_TRASH_FOLDER = '.trash';
+export const DEFAULT_AUTO_PURGE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * ゴミ箱フォルダのパスを返す（Postodoフォルダからの相対パスとして扱う）
+ */
+export function resolveTrashFolder(postodoFolder: string, folder: string | undefined): string {
+    return `${postodoFolder}/${normalizeFolderPath(folder) || DEFAULT_TRASH_FOLDER}`;
+}
+
+/**
+ * ゴミ箱内のファイルパスを返す
+ * 同名のファイルを何度削除しても重複しないよう、削除日時をファイル名の先頭に付ける
+ */
+export function buildTrashPath(trashFolder: string, originalPath: string, deletedAt: Date): string {
+    const fileName = originalPath.substring(originalPath.lastIndexOf('/') + 1);
+    return `${trashFolder}/${deletedAt.getTime()}-${fileName}`;
+}
+
+/**
+ * 保存期間を過ぎたゴミ箱内の付箋を返す
+ * @param days 保存期間（日）。0以下の場合は期限切れにしない
+ */
+export function findExpiredEntries(entries: TrashEntry[], days: number, now: number): TrashEntry[] {
+    if (!(days > 0)) return [];
+    const threshold = now - days * DAY_MS;
+    return entries.filter(entry => {
+        const deletedAt = Date.parse(entry.deletedAt);
+        return Number.isFinite(deletedAt) && deletedAt <= threshold;
+    });
+}
+
+/**
+ * ゴミ箱の実装
+ * ゴミ箱フォルダに移動した付箋の元のパスと削除日時はプラグインデータに記録する
+ */
+export class TrashManager implements ITrashManager {
+    private listeners: Set<(entries: TrashEntry[]) => void> = new Set();
+
+    constructor(
+        private storageAdapter: IStorageAdapter,
+        private store: PersistentStore<TrashEntry>,
+        private configProvider?: ConfigProvider
+    ) {}
+
+    getMode(): TrashMode {
+        return this.configProvider?.get<TrashMode>('trash.mode') || 'folder';
+    }
+
+    getTrashFolder(): string {
+        const postodoFolder = this.configProvider?.get<string>('postodoFolder') || 'Postodo';
+        return resolveTrashFolder(postodoFolder, this.configProvider?.get<string>('trash.folder'));
+    }
+
+    getEntries(): TrashEntry[] {
+        return this.store.entries()
+            .map(([, entry]) => entry)
+            .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+    }
+
+    get(noteId: string): TrashEntry | undefined {
+        return this.store.get(noteId);
+    }
+
+    async trash(note: StickyNote): Promise<Result<TrashEntry | null>> {
+        try {
+            const mode = this.getMode();
+
+            if (mode === 'permanent' || (mode === 'vault' && !this.storageAdapter.trash)) {
+                const result = await this.storageAdapter.delete(note.filePath);
+                return result.success ? { success: true, data: null } : result;
+            }
+
+            if (mode === 'vault') {
+                const result = await this.storageAdapter.trash!(note.filePath);
+                return result.success ? { success: true, data: null } : result;
+            }
+
+            const deletedAt = new Date();
+            const trashFolder = this.getTrashFolder();
+            const entry: TrashEntry = {
+                id: note.id,
+                title: note.title,
+                originalPath: note.filePath,
+                trashPath: buildTrashPath(trashFolder, note.filePath, deletedAt),
+                deletedAt: deletedAt.toISOString()
+            };
+
+            await this.storageAdapter.createFolder(trashFolder);
+            const moveResult = await this.moveFile(entry.originalPath, entry.trashPath);
+            if (!moveResult.success) {
+                return { success: false, error: moveResult.error };
+            }
+
+            // 同じ付箋が以前にゴミ箱に入っていた場合は古いファイルを残さない
+            const previous = this.store.get(note.id);
+            if (previous && previous.trashPath !== entry.trashPath) {
+                await this.storageAdapter.delete(previous.trashPath);
+            }
+
+            this.store.set(note.id, entry);
+            this.notifyListeners();
+            return { success: true, data: entry };
+        } catch (error) {
+            return { success: false, error: error as Error };
+        }
+    }
+
+    async restore(noteId: string): Promise<Result<TrashEntry>> {
+        try {
+            const entry = this.store.get(noteId);
+            if (!entry) {
+                return { success: false, error: new Error(`Note not found in trash: ${noteId}`) };
+            }
+
+            // 元のパスに別のファイルがある場合は上書きしない
+            const existsResult = await this.storageAdapter.exists(entry.originalPath);
+            if (existsResult.success && existsResult.data) {
+                return { success: false, error: new Error(`File already exists: ${entry.originalPath}`) };
+            }
+
+            const moveResult = await this.moveFile(entry.trashPath, entry.originalPath);
+            if (!moveResult.success) {
+                return { success: false, error: moveResult.error };
+            }
+
+            this.store.delete(noteId);
+            this.notifyListeners();
+            return { success: true, data: entry };
+        } catch (error) {
+            return { success: false, error: error as Error };
+        }
+    }
+
+    async purge(noteId: string): Promise<Result<void>> {
+        try {
+            const entry = this.store.get(noteId);
+            if (!entry) {
+                return { success: false, error: new Error(`Note not found in trash: ${noteId}`) };
+            }
+
+            const result = await this.deleteTrashedFile(entry);
+            if (!result.success) {
+                return result;
+            }
+
+            this.store.delete(noteId);
+            this.notifyListeners();
+            return result;
+        } catch (error) {
+            return { success: false, error: error as Error };
+        }
+    }
+
+    async purgeAll(): Promise<Result<number>> {
+        return this.purgeEntries(this.getEntries());
+    }
+
+    async purgeExpired(now = Date.now()): Promise<Result<number>> {
+        const days = this.configProvider?.get<number>('trash.autoPurgeDays') ?? DEFAULT_AUTO_PURGE_DAYS;
+        return this.purgeEntries(findExpiredEntries(this.getEntries(), days, now));
+    }
+
+    onTrashChanged(callback: (entries: TrashEntry[]) => void): () => void {
+        this.listeners.add(callback);
+        return () => {
+            this.listeners.delete(callback);
+        };
+    }
+
+    /**
+     * 複数の付箋を完全に削除し、変更の通知は1回にまとめる
+     * 途中で失敗した場合も残りの付箋は削除する
+     */
+    private async purgeEntries(entries: TrashEntry[]): Promise<Result<number>> {
+        let purged = 0;
+        let firstError: Error | undefined;
+
+        for (const entry of entries) {
+            const result = await this.deleteTrashedFile(entry);
+            if (result.success) {
+                this.store.delete(entry.id);
+                purged++;
+            } else if (!firstError) {
+                firstError = result.error;
+            }
+        }
+
+        if (purged > 0) {
+            this.notifyListeners();
+        }
+        return firstError ? { success: false, error: firstError } : { success: true, data: purged };
+    }
+
+    /**
+     * ゴミ箱内のファイルを削除する（既にファイルがない場合は成功として扱う）
+     */
+    private async deleteTrashedFile(entry: TrashEntry): Promise<Result<void>> {
+        const existsResult = await this.storageAdapter.exists(entry.trashPath);
+        if (existsResult.success && !existsResult.data) {
+            return { success: true, data: undefined };
+        }
+        return this.storageAdapter.delete(entry.trashPath);
+    }
+
+    private async moveFile(fromPath: string, toPath: string): Promise<Result<void>> {
+        if (this.storageAdapter.rename) {
+            return this.storageAdapter.rename(fromPath, toPath);
+        }
+
+        const readResult = await this.storageAdapter.read(fromPath);
+        if (!readResult.success) {
+            return { success: false, error: readResult.error };
+        }
+
+        const writeResult = await this.storageAdapter.write(toPath, readResult.data);
+        if (!writeResult.success) {
+            return writeResult;
+        }
+
+        return this.storageAdapter.delete(fromPath);
+    }
+
+    private notifyListeners(): void {
+        const entries = this.getEntries();
+        this.listeners.forEach(listener => {
+            try {
+                listener(entries);
+            } catch (error) {
+                console.error('Error in trash change listener:', error);
+            }
+        });
+    }
+}
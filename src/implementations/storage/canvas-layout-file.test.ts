@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CanvasLayoutFile } from './canvas-layout-file';
+import { EventBus } from '../../core/event-bus';
+import { IStorageAdapter } from '../../interfaces/storage/i-storage-adapter';
+import { Result } from '../../types/core-types';
+import { createEmptyCanvasLayout, parseCanvasLayout, serializeCanvasLayout } from '../../utils/canvas-layout';
+
+const FILE_PATH = 'Postodo/postodo-canvas.md';
+
+/**
+ * ファイルをメモリ上に保持するストレージ（変更の監視に対応）
+ */
+class MemoryStorageAdapter implements IStorageAdapter {
+    files = new Map<string, string>();
+    writes = 0;
+    private watchers = new Map<string, () => void>();
+
+    async read(filePath: string): Promise<Result<string>> {
+        const content = this.files.get(filePath);
+        return content !== undefined
+            ? { success: true, data: content }
+            : { success: false, error: new Error(`File not found: ${filePath}`) };
+    }
+
+    async write(filePath: string, content: string): Promise<Result<void>> {
+        this.writes++;
+        this.modify(filePath, content);
+        return { success: true, data: undefined };
+    }
+
+    async delete(filePath: string): Promise<Result<void>> {
+        this.files.delete(filePath);
+        return { success: true, data: undefined };
+    }
+
+    async exists(filePath: string): Promise<Result<boolean>> {
+        return { success: true, data: this.files.has(filePath) };
+    }
+
+    async list(): Promise<Result<string[]>> {
+        return { success: true, data: Array.from(this.files.keys()) };
+    }
+
+    async createFolder(): Promise<Result<void>> {
+        return { success: true, data: undefined };
+    }
+
+    watchFile(filePath: string, callback: () => void): () => void {
+        this.watchers.set(filePath, callback);
+        return () => this.watchers.delete(filePath);
+    }
+
+    // 外部（同期ツールなど）による変更
+    modify(filePath: string, content: string): void {
+        this.files.set(filePath, content);
+        this.watchers.get(filePath)?.();
+    }
+}
+
+/**
+ * CanvasLayoutFileのテスト
+ */
+describe('CanvasLayoutFile', () => {
+    let storage: MemoryStorageAdapter;
+    let eventBus: EventBus;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        storage = new MemoryStorageAdapter();
+        eventBus = new EventBus();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    /**
+     * ファイルがない場合は移行元の状態で作成し、変更はまとめてファイルに書き込む
+     */
+    it('should create the file from legacy data and save changes', async () => {
+        const layout = new CanvasLayoutFile(storage, eventBus, () => FILE_PATH, 500);
+        const loaded = vi.fn();
+        eventBus.on('canvas-layout-loaded', loaded);
+
+        const result = await layout.load({ viewports: { default: { x: 5, y: 6, zoom: 1 } } });
+
+        expect(result.success).toBe(true);
+        expect(loaded).toHaveBeenCalledTimes(1);
+        expect(parseCanvasLayout(storage.files.get(FILE_PATH)!)?.viewports).toEqual({ default: { x: 5, y: 6, zoom: 1 } });
+
+        const group = { id: 'g1', boardId: 'default', noteIds: ['n1', 'n2'], bounds: { x: -6, y: 4, width: 232, height: 212 } };
+        layout.positions.set('n1', { x: 10, y: 20, zIndex: 2 });
+        layout.groups.set('g1', group);
+        layout.viewports.set('default', { x: 0, y: 0, zoom: 2 });
+        await vi.advanceTimersByTimeAsync(500);
+
+        const saved = parseCanvasLayout(storage.files.get(FILE_PATH)!);
+        expect(saved?.positions).toEqual({ n1: { x: 10, y: 20, zIndex: 2 } });
+        expect(saved?.groups).toEqual({ g1: group });
+        expect(saved?.viewports).toEqual({ default: { x: 0, y: 0, zoom: 2 } });
+        // 自身の書き込みによる変更通知では読み込み直さない
+        expect(loaded).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * 読み込めないファイルは上書きしない
+     */
+    it('should not overwrite an unreadable file', async () => {
+        storage.files.set(FILE_PATH, 'edited by hand');
+        const layout = new CanvasLayoutFile(storage, eventBus, () => FILE_PATH, 500);
+
+        expect((await layout.load()).success).toBe(false);
+
+        layout.positions.set('n1', { x: 1, y: 1, zIndex: 1 });
+        await layout.flush();
+        expect(storage.files.get(FILE_PATH)).toBe('edited by hand');
+        expect(storage.writes).toBe(0);
+    });
+
+    /**
+     * 読み込めないファイルには移行元の状態を書き込まず、移行は済んでいない扱いにする
+     */
+    it('should not migrate legacy data into an unparsable file', async () => {
+        storage.files.set(FILE_PATH, 'edited by hand');
+        const layout = new CanvasLayoutFile(storage, eventBus, () => FILE_PATH, 500);
+
+        const result = await layout.load({ viewports: { default: { x: 5, y: 6, zoom: 1 } } });
+
+        expect(result.success).toBe(false);
+        expect(layout.isLoaded()).toBe(false);
+        expect(storage.files.get(FILE_PATH)).toBe('edited by hand');
+        expect(storage.writes).toBe(0);
+    });
+
+    /**
+     * 既にあるファイルには、ファイルにない移行元のボードと表示位置だけを加える
+     */
+    it('should merge missing legacy entries into an existing file', async () => {
+        const board = { id: 'b1', name: 'Work', positions: {} };
+        storage.files.set(FILE_PATH, serializeCanvasLayout({
+            ...createEmptyCanvasLayout(),
+            viewports: { default: { x: 1, y: 2, zoom: 1 } }
+        }));
+        const layout = new CanvasLayoutFile(storage, eventBus, () => FILE_PATH, 500);
+
+        const result = await layout.load({
+            boards: { b1: board },
+            viewports: { default: { x: 5, y: 6, zoom: 1 }, b1: { x: 3, y: 4, zoom: 2 } }
+        });
+
+        expect(result.success).toBe(true);
+        expect(layout.isLoaded()).toBe(true);
+        const saved = parseCanvasLayout(storage.files.get(FILE_PATH)!);
+        expect(saved?.boards).toEqual({ b1: board });
+        expect(saved?.viewports).toEqual({ default: { x: 1, y: 2, zoom: 1 }, b1: { x: 3, y: 4, zoom: 2 } });
+        layout.cleanup();
+    });
+
+    /**
+     * 外部で変更されたファイルを読み込み直して通知する
+     */
+    it('should reload external changes', async () => {
+        const layout = new CanvasLayoutFile(storage, eventBus, () => FILE_PATH, 500);
+        await layout.load();
+        const loaded = vi.fn();
+        eventBus.on('canvas-layout-loaded', loaded);
+
+        storage.modify(FILE_PATH, serializeCanvasLayout({
+            ...createEmptyCanvasLayout(),
+            positions: { n1: { x: 7, y: 8, zIndex: 1 } }
+        }));
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(layout.positions.get('n1')).toEqual({ x: 7, y: 8, zIndex: 1 });
+        expect(loaded).toHaveBeenCalledTimes(1);
+        layout.cleanup();
+    });
+});
@@ -0,0 +1,170 @@
+import { IStorageAdapter } from '../../interfaces/storage/i-storage-adapter';
+import { IEventBus } from '../../core/event-bus';
+import { PersistentStore } from '../../core/persistent-store';
+import { Board, NoteGroup, Position, Result } from '../../types/core-types';
+import { ViewportState } from '../../ui/canvas-viewport';
+import { CanvasLayout, createEmptyCanvasLayout, parseCanvasLayout, serializeCanvasLayout } from '../../utils/canvas-layout';
+import { FileOperationError } from '../../utils/error-handler';
+
+/**
+ * キャンバスファイル（設定のcanvasFileName）に保存するキャンバス全体の状態
+ * 付箋の位置・重なり順、ボード、グループ、表示位置をそれぞれのストアで扱い、変更はまとめて1つのファイルに書き込む
+ */
+export class CanvasLayoutFile {
+    readonly positions: PersistentStore<Position>;
+    readonly boards: PersistentStore<Board>;
+    readonly groups: PersistentStore<NoteGroup>;
+    readonly viewports: PersistentStore<ViewportState>;
+
+    // 読み込みが完了するまでは書き込まない（読み込めなかったファイルを上書きしないため）
+    private loaded = false;
+    // 最後に読み書きした内容（自身の書き込みによる変更通知を無視するため）
+    private lastContent: string | null = null;
+    private unwatch?: () => void;
+
+    /**
+     * @param getFilePath キャンバスファイルのパスを返す処理（設定の変更に追従するため都度取得する）
+     */
+    constructor(
+        private storageAdapter: IStorageAdapter,
+        private eventBus: IEventBus,
+        private getFilePath: () => string,
+        debounceMs = 1000
+    ) {
+        const persist = () => this.save();
+        this.positions = new PersistentStore<Position>(undefined, persist, debounceMs);
+        this.boards = new PersistentStore<Board>(undefined, persist, debounceMs);
+        this.groups = new PersistentStore<NoteGroup>(undefined, persist, debounceMs);
+        this.viewports = new PersistentStore<ViewportState>(undefined, persist, debounceMs);
+    }
+
+    isLoaded(): boolean {
+        return this.loaded;
+    }
+
+    /**
+     * キャンバスファイルを読み込む
+     * 移行元の状態（以前はプラグインデータに保存していたボードと表示位置）は、ファイルにないものだけを加えてすぐに書き込む
+     * 移行元の状態を書き込めなかった場合は読み込み失敗とし、isLoaded()はfalseのままになる
+     */
+    async load(legacy: Partial<CanvasLayout> = {}): Promise<Result<void>> {
+        const filePath = this.getFilePath();
+        const exists = await this.storageAdapter.exists(filePath);
+        if (!exists.success) {
+            return exists;
+        }
+
+        let layout: CanvasLayout = createEmptyCanvasLayout();
+        let content: string | null = null;
+        if (exists.data) {
+            const read = await this.storageAdapter.read(filePath);
+            if (!read.success) {
+                return read;
+            }
+            const parsed = parseCanvasLayout(read.data);
+            if (!parsed) {
+                return {
+                    success: false,
+                    error: new FileOperationError(`Invalid canvas layout: ${filePath}`, filePath, 'read')
+                };
+            }
+            layout = parsed;
+            content = read.data;
+        }
+
+        const migrated = hasMissingEntries(legacy.boards, layout.boards) || hasMissingEntries(legacy.viewports, layout.viewports);
+        layout = {
+            ...layout,
+            boards: { ...legacy.boards, ...layout.boards },
+            viewports: { ...legacy.viewports, ...layout.viewports }
+        };
+        this.apply(layout, content);
+
+        if (migrated) {
+            const written = await this.write();
+            if (!written.success) {
+                return written;
+            }
+        }
+        this.loaded = true;
+
+        // 他の端末からの同期などによる変更を読み込む
+        this.unwatch?.();
+        this.unwatch = this.storageAdapter.watchFile?.(filePath, () => {
+            this.reload().catch(error => console.error('Failed to reload canvas layout:', error));
+        });
+        this.eventBus.emit('canvas-layout-loaded', { layout });
+        return { success: true, data: undefined };
+    }
+
+    /**
+     * 保留中の変更を書き込む
+     */
+    async flush(): Promise<void> {
+        await this.positions.flush();
+        await this.boards.flush();
+        await this.groups.flush();
+        await this.viewports.flush();
+    }
+
+    cleanup(): void {
+        this.unwatch?.();
+        this.unwatch = undefined;
+    }
+
+    toJSON(): CanvasLayout {
+        return {
+            ...createEmptyCanvasLayout(),
+            positions: this.positions.toJSON(),
+            boards: this.boards.toJSON(),
+            groups: this.groups.toJSON(),
+            viewports: this.viewports.toJSON()
+        };
+    }
+
+    private async save(): Promise<void> {
+        if (!this.loaded) return;
+
+        const result = await this.write();
+        if (!result.success) {
+            console.error('Failed to save canvas layout:', result.error);
+        }
+    }
+
+    private async write(): Promise<Result<void>> {
+        const content = serializeCanvasLayout(this.toJSON());
+        if (content === this.lastContent) return { success: true, data: undefined };
+
+        this.lastContent = content;
+        return this.storageAdapter.write(this.getFilePath(), content);
+    }
+
+    /**
+     * ファイルが外部で変更された場合に読み込み直し、キャンバスの状態が変わったことを通知する
+     */
+    private async reload(): Promise<void> {
+        const read = await this.storageAdapter.read(this.getFilePath());
+        if (!read.success || read.data === this.lastContent) return;
+
+        const layout = parseCanvasLayout(read.data);
+        if (!layout) return;
+
+        this.apply(layout, read.data);
+        this.eventBus.emit('canvas-layout-loaded', { layout });
+    }
+
+    private apply(layout: CanvasLayout, content: string | null): void {
+        this.positions.replace(layout.positions);
+        this.boards.replace(layout.boards);
+        this.groups.replace(layout.groups);
+        this.viewports.replace(layout.viewports);
+        this.lastContent = content;
+    }
+}
+
+/**
+ * 移行元の項目のうち、キャンバスファイルにないものがあるか
+ */
+function hasMissingEntries(legacy: Record<string, unknown> | undefined, current: Record<string, unknown>): boolean {
+    return Object.keys(legacy || {}).some(key => !(key in current));
+}
@@ -4,6 +4,14 @@ import { Result } from '../../types/core-types';
 import { FileOperationError } from '../../utils/error-handler';
 import { FileValidator } from '../../utils/validators';
 
+/**
+ * 「.」で始まるファイルやフォルダを含むパスかどうか
+ * ObsidianはこれらをVaultに登録しないため、アダプターを直接操作する必要がある
+ */
+export function isHiddenPath(filePath: string): boolean {
+    return filePath.split('/').some(segment => segment.startsWith('.'));
+}
+
 export class ObsidianStorageAdapter implements IStorageAdapter {
     private operationQueue = new Map<string, Promise<any>>();
     private readonly MAX_RETRIES = 3;
@@ -22,6 +30,13 @@ export class ObsidianStorageAdapter implements IStorageAdapter {
         }
 
         return this.withRetry(async () => {
+            if (isHiddenPath(filePath)) {
+                if (!(await this.vault.adapter.exists(filePath))) {
+                    throw new FileOperationError(`File not found: ${filePath}`, filePath, 'read');
+                }
+                return { success: true, data: await this.vault.adapter.read(filePath) };
+            }
+
             const file = this.vault.getAbstractFileByPath(filePath);
             if (!file || !(file instanceof TFile)) {
                 throw new FileOperationError(`File not found: ${filePath}`, filePath, 'read');
@@ -48,6 +63,12 @@ export class ObsidianStorageAdapter implements IStorageAdapter {
         }
 
         const operation = this.withRetry(async () => {
+            if (isHiddenPath(filePath)) {
+                await this.ensureHiddenDirectoryExists(filePath);
+                await this.vault.adapter.write(filePath, content);
+                return { success: true, data: undefined };
+            }
+
             const file = this.vault.getAbstractFileByPath(filePath);
             
             if (file && file instanceof TFile) {
@@ -88,6 +109,14 @@ export class ObsidianStorageAdapter implements IStorageAdapter {
         }
 
         const operation = this.withRetry(async () => {
+            if (isHiddenPath(filePath)) {
+                if (!(await this.vault.adapter.exists(filePath))) {
+                    throw new FileOperationError(`File not found: ${filePath}`, filePath, 'delete');
+                }
+                await this.vault.adapter.remove(filePath);
+                return { success: true, data: undefined };
+            }
+
             const file = this.vault.getAbstractFileByPath(filePath);
             if (!file) {
                 throw new FileOperationError(`File not found: ${filePath}`, filePath, 'delete');
@@ -109,6 +138,10 @@ export class ObsidianStorageAdapter implements IStorageAdapter {
 
     async exists(filePath: string): Promise<Result<boolean>> {
         try {
+            if (isHiddenPath(filePath)) {
+                return { success: true, data: await this.vault.adapter.exists(filePath) };
+            }
+
             const file = this.vault.getAbstractFileByPath(filePath);
             return { success: true, data: file !== null };
         } catch (error) {
@@ -118,6 +151,14 @@ export class ObsidianStorageAdapter implements IStorageAdapter {
 
     async list(folderPath: string): Promise<Result<string[]>> {
         try {
+            if (isHiddenPath(folderPath)) {
+                if (!(await this.vault.adapter.exists(folderPath))) {
+                    return { success: false, error: new Error(`Folder not found: ${folderPath}`) };
+                }
+                const listed = await this.vault.adapter.list(folderPath);
+                return { success: true, data: listed.files };
+            }
+
             const folder = this.vault.getAbstractFileByPath(folderPath);
             if (!folder || !(folder instanceof TFolder)) {
                 return { success: false, error: new Error(`Folder not found: ${folderPath}`) };
@@ -140,6 +181,11 @@ export class ObsidianStorageAdapter implements IStorageAdapter {
                 return { success: true, data: undefined };
             }
             
+            if (isHiddenPath(folderPath)) {
+                await this.vault.adapter.mkdir(folderPath);
+                return { success: true, data: undefined };
+            }
+
             await this.vault.createFolder(folderPath);
             return { success: true, data: undefined };
         }, 'createFolder', folderPath);
@@ -169,6 +215,11 @@ export class ObsidianStorageAdapter implements IStorageAdapter {
         }
 
         const operation = this.withRetry(async () => {
+            if (isHiddenPath(oldPath) || isHiddenPath(newPath)) {
+                await this.renameAcrossHiddenPaths(oldPath, newPath);
+                return { success: true, data: undefined };
+            }
+
             const file = this.vault.getAbstractFileByPath(oldPath);
             if (!file || !(file instanceof TFile)) {
                 throw new FileOperationError(`File not found: ${oldPath}`, oldPath, 'rename');
@@ -194,6 +245,64 @@ export class ObsidianStorageAdapter implements IStorageAdapter {
         }
     }
 
+    /**
+     * Vaultのゴミ箱（.trash）にファイルを移動する
+     */
+    async trash(filePath: string): Promise<Result<void>> {
+        return this.withRetry(async () => {
+            const file = this.vault.getAbstractFileByPath(filePath);
+            if (!file) {
+                throw new FileOperationError(`File not found: ${filePath}`, filePath, 'trash');
+            }
+
+            await this.vault.trash(file, false);
+            return { success: true, data: undefined };
+        }, 'trash', filePath);
+    }
+
+    /**
+     * 隠しパスを含む移動（Vaultの登録を保つため、登録されるパス側はVaultのAPIで作成・削除する）
+     */
+    private async renameAcrossHiddenPaths(oldPath: string, newPath: string): Promise<void> {
+        const exists = await this.exists(newPath);
+        if (exists.success && exists.data) {
+            throw new FileOperationError(`File already exists: ${newPath}`, newPath, 'rename');
+        }
+
+        if (isHiddenPath(oldPath) && isHiddenPath(newPath)) {
+            await this.ensureHiddenDirectoryExists(newPath);
+            await this.vault.adapter.rename(oldPath, newPath);
+            return;
+        }
+
+        if (isHiddenPath(newPath)) {
+            const file = this.vault.getAbstractFileByPath(oldPath);
+            if (!file || !(file instanceof TFile)) {
+                throw new FileOperationError(`File not found: ${oldPath}`, oldPath, 'rename');
+            }
+            const content = await this.vault.read(file);
+            await this.ensureHiddenDirectoryExists(newPath);
+            await this.vault.adapter.write(newPath, content);
+            await this.vault.delete(file);
+            return;
+        }
+
+        if (!(await this.vault.adapter.exists(oldPath))) {
+            throw new FileOperationError(`File not found: ${oldPath}`, oldPath, 'rename');
+        }
+        const content = await this.vault.adapter.read(oldPath);
+        await this.ensureDirectoryExists(newPath);
+        await this.vault.create(newPath, content);
+        await this.vault.adapter.remove(oldPath);
+    }
+
+    private async ensureHiddenDirectoryExists(filePath: string): Promise<void> {
+        const directoryPath = filePath.substring(0, filePath.lastIndexOf('/'));
+        if (directoryPath && !(await this.vault.adapter.exists(directoryPath))) {
+            await this.vault.adapter.mkdir(directoryPath);
+        }
+    }
+
     private async withRetry<T>(
         operation: () => Promise<Result<T>>,
         operationType: string,
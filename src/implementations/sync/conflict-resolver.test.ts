@@ -561,3 +561,276 @@ describe('ConflictResolver - Multiple Conflicts', () => {
         );
     });
 });
+
+/**
+ * user-choiceモードのコンテンツ競合解決
+ */
+describe('ConflictResolver - User Choice Resolution', () => {
+    let resolver: ConflictResolver;
+
+    beforeEach(() => {
+        resolver = new ConflictResolver();
+        resolver.setResolutionMode('user-choice');
+    });
+
+    /**
+     * 位置とコンテンツが同時に競合しても、ユーザーには元の両方の内容が提示される
+     */
+    it('should pass original file and canvas content to the handler', async () => {
+        await fc.assert(
+            fc.asyncProperty(
+                stickyNoteArb('shared-id'),
+                differentPositionsArb,
+                differentContentsArb,
+                async (baseNote, [filePos, uiPos], [fileContent, uiContent]) => {
+                    const fileNote: StickyNote = { ...baseNote, position: filePos, content: fileContent };
+                    const uiNote: StickyNote = { ...baseNote, position: uiPos, content: uiContent };
+                    const seen: string[] = [];
+                    resolver.setUserChoiceHandler(async (file, ui) => {
+                        seen.push(file.content, ui.content);
+                        return { choice: 'file' };
+                    });
+
+                    const result = await resolver.resolveAllConflicts(fileNote, uiNote);
+
+                    expect(seen).toEqual([fileContent, uiContent]);
+                    expect(result.success).toBe(true);
+                    expect(result.strategy).toBe('user-choice');
+                    expect(result.result.content).toBe(fileContent);
+                    // 位置はUI優先のまま
+                    expect(result.result.position).toEqual(uiPos);
+                }
+            ),
+            { numRuns: 50 }
+        );
+    });
+
+    /**
+     * マージ結果を選択した場合は編集後の内容が採用される
+     */
+    it('should apply edited merged result', async () => {
+        await fc.assert(
+            fc.asyncProperty(
+                stickyNoteArb('shared-id'),
+                differentContentsArb,
+                async (baseNote, [fileContent, uiContent]) => {
+                    resolver.setUserChoiceHandler(async () => ({
+                        choice: 'merged',
+                        title: 'Merged',
+                        content: `${fileContent}\n${uiContent}`
+                    }));
+
+                    const result = await resolver.resolveConflict(
+                        { ...baseNote, content: fileContent },
+                        { ...baseNote, content: uiContent },
+                        'content'
+                    );
+
+                    expect(result.success).toBe(true);
+                    expect(result.strategy).toBe('user-choice');
+                    expect(result.result.title).toBe('Merged');
+                    expect(result.result.content).toBe(`${fileContent}\n${uiContent}`);
+                }
+            ),
+            { numRuns: 50 }
+        );
+    });
+
+    /**
+     * 選択せずに閉じた場合は解決失敗となる
+     */
+    it('should fail when the user dismisses the choice', async () => {
+        await fc.assert(
+            fc.asyncProperty(
+                stickyNoteArb('shared-id'),
+                differentContentsArb,
+                async (baseNote, [fileContent, uiContent]) => {
+                    resolver.setUserChoiceHandler(async () => null);
+
+                    const result = await resolver.resolveAllConflicts(
+                        { ...baseNote, content: fileContent },
+                        { ...baseNote, content: uiContent }
+                    );
+
+                    expect(result.success).toBe(false);
+                    expect(result.strategy).toBe('user-choice');
+                }
+            ),
+            { numRuns: 50 }
+        );
+    });
+});
+
+/**
+ * auto-mergeモードのコンテンツ競合解決
+ */
+describe('ConflictResolver - Three-way Merge', () => {
+    let resolver: ConflictResolver;
+
+    beforeEach(() => {
+        resolver = new ConflictResolver();
+        resolver.setResolutionMode('auto-merge');
+    });
+
+    /**
+     * 異なる行への同時編集は両方取り込まれる
+     */
+    it('should keep both sides edits when they touch different lines', async () => {
+        await fc.assert(
+            fc.asyncProperty(stickyNoteArb('shared-id'), async (note) => {
+                const baseNote: StickyNote = { ...note, content: 'line 1\nline 2\nline 3' };
+                const fileNote: StickyNote = { ...baseNote, content: 'line 1 (mobile)\nline 2\nline 3' };
+                const uiNote: StickyNote = { ...baseNote, content: 'line 1\nline 2\nline 3 (canvas)' };
+
+                const result = await resolver.resolveAllConflicts(fileNote, uiNote, baseNote);
+
+                expect(result.success).toBe(true);
+                expect(result.result.content).toBe('line 1 (mobile)\nline 2\nline 3 (canvas)');
+            }),
+            { numRuns: 50 }
+        );
+    });
+
+    /**
+     * 片側のみが完了状態を変更した場合はその変更が残る
+     */
+    it('should keep completion change from the side that changed it', async () => {
+        await fc.assert(
+            fc.asyncProperty(stickyNoteArb('shared-id'), async (note) => {
+                const baseNote: StickyNote = { ...note, content: 'base', completed: false };
+                const fileNote: StickyNote = { ...baseNote, completed: true };
+                const uiNote: StickyNote = { ...baseNote, content: 'edited on canvas' };
+
+                const result = await resolver.resolveAllConflicts(fileNote, uiNote, baseNote);
+
+                expect(result.result.completed).toBe(true);
+                expect(result.result.content).toBe('edited on canvas');
+            }),
+            { numRuns: 50 }
+        );
+    });
+
+    /**
+     * 基準がない場合は従来通り新しい方を採用する
+     */
+    it('should fall back to newer note without base', async () => {
+        await fc.assert(
+            fc.asyncProperty(
+                stickyNoteArb('shared-id'),
+                differentContentsArb,
+                async (note, [fileContent, uiContent]) => {
+                    const fileNote: StickyNote = {
+                        ...note,
+                        content: fileContent,
+                        metadata: { ...note.metadata, modified: '2025-01-01T00:00:00.000Z' }
+                    };
+                    const uiNote: StickyNote = {
+                        ...note,
+                        content: uiContent,
+                        metadata: { ...note.metadata, modified: '2025-06-01T00:00:00.000Z' }
+                    };
+
+                    const result = await resolver.resolveConflict(fileNote, uiNote, 'content');
+
+                    expect(result.result.content).toBe(uiContent);
+                }
+            ),
+            { numRuns: 50 }
+        );
+    });
+});
+
+/**
+ * 最後に同期した状態を基準にした変更検出
+ */
+describe('ConflictResolver - Base-aware Change Detection', () => {
+    let resolver: ConflictResolver;
+
+    beforeEach(() => {
+        resolver = new ConflictResolver();
+    });
+
+    /**
+     * 片側のみの変更は競合として扱わず、変更側を報告する
+     */
+    it('should report the changed side without conflict when only one side changed', () => {
+        fc.assert(
+            fc.property(
+                stickyNoteArb('shared-id'),
+                differentPositionsArb,
+                (baseNote, [basePos, movedPos]) => {
+                    const base: StickyNote = { ...baseNote, position: basePos };
+                    const moved: StickyNote = { ...baseNote, position: movedPos };
+
+                    const uiMoved = resolver.detectChanges(base, moved, base);
+                    const fileMoved = resolver.detectChanges(moved, base, base);
+
+                    expect(uiMoved.changes).toEqual({ position: 'ui' });
+                    expect(fileMoved.changes).toEqual({ position: 'file' });
+                    expect(resolver.detectAllConflicts(base, moved, base).hasConflict).toBe(false);
+                    expect(resolver.detectAllConflicts(moved, base, base).hasConflict).toBe(false);
+                }
+            ),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 両側で異なる変更がされた場合のみ競合となる
+     */
+    it('should report conflict only when both sides changed', () => {
+        fc.assert(
+            fc.property(
+                stickyNoteArb('shared-id'),
+                differentContentsArb,
+                (baseNote, [fileContent, uiContent]) => {
+                    const base: StickyNote = { ...baseNote, content: `${fileContent}${uiContent}` };
+                    const fileNote: StickyNote = { ...baseNote, content: fileContent };
+                    const uiNote: StickyNote = { ...baseNote, content: uiContent };
+
+                    const changes = resolver.detectChanges(fileNote, uiNote, base);
+                    const detection = resolver.detectAllConflicts(fileNote, uiNote, base);
+
+                    expect(changes.changes.content).toBe('both');
+                    expect(detection.conflictTypes).toEqual(['content']);
+                }
+            ),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 片側の変更は解決戦略や更新日時にかかわらず取り込まれる
+     */
+    it('should take one-sided changes regardless of modified timestamps', async () => {
+        await fc.assert(
+            fc.asyncProperty(
+                stickyNoteArb('shared-id'),
+                differentPositionsArb,
+                differentContentsArb,
+                async (baseNote, [basePos, uiPos], [baseContent, fileContent]) => {
+                    const base: StickyNote = { ...baseNote, position: basePos, content: baseContent };
+                    // ファイル側はコンテンツのみ、UI側は位置のみを変更（UIの方が新しい）
+                    const fileNote: StickyNote = {
+                        ...base,
+                        content: fileContent,
+                        metadata: { ...base.metadata, modified: '2025-01-01T00:00:00.000Z' }
+                    };
+                    const uiNote: StickyNote = {
+                        ...base,
+                        position: uiPos,
+                        metadata: { ...base.metadata, modified: '2025-06-01T00:00:00.000Z' }
+                    };
+
+                    const result = await resolver.resolveAllConflicts(fileNote, uiNote, base);
+
+                    expect(result.success).toBe(true);
+                    expect(result.strategy).toBe('merge');
+                    expect(result.result.content).toBe(fileContent);
+                    expect(result.result.position).toEqual(uiPos);
+                }
+            ),
+            { numRuns: 100 }
+        );
+    });
+});
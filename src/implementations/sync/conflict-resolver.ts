@@ -1,11 +1,18 @@
-import { StickyNote, Position, NoteMetadata } from '../../types/core-types';
+import { StickyNote, Position, NoteMetadata, Appearance, Dimensions } from '../../types/core-types';
 import {
     IConflictResolver,
     ConflictType,
     ResolveResult,
     ConflictDetectionResult,
-    ResolveStrategy
+    ChangeDetectionResult,
+    ChangeSide,
+    ResolveStrategy,
+    ContentConflictChoice,
+    ContentConflictHandler
 } from '../../interfaces/sync/i-conflict-resolver';
+import { ConflictResolution } from '../../types/config-types';
+import { TextMerger } from '../../utils/text-merge';
+import { getCompletionFields } from '../../utils/completion';
 
 /**
  * 競合解決の実装
@@ -13,11 +20,32 @@ import {
  * 解決戦略:
  * - 位置競合: UI優先（ユーザーがドラッグ中の可能性があるため）
  * - コンテンツ競合: 新しい方優先
+ *   （auto-mergeモードでは最後に同期した内容を基準に三方向マージ、user-choiceモードではユーザーに確認）
  * - メタデータ競合: 競合しないフィールドをマージ
+ * - 外観・大きさの競合: UI優先
  * 
  * Requirements: 8.1, 8.2, 8.3
  */
 export class ConflictResolver implements IConflictResolver {
+    private static readonly CONFLICT_TYPES: ConflictType[] = ['position', 'content', 'metadata', 'appearance', 'dimensions'];
+
+    private mode: ConflictResolution = 'last-write-wins';
+    private userChoiceHandler?: ContentConflictHandler;
+
+    /**
+     * 競合解決モードを設定する
+     */
+    setResolutionMode(mode: ConflictResolution): void {
+        this.mode = mode;
+    }
+
+    /**
+     * user-choiceモードでコンテンツ競合を確認するハンドラーを設定する
+     */
+    setUserChoiceHandler(handler: ContentConflictHandler): void {
+        this.userChoiceHandler = handler;
+    }
+
     /**
      * 位置が異なるかどうかを判定
      */
@@ -26,10 +54,28 @@ export class ConflictResolver implements IConflictResolver {
     }
 
     /**
-     * コンテンツが異なるかどうかを判定
+     * 外観（色・サイズ・回転）が異なるかどうかを判定
+     */
+    private isAppearanceDifferent(appearance1: Appearance, appearance2: Appearance): boolean {
+        return appearance1.color !== appearance2.color ||
+            appearance1.size !== appearance2.size ||
+            appearance1.rotation !== appearance2.rotation;
+    }
+
+    /**
+     * 大きさが異なるかどうかを判定
+     */
+    private isDimensionsDifferent(dimensions1: Dimensions, dimensions2: Dimensions): boolean {
+        return dimensions1.width !== dimensions2.width || dimensions1.height !== dimensions2.height;
+    }
+
+    /**
+     * コンテンツが異なるかどうかを判定（完了状態を含む）
      */
     private isContentDifferent(note1: StickyNote, note2: StickyNote): boolean {
-        return note1.title !== note2.title || note1.content !== note2.content;
+        return note1.title !== note2.title ||
+            note1.content !== note2.content ||
+            note1.completed !== note2.completed;
     }
 
     /**
@@ -57,9 +103,37 @@ export class ConflictResolver implements IConflictResolver {
             return true;
         }
 
+        // フロントマターの項目の比較
+        const properties1 = meta1.properties || {};
+        const properties2 = meta2.properties || {};
+        const keys = new Set([...Object.keys(properties1), ...Object.keys(properties2)]);
+        if ([...keys].some(key => properties1[key] !== properties2[key])) {
+            return true;
+        }
+
         return false;
     }
 
+    /**
+     * 指定した種類のフィールドが異なるかどうかを判定
+     */
+    private isTypeDifferent(conflictType: ConflictType, note1: StickyNote, note2: StickyNote): boolean {
+        switch (conflictType) {
+            case 'position':
+                return this.isPositionDifferent(note1.position, note2.position);
+            case 'content':
+                return this.isContentDifferent(note1, note2);
+            case 'metadata':
+                return this.isMetadataDifferent(note1.metadata, note2.metadata);
+            case 'appearance':
+                return this.isAppearanceDifferent(note1.appearance, note2.appearance);
+            case 'dimensions':
+                return this.isDimensionsDifferent(note1.dimensions, note2.dimensions);
+            default:
+                return false;
+        }
+    }
+
     /**
      * 競合を検出する（最初に見つかった競合のみ）
      */
@@ -84,38 +158,70 @@ export class ConflictResolver implements IConflictResolver {
             return 'metadata';
         }
 
+        // 外観と大きさの競合をチェック
+        if (this.isAppearanceDifferent(fileNote.appearance, uiNote.appearance)) {
+            return 'appearance';
+        }
+        if (this.isDimensionsDifferent(fileNote.dimensions, uiNote.dimensions)) {
+            return 'dimensions';
+        }
+
         return null;
     }
 
     /**
      * 全ての競合を検出する
      */
-    detectAllConflicts(fileNote: StickyNote, uiNote: StickyNote): ConflictDetectionResult {
-        const conflictTypes: ConflictType[] = [];
-
+    detectAllConflicts(fileNote: StickyNote, uiNote: StickyNote, baseNote?: StickyNote): ConflictDetectionResult {
         // 同じIDでない場合は比較不可
         if (fileNote.id !== uiNote.id) {
             return { hasConflict: false, conflictTypes: [] };
         }
 
-        // 位置の競合をチェック
-        if (this.isPositionDifferent(fileNote.position, uiNote.position)) {
-            conflictTypes.push('position');
+        // 基準がある場合は両側で異なる変更がされた種類のみが競合
+        if (baseNote) {
+            const { changes } = this.detectChanges(fileNote, uiNote, baseNote);
+            const conflictTypes = ConflictResolver.CONFLICT_TYPES.filter(type => changes[type] === 'both');
+            return {
+                hasConflict: conflictTypes.length > 0,
+                conflictTypes
+            };
         }
 
-        // コンテンツの競合をチェック
-        if (this.isContentDifferent(fileNote, uiNote)) {
-            conflictTypes.push('content');
+        // 位置・コンテンツ・メタデータ・外観・大きさの順に差異をチェック
+        const conflictTypes = ConflictResolver.CONFLICT_TYPES.filter(type =>
+            this.isTypeDifferent(type, fileNote, uiNote)
+        );
+
+        return {
+            hasConflict: conflictTypes.length > 0,
+            conflictTypes
+        };
+    }
+
+    /**
+     * 最後に同期した状態を基準に、どちら側が変更されたかを検出する
+     */
+    detectChanges(fileNote: StickyNote, uiNote: StickyNote, baseNote: StickyNote): ChangeDetectionResult {
+        const changes: Partial<Record<ConflictType, ChangeSide>> = {};
+
+        if (fileNote.id !== uiNote.id) {
+            return { hasChanges: false, changes };
         }
 
-        // メタデータの競合をチェック
-        if (this.isMetadataDifferent(fileNote.metadata, uiNote.metadata)) {
-            conflictTypes.push('metadata');
+        for (const type of ConflictResolver.CONFLICT_TYPES) {
+            if (!this.isTypeDifferent(type, fileNote, uiNote)) {
+                continue;
+            }
+
+            const fileChanged = this.isTypeDifferent(type, baseNote, fileNote);
+            const uiChanged = this.isTypeDifferent(type, baseNote, uiNote);
+            changes[type] = fileChanged && uiChanged ? 'both' : fileChanged ? 'file' : 'ui';
         }
 
         return {
-            hasConflict: conflictTypes.length > 0,
-            conflictTypes
+            hasChanges: Object.keys(changes).length > 0,
+            changes
         };
     }
 
@@ -125,7 +231,8 @@ export class ConflictResolver implements IConflictResolver {
     async resolveConflict(
         fileNote: StickyNote,
         uiNote: StickyNote,
-        conflictType: ConflictType
+        conflictType: ConflictType,
+        baseNote?: StickyNote
     ): Promise<ResolveResult> {
         let result: StickyNote;
         let strategy: ResolveStrategy;
@@ -138,6 +245,16 @@ export class ConflictResolver implements IConflictResolver {
                 break;
 
             case 'content':
+                // user-choiceモードではユーザーの選択を優先
+                if (this.mode === 'user-choice' && this.userChoiceHandler) {
+                    return this.resolveContentConflictByUser(fileNote, uiNote, baseNote);
+                }
+                // auto-mergeモードで基準がある場合は両側の変更を取り込む
+                if (this.mode === 'auto-merge' && baseNote) {
+                    result = this.mergeContentConflict(fileNote, uiNote, baseNote);
+                    strategy = 'merge';
+                    break;
+                }
                 // コンテンツ競合: 新しい方優先（Requirements 8.2）
                 result = this.resolveContentConflict(fileNote, uiNote);
                 strategy = this.getNewerNote(fileNote, uiNote) === uiNote ? 'ui-wins' : 'file-wins';
@@ -149,6 +266,13 @@ export class ConflictResolver implements IConflictResolver {
                 strategy = 'merge';
                 break;
 
+            case 'appearance':
+            case 'dimensions':
+                // 外観・大きさの競合: 位置と同じくUI優先
+                result = uiNote;
+                strategy = 'ui-wins';
+                break;
+
             default:
                 // 競合タイプが不明な場合はUI優先
                 result = uiNote;
@@ -167,8 +291,13 @@ export class ConflictResolver implements IConflictResolver {
      */
     async resolveAllConflicts(
         fileNote: StickyNote,
-        uiNote: StickyNote
+        uiNote: StickyNote,
+        baseNote?: StickyNote
     ): Promise<ResolveResult> {
+        if (baseNote) {
+            return this.resolveChangesFromBase(fileNote, uiNote, baseNote);
+        }
+
         const detection = this.detectAllConflicts(fileNote, uiNote);
 
         if (!detection.hasConflict) {
@@ -180,12 +309,20 @@ export class ConflictResolver implements IConflictResolver {
         }
 
         // 全ての競合を順番に解決
+        // 各競合は元の付箋同士で判定し、その種類が扱うフィールドだけを結果に反映する
         let resolvedNote = { ...uiNote };
         let finalStrategy: ResolveStrategy = 'merge';
 
         for (const conflictType of detection.conflictTypes) {
-            const resolution = await this.resolveConflict(fileNote, resolvedNote, conflictType);
-            resolvedNote = resolution.result;
+            const resolution = await this.resolveConflict(fileNote, uiNote, conflictType, baseNote);
+            if (!resolution.success) {
+                // ユーザーが選択せずに閉じた場合は解決を中断する
+                return resolution;
+            }
+            resolvedNote = this.mergeResolvedFields(resolvedNote, resolution.result, conflictType);
+            if (resolution.strategy === 'user-choice') {
+                finalStrategy = 'user-choice';
+            }
         }
 
         return {
@@ -195,6 +332,106 @@ export class ConflictResolver implements IConflictResolver {
         };
     }
 
+    /**
+     * 最後に同期した状態を基準に解決する
+     * 片側のみの変更はそのまま取り込み、両側の変更のみを各戦略で解決する
+     */
+    private async resolveChangesFromBase(
+        fileNote: StickyNote,
+        uiNote: StickyNote,
+        baseNote: StickyNote
+    ): Promise<ResolveResult> {
+        const detection = this.detectChanges(fileNote, uiNote, baseNote);
+
+        if (!detection.hasChanges) {
+            return {
+                success: true,
+                result: uiNote,
+                strategy: 'ui-wins'
+            };
+        }
+
+        let resolvedNote = { ...uiNote };
+        const strategies = new Set<ResolveStrategy>();
+
+        for (const conflictType of ConflictResolver.CONFLICT_TYPES) {
+            const side = detection.changes[conflictType];
+            if (!side) {
+                continue;
+            }
+
+            if (side === 'both') {
+                const resolution = await this.resolveConflict(fileNote, uiNote, conflictType, baseNote);
+                if (!resolution.success) {
+                    return resolution;
+                }
+                resolvedNote = this.mergeResolvedFields(resolvedNote, resolution.result, conflictType);
+                strategies.add(resolution.strategy);
+            } else {
+                const source = side === 'file' ? fileNote : uiNote;
+                resolvedNote = this.mergeResolvedFields(resolvedNote, source, conflictType);
+                strategies.add(side === 'file' ? 'file-wins' : 'ui-wins');
+            }
+        }
+
+        let strategy: ResolveStrategy = 'merge';
+        if (strategies.has('user-choice')) {
+            strategy = 'user-choice';
+        } else if (strategies.size === 1) {
+            strategy = Array.from(strategies)[0];
+        }
+
+        return {
+            success: true,
+            result: {
+                ...resolvedNote,
+                metadata: {
+                    ...resolvedNote.metadata,
+                    modified: new Date().toISOString()
+                }
+            },
+            strategy
+        };
+    }
+
+    /**
+     * 競合の種類が扱うフィールドを解決結果から取り込む
+     */
+    private mergeResolvedFields(target: StickyNote, resolved: StickyNote, conflictType: ConflictType): StickyNote {
+        switch (conflictType) {
+            case 'position':
+                return {
+                    ...target,
+                    position: resolved.position,
+                    metadata: { ...target.metadata, modified: resolved.metadata.modified }
+                };
+            case 'content':
+                return {
+                    ...target,
+                    title: resolved.title,
+                    content: resolved.content,
+                    ...getCompletionFields(resolved),
+                    metadata: { ...target.metadata, modified: resolved.metadata.modified }
+                };
+            case 'metadata':
+                return { ...target, metadata: resolved.metadata };
+            case 'appearance':
+                return {
+                    ...target,
+                    appearance: { ...resolved.appearance },
+                    metadata: { ...target.metadata, modified: resolved.metadata.modified }
+                };
+            case 'dimensions':
+                return {
+                    ...target,
+                    dimensions: { ...resolved.dimensions },
+                    metadata: { ...target.metadata, modified: resolved.metadata.modified }
+                };
+            default:
+                return target;
+        }
+    }
+
     /**
      * 位置競合を解決（UI優先）
      */
@@ -220,6 +457,75 @@ export class ConflictResolver implements IConflictResolver {
             ...fileNote,
             title: newerNote.title,
             content: newerNote.content,
+            ...getCompletionFields(newerNote),
+            metadata: {
+                ...fileNote.metadata,
+                modified: new Date().toISOString()
+            }
+        };
+    }
+
+    /**
+     * コンテンツ競合をユーザーの選択で解決
+     */
+    private async resolveContentConflictByUser(
+        fileNote: StickyNote,
+        uiNote: StickyNote,
+        baseNote?: StickyNote
+    ): Promise<ResolveResult> {
+        const choice = await this.userChoiceHandler!(fileNote, uiNote, baseNote);
+        if (!choice) {
+            return {
+                success: false,
+                result: uiNote,
+                strategy: 'user-choice'
+            };
+        }
+
+        return {
+            success: true,
+            result: this.applyContentChoice(fileNote, uiNote, choice),
+            strategy: 'user-choice'
+        };
+    }
+
+    /**
+     * コンテンツ競合を三方向マージで解決
+     * 本文は行単位でマージし、同じ行の競合は競合マーカーで両方を残す。
+     * タイトルは競合した場合のみ新しい方を採用する。
+     */
+    private mergeContentConflict(fileNote: StickyNote, uiNote: StickyNote, baseNote: StickyNote): StickyNote {
+        const titleMerge = TextMerger.threeWayMerge(baseNote.title, uiNote.title, fileNote.title);
+        const contentMerge = TextMerger.threeWayMerge(baseNote.content, uiNote.content, fileNote.content);
+
+        // 完了状態は変更した側を優先し、両側が変更した場合はUI側の値を採用する
+        const completionSource = uiNote.completed !== baseNote.completed ? uiNote : fileNote;
+
+        return {
+            ...fileNote,
+            title: titleMerge.hasConflicts ? this.getNewerNote(fileNote, uiNote).title : titleMerge.merged,
+            content: contentMerge.merged,
+            ...getCompletionFields(completionSource),
+            metadata: {
+                ...fileNote.metadata,
+                modified: new Date().toISOString()
+            }
+        };
+    }
+
+    /**
+     * ユーザーの選択をコンテンツに適用
+     */
+    private applyContentChoice(fileNote: StickyNote, uiNote: StickyNote, choice: ContentConflictChoice): StickyNote {
+        const chosen = choice.choice === 'file' ? fileNote : uiNote;
+        const title = choice.choice === 'merged' ? choice.title : chosen.title;
+        const content = choice.choice === 'merged' ? choice.content : chosen.content;
+
+        return {
+            ...fileNote,
+            title,
+            content,
+            ...getCompletionFields(chosen),
             metadata: {
                 ...fileNote.metadata,
                 modified: new Date().toISOString()
@@ -240,6 +546,9 @@ export class ConflictResolver implements IConflictResolver {
         // 添付ファイルをマージ（重複排除）
         const mergedAttachments = [...new Set([...fileNote.metadata.attachments, ...uiNote.metadata.attachments])];
 
+        // フロントマターの項目をマージ（同じ項目はUI側を優先）
+        const mergedProperties = { ...fileNote.metadata.properties, ...uiNote.metadata.properties };
+
         return {
             ...uiNote,
             metadata: {
@@ -247,6 +556,7 @@ export class ConflictResolver implements IConflictResolver {
                 tags: mergedTags,
                 links: mergedLinks,
                 attachments: mergedAttachments,
+                ...(Object.keys(mergedProperties).length > 0 ? { properties: mergedProperties } : {}),
                 modified: new Date().toISOString()
             }
         };
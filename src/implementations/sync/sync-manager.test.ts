@@ -1,10 +1,12 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import * as fc from 'fast-check';
 import { SyncManager, executeWithRetry, RetryConfig, RetryResult } from './sync-manager';
+import { ConflictResolver } from './conflict-resolver';
 import { StickyNote, Result, NoteColor, NoteSize, NoteMetadata } from '../../types/core-types';
 import { INoteRepository } from '../../interfaces/data/i-note-repository';
 import { IConflictResolver, ConflictType, ResolveResult, ConflictDetectionResult } from '../../interfaces/sync/i-conflict-resolver';
 import { IEventBus } from '../../core/event-bus';
+import { PersistentStore } from '../../core/persistent-store';
 
 /**
  * 有効なISO日付文字列を生成するArbitrary
@@ -209,6 +211,8 @@ describe('SyncManager - Property 14: Sync Retry with Exponential Backoff', () =>
             rename: vi.fn(),
             getSyncStatus: vi.fn(),
             resyncNote: vi.fn(),
+            readFromFile: vi.fn().mockResolvedValue({ success: true, data: null }),
+            stageChange: vi.fn(),
             cleanup: vi.fn()
         };
 
@@ -216,6 +220,7 @@ describe('SyncManager - Property 14: Sync Retry with Exponential Backoff', () =>
             detectConflict: vi.fn(),
             resolveConflict: vi.fn(),
             detectAllConflicts: vi.fn().mockReturnValue({ hasConflict: false, conflictTypes: [] }),
+            detectChanges: vi.fn().mockReturnValue({ hasChanges: false, changes: {} }),
             resolveAllConflicts: vi.fn()
         };
 
@@ -249,6 +254,8 @@ describe('SyncManager - Property 14: Sync Retry with Exponential Backoff', () =>
             rename: vi.fn(),
             getSyncStatus: vi.fn(),
             resyncNote: vi.fn(),
+            readFromFile: vi.fn().mockResolvedValue({ success: true, data: null }),
+            stageChange: vi.fn(),
             cleanup: vi.fn()
         };
 
@@ -256,6 +263,7 @@ describe('SyncManager - Property 14: Sync Retry with Exponential Backoff', () =>
             detectConflict: vi.fn(),
             resolveConflict: vi.fn(),
             detectAllConflicts: vi.fn().mockReturnValue({ hasConflict: false, conflictTypes: [] }),
+            detectChanges: vi.fn().mockReturnValue({ hasChanges: false, changes: {} }),
             resolveAllConflicts: vi.fn()
         };
 
@@ -304,6 +312,8 @@ describe('SyncManager - Integration with Retry', () => {
             rename: vi.fn(),
             getSyncStatus: vi.fn(),
             resyncNote: vi.fn(),
+            readFromFile: vi.fn().mockResolvedValue({ success: true, data: null }),
+            stageChange: vi.fn(),
             cleanup: vi.fn()
         };
 
@@ -311,6 +321,7 @@ describe('SyncManager - Integration with Retry', () => {
             detectConflict: vi.fn(),
             resolveConflict: vi.fn(),
             detectAllConflicts: vi.fn().mockReturnValue({ hasConflict: false, conflictTypes: [] }),
+            detectChanges: vi.fn().mockReturnValue({ hasChanges: false, changes: {} }),
             resolveAllConflicts: vi.fn()
         };
 
@@ -406,4 +417,187 @@ describe('SyncManager - Integration with Retry', () => {
         expect(retryFailedEvent?.data.noteId).toBe('test-id');
         expect(retryFailedEvent?.data.attempts).toBe(3); // 初回 + 2回リトライ
     });
+
+    /**
+     * UI上の変更はファイルに外部変更がなければそのまま保存される
+     */
+    it('should save UI change directly when file has no external change', async () => {
+        const syncManager = new SyncManager(mockRepository, mockConflictResolver, mockEventBus);
+        const baseNote = createNote({ content: 'Before' });
+        const uiNote = createNote({ content: 'After' });
+        (mockRepository.readFromFile as any).mockResolvedValue({ success: true, data: baseNote });
+
+        const result = await syncManager.syncUiChange(uiNote, baseNote);
+
+        expect(result.success).toBe(true);
+        expect(result.hadConflict).toBe(false);
+        expect(mockRepository.save).toHaveBeenCalledWith(uiNote);
+        expect(mockConflictResolver.resolveAllConflicts).not.toHaveBeenCalled();
+    });
+
+    /**
+     * ファイルが外部で変更されていた場合、UI上の変更は競合解決を経て保存される
+     */
+    it('should resolve conflict when file was changed externally before UI save', async () => {
+        const syncManager = new SyncManager(mockRepository, mockConflictResolver, mockEventBus);
+        const baseNote = createNote({ content: 'Before' });
+        const fileNote = createNote({ content: 'Edited on mobile' });
+        const uiNote = createNote({ content: 'Edited on canvas' });
+        (mockRepository.readFromFile as any).mockResolvedValue({ success: true, data: fileNote });
+        (mockConflictResolver.detectAllConflicts as any).mockReturnValue({
+            hasConflict: true,
+            conflictTypes: ['content']
+        });
+        (mockConflictResolver.resolveAllConflicts as any).mockResolvedValue({
+            success: true,
+            result: uiNote,
+            strategy: 'auto-merge'
+        });
+
+        const result = await syncManager.syncUiChange(uiNote, baseNote);
+
+        expect(result.success).toBe(true);
+        expect(result.hadConflict).toBe(true);
+        expect(mockConflictResolver.resolveAllConflicts).toHaveBeenCalledWith(
+            fileNote,
+            expect.objectContaining({ id: uiNote.id, content: 'Edited on canvas' }),
+            baseNote
+        );
+    });
+
+    /**
+     * 最後に同期した記録がある場合はそれを競合判定の基準とする
+     */
+    it('should use the last synced snapshot as merge base', async () => {
+        const snapshot = createNote({ content: 'Synced yesterday' });
+        const snapshots = new PersistentStore<StickyNote>({ [snapshot.id]: snapshot }, async () => {});
+        const syncManager = new SyncManager(mockRepository, mockConflictResolver, mockEventBus, undefined, snapshots);
+        const cachedNote = createNote({ content: 'Cached' });
+        const fileNote = createNote({ content: 'Edited on mobile' });
+        const uiNote = createNote({ content: 'Edited on canvas' });
+        (mockRepository.readFromFile as any).mockResolvedValue({ success: true, data: fileNote });
+        (mockConflictResolver.detectAllConflicts as any).mockReturnValue({
+            hasConflict: true,
+            conflictTypes: ['content']
+        });
+        (mockConflictResolver.resolveAllConflicts as any).mockResolvedValue({
+            success: true,
+            result: uiNote,
+            strategy: 'merge'
+        });
+
+        await syncManager.syncUiChange(uiNote, cachedNote);
+
+        expect(mockConflictResolver.detectAllConflicts).toHaveBeenCalledWith(fileNote, snapshot);
+        expect(mockConflictResolver.resolveAllConflicts).toHaveBeenCalledWith(
+            fileNote,
+            expect.objectContaining({ content: 'Edited on canvas' }),
+            snapshot
+        );
+    });
+
+    /**
+     * 手動同期ではUI上の変更を保留し、flush時にまとめて書き込む
+     */
+    it('should queue UI changes in manual mode until flush', async () => {
+        const syncManager = new SyncManager(mockRepository, mockConflictResolver, mockEventBus);
+        syncManager.setStrategy('manual');
+        const baseNote = createNote({ content: 'Before' });
+        const firstEdit = createNote({ content: 'First edit' });
+        const secondEdit = createNote({ content: 'Second edit' });
+
+        await syncManager.syncUiChange(firstEdit, baseNote);
+        await syncManager.syncUiChange(secondEdit, firstEdit);
+
+        expect(mockRepository.save).not.toHaveBeenCalled();
+        expect(mockRepository.stageChange).toHaveBeenCalledWith(secondEdit);
+        expect(syncManager.getDirtyCount()).toBe(1);
+
+        const dirtyEvents = emittedEvents.filter(e => e.event === 'sync-dirty-changed');
+        expect(dirtyEvents[dirtyEvents.length - 1].data.count).toBe(1);
+
+        const result = await syncManager.flush();
+
+        expect(result).toEqual({ synced: 1, failed: 0 });
+        expect(mockRepository.save).toHaveBeenCalledTimes(1);
+        expect(mockRepository.save).toHaveBeenCalledWith(secondEdit);
+        expect(syncManager.getDirtyCount()).toBe(0);
+    });
+
+    /**
+     * 書き込みに失敗した付箋は保留に戻る
+     */
+    it('should keep failed notes dirty after flush', async () => {
+        const syncManager = new SyncManager(
+            mockRepository,
+            mockConflictResolver,
+            mockEventBus,
+            { maxRetries: 0, initialDelayMs: 1, backoffMultiplier: 1 }
+        );
+        syncManager.setStrategy('manual');
+        (mockRepository.save as any).mockResolvedValue({ success: false, error: new Error('Disk full') });
+
+        await syncManager.syncUiChange(createNote({ content: 'Edit' }), createNote());
+        const result = await syncManager.flush();
+
+        expect(result).toEqual({ synced: 0, failed: 1 });
+        expect(syncManager.getDirtyCount()).toBe(1);
+    });
+
+    /**
+     * ファイル側で色や大きさだけが変更された場合も、外部変更として付箋に反映される
+     */
+    it('should apply external change that only touches appearance or dimensions', async () => {
+        vi.useFakeTimers();
+        try {
+            const handlers = new Map<string, (data: any) => void>();
+            (mockEventBus.on as any).mockImplementation((event: string, handler: (data: any) => void) => {
+                handlers.set(event, handler);
+                return () => {};
+            });
+            const syncManager = new SyncManager(mockRepository, new ConflictResolver(), mockEventBus);
+            syncManager.startWatching();
+
+            const uiNote = createNote();
+            const cases: Partial<StickyNote>[] = [
+                { appearance: { ...uiNote.appearance, color: 'pink' } },
+                { dimensions: { width: 320, height: 240 } }
+            ];
+
+            for (const change of cases) {
+                const fileNote = createNote(change);
+                emittedEvents.length = 0;
+                (mockRepository.save as any).mockClear();
+                (mockRepository.findById as any).mockResolvedValue({ success: true, data: uiNote });
+                (mockRepository.readFromFile as any).mockResolvedValue({ success: true, data: fileNote });
+
+                handlers.get('note-file-changed')?.({ noteId: uiNote.id, filePath: uiNote.filePath });
+                await vi.advanceTimersByTimeAsync(500);
+
+                expect(mockRepository.save).toHaveBeenCalledWith(expect.objectContaining(change));
+                const updated = emittedEvents.find(e => e.event === 'note-updated');
+                expect(updated?.data.note).toEqual(expect.objectContaining(change));
+            }
+        } finally {
+            vi.useRealTimers();
+        }
+    });
 });
+
+/**
+ * テスト用の付箋を作成するヘルパー
+ */
+function createNote(overrides: Partial<StickyNote> = {}): StickyNote {
+    return {
+        id: 'test-id',
+        filePath: 'Postodo/test.md',
+        title: 'Test',
+        content: 'Content',
+        position: { x: 0, y: 0, zIndex: 1 },
+        dimensions: { width: 200, height: 180 },
+        appearance: { color: 'yellow', size: 'medium', rotation: 0 },
+        metadata: { created: '2025-01-01T00:00:00.000Z', modified: '2025-01-01T00:00:00.000Z', tags: [], links: [], attachments: [] },
+        completed: false,
+        ...overrides
+    };
+}
@@ -1,8 +1,10 @@
 import { StickyNote, Result } from '../../types/core-types';
-import { ISyncManager, SyncStatus, SyncResult } from '../../interfaces/sync/i-sync-manager';
+import { ISyncManager, SyncStatus, SyncResult, FlushResult } from '../../interfaces/sync/i-sync-manager';
 import { IConflictResolver } from '../../interfaces/sync/i-conflict-resolver';
 import { INoteRepository } from '../../interfaces/data/i-note-repository';
 import { IEventBus } from '../../core/event-bus';
+import { SyncStrategy } from '../../types/config-types';
+import { PersistentStore } from '../../core/persistent-store';
 
 /**
  * リトライ設定
@@ -99,6 +101,16 @@ export class SyncManager implements ISyncManager {
     private status: SyncStatus = 'idle';
     private isWatching = false;
     private pendingSyncs = new Map<string, NodeJS.Timeout>();
+    private pendingExternalChanges = new Map<string, NodeJS.Timeout>();
+    private deferredExternalChanges = new Map<string, string>();
+    /** 外部変更の競合解決中の付箋（ユーザーの選択待ちを含む） */
+    private resolvingNotes = new Set<string>();
+    private eventUnsubscribers: (() => void)[] = [];
+    private strategy: SyncStrategy = 'real-time';
+    private periodicTimer?: NodeJS.Timeout;
+    /** 保存を保留している付箋（手動・定期同期時）。baseNoteは最初の変更前の状態 */
+    private dirtyNotes = new Map<string, { note: StickyNote; baseNote: StickyNote }>();
+    private flushPromise?: Promise<FlushResult>;
     private readonly DEBOUNCE_MS = 500;
     
     /** デフォルトのリトライ設定: 1秒、2秒、4秒の間隔で最大3回 */
@@ -112,7 +124,8 @@ export class SyncManager implements ISyncManager {
         private noteRepository: INoteRepository,
         private conflictResolver: IConflictResolver,
         private eventBus: IEventBus,
-        retryConfig?: Partial<RetryConfig>
+        retryConfig?: Partial<RetryConfig>,
+        private snapshots?: PersistentStore<StickyNote>
     ) {
         if (retryConfig) {
             this.DEFAULT_RETRY_CONFIG = {
@@ -172,6 +185,30 @@ export class SyncManager implements ISyncManager {
             return;
         }
         this.isWatching = true;
+        
+        // NoteRepositoryが検出したファイル変更を競合解決に回す
+        this.eventUnsubscribers.push(this.eventBus.on('note-file-changed', (event) => {
+            if (event?.noteId && event?.filePath) {
+                this.queueExternalChange(event.noteId, event.filePath);
+            }
+        }));
+
+        // 保存に成功した状態を次回の競合判定の基準として記録する
+        this.eventUnsubscribers.push(this.eventBus.on('note-saved', (event) => {
+            if (event?.note) {
+                this.snapshots?.set(event.note.id, event.note);
+            }
+        }));
+
+        // 削除された付箋の保留中の変更と基準を破棄する
+        this.eventUnsubscribers.push(this.eventBus.on('note-deleted', (event) => {
+            if (!event?.id) return;
+            this.snapshots?.delete(event.id);
+            if (this.dirtyNotes.delete(event.id)) {
+                this.emitDirtyChanged();
+            }
+        }));
+        
         this.eventBus.emit('sync-watching-started', {});
     }
 
@@ -187,6 +224,12 @@ export class SyncManager implements ISyncManager {
         // 保留中の同期をキャンセル
         this.pendingSyncs.forEach(timeout => clearTimeout(timeout));
         this.pendingSyncs.clear();
+        this.pendingExternalChanges.forEach(timeout => clearTimeout(timeout));
+        this.pendingExternalChanges.clear();
+        this.deferredExternalChanges.clear();
+        
+        this.eventUnsubscribers.forEach(unsubscribe => unsubscribe());
+        this.eventUnsubscribers = [];
         
         this.eventBus.emit('sync-watching-stopped', {});
     }
@@ -295,13 +338,20 @@ export class SyncManager implements ISyncManager {
      */
     unmarkNoteAsEditing(noteId: string): void {
         this.editingNotes.delete(noteId);
+
+        // 編集中に保留した外部変更を反映する
+        const deferredFilePath = this.deferredExternalChanges.get(noteId);
+        if (deferredFilePath) {
+            this.deferredExternalChanges.delete(noteId);
+            this.queueExternalChange(noteId, deferredFilePath);
+        }
     }
 
     /**
      * 競合を検出して解決する（リトライ機能付き）
      * Requirements: 7.3, 7.4
      */
-    async resolveAndSync(fileNote: StickyNote, uiNote: StickyNote): Promise<SyncResult> {
+    async resolveAndSync(fileNote: StickyNote, uiNote: StickyNote, baseNote?: StickyNote): Promise<SyncResult> {
         this.setStatus('syncing');
 
         try {
@@ -346,7 +396,7 @@ export class SyncManager implements ISyncManager {
             }
 
             // 競合あり - 解決を試みる
-            const resolution = await this.conflictResolver.resolveAllConflicts(fileNote, uiNote);
+            const resolution = await this.conflictResolver.resolveAllConflicts(fileNote, uiNote, baseNote);
 
             if (resolution.success) {
                 // 解決結果をファイルに保存（リトライ付き）
@@ -357,9 +407,15 @@ export class SyncManager implements ISyncManager {
                 
                 if (retryResult.success) {
                     this.setStatus('saved');
+                    // 基準がある場合は両側で変更された種類のみを競合として通知する
                     this.eventBus.emit('conflict-resolved', {
                         noteId: uiNote.id,
-                        conflictTypes: conflictDetection.conflictTypes,
+                        conflictTypes: baseNote
+                            ? this.conflictResolver.detectAllConflicts(fileNote, uiNote, baseNote).conflictTypes
+                            : conflictDetection.conflictTypes,
+                        changes: baseNote
+                            ? this.conflictResolver.detectChanges(fileNote, uiNote, baseNote).changes
+                            : undefined,
                         strategy: resolution.strategy
                     });
                     
@@ -406,6 +462,103 @@ export class SyncManager implements ISyncManager {
         }
     }
 
+    /**
+     * UI上の変更をファイルに同期する
+     * Requirements: 7.1, 7.3, 7.4
+     */
+    async syncUiChange(uiNote: StickyNote, baseNote: StickyNote): Promise<SyncResult> {
+        if (this.strategy !== 'real-time') {
+            return this.markNoteAsDirty(uiNote, baseNote);
+        }
+        return this.writeUiChange(uiNote, baseNote);
+    }
+
+    /**
+     * 同期戦略を設定する
+     * @param strategy 同期戦略
+     * @param intervalMs 定期同期の間隔（ミリ秒）
+     */
+    setStrategy(strategy: SyncStrategy, intervalMs?: number): void {
+        const previous = this.strategy;
+        this.strategy = strategy;
+
+        if (this.periodicTimer) {
+            clearInterval(this.periodicTimer);
+            this.periodicTimer = undefined;
+        }
+
+        if (strategy === 'periodic' && intervalMs && intervalMs > 0) {
+            this.periodicTimer = setInterval(() => {
+                this.flush();
+            }, intervalMs);
+        }
+
+        // リアルタイム同期に戻した場合は保留中の変更をすぐに書き込む
+        if (strategy === 'real-time' && previous !== 'real-time') {
+            this.flush();
+        }
+    }
+
+    /**
+     * 現在の同期戦略を取得する
+     */
+    getStrategy(): SyncStrategy {
+        return this.strategy;
+    }
+
+    /**
+     * 保存を保留している付箋の数を取得する
+     */
+    getDirtyCount(): number {
+        return this.dirtyNotes.size;
+    }
+
+    /**
+     * 保存を保留している付箋をすべてファイルに書き込む
+     * 実行中のフラッシュがある場合はその完了を待つ
+     */
+    async flush(): Promise<FlushResult> {
+        if (this.flushPromise) {
+            return this.flushPromise;
+        }
+
+        this.flushPromise = this.flushDirtyNotes();
+        try {
+            return await this.flushPromise;
+        } finally {
+            this.flushPromise = undefined;
+        }
+    }
+
+    /**
+     * UI上の変更を競合を確認したうえでファイルに書き込む
+     */
+    private async writeUiChange(uiNote: StickyNote, lastKnownNote: StickyNote): Promise<SyncResult> {
+        const baseNote = this.getSyncedSnapshot(uiNote.id, lastKnownNote);
+        const fileResult = await this.noteRepository.readFromFile(uiNote.filePath);
+
+        // ファイルが読めない場合（新規作成直後など）は競合の可能性がないためそのまま保存
+        if (!fileResult.success || !fileResult.data) {
+            return this.saveWithoutConflict(uiNote);
+        }
+
+        const fileNote = fileResult.data;
+        const externalChange = this.conflictResolver.detectAllConflicts(fileNote, baseNote);
+        if (!externalChange.hasConflict) {
+            return this.saveWithoutConflict(uiNote);
+        }
+
+        // UI上の変更は直前の操作のため、ファイル読み込み後の時刻で新旧を比較する
+        const stampedUiNote: StickyNote = {
+            ...uiNote,
+            metadata: {
+                ...uiNote.metadata,
+                modified: new Date().toISOString()
+            }
+        };
+        return this.resolveAndSync(fileNote, stampedUiNote, baseNote);
+    }
+
     /**
      * 現在の同期ステータスを取得する
      */
@@ -417,11 +570,173 @@ export class SyncManager implements ISyncManager {
      * リソースをクリーンアップする
      */
     cleanup(): void {
+        if (this.periodicTimer) {
+            clearInterval(this.periodicTimer);
+            this.periodicTimer = undefined;
+        }
         this.stopWatching();
         this.editingNotes.clear();
         this.status = 'idle';
     }
 
+    /**
+     * 競合のない付箋をリトライ付きで保存する
+     */
+    private async saveWithoutConflict(note: StickyNote): Promise<SyncResult> {
+        const result = await this.syncNoteToFileImmediate(note);
+        if (result.success) {
+            return { success: true, note, hadConflict: false };
+        }
+        return {
+            success: false,
+            hadConflict: false,
+            error: result.error?.message || 'Save failed after retries'
+        };
+    }
+
+    /**
+     * 付箋を保存保留としてキャッシュにのみ反映する
+     */
+    private markNoteAsDirty(uiNote: StickyNote, baseNote: StickyNote): SyncResult {
+        // 連続した変更でも競合判定の基準は最初の変更前の状態を維持する
+        const existing = this.dirtyNotes.get(uiNote.id);
+        this.dirtyNotes.set(uiNote.id, {
+            note: uiNote,
+            baseNote: existing ? existing.baseNote : baseNote
+        });
+        this.noteRepository.stageChange(uiNote);
+        this.emitDirtyChanged();
+
+        return { success: true, note: uiNote, hadConflict: false };
+    }
+
+    /**
+     * 保留中の付箋を順に書き込み、失敗したものは保留に戻す
+     */
+    private async flushDirtyNotes(): Promise<FlushResult> {
+        const entries = Array.from(this.dirtyNotes.values());
+        const result: FlushResult = { synced: 0, failed: 0 };
+
+        for (const entry of entries) {
+            const noteId = entry.note.id;
+            // 書き込み中の新たな変更を区別するため、先に保留から外す
+            if (this.dirtyNotes.get(noteId) === entry) {
+                this.dirtyNotes.delete(noteId);
+            }
+
+            const syncResult = await this.writeUiChange(entry.note, entry.baseNote);
+            if (syncResult.success) {
+                result.synced++;
+                if (syncResult.hadConflict && syncResult.note) {
+                    this.eventBus.emit('note-updated', { note: syncResult.note, changes: {} });
+                }
+            } else {
+                result.failed++;
+                if (!this.dirtyNotes.has(noteId)) {
+                    this.dirtyNotes.set(noteId, entry);
+                }
+            }
+        }
+
+        this.emitDirtyChanged();
+        return result;
+    }
+
+    /**
+     * 最後に同期した付箋の状態を取得する
+     * @param fallback 記録がない場合に基準とする付箋
+     */
+    private getSyncedSnapshot(noteId: string, fallback: StickyNote): StickyNote {
+        return this.snapshots?.get(noteId) || fallback;
+    }
+
+    /**
+     * 保留中の付箋数の変更を通知する
+     */
+    private emitDirtyChanged(): void {
+        this.eventBus.emit('sync-dirty-changed', { count: this.dirtyNotes.size });
+    }
+
+    /**
+     * 外部変更の反映をデバウンスして予約する
+     * 連続した書き込み（モバイル同期やエディタの自動保存）を1回の解決にまとめる
+     */
+    private queueExternalChange(noteId: string, filePath: string): void {
+        // 保存保留中の付箋はフラッシュ時に変更前の状態と比較して競合解決する
+        if (this.dirtyNotes.has(noteId)) {
+            return;
+        }
+
+        if (this.isNoteBeingEdited(noteId)) {
+            this.deferredExternalChanges.set(noteId, filePath);
+            return;
+        }
+
+        const existingTimeout = this.pendingExternalChanges.get(noteId);
+        if (existingTimeout) {
+            clearTimeout(existingTimeout);
+        }
+
+        const timeout = setTimeout(() => {
+            this.pendingExternalChanges.delete(noteId);
+            this.applyExternalChange(noteId, filePath);
+        }, this.DEBOUNCE_MS);
+
+        this.pendingExternalChanges.set(noteId, timeout);
+    }
+
+    /**
+     * 外部で変更されたファイルをUI上の付箋と競合解決して反映する
+     * Requirements: 7.2, 7.3
+     */
+    private async applyExternalChange(noteId: string, filePath: string): Promise<void> {
+        if (this.isNoteBeingEdited(noteId) || this.resolvingNotes.has(noteId)) {
+            this.deferredExternalChanges.set(noteId, filePath);
+            return;
+        }
+
+        const [fileResult, uiResult] = await Promise.all([
+            this.noteRepository.readFromFile(filePath),
+            this.noteRepository.findById(noteId)
+        ]);
+
+        if (!fileResult.success || !fileResult.data || !uiResult.success || !uiResult.data) {
+            return;
+        }
+
+        const fileNote = fileResult.data;
+        const uiNote = uiResult.data;
+        if (!this.conflictResolver.detectAllConflicts(fileNote, uiNote).hasConflict) {
+            return;
+        }
+
+        this.resolvingNotes.add(noteId);
+        let syncResult: SyncResult;
+        try {
+            // 記録がなければ、キャッシュをUI側が最後に同期した状態とみなす
+            const baseNote = this.getSyncedSnapshot(noteId, uiNote);
+            syncResult = await this.resolveAndSync(fileNote, uiNote, baseNote);
+        } finally {
+            this.resolvingNotes.delete(noteId);
+        }
+
+        // 解決中に届いた外部変更を改めて反映する
+        const deferredFilePath = this.deferredExternalChanges.get(noteId);
+        if (deferredFilePath && !this.isNoteBeingEdited(noteId)) {
+            this.deferredExternalChanges.delete(noteId);
+            this.queueExternalChange(noteId, deferredFilePath);
+        }
+
+        if (syncResult.success && syncResult.note) {
+            this.eventBus.emit('note-externally-modified', {
+                noteId,
+                oldNote: uiNote,
+                newNote: syncResult.note
+            });
+            this.eventBus.emit('note-updated', { note: syncResult.note, changes: {} });
+        }
+    }
+
     /**
      * ステータスを設定してイベントを発火する
      */
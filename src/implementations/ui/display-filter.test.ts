@@ -279,5 +279,118 @@ describe('DisplayFilter - Property Tests', () => {
             
             expect(callCount).toBe(0);
         });
+
+        /**
+         * アーカイブの表示を切り替えた時だけリスナーが呼ばれることを確認
+         */
+        it('should notify listeners only when includeArchived changes', () => {
+            const filter = new DisplayFilter('incomplete');
+            let callCount = 0;
+
+            filter.onFilterChanged(() => {
+                callCount++;
+            });
+
+            expect(filter.includeArchived).toBe(false);
+            filter.setIncludeArchived(false);
+            expect(callCount).toBe(0);
+
+            filter.setIncludeArchived(true);
+            expect(filter.includeArchived).toBe(true);
+            expect(callCount).toBe(1);
+        });
+
+        /**
+         * 期日が近いフィルターでは日数を変えた時だけリスナーが呼ばれ、判定に反映されることを確認
+         */
+        it('should apply dueSoonDays to the due-soon filter', () => {
+            const filter = new DisplayFilter('due-soon', 1);
+            const today = new Date();
+            const dueDate = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 2);
+            const due = [dueDate.getFullYear(), String(dueDate.getMonth() + 1).padStart(2, '0'), String(dueDate.getDate()).padStart(2, '0')].join('-');
+            const note = {
+                content: `Task 📅 ${due}`,
+                completed: false,
+                metadata: { created: '', modified: '', tags: [], links: [], attachments: [] }
+            } as unknown as StickyNote;
+            let callCount = 0;
+
+            filter.onFilterChanged(() => {
+                callCount++;
+            });
+
+            expect(filter.shouldDisplay(note)).toBe(false);
+            filter.setDueSoonDays(1);
+            expect(callCount).toBe(0);
+
+            filter.setDueSoonDays(2);
+            expect(filter.dueSoonDays).toBe(2);
+            expect(callCount).toBe(1);
+            expect(filter.shouldDisplay(note)).toBe(true);
+            expect(filter.shouldDisplay({ ...note, completed: true })).toBe(false);
+        });
+
+        /**
+         * 優先度のフィルターは完了状態のフィルターと組み合わせて適用されることを確認
+         */
+        it('should combine the minimum priority with the completion filter', () => {
+            const createTask = (content: string, completed: boolean) => ({
+                content,
+                completed,
+                metadata: { created: '', modified: '', tags: [], links: [], attachments: [] }
+            } as unknown as StickyNote);
+            const filter = new DisplayFilter('incomplete');
+            let callCount = 0;
+
+            filter.onFilterChanged(() => {
+                callCount++;
+            });
+
+            expect(filter.minPriority).toBe('low');
+            expect(filter.shouldDisplay(createTask('Task 🔽', false))).toBe(true);
+
+            filter.setMinPriority('high');
+            filter.setMinPriority('high');
+            expect(callCount).toBe(1);
+            expect(filter.shouldDisplay(createTask('Task ⏫', false))).toBe(true);
+            expect(filter.shouldDisplay(createTask('Task 🔼', false))).toBe(true);
+            expect(filter.shouldDisplay(createTask('Task', false))).toBe(false);
+            expect(filter.shouldDisplay(createTask('Task ⏫', true))).toBe(false);
+        });
+
+        /**
+         * 保存したフィルターを適用すると1回だけ通知され、組み合わせた条件も判定に使われることを確認
+         */
+        it('should apply saved filters with combined conditions', () => {
+            const filter = new DisplayFilter('incomplete');
+            const note = (tags: string[], completed: boolean) => ({
+                content: 'Task',
+                completed,
+                appearance: { color: 'pink', size: 'medium', rotation: 0 },
+                metadata: { created: '', modified: '', tags, links: [], attachments: [] }
+            } as unknown as StickyNote);
+            let callCount = 0;
+
+            filter.onFilterChanged(() => {
+                callCount++;
+            });
+
+            const parts = {
+                filter: 'all' as const,
+                minPriority: 'low' as const,
+                condition: { type: 'or' as const, conditions: [{ type: 'tag' as const, tag: 'bug' }, { type: 'color' as const, colors: ['blue' as const] }] }
+            };
+            filter.applySavedFilter(parts);
+            filter.applySavedFilter(parts);
+
+            expect(callCount).toBe(1);
+            expect(filter.getSavedFilter()).toEqual(parts);
+            expect(filter.shouldDisplay(note(['bug'], true))).toBe(true);
+            expect(filter.shouldDisplay(note([], false))).toBe(false);
+
+            filter.setCondition(null);
+            expect(callCount).toBe(2);
+            expect(filter.shouldDisplay(note([], false))).toBe(true);
+        });
     });
 });
@@ -1,19 +1,29 @@
 import { IDisplayFilter, DisplayFilterType } from '../../interfaces/ui/i-display-filter';
 import { StickyNote } from '../../types/core-types';
+import { DEFAULT_DUE_SOON_DAYS } from '../../utils/due-date';
+import { isAtLeastPriority } from '../../utils/priority';
+import { PriorityLevel, FilterCondition } from '../../types/config-types';
+import { SavedFilterParts, evaluateFilterCondition, matchesCompletion } from '../../utils/filter-condition';
 
 /**
  * 表示フィルターの実装
- * 付箋の完了状態に基づいて表示/非表示を決定する
+ * 付箋の完了状態・期日・優先度と、組み合わせた条件に基づいて表示/非表示を決定する
  */
 export class DisplayFilter implements IDisplayFilter {
     private _currentFilter: DisplayFilterType;
+    private _includeArchived = false;
+    private _dueSoonDays: number;
+    private _minPriority: PriorityLevel = 'low';
+    private _condition: FilterCondition | null = null;
     private listeners: Set<(filter: DisplayFilterType) => void> = new Set();
 
     /**
      * @param defaultFilter デフォルトのフィルター（デフォルト: 'incomplete'）
+     * @param dueSoonDays 「期日が近い」フィルターで対象とする日数
      */
-    constructor(defaultFilter: DisplayFilterType = 'incomplete') {
+    constructor(defaultFilter: DisplayFilterType = 'incomplete', dueSoonDays: number = DEFAULT_DUE_SOON_DAYS) {
         this._currentFilter = defaultFilter;
+        this._dueSoonDays = dueSoonDays;
     }
 
     /**
@@ -23,6 +33,34 @@ export class DisplayFilter implements IDisplayFilter {
         return this._currentFilter;
     }
 
+    /**
+     * アーカイブ済みの付箋も表示するかどうか
+     */
+    get includeArchived(): boolean {
+        return this._includeArchived;
+    }
+
+    /**
+     * 「期日が近い」フィルターで対象とする日数
+     */
+    get dueSoonDays(): number {
+        return this._dueSoonDays;
+    }
+
+    /**
+     * 表示する付箋の最低の優先度
+     */
+    get minPriority(): PriorityLevel {
+        return this._minPriority;
+    }
+
+    /**
+     * 完了状態と優先度に加えて適用する条件
+     */
+    get condition(): FilterCondition | null {
+        return this._condition;
+    }
+
     /**
      * フィルターを設定
      * @param filter 設定するフィルター種類
@@ -34,22 +72,90 @@ export class DisplayFilter implements IDisplayFilter {
         }
     }
 
+    /**
+     * アーカイブ済みの付箋を表示するかどうかを設定
+     * @param includeArchived 表示する場合はtrue
+     */
+    setIncludeArchived(includeArchived: boolean): void {
+        if (this._includeArchived !== includeArchived) {
+            this._includeArchived = includeArchived;
+            this.notifyListeners();
+        }
+    }
+
+    /**
+     * 「期日が近い」フィルターで対象とする日数を設定
+     * 現在のフィルターが「期日が近い」の場合のみ表示が変わるため通知する
+     * @param days 今日から何日後までの期日を対象とするか
+     */
+    setDueSoonDays(days: number): void {
+        if (this._dueSoonDays !== days) {
+            this._dueSoonDays = days;
+            if (this._currentFilter === 'due-soon') {
+                this.notifyListeners();
+            }
+        }
+    }
+
+    /**
+     * 表示する付箋の最低の優先度を設定
+     * @param priority この優先度以上の付箋だけを表示する
+     */
+    setMinPriority(priority: PriorityLevel): void {
+        if (this._minPriority !== priority) {
+            this._minPriority = priority;
+            this.notifyListeners();
+        }
+    }
+
+    /**
+     * 完了状態と優先度に加えて適用する条件を設定
+     * @param condition 条件（nullの場合は条件なし）
+     */
+    setCondition(condition: FilterCondition | null): void {
+        if (JSON.stringify(this._condition) !== JSON.stringify(condition)) {
+            this._condition = condition;
+            this.notifyListeners();
+        }
+    }
+
+    /**
+     * 現在のフィルターの設定を返す
+     */
+    getSavedFilter(): SavedFilterParts {
+        return { filter: this._currentFilter, minPriority: this._minPriority, condition: this._condition };
+    }
+
+    /**
+     * 保存したフィルターの設定をまとめて適用する
+     */
+    applySavedFilter(parts: SavedFilterParts): void {
+        const changed = this._currentFilter !== parts.filter
+            || this._minPriority !== parts.minPriority
+            || JSON.stringify(this._condition) !== JSON.stringify(parts.condition);
+        if (!changed) return;
+
+        this._currentFilter = parts.filter;
+        this._minPriority = parts.minPriority;
+        this._condition = parts.condition;
+        this.notifyListeners();
+    }
+
     /**
      * 付箋を表示すべきかどうかを判定
      * @param note 判定対象の付箋
      * @returns 表示すべき場合はtrue
      */
     shouldDisplay(note: StickyNote): boolean {
-        switch (this._currentFilter) {
-            case 'incomplete':
-                return !note.completed;
-            case 'complete':
-                return note.completed;
-            case 'all':
-                return true;
-            default:
-                return true;
+        if (this._minPriority !== 'low' && !isAtLeastPriority(note, this._minPriority)) {
+            return false;
+        }
+
+        const context = { now: new Date(), dueSoonDays: this._dueSoonDays };
+        if (!matchesCompletion(note, this._currentFilter, context)) {
+            return false;
         }
+        return !this._condition || evaluateFilterCondition(this._condition, note, context);
     }
 
     /**
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { SelectionManager, findNotesInRect } from './selection-manager';
+import { StickyNote } from '../../types/core-types';
+
+const idsArb = fc.array(fc.constantFrom('a', 'b', 'c', 'd', 'e', 'f'), { maxLength: 10 });
+
+/**
+ * SelectionManagerのテスト
+ */
+describe('SelectionManager', () => {
+    /**
+     * 追加選択は既存の選択との和集合になり、置き換え選択は指定したものだけになる
+     */
+    it('should add to or replace the selection', () => {
+        fc.assert(
+            fc.property(idsArb, idsArb, fc.boolean(), (initial, next, additive) => {
+                const selection = new SelectionManager();
+                selection.select(initial);
+                selection.select(next, additive);
+
+                const expected = new Set(additive ? [...initial, ...next] : next);
+                expect(new Set(selection.getSelectedIds())).toEqual(expected);
+                expect(selection.size).toBe(expected.size);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 2回切り替えると元の選択状態に戻る
+     */
+    it('should restore the selection after toggling twice', () => {
+        fc.assert(
+            fc.property(idsArb, fc.constantFrom('a', 'b', 'z'), (initial, id) => {
+                const selection = new SelectionManager();
+                selection.select(initial);
+                const before = new Set(selection.getSelectedIds());
+
+                selection.toggle(id);
+                expect(selection.has(id)).toBe(!before.has(id));
+
+                selection.toggle(id);
+                expect(new Set(selection.getSelectedIds())).toEqual(before);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 選択が変わらない操作では通知しない
+     */
+    it('should notify listeners only when the selection changes', () => {
+        const selection = new SelectionManager();
+        const listener = vi.fn();
+        selection.onSelectionChanged(listener);
+
+        selection.select(['a', 'b']);
+        selection.select(['b', 'a']);
+        selection.select(['a'], true);
+        selection.retain(['a', 'b', 'c']);
+        expect(listener).toHaveBeenCalledTimes(1);
+
+        selection.deselect(['b']);
+        expect(listener).toHaveBeenCalledTimes(2);
+        expect(listener).toHaveBeenLastCalledWith(['a']);
+
+        selection.clear();
+        selection.clear();
+        expect(listener).toHaveBeenCalledTimes(3);
+    });
+
+    /**
+     * 範囲選択は矩形に重なる付箋だけを返す
+     */
+    it('should find notes intersecting the marquee rect', () => {
+        const notes = [
+            createNote('inside', 100, 100),
+            createNote('overlap', 280, 100),
+            createNote('outside', 600, 600)
+        ];
+
+        const found = findNotesInRect(notes, { x: 50, y: 50, width: 300, height: 300 });
+
+        expect(found.map(note => note.id)).toEqual(['inside', 'overlap']);
+    });
+});
+
+/**
+ * テスト用の付箋を作成するヘルパー
+ */
+function createNote(id: string, x: number, y: number): StickyNote {
+    return {
+        id,
+        filePath: `Postodo/${id}.md`,
+        title: id,
+        content: 'Content',
+        position: { x, y, zIndex: 1 },
+        dimensions: { width: 200, height: 180 },
+        appearance: { color: 'yellow', size: 'medium', rotation: 0 },
+        metadata: { created: '2025-01-01T00:00:00.000Z', modified: '2025-01-01T00:00:00.000Z', tags: [], links: [], attachments: [] },
+        completed: false
+    };
+}
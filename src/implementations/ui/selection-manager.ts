@@ -0,0 +1,111 @@
+import { ISelectionManager } from '../../interfaces/ui/i-selection-manager';
+import { StickyNote } from '../../types/core-types';
+import { CanvasRect } from '../../ui/canvas-viewport';
+import { rectsIntersect } from '../../ui/render-window';
+
+/**
+ * 付箋の選択状態の実装
+ */
+export class SelectionManager implements ISelectionManager {
+    private selectedIds = new Set<string>();
+    private listeners: Set<(selectedIds: string[]) => void> = new Set();
+
+    get size(): number {
+        return this.selectedIds.size;
+    }
+
+    has(noteId: string): boolean {
+        return this.selectedIds.has(noteId);
+    }
+
+    getSelectedIds(): string[] {
+        return Array.from(this.selectedIds);
+    }
+
+    select(noteIds: string[], additive = false): void {
+        const next = new Set(additive ? this.selectedIds : []);
+        noteIds.forEach(id => next.add(id));
+        this.replaceSelection(next);
+    }
+
+    toggle(noteId: string): void {
+        const next = new Set(this.selectedIds);
+        if (next.has(noteId)) {
+            next.delete(noteId);
+        } else {
+            next.add(noteId);
+        }
+        this.replaceSelection(next);
+    }
+
+    deselect(noteIds: string[]): void {
+        const next = new Set(this.selectedIds);
+        noteIds.forEach(id => next.delete(id));
+        this.replaceSelection(next);
+    }
+
+    retain(noteIds: Iterable<string>): void {
+        const keep = new Set(noteIds);
+        this.replaceSelection(new Set(this.getSelectedIds().filter(id => keep.has(id))));
+    }
+
+    clear(): void {
+        this.replaceSelection(new Set());
+    }
+
+    onSelectionChanged(callback: (selectedIds: string[]) => void): () => void {
+        this.listeners.add(callback);
+        return () => {
+            this.listeners.delete(callback);
+        };
+    }
+
+    /**
+     * 選択を置き換え、変化があった場合のみ通知する
+     */
+    private replaceSelection(next: Set<string>): void {
+        const unchanged = next.size === this.selectedIds.size &&
+            Array.from(next).every(id => this.selectedIds.has(id));
+        this.selectedIds = next;
+        if (!unchanged) {
+            this.notifyListeners();
+        }
+    }
+
+    /**
+     * 全てのリスナーに通知
+     */
+    private notifyListeners(): void {
+        const selectedIds = this.getSelectedIds();
+        this.listeners.forEach(listener => {
+            try {
+                listener(selectedIds);
+            } catch (error) {
+                console.error('Error in selection change listener:', error);
+            }
+        });
+    }
+
+    /**
+     * クリーンアップ
+     */
+    cleanup(): void {
+        this.listeners.clear();
+    }
+}
+
+/**
+ * 範囲選択の矩形に重なる付箋を取得する
+ * @param rect キャンバス座標系の選択範囲
+ */
+export function findNotesInRect(notes: StickyNote[], rect: CanvasRect): StickyNote[] {
+    return notes.filter(note => rectsIntersect(
+        {
+            x: note.position.x,
+            y: note.position.y,
+            width: note.dimensions.width,
+            height: note.dimensions.height
+        },
+        rect
+    ));
+}
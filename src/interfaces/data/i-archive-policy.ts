@@ -0,0 +1,28 @@
+import { Result } from '../../types/core-types';
+
+/**
+ * アーカイブの実行結果
+ */
+export interface ArchiveResult {
+    /** アーカイブした付箋のID */
+    archivedIds: string[];
+    /** 移動に失敗した付箋の数 */
+    failed: number;
+}
+
+/**
+ * アーカイブポリシーインターフェース
+ * 完了してから一定期間が過ぎた付箋をアーカイブフォルダに移動する
+ */
+export interface IArchivePolicy {
+    /**
+     * アーカイブフォルダのパス（Vaultのルートからの相対パス）
+     */
+    getArchiveFolder(): string;
+
+    /**
+     * 条件を満たす付箋をアーカイブする
+     * @param now 基準となる現在時刻（ミリ秒）
+     */
+    run(now?: number): Promise<Result<ArchiveResult>>;
+}
@@ -0,0 +1,98 @@
+import { StickyNote, Board, NoteGroup, Position, Result } from '../../types/core-types';
+
+/**
+ * ボード上の付箋の位置
+ */
+export interface BoardPlacement {
+    id: string;
+    position: Position;
+}
+
+/**
+ * ボード管理インターフェース
+ * 名前を付けたボードごとに、含まれる付箋とその位置を管理する
+ *
+ * ボードを指定しない表示（既定のボード）はPostodoフォルダの全ての付箋を表示する。
+ * 既定のボードは作成・削除の対象にならないが、位置の変更（setPositions・placeNotes）は扱い、
+ * 移動していない付箋は付箋のファイルに保存した位置で表示する。変更は次のイベントで通知する
+ * - boards-changed: ボードの作成・名前の変更・削除 { boards }
+ * - board-notes-changed: ボードに含まれる付箋の追加・削除 { boardId }
+ * - board-positions-changed: ボード上の付箋の移動 { boardId, placements }
+ * - board-groups-changed: ボード上の付箋のグループの作成・解除 { boardId }
+ *
+ * 付箋のグループはボードごとに作成し、1つのボードでは付箋は1つのグループにだけ含まれる
+ */
+export interface IBoardManager {
+    /**
+     * 全てのボードを作成順に取得
+     */
+    getBoards(): Board[];
+
+    /**
+     * ボードを取得
+     * @param boardId ボードID
+     */
+    getBoard(boardId: string): Board | undefined;
+
+    /**
+     * 空のボードを作成する
+     * @param name ボードの名前（他のボードと重複しない名前）
+     */
+    createBoard(name: string): Promise<Result<Board>>;
+
+    /**
+     * ボードの名前を変更する
+     */
+    renameBoard(boardId: string, name: string): Promise<Result<Board>>;
+
+    /**
+     * ボードを削除する（付箋のファイルは削除しない）
+     */
+    deleteBoard(boardId: string): Promise<Result<void>>;
+
+    /**
+     * 付箋をボードに追加する（追加済みの付箋は位置を変更しない）
+     * @param placements 追加する付箋とボード上の位置
+     */
+    addNotes(boardId: string, placements: BoardPlacement[]): Promise<Result<Board>>;
+
+    /**
+     * 付箋をボードから外す（付箋のファイルは削除しない）
+     */
+    removeNotes(boardId: string, noteIds: string[]): Promise<Result<Board>>;
+
+    /**
+     * ボード上の付箋の位置を変更する
+     * 1回の操作として元に戻せるよう履歴に記録する
+     */
+    setPositions(boardId: string, placements: BoardPlacement[]): Promise<Result<void>>;
+
+    /**
+     * 付箋のうちボードに含まれるものを、ボード上の位置に置き換えて返す
+     * 既定のボードでは全ての付箋を返す
+     */
+    placeNotes(boardId: string, notes: StickyNote[]): StickyNote[];
+
+    /**
+     * ボード上の付箋のグループを取得
+     */
+    getGroups(boardId: string): NoteGroup[];
+
+    /**
+     * 付箋をグループにまとめる
+     * 他のグループに含まれていた付箋はそのグループから外す（付箋が1つ以下になったグループは解除する）
+     * @param notes ボード上の位置に置き換えた付箋（2つ以上）
+     */
+    groupNotes(boardId: string, notes: StickyNote[]): Promise<Result<NoteGroup>>;
+
+    /**
+     * 付箋を含むグループを解除する（付箋は移動しない）
+     */
+    ungroupNotes(boardId: string, noteIds: string[]): Promise<Result<void>>;
+
+    /**
+     * 付箋の移動や大きさの変更に合わせてグループの枠の範囲を更新する
+     * @param notes ボード上の位置に置き換えた付箋（含まれない付箋は枠の計算に使用しない）
+     */
+    updateGroupBounds(boardId: string, notes: StickyNote[]): void;
+}
@@ -1,14 +1,17 @@
-import { StickyNote, CreateNoteOptions, UpdateNoteOptions, Result } from '../../types/core-types';
+import { StickyNote, CreateNoteOptions, UpdateNoteOptions, NoteUpdate, FindNotesOptions, Result } from '../../types/core-types';
 import { DisplayFilterType } from '../../types/config-types';
 import { IDisplayFilter } from '../ui/i-display-filter';
 
 export interface IDataManager {
     createNote(options: CreateNoteOptions): Promise<Result<StickyNote>>;
     updateNote(id: string, options: UpdateNoteOptions): Promise<Result<StickyNote>>;
+    updateNotes(updates: NoteUpdate[]): Promise<Result<StickyNote[]>>;
     deleteNote(id: string): Promise<Result<void>>;
     renameNote(id: string, newTitle: string): Promise<Result<StickyNote>>;
+    moveNote(id: string, targetFolder: string): Promise<Result<StickyNote>>;
+    restoreFromTrash(id: string): Promise<Result<StickyNote>>;
     getNote(id: string): Promise<Result<StickyNote | null>>;
-    getAllNotes(): Promise<Result<StickyNote[]>>;
+    getAllNotes(options?: FindNotesOptions): Promise<Result<StickyNote[]>>;
     getFilteredNotes(filter: IDisplayFilter): Promise<Result<StickyNote[]>>;
     getNotesByCompletionStatus(filterType: DisplayFilterType): Promise<Result<StickyNote[]>>;
     isNoteBeingEdited(id: string): boolean;
@@ -0,0 +1,64 @@
+import { Result } from '../../types/core-types';
+
+/**
+ * 履歴に記録する操作の種類
+ */
+export type HistoryActionType = 'create' | 'update' | 'delete' | 'rename' | 'move';
+
+/**
+ * 元に戻す・やり直すことができる操作（コマンド）
+ */
+export interface HistoryCommand {
+    type: HistoryActionType;
+    /**
+     * 操作の対象となった付箋の数
+     */
+    noteCount: number;
+    undo(): Promise<Result<void>>;
+    redo(): Promise<Result<void>>;
+}
+
+/**
+ * 操作履歴インターフェース
+ * 付箋に対する操作を記録し、元に戻す・やり直すために使用する
+ */
+export interface IHistoryManager {
+    /**
+     * 元に戻す・やり直すを実行中かどうか（実行中の操作は記録しない）
+     */
+    readonly isApplying: boolean;
+
+    canUndo(): boolean;
+    canRedo(): boolean;
+
+    /**
+     * 操作を記録する（やり直しの履歴は破棄される）
+     * @param command 記録する操作
+     */
+    record(command: HistoryCommand): void;
+
+    /**
+     * 処理中に記録された操作を1つの履歴にまとめる
+     * @param type まとめた履歴の操作の種類
+     * @param fn 操作を行う処理
+     * @returns fnの戻り値
+     */
+    batch<T>(type: HistoryActionType, fn: () => Promise<T>): Promise<T>;
+
+    /**
+     * 直前の操作を元に戻す
+     * @returns 元に戻した操作（履歴がない場合はnull）
+     */
+    undo(): Promise<Result<HistoryCommand | null>>;
+
+    /**
+     * 元に戻した操作をやり直す
+     * @returns やり直した操作（履歴がない場合はnull）
+     */
+    redo(): Promise<Result<HistoryCommand | null>>;
+
+    /**
+     * 全ての履歴を破棄する
+     */
+    clear(): void;
+}
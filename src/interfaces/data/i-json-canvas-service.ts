@@ -0,0 +1,45 @@
+import { Result } from '../../types/core-types';
+
+/**
+ * .canvasファイルの書き出し結果
+ */
+export interface JsonCanvasExportSummary {
+    // 作成したファイルのパス
+    filePath: string;
+    // 書き出した付箋の数
+    count: number;
+}
+
+/**
+ * .canvasファイルの読み込み結果
+ */
+export interface JsonCanvasImportSummary {
+    // 作成した付箋の数
+    created: number;
+    // ボードに置いた既存の付箋の数
+    placed: number;
+    // 付箋にできなかったノードの数
+    skipped: number;
+}
+
+/**
+ * JSON Canvasサービスインターフェース
+ * ボードとObsidianの.canvasファイル（JSON Canvas）を相互に変換する
+ */
+export interface IJsonCanvasService {
+    /**
+     * ボードの付箋を.canvasファイルに書き出す
+     * 同じ名前のファイルがある場合は番号を付けた名前にする
+     * @param boardId 書き出すボード
+     * @param baseName 書き出すファイルの名前（拡張子なし。Vaultの最上位に作成する）
+     */
+    exportBoard(boardId: string, baseName: string): Promise<Result<JsonCanvasExportSummary>>;
+
+    /**
+     * .canvasファイルのテキストとファイルのノードを付箋にしてボードに置く
+     * 1回の操作として元に戻せるよう、付箋の作成と配置は履歴にまとめて記録する
+     * @param filePath 読み込む.canvasファイル
+     * @param boardId 付箋を置くボード
+     */
+    importCanvas(filePath: string, boardId: string): Promise<Result<JsonCanvasImportSummary>>;
+}
@@ -1,11 +1,17 @@
-import { StickyNote, CreateNoteOptions, UpdateNoteOptions, Result } from '../../types/core-types';
+import { StickyNote, CreateNoteOptions, UpdateNoteOptions, NoteFileSnapshot, FindNotesOptions, Result } from '../../types/core-types';
 
 export interface INoteRepository {
     save(note: StickyNote): Promise<Result<void>>;
     findById(id: string): Promise<Result<StickyNote | null>>;
-    findAll(): Promise<Result<StickyNote[]>>;
+    findAll(options?: FindNotesOptions): Promise<Result<StickyNote[]>>;
+    readFromFile(filePath: string): Promise<Result<StickyNote | null>>;
+    stageChange(note: StickyNote): void;
     update(id: string, options: UpdateNoteOptions): Promise<Result<StickyNote>>;
     delete(id: string): Promise<Result<void>>;
     exists(id: string): Promise<Result<boolean>>;
     rename(id: string, newTitle: string): Promise<Result<StickyNote>>;
+    move(id: string, targetFolder: string): Promise<Result<StickyNote>>;
+    snapshot(id: string): Promise<Result<NoteFileSnapshot>>;
+    restore(snapshot: NoteFileSnapshot): Promise<Result<StickyNote>>;
+    restoreFromTrash(id: string): Promise<Result<StickyNote | null>>;
 }
\ No newline at end of file
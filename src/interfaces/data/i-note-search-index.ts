@@ -0,0 +1,38 @@
+import { StickyNote } from '../../types/core-types';
+
+/**
+ * 検索結果
+ */
+export interface NoteSearchResult {
+    noteId: string;
+    // 一致の度合い（大きいほど上位）
+    score: number;
+}
+
+/**
+ * 付箋の検索インデックスインターフェース
+ * タイトル・本文・タグ・ファイル名をメモリ上に保持し、付箋の変更イベントで更新する
+ */
+export interface INoteSearchIndex {
+    /**
+     * インデックスを指定した付箋で作り直す
+     */
+    setNotes(notes: StickyNote[]): void;
+
+    /**
+     * 検索語に一致する付箋を一致の度合いの高い順に返す
+     * 空白で区切った全ての語に一致する付箋を結果とし、空の検索語では何も返さない
+     */
+    search(query: string): NoteSearchResult[];
+
+    /**
+     * インデックスが更新された時に呼び出される処理を登録する
+     * @returns 登録を解除する関数
+     */
+    onChanged(listener: () => void): () => void;
+
+    /**
+     * 変更イベントの監視を停止し、インデックスを破棄する
+     */
+    cleanup(): void;
+}
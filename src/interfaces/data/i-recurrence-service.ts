@@ -0,0 +1,26 @@
+import { StickyNote, Result } from '../../types/core-types';
+
+/**
+ * 繰り返しタスクサービスインターフェース
+ * 繰り返し指定（🔁）のある付箋が完了した時に、次の日付の付箋を作成する
+ */
+export interface IRecurrenceService {
+    /**
+     * 付箋の完了の監視を開始する
+     */
+    startWatching(): void;
+
+    /**
+     * 完了した付箋の次の付箋を作成する
+     * 完了した付箋は完了済みの記録としてそのまま残し、作成した付箋のIDを記録する
+     * @param note 完了した付箋
+     * @param completedAt 完了日時
+     * @returns 作成した付箋。繰り返し指定がない場合や、記録した次の付箋が残っている場合はnull
+     */
+    createNextOccurrence(note: StickyNote, completedAt: Date): Promise<Result<StickyNote | null>>;
+
+    /**
+     * 監視を終了する
+     */
+    cleanup(): void;
+}
@@ -0,0 +1,57 @@
+import { StickyNote, Result } from '../../types/core-types';
+import { Reminder } from '../../utils/reminder';
+
+/**
+ * 通知するリマインダーと対象の付箋
+ */
+export interface DueReminder {
+    reminder: Reminder;
+    note: StickyNote;
+}
+
+/**
+ * リマインダーを通知する処理
+ * @param reminders 通知するリマインダー（通知日時の順）
+ * @param missed Obsidianを閉じている間に通知日時を過ぎたリマインダーかどうか
+ */
+export type ReminderHandler = (reminders: DueReminder[], missed: boolean) => void;
+
+/**
+ * リマインダーサービスインターフェース
+ * 付箋の期日（📅）と予定日（⏳）の日時に通知する
+ */
+export interface IReminderService {
+    /**
+     * リマインダーを通知する処理を設定する
+     */
+    setReminderHandler(handler: ReminderHandler): void;
+
+    /**
+     * 全ての付箋からリマインダーを設定し、付箋の変更の監視を開始する
+     * 閉じている間に通知日時を過ぎた未通知のリマインダーはまとめて通知する
+     * @returns 起動時に通知したリマインダーの数
+     */
+    start(now?: number): Promise<Result<number>>;
+
+    /**
+     * 通知日時を過ぎたリマインダーを通知し、次のリマインダーを設定する
+     * @returns 通知したリマインダー
+     */
+    check(now?: number): DueReminder[];
+
+    /**
+     * リマインダーを指定した時間だけ後にもう一度通知する
+     * @param minutes 省略時は設定のスヌーズ時間
+     */
+    snooze(key: string, minutes?: number, now?: number): void;
+
+    /**
+     * リマインダーの付箋を完了にする
+     */
+    complete(noteId: string): Promise<Result<StickyNote>>;
+
+    /**
+     * 監視とタイマーを終了する
+     */
+    cleanup(): void;
+}
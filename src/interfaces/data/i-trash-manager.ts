@@ -0,0 +1,68 @@
+import { StickyNote, TrashEntry, Result } from '../../types/core-types';
+import { TrashMode } from '../../types/config-types';
+
+/**
+ * ゴミ箱インターフェース
+ * 削除した付箋のファイルを保管し、復元や完全な削除を行うために使用する
+ */
+export interface ITrashManager {
+    /**
+     * 現在の削除方法
+     */
+    getMode(): TrashMode;
+
+    /**
+     * ゴミ箱フォルダのパス（Vaultのルートからの相対パス）
+     */
+    getTrashFolder(): string;
+
+    /**
+     * ゴミ箱内の付箋を削除日時の新しい順に取得
+     */
+    getEntries(): TrashEntry[];
+
+    /**
+     * ゴミ箱内の付箋を取得
+     * @param noteId 付箋ID
+     */
+    get(noteId: string): TrashEntry | undefined;
+
+    /**
+     * 付箋のファイルを削除方法に従って削除する
+     * @param note 削除する付箋
+     * @returns ゴミ箱フォルダに移動した場合はその記録、それ以外はnull
+     */
+    trash(note: StickyNote): Promise<Result<TrashEntry | null>>;
+
+    /**
+     * ゴミ箱内の付箋を元のパスに戻す
+     * @param noteId 付箋ID
+     */
+    restore(noteId: string): Promise<Result<TrashEntry>>;
+
+    /**
+     * ゴミ箱内の付箋を完全に削除する
+     * @param noteId 付箋ID
+     */
+    purge(noteId: string): Promise<Result<void>>;
+
+    /**
+     * ゴミ箱を空にする
+     * @returns 削除した付箋の数
+     */
+    purgeAll(): Promise<Result<number>>;
+
+    /**
+     * 保存期間を過ぎた付箋を完全に削除する
+     * @param now 基準となる現在時刻（ミリ秒）
+     * @returns 削除した付箋の数
+     */
+    purgeExpired(now?: number): Promise<Result<number>>;
+
+    /**
+     * ゴミ箱の内容が変わった時のコールバックを登録
+     * @param callback 変更時に呼ばれるコールバック
+     * @returns 登録解除関数
+     */
+    onTrashChanged(callback: (entries: TrashEntry[]) => void): () => void;
+}
@@ -8,6 +8,7 @@ export interface IStorageAdapter {
     list(folderPath: string): Promise<Result<string[]>>;
     createFolder(folderPath: string): Promise<Result<void>>;
     rename?(oldPath: string, newPath: string): Promise<Result<void>>;
+    trash?(filePath: string): Promise<Result<void>>;
     watchFile?(filePath: string, callback: () => void): () => void;
     cleanup?(): void;
 }
\ No newline at end of file
@@ -5,8 +5,10 @@ import { StickyNote, Result } from '../../types/core-types';
  * - position: 位置の競合（UI優先）
  * - content: コンテンツの競合（新しい方優先）
  * - metadata: メタデータの競合（マージ）
+ * - appearance: 外観（色・サイズ・回転）の競合（UI優先）
+ * - dimensions: 大きさの競合（UI優先）
  */
-export type ConflictType = 'position' | 'content' | 'metadata';
+export type ConflictType = 'position' | 'content' | 'metadata' | 'appearance' | 'dimensions';
 
 /**
  * 競合解決の戦略
@@ -25,6 +27,27 @@ export interface ResolveResult {
     strategy: ResolveStrategy;
 }
 
+/**
+ * ユーザーによるコンテンツ競合の選択結果
+ * - file: ファイル側の内容を採用
+ * - ui: キャンバス側の内容を採用
+ * - merged: ユーザーが編集した内容を採用
+ */
+export type ContentConflictChoice =
+    | { choice: 'file' }
+    | { choice: 'ui' }
+    | { choice: 'merged'; title: string; content: string };
+
+/**
+ * コンテンツ競合をユーザーに確認するハンドラー
+ * 選択されずに閉じられた場合はnullを返す
+ */
+export type ContentConflictHandler = (
+    fileNote: StickyNote,
+    uiNote: StickyNote,
+    baseNote?: StickyNote
+) => Promise<ContentConflictChoice | null>;
+
 /**
  * 競合検出の結果
  */
@@ -35,6 +58,24 @@ export interface ConflictDetectionResult {
     conflictTypes: ConflictType[];
 }
 
+/**
+ * 最後に同期した状態から変更された側
+ * - file: ファイル側のみ変更
+ * - ui: キャンバス側のみ変更
+ * - both: 両側で異なる変更（真の競合）
+ */
+export type ChangeSide = 'file' | 'ui' | 'both';
+
+/**
+ * 最後に同期した状態を基準にした変更検出の結果
+ */
+export interface ChangeDetectionResult {
+    /** ファイルとキャンバスで差異があるかどうか */
+    hasChanges: boolean;
+    /** 差異のある種類ごとの変更側 */
+    changes: Partial<Record<ConflictType, ChangeSide>>;
+}
+
 /**
  * 競合解決インターフェース
  * ファイルとUIの変更間の競合を検出・解決する
@@ -52,33 +93,48 @@ export interface IConflictResolver {
 
     /**
      * 複数の競合を検出する
+     * 基準を指定した場合は、両側で異なる変更がされた種類のみを競合として扱う
      * @param fileNote ファイルから読み込んだ付箋データ
      * @param uiNote UI上の付箋データ
+     * @param baseNote 最後に同期した付箋データ
      * @returns 競合検出結果
      */
-    detectAllConflicts(fileNote: StickyNote, uiNote: StickyNote): ConflictDetectionResult;
+    detectAllConflicts(fileNote: StickyNote, uiNote: StickyNote, baseNote?: StickyNote): ConflictDetectionResult;
+
+    /**
+     * 最後に同期した状態を基準に、どちら側が変更されたかを検出する
+     * @param fileNote ファイルから読み込んだ付箋データ
+     * @param uiNote UI上の付箋データ
+     * @param baseNote 最後に同期した付箋データ
+     * @returns 変更検出結果
+     */
+    detectChanges(fileNote: StickyNote, uiNote: StickyNote, baseNote: StickyNote): ChangeDetectionResult;
 
     /**
      * 競合を解決する
      * @param fileNote ファイルから読み込んだ付箋データ
      * @param uiNote UI上の付箋データ
      * @param conflictType 競合の種類
+     * @param baseNote 最後に同期した付箋データ（三方向マージに使用）
      * @returns 解決結果
      */
     resolveConflict(
         fileNote: StickyNote,
         uiNote: StickyNote,
-        conflictType: ConflictType
+        conflictType: ConflictType,
+        baseNote?: StickyNote
     ): Promise<ResolveResult>;
 
     /**
      * 全ての競合を解決する
      * @param fileNote ファイルから読み込んだ付箋データ
      * @param uiNote UI上の付箋データ
+     * @param baseNote 最後に同期した付箋データ（三方向マージに使用）
      * @returns 解決結果
      */
     resolveAllConflicts(
         fileNote: StickyNote,
-        uiNote: StickyNote
+        uiNote: StickyNote,
+        baseNote?: StickyNote
     ): Promise<ResolveResult>;
 }
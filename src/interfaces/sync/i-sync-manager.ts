@@ -1,4 +1,5 @@
 import { StickyNote, Result } from '../../types/core-types';
+import { SyncStrategy } from '../../types/config-types';
 
 /**
  * 同期ステータス
@@ -32,6 +33,16 @@ export interface SyncResult {
     error?: string;
 }
 
+/**
+ * 保留中の変更をまとめて書き込んだ結果
+ */
+export interface FlushResult {
+    /** 書き込みに成功した付箋の数 */
+    synced: number;
+    /** 書き込みに失敗して保留に戻した付箋の数 */
+    failed: number;
+}
+
 /**
  * 同期マネージャーインターフェース
  * UIとファイル間のデータ同期を管理する
@@ -94,9 +105,39 @@ export interface ISyncManager {
      * 競合を検出して解決する
      * @param fileNote ファイルから読み込んだ付箋
      * @param uiNote UI上の付箋
+     * @param baseNote 最後に同期した付箋（三方向マージに使用）
      * @returns 同期結果
      */
-    resolveAndSync(fileNote: StickyNote, uiNote: StickyNote): Promise<SyncResult>;
+    resolveAndSync(fileNote: StickyNote, uiNote: StickyNote, baseNote?: StickyNote): Promise<SyncResult>;
+
+    /**
+     * UI上の変更をファイルに同期する
+     * ファイルが最後に把握した状態から外部で変更されている場合は競合解決を経由する
+     * @param uiNote 変更後の付箋
+     * @param baseNote 変更前に把握していた付箋
+     * @returns 同期結果
+     */
+    syncUiChange(uiNote: StickyNote, baseNote: StickyNote): Promise<SyncResult>;
+
+    /**
+     * 同期戦略を設定する
+     * manual/periodicでは変更をキャッシュに保留し、flush時にまとめて書き込む
+     * @param strategy 同期戦略
+     * @param intervalMs 定期同期の間隔（ミリ秒）
+     */
+    setStrategy(strategy: SyncStrategy, intervalMs?: number): void;
+
+    /**
+     * 保存を保留している付箋の数を取得する
+     * @returns 保留中の付箋数
+     */
+    getDirtyCount(): number;
+
+    /**
+     * 保存を保留している付箋をすべてファイルに書き込む
+     * @returns 書き込み結果
+     */
+    flush(): Promise<FlushResult>;
 
     /**
      * 現在の同期ステータスを取得する
@@ -1,12 +1,15 @@
 import { StickyNote } from '../../types/core-types';
+import { PriorityLevel, FilterCondition } from '../../types/config-types';
+import { SavedFilterParts } from '../../utils/filter-condition';
 
 /**
  * 表示フィルターの種類
  * - incomplete: 未完了のみ表示
  * - complete: 完了のみ表示
  * - all: すべて表示
+ * - due-soon: 期日が指定日数以内（期限切れを含む）の未完了のみ表示
  */
-export type DisplayFilterType = 'incomplete' | 'complete' | 'all';
+export type DisplayFilterType = 'incomplete' | 'complete' | 'all' | 'due-soon';
 
 /**
  * 表示フィルターインターフェース
@@ -18,12 +21,67 @@ export interface IDisplayFilter {
      */
     readonly currentFilter: DisplayFilterType;
 
+    /**
+     * アーカイブ済みの付箋も表示するかどうか
+     */
+    readonly includeArchived: boolean;
+
+    /**
+     * 「期日が近い」フィルターで対象とする日数
+     */
+    readonly dueSoonDays: number;
+
+    /**
+     * 表示する付箋の最低の優先度（'low'の場合は全ての優先度を表示）
+     */
+    readonly minPriority: PriorityLevel;
+
+    /**
+     * 完了状態と優先度に加えて適用する条件（タグ、色、テキストなどの組み合わせ）
+     */
+    readonly condition: FilterCondition | null;
+
     /**
      * フィルターを設定
      * @param filter 設定するフィルター種類
      */
     setFilter(filter: DisplayFilterType): void;
 
+    /**
+     * アーカイブ済みの付箋を表示するかどうかを設定
+     * @param includeArchived 表示する場合はtrue
+     */
+    setIncludeArchived(includeArchived: boolean): void;
+
+    /**
+     * 「期日が近い」フィルターで対象とする日数を設定
+     * @param days 今日から何日後までの期日を対象とするか
+     */
+    setDueSoonDays(days: number): void;
+
+    /**
+     * 表示する付箋の最低の優先度を設定
+     * 完了状態のフィルターと組み合わせて適用する
+     * @param priority この優先度以上の付箋だけを表示する
+     */
+    setMinPriority(priority: PriorityLevel): void;
+
+    /**
+     * 完了状態と優先度に加えて適用する条件を設定
+     * @param condition 条件（nullの場合は条件なし）
+     */
+    setCondition(condition: FilterCondition | null): void;
+
+    /**
+     * 現在のフィルターの設定を返す（設定への保存用）
+     */
+    getSavedFilter(): SavedFilterParts;
+
+    /**
+     * 保存したフィルターの設定をまとめて適用する（変更があれば1回だけ通知する）
+     */
+    applySavedFilter(parts: SavedFilterParts): void;
+
     /**
      * 付箋を表示すべきかどうかを判定
      * @param note 判定対象の付箋
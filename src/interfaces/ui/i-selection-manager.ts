@@ -0,0 +1,58 @@
+/**
+ * 付箋の選択状態インターフェース
+ * キャンバス上で複数の付箋を選択し、まとめて操作するために使用する
+ */
+export interface ISelectionManager {
+    /**
+     * 選択中の付箋の数
+     */
+    readonly size: number;
+
+    /**
+     * 付箋が選択されているかどうか
+     * @param noteId 判定対象の付箋ID
+     */
+    has(noteId: string): boolean;
+
+    /**
+     * 選択中の付箋IDを選択順に取得
+     */
+    getSelectedIds(): string[];
+
+    /**
+     * 付箋を選択する
+     * @param noteIds 選択する付箋ID
+     * @param additive trueの場合は既存の選択に追加する
+     */
+    select(noteIds: string[], additive?: boolean): void;
+
+    /**
+     * 付箋の選択状態を切り替える
+     * @param noteId 対象の付箋ID
+     */
+    toggle(noteId: string): void;
+
+    /**
+     * 指定した付箋を選択から外す
+     * @param noteIds 選択から外す付箋ID
+     */
+    deselect(noteIds: string[]): void;
+
+    /**
+     * 指定した付箋以外を選択から外す
+     * @param noteIds 選択を残す付箋ID
+     */
+    retain(noteIds: Iterable<string>): void;
+
+    /**
+     * 全ての選択を解除する
+     */
+    clear(): void;
+
+    /**
+     * 選択変更時のコールバックを登録
+     * @param callback 選択変更時に呼ばれるコールバック
+     * @returns 登録解除関数
+     */
+    onSelectionChanged(callback: (selectedIds: string[]) => void): () => void;
+}
@@ -154,17 +154,30 @@ export class ConfigProvider {
             'core.maxNotes',
             'core.saveInterval',
             'rendering.maxRenderedNotes',
+            'storage.syncStrategy',
+            'storage.syncInterval',
+            'storage.conflictResolution',
+            'ui.showGrid',
+            'ui.snapToGrid',
+            'ui.gridSize',
+            'ui.layout',
+            'ui.kanban',
             'postodoFolder',
             'namingStrategy',
             'customNamingFormat',
-            'defaultDisplayFilter'
+            'defaultDisplayFilter',
+            'savedViews'
         ];
         
         importantPaths.forEach(path => {
             const oldValue = this.getValueByPath(oldConfig, path);
             const newValue = this.getValueByPath(newConfig, path);
             
-            if (oldValue !== newValue) {
+            // 配列やオブジェクトの設定は内容で比較する
+            const changed = typeof newValue === 'object' && newValue !== null
+                ? JSON.stringify(oldValue) !== JSON.stringify(newValue)
+                : oldValue !== newValue;
+            if (changed) {
                 this.eventBus!.emit('config-changed', { path, value: newValue, oldValue });
                 
                 // 特定の設定変更に対して専用イベントを発行
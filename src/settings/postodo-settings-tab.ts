@@ -1,7 +1,18 @@
-import { App, PluginSettingTab, Setting, Modal, Plugin } from 'obsidian';
+import { App, PluginSettingTab, Setting, Plugin } from 'obsidian';
 import { PostodoPlugin } from '../core/plugin';
-import { PostodoSettings, NamingStrategyType, DisplayFilterType, LanguageType, NoteColorType, NoteSizeType } from '../types/config-types';
+import { PostodoSettings, NamingStrategyType, DisplayFilterType, LanguageType, NoteColorType, NoteSizeType, TrashMode, NoteSortOrder, SavedView, LayoutMode, KanbanColumnSource } from '../types/config-types';
 import { getTranslations, Translations, Language } from '../i18n/translations';
+import { ConfirmationModal } from '../ui/confirmation-modal';
+import { MIN_GRID_SIZE, MAX_GRID_SIZE, DEFAULT_GRID_SIZE } from '../ui/grid-snap';
+import { DEFAULT_TRASH_FOLDER, DEFAULT_AUTO_PURGE_DAYS } from '../implementations/data/trash-manager';
+import { DEFAULT_ARCHIVE_FOLDER, DEFAULT_ARCHIVE_AFTER_DAYS } from '../implementations/data/archive-policy';
+import { DEFAULT_DUE_SOON_DAYS } from '../utils/due-date';
+import { DEFAULT_REMINDER_TIME, DEFAULT_SNOOZE_MINUTES, parseReminderTime } from '../utils/reminder';
+import { DISPLAY_FILTER_TYPES, parseFilterCondition, parseSavedFilter } from '../utils/filter-condition';
+import { NOTE_SORT_ORDERS } from '../utils/note-sort';
+import { parseSavedViews } from '../utils/saved-views';
+import { parseKanbanSettings } from '../utils/kanban';
+import { NoteValidator } from '../utils/validators';
 
 export class PostodoSettingsTab extends PluginSettingTab {
     postodoPlugin: PostodoPlugin;
@@ -30,6 +41,7 @@ export class PostodoSettingsTab extends PluginSettingTab {
         
         // 3. 表示フィルター
         this.createDisplayFilterSettings(containerEl);
+        this.createSavedViewsSettings(containerEl);
         
         // 4. 基本設定（フォルダ、自動保存）
         this.createBasicSettings(containerEl);
@@ -43,6 +55,9 @@ export class PostodoSettingsTab extends PluginSettingTab {
         // 7. 詳細設定（描画、同期、デバッグ等）
         this.createRenderingSettings(containerEl);
         this.createStorageSettings(containerEl);
+        this.createTrashSettings(containerEl);
+        this.createArchiveSettings(containerEl);
+        this.createReminderSettings(containerEl);
         this.createAdvancedSettings(containerEl);
     }
 
@@ -146,19 +161,123 @@ export class PostodoSettingsTab extends PluginSettingTab {
 
         const settings = this.postodoPlugin.getSettings();
 
+        // 条件を組み合わせたフィルターはJSONの文字列として保存されている
+        const isCustom = !DISPLAY_FILTER_TYPES.includes(settings.defaultDisplayFilter as DisplayFilterType);
+
         // デフォルト表示フィルターの選択
         new Setting(containerEl)
             .setName(this.t.settings.displayFilter.default.name)
             .setDesc(this.t.settings.displayFilter.default.desc)
-            .addDropdown(dropdown => dropdown
-                .addOption('incomplete', this.t.settings.displayFilter.default.options.incomplete)
-                .addOption('complete', this.t.settings.displayFilter.default.options.complete)
-                .addOption('all', this.t.settings.displayFilter.default.options.all)
-                .setValue(settings.defaultDisplayFilter)
-                .onChange(async (value) => {
-                    settings.defaultDisplayFilter = value as DisplayFilterType;
-                    await this.postodoPlugin.saveSettings();
-                }));
+            .addDropdown(dropdown => {
+                dropdown
+                    .addOption('incomplete', this.t.settings.displayFilter.default.options.incomplete)
+                    .addOption('complete', this.t.settings.displayFilter.default.options.complete)
+                    .addOption('all', this.t.settings.displayFilter.default.options.all)
+                    .addOption('due-soon', this.t.settings.displayFilter.default.options.dueSoon
+                        .replace('{days}', String(settings.ui.dueSoonDays ?? DEFAULT_DUE_SOON_DAYS)));
+                if (isCustom) {
+                    dropdown.addOption('custom', this.t.settings.displayFilter.default.options.custom);
+                }
+                dropdown
+                    .setValue(isCustom ? 'custom' : settings.defaultDisplayFilter)
+                    .onChange(async (value) => {
+                        if (value === 'custom') return;
+                        settings.defaultDisplayFilter = value as DisplayFilterType;
+                        await this.postodoPlugin.saveSettings();
+                        // 条件の欄を空にするため再描画
+                        this.display();
+                    });
+            });
+
+        // 条件を組み合わせたフィルター（JSON）
+        new Setting(containerEl)
+            .setName(this.t.settings.displayFilter.condition.name)
+            .setDesc(this.t.settings.displayFilter.condition.desc)
+            .addTextArea(textArea => {
+                textArea
+                    .setPlaceholder('{"type":"tag","tag":"work"}')
+                    .setValue(isCustom ? settings.defaultDisplayFilter : '')
+                    .onChange(async (value) => {
+                        const trimmed = value.trim();
+                        if (!trimmed) {
+                            textArea.inputEl.removeClass('is-invalid');
+                            textArea.inputEl.title = '';
+                            settings.defaultDisplayFilter = parseSavedFilter(settings.defaultDisplayFilter)?.filter || 'incomplete';
+                            await this.postodoPlugin.saveSettings();
+                            return;
+                        }
+
+                        let condition = null;
+                        try {
+                            condition = parseFilterCondition(JSON.parse(trimmed));
+                        } catch {
+                            condition = null;
+                        }
+                        textArea.inputEl.toggleClass('is-invalid', !condition);
+                        textArea.inputEl.title = condition ? '' : this.t.settings.displayFilter.condition.invalid;
+                        if (condition) {
+                            settings.defaultDisplayFilter = JSON.stringify(condition);
+                            await this.postodoPlugin.saveSettings();
+                        }
+                    });
+                textArea.inputEl.rows = 4;
+                textArea.inputEl.addClass('postodo-filter-condition-input');
+            });
+    }
+
+    private createSavedViewsSettings(containerEl: HTMLElement): void {
+        containerEl.createEl('h3', { text: this.t.settings.savedViews.title });
+        containerEl.createEl('p', { text: this.t.settings.savedViews.desc, cls: 'setting-item-description' });
+
+        const settings = this.postodoPlugin.getSettings();
+        const views = parseSavedViews(settings.savedViews);
+        if (views.length === 0) {
+            containerEl.createEl('p', { text: this.t.settings.savedViews.empty, cls: 'setting-item-description' });
+            return;
+        }
+
+        // 変更の検出は配列の内容で行うが、他の参照に影響しないよう常に新しい配列に置き換える
+        const updateView = async (id: string, changes: Partial<SavedView>) => {
+            settings.savedViews = parseSavedViews(settings.savedViews)
+                .map(view => view.id === id ? { ...view, ...changes } : view);
+            await this.postodoPlugin.saveSettings();
+        };
+
+        views.forEach(view => {
+            new Setting(containerEl)
+                .setDesc(view.viewport ? this.t.settings.savedViews.viewport : '')
+                .addText(text => text
+                    .setValue(view.name)
+                    .onChange(async (value) => {
+                        const name = value.trim();
+                        // 空の名前や他の表示と同じ名前には変更しない
+                        const isDuplicate = parseSavedViews(settings.savedViews).some(v => v.id !== view.id && v.name === name);
+                        text.inputEl.toggleClass('is-invalid', !name || isDuplicate);
+                        if (name && !isDuplicate) {
+                            await updateView(view.id, { name });
+                        }
+                    })
+                    .then(() => text.inputEl.addClass('postodo-saved-view-name')))
+                .addDropdown(dropdown => {
+                    NOTE_SORT_ORDERS.forEach(order => {
+                        dropdown.addOption(order, this.t.views.sortOrders[order]);
+                    });
+                    dropdown.selectEl.setAttribute('aria-label', this.t.settings.savedViews.sort);
+                    dropdown
+                        .setValue(view.sort)
+                        .onChange(async (value) => {
+                            await updateView(view.id, { sort: value as NoteSortOrder });
+                        });
+                })
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip(this.t.settings.savedViews.delete)
+                    .onClick(async () => {
+                        settings.savedViews = parseSavedViews(settings.savedViews).filter(v => v.id !== view.id);
+                        await this.postodoPlugin.saveSettings();
+                        this.display();
+                    }));
+        });
     }
 
     private createRenderingSettings(containerEl: HTMLElement): void {
@@ -208,8 +327,25 @@ export class PostodoSettingsTab extends PluginSettingTab {
                 .onChange(async (value) => {
                     settings.storage.syncStrategy = value as any;
                     await this.postodoPlugin.saveSettings();
+                    // 設定画面を再描画して同期間隔欄の表示/非表示を切り替え
+                    this.display();
                 }));
 
+        // 同期間隔（定期同期選択時のみ表示）
+        if (settings.storage.syncStrategy === 'periodic') {
+            new Setting(containerEl)
+                .setName(this.t.settings.storage.syncInterval.name)
+                .setDesc(this.t.settings.storage.syncInterval.desc)
+                .addSlider(slider => slider
+                    .setLimits(10, 600, 10)
+                    .setValue(settings.storage.syncInterval || 60)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        settings.storage.syncInterval = value;
+                        await this.postodoPlugin.saveSettings();
+                    }));
+        }
+
         // 競合解決の設定
         new Setting(containerEl)
             .setName(this.t.settings.storage.conflictResolution.name)
@@ -225,6 +361,146 @@ export class PostodoSettingsTab extends PluginSettingTab {
                 }));
     }
 
+    private createTrashSettings(containerEl: HTMLElement): void {
+        containerEl.createEl('h3', { text: this.t.settings.trash.title });
+
+        const settings = this.postodoPlugin.getSettings();
+
+        // 削除方法
+        new Setting(containerEl)
+            .setName(this.t.settings.trash.mode.name)
+            .setDesc(this.t.settings.trash.mode.desc)
+            .addDropdown(dropdown => dropdown
+                .addOption('folder', this.t.settings.trash.mode.options.folder)
+                .addOption('vault', this.t.settings.trash.mode.options.vault)
+                .addOption('permanent', this.t.settings.trash.mode.options.permanent)
+                .setValue(settings.trash.mode)
+                .onChange(async (value) => {
+                    settings.trash.mode = value as TrashMode;
+                    await this.postodoPlugin.saveSettings();
+                    // 設定画面を再描画してゴミ箱フォルダ欄の表示/非表示を切り替え
+                    this.display();
+                }));
+
+        // ゴミ箱フォルダと自動削除（ゴミ箱フォルダ選択時のみ表示）
+        if (settings.trash.mode === 'folder') {
+            new Setting(containerEl)
+                .setName(this.t.settings.trash.folder.name)
+                .setDesc(this.t.settings.trash.folder.desc)
+                .addText(text => text
+                    .setPlaceholder(DEFAULT_TRASH_FOLDER)
+                    .setValue(settings.trash.folder)
+                    .onChange(async (value) => {
+                        settings.trash.folder = value;
+                        await this.postodoPlugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName(this.t.settings.trash.autoPurgeDays.name)
+                .setDesc(this.t.settings.trash.autoPurgeDays.desc)
+                .addText(text => text
+                    .setPlaceholder(String(DEFAULT_AUTO_PURGE_DAYS))
+                    .setValue(String(settings.trash.autoPurgeDays))
+                    .onChange(async (value) => {
+                        const numValue = parseInt(value);
+                        if (!isNaN(numValue) && numValue >= 0) {
+                            settings.trash.autoPurgeDays = numValue;
+                            await this.postodoPlugin.saveSettings();
+                        }
+                    }));
+        }
+    }
+
+    private createArchiveSettings(containerEl: HTMLElement): void {
+        containerEl.createEl('h3', { text: this.t.settings.archive.title });
+
+        const settings = this.postodoPlugin.getSettings();
+
+        // 起動時の自動アーカイブ
+        new Setting(containerEl)
+            .setName(this.t.settings.archive.autoArchive.name)
+            .setDesc(this.t.settings.archive.autoArchive.desc)
+            .addToggle(toggle => toggle
+                .setValue(settings.archive.autoArchive)
+                .onChange(async (value) => {
+                    settings.archive.autoArchive = value;
+                    await this.postodoPlugin.saveSettings();
+                }));
+
+        // アーカイブするまでの日数
+        new Setting(containerEl)
+            .setName(this.t.settings.archive.afterDays.name)
+            .setDesc(this.t.settings.archive.afterDays.desc)
+            .addText(text => text
+                .setPlaceholder(String(DEFAULT_ARCHIVE_AFTER_DAYS))
+                .setValue(String(settings.archive.afterDays))
+                .onChange(async (value) => {
+                    const numValue = parseInt(value);
+                    if (!isNaN(numValue) && numValue >= 0) {
+                        settings.archive.afterDays = numValue;
+                        await this.postodoPlugin.saveSettings();
+                    }
+                }));
+
+        // アーカイブフォルダ
+        new Setting(containerEl)
+            .setName(this.t.settings.archive.folder.name)
+            .setDesc(this.t.settings.archive.folder.desc)
+            .addText(text => text
+                .setPlaceholder(DEFAULT_ARCHIVE_FOLDER)
+                .setValue(settings.archive.folder)
+                .onChange(async (value) => {
+                    settings.archive.folder = value;
+                    await this.postodoPlugin.saveSettings();
+                }));
+    }
+
+    private createReminderSettings(containerEl: HTMLElement): void {
+        containerEl.createEl('h3', { text: this.t.settings.reminders.title });
+
+        const settings = this.postodoPlugin.getSettings();
+
+        // リマインダーの有効・無効
+        new Setting(containerEl)
+            .setName(this.t.settings.reminders.enabled.name)
+            .setDesc(this.t.settings.reminders.enabled.desc)
+            .addToggle(toggle => toggle
+                .setValue(settings.reminders.enabled)
+                .onChange(async (value) => {
+                    settings.reminders.enabled = value;
+                    await this.postodoPlugin.saveSettings();
+                }));
+
+        // 時刻のない日付を通知する時刻
+        new Setting(containerEl)
+            .setName(this.t.settings.reminders.defaultTime.name)
+            .setDesc(this.t.settings.reminders.defaultTime.desc)
+            .addText(text => text
+                .setPlaceholder(DEFAULT_REMINDER_TIME)
+                .setValue(settings.reminders.defaultTime)
+                .onChange(async (value) => {
+                    if (parseReminderTime(value)) {
+                        settings.reminders.defaultTime = value.trim();
+                        await this.postodoPlugin.saveSettings();
+                    }
+                }));
+
+        // スヌーズする時間
+        new Setting(containerEl)
+            .setName(this.t.settings.reminders.snoozeMinutes.name)
+            .setDesc(this.t.settings.reminders.snoozeMinutes.desc)
+            .addText(text => text
+                .setPlaceholder(String(DEFAULT_SNOOZE_MINUTES))
+                .setValue(String(settings.reminders.snoozeMinutes))
+                .onChange(async (value) => {
+                    const numValue = parseInt(value);
+                    if (!isNaN(numValue) && numValue > 0) {
+                        settings.reminders.snoozeMinutes = numValue;
+                        await this.postodoPlugin.saveSettings();
+                    }
+                }));
+    }
+
     private createUISettings(containerEl: HTMLElement): void {
         containerEl.createEl('h3', { text: this.t.settings.ui.title });
 
@@ -251,6 +527,96 @@ export class PostodoSettingsTab extends PluginSettingTab {
                     settings.ui.snapToGrid = value;
                     await this.postodoPlugin.saveSettings();
                 }));
+
+        // グリッドサイズ
+        new Setting(containerEl)
+            .setName(this.t.settings.ui.gridSize.name)
+            .setDesc(this.t.settings.ui.gridSize.desc)
+            .addSlider(slider => slider
+                .setLimits(MIN_GRID_SIZE, MAX_GRID_SIZE, 5)
+                .setValue(settings.ui.gridSize || DEFAULT_GRID_SIZE)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    settings.ui.gridSize = value;
+                    await this.postodoPlugin.saveSettings();
+                }));
+
+        // 「期日が近い」とみなす日数
+        new Setting(containerEl)
+            .setName(this.t.settings.ui.dueSoonDays.name)
+            .setDesc(this.t.settings.ui.dueSoonDays.desc)
+            .addText(text => text
+                .setPlaceholder(String(DEFAULT_DUE_SOON_DAYS))
+                .setValue(String(settings.ui.dueSoonDays ?? DEFAULT_DUE_SOON_DAYS))
+                .onChange(async (value) => {
+                    const numValue = parseInt(value);
+                    if (!isNaN(numValue) && numValue >= 0) {
+                        settings.ui.dueSoonDays = numValue;
+                        await this.postodoPlugin.saveSettings();
+                    }
+                }));
+
+        // 表示方法（キャンバス・カンバン）
+        new Setting(containerEl)
+            .setName(this.t.settings.ui.layout.name)
+            .setDesc(this.t.settings.ui.layout.desc)
+            .addDropdown(dropdown => dropdown
+                .addOption('canvas', this.t.settings.ui.layout.canvas)
+                .addOption('kanban', this.t.settings.ui.layout.kanban)
+                .setValue(settings.ui.layout === 'kanban' ? 'kanban' : 'canvas')
+                .onChange(async (value) => {
+                    settings.ui.layout = value as LayoutMode;
+                    await this.postodoPlugin.saveSettings();
+                }));
+
+        // カンバンの列を決める値（以前の設定にない場合は既定値を使用する）
+        const kanban = parseKanbanSettings(settings.ui.kanban);
+        new Setting(containerEl)
+            .setName(this.t.settings.ui.kanbanSource.name)
+            .setDesc(this.t.settings.ui.kanbanSource.desc)
+            .addDropdown(dropdown => dropdown
+                .addOption('completion', this.t.settings.ui.kanbanSource.completion)
+                .addOption('tag', this.t.settings.ui.kanbanSource.tag)
+                .addOption('field', this.t.settings.ui.kanbanSource.field)
+                .setValue(kanban.source)
+                .onChange(async (value) => {
+                    settings.ui.kanban = { ...kanban, source: value as KanbanColumnSource };
+                    await this.postodoPlugin.saveSettings();
+                    // 設定画面を再描画して項目名と列の値の欄の表示/非表示を切り替え
+                    this.display();
+                }));
+
+        // 列に分けるフロントマターの項目名（項目を選択時のみ表示）
+        if (kanban.source === 'field') {
+            new Setting(containerEl)
+                .setName(this.t.settings.ui.kanbanField.name)
+                .setDesc(this.t.settings.ui.kanbanField.desc)
+                .addText(text => text
+                    .setPlaceholder('status')
+                    .setValue(kanban.field)
+                    .onChange(async (value) => {
+                        if (NoteValidator.validatePropertyKey(value.trim()).valid) {
+                            kanban.field = value.trim();
+                            settings.ui.kanban = { ...kanban };
+                            await this.postodoPlugin.saveSettings();
+                        }
+                    }));
+        }
+
+        // 列として表示するタグ・項目の値（タグか項目を選択時のみ表示）
+        if (kanban.source !== 'completion') {
+            new Setting(containerEl)
+                .setName(this.t.settings.ui.kanbanColumns.name)
+                .setDesc(this.t.settings.ui.kanbanColumns.desc)
+                .addText(text => text
+                    .setPlaceholder('todo, doing, done')
+                    .setValue(kanban.columns.join(', '))
+                    .onChange(async (value) => {
+                        kanban.columns = parseKanbanSettings({ ...kanban, columns: value.split(',') }).columns;
+                        settings.ui.kanban = { ...kanban };
+                        await this.postodoPlugin.saveSettings();
+                    }));
+        }
     }
 
     private createNoteDefaultsSettings(containerEl: HTMLElement): void {
@@ -342,17 +708,13 @@ export class PostodoSettingsTab extends PluginSettingTab {
     }
 
     private async confirmDataClear(): Promise<boolean> {
-        return new Promise((resolve) => {
-            const modal = new ConfirmationModal(
-                this.app,
-                this.t.settings.advanced.clearData.confirmTitle,
-                this.t.settings.advanced.clearData.confirmMessage,
-                this.t.settings.advanced.clearData.cancel,
-                this.t.settings.advanced.clearData.confirm,
-                resolve
-            );
-            modal.open();
-        });
+        return ConfirmationModal.prompt(
+            this.app,
+            this.t.settings.advanced.clearData.confirmTitle,
+            this.t.settings.advanced.clearData.confirmMessage,
+            this.t.settings.advanced.clearData.cancel,
+            this.t.settings.advanced.clearData.confirm
+        );
     }
 
     private async clearAllData(): Promise<void> {
@@ -366,44 +728,3 @@ export class PostodoSettingsTab extends PluginSettingTab {
         }
     }
 }
-
-// 確認ダイアログ
-class ConfirmationModal extends Modal {
-    constructor(
-        app: App,
-        private title: string,
-        private message: string,
-        private cancelText: string,
-        private confirmText: string,
-        private callback: (confirmed: boolean) => void
-    ) {
-        super(app);
-    }
-
-    onOpen(): void {
-        const { contentEl } = this;
-        contentEl.createEl('h2', { text: this.title });
-        contentEl.createEl('p', { text: this.message });
-
-        const buttonContainer = contentEl.createDiv('modal-button-container');
-        
-        const cancelBtn = buttonContainer.createEl('button', { text: this.cancelText });
-        cancelBtn.onclick = () => {
-            this.callback(false);
-            this.close();
-        };
-
-        const confirmBtn = buttonContainer.createEl('button', { 
-            text: this.confirmText,
-            cls: 'mod-warning'
-        });
-        confirmBtn.onclick = () => {
-            this.callback(true);
-            this.close();
-        };
-    }
-
-    onClose(): void {
-        this.contentEl.empty();
-    }
-}
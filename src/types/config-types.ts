@@ -15,6 +15,8 @@ export interface PostodoConfig {
     storage: {
         adapter: StorageAdapter;
         syncStrategy: SyncStrategy;
+        // 定期同期の間隔（秒）
+        syncInterval: number;
         conflictResolution: ConflictResolution;
     };
     input: {
@@ -25,9 +27,38 @@ export interface PostodoConfig {
     };
     ui: {
         theme: string;
-        layout: string;
+        layout: LayoutMode;
+        // カンバン表示の列の設定
+        kanban: KanbanSettings;
         showGrid: boolean;
         snapToGrid: boolean;
+        // グリッドの間隔（px）
+        gridSize: number;
+        // 「期日が近い」フィルターで対象とする日数
+        dueSoonDays: number;
+    };
+    trash: {
+        mode: TrashMode;
+        // ゴミ箱フォルダ（Postodoフォルダからの相対パス）
+        folder: string;
+        // ゴミ箱から自動で完全に削除するまでの日数（0の場合は自動削除しない）
+        autoPurgeDays: number;
+    };
+    archive: {
+        // 起動時に完了した付箋を自動でアーカイブする
+        autoArchive: boolean;
+        // 完了からアーカイブするまでの日数
+        afterDays: number;
+        // アーカイブフォルダ（Postodoフォルダからの相対パス）
+        folder: string;
+    };
+    reminders: {
+        // 期日・予定日のリマインダーを通知する
+        enabled: boolean;
+        // 時刻のない期日・予定日を通知する時刻（HH:mm）
+        defaultTime: string;
+        // スヌーズする時間（分）
+        snoozeMinutes: number;
     };
     extensions: {
         enabled: string[];
@@ -48,10 +79,39 @@ export interface PostodoSettings extends PostodoConfig {
     namingStrategy: NamingStrategyType;
     // カスタム命名フォーマット
     customNamingFormat: string;
-    // 表示フィルター設定
-    defaultDisplayFilter: DisplayFilterType;
+    // 表示フィルター設定（完了状態の種類、またはFilterConditionをJSONにした文字列）
+    defaultDisplayFilter: DisplayFilterType | string;
     // 言語設定
     language: LanguageType;
+    // 名前を付けて保存した表示（チームで共有できるよう設定に保存する）
+    savedViews: SavedView[];
+}
+
+/**
+ * 名前を付けて保存した表示
+ * フィルター・ビューポート・整列の並び順をまとめて切り替える
+ */
+export interface SavedView {
+    id: string;
+    name: string;
+    // 表示フィルター（defaultDisplayFilterと同じ形式）
+    filter: string;
+    // 表示位置とズーム（未指定の場合は切り替えても変えない）
+    viewport?: { x: number; y: number; zoom: number };
+    // 付箋を整列する時の並び順
+    sort: NoteSortOrder;
+}
+
+/**
+ * カンバン表示の列の設定
+ * 付箋を列に分ける値（完了状態、タグ、フロントマターの項目）と、表示する列の値を指定する
+ */
+export interface KanbanSettings {
+    source: KanbanColumnSource;
+    // 列に分けるフロントマターの項目名（sourceがfieldの場合）
+    field: string;
+    // 列の値（sourceがtagの場合はタグ、fieldの場合は項目の値）。左の列から順に並べる
+    columns: string[];
 }
 
 export type LanguageType = 'en' | 'ja';
@@ -61,8 +121,36 @@ export type AnimationEngine = 'css' | 'web-animations' | 'custom';
 export type StorageAdapter = 'obsidian-vault' | 'memory' | 'custom';
 export type SyncStrategy = 'real-time' | 'manual' | 'periodic';
 export type ConflictResolution = 'auto-merge' | 'user-choice' | 'last-write-wins';
+// folder: ゴミ箱フォルダに移動（復元可能）、vault: Vaultのゴミ箱に移動、permanent: 完全に削除
+export type TrashMode = 'folder' | 'vault' | 'permanent';
 export type NamingStrategyType = 'timestamp' | 'custom';
-export type DisplayFilterType = 'incomplete' | 'complete' | 'all';
+export type DisplayFilterType = 'incomplete' | 'complete' | 'all' | 'due-soon';
+// 付箋の表示方法（canvas: 自由に配置、kanban: 列に分けて積み重ねる）
+export type LayoutMode = 'canvas' | 'kanban';
+// カンバン表示の列を決める値
+export type KanbanColumnSource = 'completion' | 'tag' | 'field';
+// 付箋を整列する時の並び順
+export type NoteSortOrder = 'priority' | 'due' | 'created' | 'title';
+// 付箋の優先度（Tasksプラグインの優先度に、指定なしの normal を加えたもの）
+export type PriorityLevel = 'highest' | 'high' | 'normal' | 'low';
+// 日付の範囲で絞り込む時の対象の日付
+export type FilterDateField = 'due' | 'scheduled' | 'start' | 'created' | 'modified' | 'completed';
+
+/**
+ * 組み合わせ可能な表示フィルターの条件
+ * 日付の範囲はYYYY-MM-DD、today、今日からの相対指定（+7d、-2w など）で指定し、両端を含む
+ */
+export type FilterCondition =
+    | { type: 'completion'; status: DisplayFilterType }
+    | { type: 'tag'; tag: string }
+    | { type: 'color'; colors: NoteColorType[] }
+    | { type: 'size'; sizes: NoteSizeType[] }
+    | { type: 'text'; query: string }
+    | { type: 'date'; field: FilterDateField; from?: string; to?: string }
+    | { type: 'priority'; min: PriorityLevel }
+    | { type: 'has-links'; value: boolean }
+    | { type: 'not'; condition: FilterCondition }
+    | { type: 'and' | 'or'; conditions: FilterCondition[] };
 export type NoteColorType = 'yellow' | 'pink' | 'blue' | 'green' | 'orange' | 'purple';
 export type NoteSizeType = 'small' | 'medium' | 'large';
 
@@ -85,6 +173,7 @@ export const DEFAULT_SETTINGS: PostodoSettings = {
     namingStrategy: 'timestamp',
     customNamingFormat: 'Sticky-{YYYY}{MM}{DD}-{HH}{mm}{ss}',
     defaultDisplayFilter: 'incomplete',
+    savedViews: [],
     language: 'ja',
     core: {
         maxNotes: 1000,
@@ -101,6 +190,7 @@ export const DEFAULT_SETTINGS: PostodoSettings = {
     storage: {
         adapter: 'obsidian-vault',
         syncStrategy: 'real-time',
+        syncInterval: 60,
         conflictResolution: 'auto-merge'
     },
     input: {
@@ -112,8 +202,30 @@ export const DEFAULT_SETTINGS: PostodoSettings = {
     ui: {
         theme: 'default',
         layout: 'canvas',
+        kanban: {
+            source: 'completion',
+            field: 'status',
+            columns: ['todo', 'doing', 'done']
+        },
         showGrid: true,
-        snapToGrid: false
+        snapToGrid: false,
+        gridSize: 20,
+        dueSoonDays: 3
+    },
+    trash: {
+        mode: 'folder',
+        folder: '.trash',
+        autoPurgeDays: 30
+    },
+    archive: {
+        autoArchive: false,
+        afterDays: 30,
+        folder: 'Archive'
+    },
+    reminders: {
+        enabled: true,
+        defaultTime: '09:00',
+        snoozeMinutes: 10
     },
     extensions: {
         enabled: [],
@@ -20,6 +20,19 @@ export interface StickyNote {
     appearance: Appearance;
     metadata: NoteMetadata;
     completed: boolean;
+    // 完了にした日時（ISO 8601）。未完了の場合はなし
+    completedAt?: string;
+    // 完了状態の変更履歴（古い順）
+    completionHistory?: CompletionRecord[];
+    // 繰り返しタスクの完了で作成した次の付箋のID（完了し直した時に次の付箋を重ねて作成しないため）
+    recurrenceNextId?: string;
+}
+
+// 完了状態の変更の記録
+export interface CompletionRecord {
+    completed: boolean;
+    // 変更日時（ISO 8601）
+    at: string;
 }
 
 export interface Appearance {
@@ -30,7 +43,11 @@ export interface Appearance {
 
 export interface TaskInfo {
     dueDate?: string;
+    // 期日の時刻（HH:mm）
+    dueTime?: string;
     scheduledDate?: string;
+    // 予定日の時刻（HH:mm）
+    scheduledTime?: string;
     startDate?: string;
     recurrence?: string;
     priority?: 'highest' | 'high' | 'low';
@@ -44,8 +61,12 @@ export interface NoteMetadata {
     links: string[];
     attachments: string[];
     taskInfo?: TaskInfo;
+    // Postodo以外のフロントマターの項目（文字列・数値・真偽値のものだけを保持する）
+    properties?: Record<string, NotePropertyValue>;
 }
 
+export type NotePropertyValue = string | number | boolean;
+
 export type NoteColor = 'yellow' | 'pink' | 'blue' | 'green' | 'orange' | 'purple';
 export type NoteSize = 'small' | 'medium' | 'large';
 
@@ -65,6 +86,77 @@ export interface UpdateNoteOptions {
     dimensions?: Dimensions;
     appearance?: Partial<Appearance>;
     completed?: boolean;
+    // 完了日時と履歴を指定した値に戻す（元に戻す操作で使用する。通常は完了状態の変更時に自動で記録される）
+    completedAt?: string;
+    completionHistory?: CompletionRecord[];
+    // 繰り返しタスクの次の付箋のID（繰り返しタスクサービスが記録する）
+    recurrenceNextId?: string;
+    // フロントマターのタグ（postodoタグを含む全てのタグを指定する）
+    tags?: string[];
+    // フロントマターの項目（指定した項目だけを変更し、nullの項目は削除する）
+    properties?: Record<string, NotePropertyValue | null>;
+}
+
+// 複数の付箋をまとめて更新する際の1件分
+export interface NoteUpdate {
+    id: string;
+    options: UpdateNoteOptions;
+}
+
+// 付箋のファイルを復元するための記録（ファイルの内容をそのまま保持する）
+export interface NoteFileSnapshot {
+    note: StickyNote;
+    content: string;
+}
+
+// 付箋を検索する際のオプション
+export interface FindNotesOptions {
+    // アーカイブ済みの付箋も含める
+    includeArchived?: boolean;
+}
+
+// ゴミ箱に移動した付箋の記録
+export interface TrashEntry {
+    id: string;
+    title: string;
+    // 削除前のファイルパス
+    originalPath: string;
+    // ゴミ箱内のファイルパス
+    trashPath: string;
+    // 削除日時（ISO 8601）
+    deletedAt: string;
+}
+
+// リマインダーの通知状態（キーはリマインダーごと）
+export interface ReminderState {
+    // 通知した日時（ISO 8601）
+    firedAt?: string;
+    // スヌーズで次に通知する日時（ISO 8601）
+    snoozedUntil?: string;
+}
+
+/**
+ * 名前を付けたボード
+ * 付箋の一部を、ファイルに保存した位置とは別のボードごとの位置で並べる
+ */
+export interface Board {
+    id: string;
+    name: string;
+    // ボードに含まれる付箋の位置（付箋のIDごと）
+    positions: Record<string, Position>;
+}
+
+/**
+ * ボード上でまとめて移動する付箋のグループ
+ */
+export interface NoteGroup {
+    id: string;
+    // グループを置いたボードのID（既定のボードは'default'）
+    boardId: string;
+    // グループに含まれる付箋のID
+    noteIds: string[];
+    // 付箋を囲む枠の範囲（ボード上の座標）
+    bounds: { x: number; y: number; width: number; height: number };
 }
 
 // イベント型
@@ -72,7 +164,8 @@ export interface PostodoEvents {
     'note-created': { note: StickyNote };
     'note-updated': { note: StickyNote; changes: UpdateNoteOptions };
     'note-deleted': { id: string };
-    'canvas-zoom-changed': { zoom: number };
+    'note-completed': { note: StickyNote; completedAt: string };
+    'canvas-zoom-changed': { zoom: number; x: number; y: number };
     'theme-changed': { themeId: string };
 }
 
@@ -96,11 +189,16 @@ export const SERVICE_TOKENS = {
     // Data Services
     DATA_MANAGER: 'DataManager',
     NOTE_REPOSITORY: 'NoteRepository',
+    HISTORY_MANAGER: 'HistoryManager',
+    TRASH_MANAGER: 'TrashManager',
+    BOARD_MANAGER: 'BoardManager',
     
     // UI Services
     THEME_PROVIDER: 'ThemeProvider',
     LAYOUT_MANAGER: 'LayoutManager',
-    DISPLAY_FILTER: 'DisplayFilter'
+    DISPLAY_FILTER: 'DisplayFilter',
+    VIEWPORT_STORE: 'ViewportStore',
+    CANVAS_LAYOUT: 'CanvasLayout'
 } as const;
 
 export type ServiceToken = typeof SERVICE_TOKENS[keyof typeof SERVICE_TOKENS];
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { Board } from '../types/core-types';
+import { Translations } from '../i18n/translations';
+
+/**
+ * ボードを名前で検索して選択するモーダル
+ */
+export class BoardSuggestModal extends FuzzySuggestModal<Board> {
+    constructor(
+        app: App,
+        private boards: Board[],
+        t: Translations,
+        private onChoose: (board: Board) => void
+    ) {
+        super(app);
+        this.setPlaceholder(t.boards.switchPlaceholder);
+    }
+
+    getItems(): Board[] {
+        return this.boards;
+    }
+
+    getItemText(board: Board): string {
+        return board.name;
+    }
+
+    onChooseItem(board: Board): void {
+        this.onChoose(board);
+    }
+}
@@ -0,0 +1,29 @@
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+import { Translations } from '../i18n/translations';
+
+/**
+ * Vault内の.canvasファイルを名前で検索して選択するモーダル
+ */
+export class CanvasFileSuggestModal extends FuzzySuggestModal<TFile> {
+    constructor(
+        app: App,
+        t: Translations,
+        private onChoose: (file: TFile) => void
+    ) {
+        super(app);
+        this.setPlaceholder(t.jsonCanvas.importPlaceholder);
+        this.emptyStateText = t.jsonCanvas.noCanvasFiles;
+    }
+
+    getItems(): TFile[] {
+        return this.app.vault.getFiles().filter(file => file.extension === 'canvas');
+    }
+
+    getItemText(file: TFile): string {
+        return file.path;
+    }
+
+    onChooseItem(file: TFile): void {
+        this.onChoose(file);
+    }
+}
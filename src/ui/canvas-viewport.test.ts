@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { CanvasViewport, clampZoom, zoomAtPoint, fitToRect, centerOnRect, boundingRect, isEditableTarget, MIN_ZOOM, MAX_ZOOM, CanvasRect } from './canvas-viewport';
+
+const stateArb = fc.record({
+    x: fc.double({ min: -5000, max: 5000, noNaN: true }),
+    y: fc.double({ min: -5000, max: 5000, noNaN: true }),
+    zoom: fc.double({ min: MIN_ZOOM, max: MAX_ZOOM, noNaN: true })
+});
+
+const rectArb: fc.Arbitrary<CanvasRect> = fc.record({
+    x: fc.integer({ min: 0, max: 5000 }),
+    y: fc.integer({ min: 0, max: 5000 }),
+    width: fc.integer({ min: 1, max: 3000 }),
+    height: fc.integer({ min: 1, max: 3000 })
+});
+
+/**
+ * キャンバスのビューポート計算のテスト
+ */
+describe('Canvas viewport', () => {
+    /**
+     * 倍率は常に許容範囲に収まる
+     */
+    it('should clamp zoom into the allowed range', () => {
+        fc.assert(
+            fc.property(fc.double({ noNaN: true }), (zoom) => {
+                const result = clampZoom(zoom);
+                expect(result).toBeGreaterThanOrEqual(MIN_ZOOM);
+                expect(result).toBeLessThanOrEqual(MAX_ZOOM);
+            }),
+            { numRuns: 100 }
+        );
+        expect(clampZoom(NaN)).toBe(1);
+    });
+
+    /**
+     * ズームの基準点は画面上で動かない
+     */
+    it('should keep the zoom point fixed on screen', () => {
+        fc.assert(
+            fc.property(
+                stateArb,
+                fc.double({ min: MIN_ZOOM, max: MAX_ZOOM, noNaN: true }),
+                fc.double({ min: 0, max: 2000, noNaN: true }),
+                fc.double({ min: 0, max: 2000, noNaN: true }),
+                (state, zoom, px, py) => {
+                    const next = zoomAtPoint(state, zoom, px, py);
+
+                    // 基準点の下にあったキャンバス座標
+                    const canvasX = (px - state.x) / state.zoom;
+                    const canvasY = (py - state.y) / state.zoom;
+
+                    expect(canvasX * next.zoom + next.x).toBeCloseTo(px, 6);
+                    expect(canvasY * next.zoom + next.y).toBeCloseTo(py, 6);
+                }
+            ),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 全体表示では矩形がビューポート内に収まり、等倍より拡大しない
+     */
+    it('should fit the rect inside the viewport without zooming past 100%', () => {
+        fc.assert(
+            fc.property(
+                rectArb,
+                fc.integer({ min: 200, max: 3000 }),
+                fc.integer({ min: 200, max: 3000 }),
+                (rect, viewWidth, viewHeight) => {
+                    const state = fitToRect(rect, viewWidth, viewHeight);
+
+                    expect(state.zoom).toBeLessThanOrEqual(1);
+
+                    // 最小倍率で制限されない場合は全体が表示される
+                    if (state.zoom > MIN_ZOOM) {
+                        const left = rect.x * state.zoom + state.x;
+                        const top = rect.y * state.zoom + state.y;
+                        expect(left).toBeGreaterThanOrEqual(-1e-6);
+                        expect(top).toBeGreaterThanOrEqual(-1e-6);
+                        expect(left + rect.width * state.zoom).toBeLessThanOrEqual(viewWidth + 1e-6);
+                        expect(top + rect.height * state.zoom).toBeLessThanOrEqual(viewHeight + 1e-6);
+                    }
+                }
+            ),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 中央に表示すると矩形の中心が画面の中央に来て、倍率は変わらない
+     */
+    it('should center the rect without changing the zoom', () => {
+        fc.assert(
+            fc.property(
+                stateArb,
+                rectArb,
+                fc.integer({ min: 200, max: 3000 }),
+                fc.integer({ min: 200, max: 3000 }),
+                (state, rect, viewWidth, viewHeight) => {
+                    const centered = centerOnRect(state, rect, viewWidth, viewHeight);
+
+                    expect(centered.zoom).toBe(state.zoom);
+                    expect((rect.x + rect.width / 2) * centered.zoom + centered.x).toBeCloseTo(viewWidth / 2, 6);
+                    expect((rect.y + rect.height / 2) * centered.zoom + centered.y).toBeCloseTo(viewHeight / 2, 6);
+                }
+            ),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 外接矩形は全ての矩形を含む
+     */
+    it('should compute a bounding rect containing all rects', () => {
+        fc.assert(
+            fc.property(fc.array(rectArb, { minLength: 1, maxLength: 20 }), (rects) => {
+                const bounds = boundingRect(rects)!;
+
+                rects.forEach(rect => {
+                    expect(rect.x).toBeGreaterThanOrEqual(bounds.x);
+                    expect(rect.y).toBeGreaterThanOrEqual(bounds.y);
+                    expect(rect.x + rect.width).toBeLessThanOrEqual(bounds.x + bounds.width);
+                    expect(rect.y + rect.height).toBeLessThanOrEqual(bounds.y + bounds.height);
+                });
+            }),
+            { numRuns: 100 }
+        );
+        expect(boundingRect([])).toBeNull();
+    });
+
+    /**
+     * 入力欄と編集可能な要素（その内側の要素を含む）はキャンバスのキー操作の対象にしない
+     */
+    it('should treat inputs and editable content as editable targets', () => {
+        const element = (tagName: string, options: { isContentEditable?: boolean; insideEditable?: boolean } = {}) => ({
+            tagName,
+            isContentEditable: options.isContentEditable ?? false,
+            closest: () => options.insideEditable ? {} : null
+        }) as unknown as EventTarget;
+
+        expect(isEditableTarget(element('INPUT'))).toBe(true);
+        expect(isEditableTarget(element('TEXTAREA'))).toBe(true);
+        expect(isEditableTarget(element('SELECT'))).toBe(true);
+        expect(isEditableTarget(element('DIV', { isContentEditable: true }))).toBe(true);
+        expect(isEditableTarget(element('SPAN', { insideEditable: true }))).toBe(true);
+        expect(isEditableTarget(element('DIV'))).toBe(false);
+        expect(isEditableTarget({} as EventTarget)).toBe(false);
+        expect(isEditableTarget(null)).toBe(false);
+    });
+
+    describe('Space key', () => {
+        const element = (tagName: string) => ({
+            tagName,
+            isContentEditable: false,
+            closest: () => null
+        }) as unknown as HTMLElement;
+
+        /**
+         * documentとビューポートの要素を、イベントの登録だけを記録する代わりの要素にする
+         */
+        const setup = () => {
+            const documentListeners: Record<string, (e: unknown) => void> = {};
+            const viewportListeners: Record<string, (e: unknown) => void> = {};
+            const inside = element('BUTTON');
+            const outside = element('BUTTON');
+            const fakeDocument = {
+                activeElement: outside as HTMLElement,
+                addEventListener: (type: string, listener: (e: unknown) => void) => { documentListeners[type] = listener; },
+                removeEventListener: () => {}
+            };
+            vi.stubGlobal('document', fakeDocument);
+
+            const leaf = { contains: (el: unknown) => el === inside };
+            const viewportEl = {
+                isConnected: true,
+                offsetParent: {},
+                style: { setProperty: () => {} },
+                closest: () => leaf,
+                addEventListener: (type: string, listener: (e: unknown) => void) => { viewportListeners[type] = listener; },
+                removeEventListener: () => {},
+                addClass: vi.fn(),
+                removeClass: vi.fn()
+            } as unknown as HTMLElement;
+            new CanvasViewport(viewportEl, { style: {} } as unknown as HTMLElement);
+
+            const pressSpace = (target: HTMLElement) => {
+                const event = { code: 'Space', target, preventDefault: vi.fn() };
+                documentListeners['keydown'](event);
+                documentListeners['keyup'](event);
+                return event.preventDefault;
+            };
+            return { fakeDocument, viewportListeners, inside, outside, pressSpace };
+        };
+
+        afterEach(() => {
+            vi.unstubAllGlobals();
+        });
+
+        /**
+         * ビューの外のボタンでのスペースは妨げず、ビューの操作中（ポインターが上にあるかフォーカスがある）だけパンに使う
+         */
+        it('should only take Space when the pointer or focus is inside the view', () => {
+            const { fakeDocument, viewportListeners, inside, outside, pressSpace } = setup();
+
+            expect(pressSpace(outside)).not.toHaveBeenCalled();
+
+            viewportListeners['mouseenter']({});
+            expect(pressSpace(outside)).toHaveBeenCalled();
+            viewportListeners['mouseleave']({});
+            expect(pressSpace(outside)).not.toHaveBeenCalled();
+
+            fakeDocument.activeElement = inside;
+            expect(pressSpace(inside)).toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,387 @@
+/**
+ * キャンバスの表示位置と倍率
+ * x, y はキャンバス原点の画面上の位置（ビューポート左上基準）
+ */
+export interface ViewportState {
+    x: number;
+    y: number;
+    zoom: number;
+}
+
+/**
+ * キャンバス座標系の矩形
+ */
+export interface CanvasRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export const MIN_ZOOM = 0.2;
+export const MAX_ZOOM = 3;
+export const DEFAULT_VIEWPORT: ViewportState = { x: 0, y: 0, zoom: 1 };
+
+/**
+ * 倍率を許容範囲に収める
+ */
+export function clampZoom(zoom: number): number {
+    if (!Number.isFinite(zoom)) return 1;
+    return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+/**
+ * 画面上の点を固定したまま倍率を変更した状態を返す
+ * @param pointX ビューポート左上基準のX座標
+ * @param pointY ビューポート左上基準のY座標
+ */
+export function zoomAtPoint(state: ViewportState, zoom: number, pointX: number, pointY: number): ViewportState {
+    const nextZoom = clampZoom(zoom);
+    const ratio = nextZoom / state.zoom;
+    return {
+        x: pointX - (pointX - state.x) * ratio,
+        y: pointY - (pointY - state.y) * ratio,
+        zoom: nextZoom
+    };
+}
+
+/**
+ * 矩形全体がビューポートに収まる状態を返す
+ * 等倍より大きくは拡大しない
+ */
+export function fitToRect(rect: CanvasRect, viewWidth: number, viewHeight: number, padding = 40): ViewportState {
+    if (rect.width <= 0 || rect.height <= 0 || viewWidth <= 0 || viewHeight <= 0) {
+        return { ...DEFAULT_VIEWPORT };
+    }
+
+    const availableWidth = Math.max(1, viewWidth - padding * 2);
+    const availableHeight = Math.max(1, viewHeight - padding * 2);
+    const zoom = clampZoom(Math.min(1, availableWidth / rect.width, availableHeight / rect.height));
+
+    return {
+        x: (viewWidth - rect.width * zoom) / 2 - rect.x * zoom,
+        y: (viewHeight - rect.height * zoom) / 2 - rect.y * zoom,
+        zoom
+    };
+}
+
+/**
+ * 倍率を変えずに矩形の中心がビューポートの中央に来る状態を返す
+ */
+export function centerOnRect(state: ViewportState, rect: CanvasRect, viewWidth: number, viewHeight: number): ViewportState {
+    return {
+        x: viewWidth / 2 - (rect.x + rect.width / 2) * state.zoom,
+        y: viewHeight / 2 - (rect.y + rect.height / 2) * state.zoom,
+        zoom: state.zoom
+    };
+}
+
+/**
+ * 複数の矩形を囲む矩形を返す
+ */
+export function boundingRect(rects: CanvasRect[]): CanvasRect | null {
+    if (rects.length === 0) return null;
+
+    const minX = Math.min(...rects.map(r => r.x));
+    const minY = Math.min(...rects.map(r => r.y));
+    const maxX = Math.max(...rects.map(r => r.x + r.width));
+    const maxY = Math.max(...rects.map(r => r.y + r.height));
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * キー入力の対象がテキスト入力欄かどうか（入力中はキャンバスのショートカットを無効にする）
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+    const el = target as HTMLElement | null;
+    if (!el || typeof el.tagName !== 'string') return false;
+    if (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' || el.isContentEditable) return true;
+    // 編集可能な要素の内側の要素（isContentEditableが反映される前の要素も含む）
+    return typeof el.closest === 'function' && el.closest('[contenteditable]:not([contenteditable="false"])') !== null;
+}
+
+/**
+ * キャンバスのパンとズームを管理する
+ *
+ * - ホイール: パン（Ctrl/Cmd+ホイール、トラックパッドのピンチはズーム）
+ * - スペース+ドラッグ、中ボタンドラッグ: パン
+ * - 2本指タッチ: ピンチズームとパン
+ */
+export class CanvasViewport {
+    private state: ViewportState;
+    private changeListeners: ((state: ViewportState) => void)[] = [];
+    private spacePressed = false;
+    // ポインターがビューポート上にあるか（スペースでのパンはビューの操作中だけ有効にする）
+    private pointerInside = false;
+    private panStart?: { clientX: number; clientY: number; x: number; y: number };
+    private pinchStart?: { distance: number; centerX: number; centerY: number; state: ViewportState };
+    private lastPanEndTime = 0;
+
+    constructor(
+        private viewportEl: HTMLElement,
+        private canvasEl: HTMLElement,
+        initialState?: ViewportState
+    ) {
+        this.state = initialState
+            ? { x: initialState.x || 0, y: initialState.y || 0, zoom: clampZoom(initialState.zoom) }
+            : { ...DEFAULT_VIEWPORT };
+
+        this.viewportEl.addEventListener('wheel', this.handleWheel, { passive: false });
+        this.viewportEl.addEventListener('mousedown', this.handleMouseDown);
+        this.viewportEl.addEventListener('touchstart', this.handleTouchStart, { passive: false });
+        this.viewportEl.addEventListener('touchmove', this.handleTouchMove, { passive: false });
+        this.viewportEl.addEventListener('touchend', this.handleTouchEnd);
+        this.viewportEl.addEventListener('mouseenter', this.handleMouseEnter);
+        this.viewportEl.addEventListener('mouseleave', this.handleMouseLeave);
+        document.addEventListener('keydown', this.handleKeyDown);
+        document.addEventListener('keyup', this.handleKeyUp);
+
+        this.applyTransform();
+    }
+
+    getState(): ViewportState {
+        return { ...this.state };
+    }
+
+    getZoom(): number {
+        return this.state.zoom;
+    }
+
+    setState(state: ViewportState): void {
+        this.state = { x: state.x, y: state.y, zoom: clampZoom(state.zoom) };
+        this.applyTransform();
+        this.notifyChange();
+    }
+
+    /**
+     * ビューポート中央を基準に倍率を変更する
+     */
+    zoomBy(factor: number): void {
+        const rect = this.viewportEl.getBoundingClientRect();
+        this.setState(zoomAtPoint(this.state, this.state.zoom * factor, rect.width / 2, rect.height / 2));
+    }
+
+    /**
+     * 指定した矩形が収まるように表示する
+     */
+    zoomToFit(rects: CanvasRect[]): void {
+        const bounds = boundingRect(rects);
+        if (!bounds) {
+            this.setState({ ...DEFAULT_VIEWPORT });
+            return;
+        }
+        const rect = this.viewportEl.getBoundingClientRect();
+        this.setState(fitToRect(bounds, rect.width, rect.height));
+    }
+
+    /**
+     * 倍率を変えずに指定した矩形が中央に来るように表示する
+     */
+    centerOn(rect: CanvasRect): void {
+        const viewRect = this.viewportEl.getBoundingClientRect();
+        this.setState(centerOnRect(this.state, rect, viewRect.width, viewRect.height));
+    }
+
+    /**
+     * 画面座標をキャンバス座標に変換する
+     */
+    screenToCanvas(clientX: number, clientY: number): { x: number; y: number } {
+        const rect = this.viewportEl.getBoundingClientRect();
+        return {
+            x: (clientX - rect.left - this.state.x) / this.state.zoom,
+            y: (clientY - rect.top - this.state.y) / this.state.zoom
+        };
+    }
+
+    /**
+     * 現在表示されているキャンバス座標系の範囲
+     */
+    getVisibleRect(): CanvasRect {
+        const rect = this.viewportEl.getBoundingClientRect();
+        return {
+            x: -this.state.x / this.state.zoom,
+            y: -this.state.y / this.state.zoom,
+            width: rect.width / this.state.zoom,
+            height: rect.height / this.state.zoom
+        };
+    }
+
+    /**
+     * パン操作の直後かどうか（パン終了時のクリックを無視するため）
+     */
+    isPanningRecently(): boolean {
+        return this.panStart !== undefined || Date.now() - this.lastPanEndTime < 100;
+    }
+
+    onChange(listener: (state: ViewportState) => void): () => void {
+        this.changeListeners.push(listener);
+        return () => {
+            const index = this.changeListeners.indexOf(listener);
+            if (index > -1) {
+                this.changeListeners.splice(index, 1);
+            }
+        };
+    }
+
+    destroy(): void {
+        this.viewportEl.removeEventListener('wheel', this.handleWheel);
+        this.viewportEl.removeEventListener('mousedown', this.handleMouseDown);
+        this.viewportEl.removeEventListener('touchstart', this.handleTouchStart);
+        this.viewportEl.removeEventListener('touchmove', this.handleTouchMove);
+        this.viewportEl.removeEventListener('touchend', this.handleTouchEnd);
+        this.viewportEl.removeEventListener('mouseenter', this.handleMouseEnter);
+        this.viewportEl.removeEventListener('mouseleave', this.handleMouseLeave);
+        document.removeEventListener('keydown', this.handleKeyDown);
+        document.removeEventListener('keyup', this.handleKeyUp);
+        document.removeEventListener('mousemove', this.handleMouseMove);
+        document.removeEventListener('mouseup', this.handleMouseUp);
+        this.changeListeners = [];
+    }
+
+    private handleWheel = (e: WheelEvent): void => {
+        e.preventDefault();
+        const rect = this.viewportEl.getBoundingClientRect();
+
+        // Ctrl/Cmd+ホイール（トラックパッドのピンチもctrlKey付きで届く）はズーム
+        if (e.ctrlKey || e.metaKey) {
+            const factor = Math.exp(-e.deltaY * 0.01);
+            this.setState(zoomAtPoint(this.state, this.state.zoom * factor, e.clientX - rect.left, e.clientY - rect.top));
+            return;
+        }
+
+        this.setState({
+            ...this.state,
+            x: this.state.x - (e.shiftKey ? e.deltaY : e.deltaX),
+            y: this.state.y - (e.shiftKey ? 0 : e.deltaY)
+        });
+    };
+
+    private handleMouseDown = (e: MouseEvent): void => {
+        const isMiddleButton = e.button === 1;
+        const isSpaceDrag = e.button === 0 && this.spacePressed;
+        if (!isMiddleButton && !isSpaceDrag) return;
+
+        // 付箋のドラッグより優先してパンする
+        e.preventDefault();
+        e.stopPropagation();
+        this.panStart = { clientX: e.clientX, clientY: e.clientY, x: this.state.x, y: this.state.y };
+        this.viewportEl.addClass('is-panning');
+        document.addEventListener('mousemove', this.handleMouseMove);
+        document.addEventListener('mouseup', this.handleMouseUp);
+    };
+
+    private handleMouseMove = (e: MouseEvent): void => {
+        if (!this.panStart) return;
+        this.setState({
+            ...this.state,
+            x: this.panStart.x + e.clientX - this.panStart.clientX,
+            y: this.panStart.y + e.clientY - this.panStart.clientY
+        });
+    };
+
+    private handleMouseUp = (): void => {
+        this.panStart = undefined;
+        this.lastPanEndTime = Date.now();
+        this.viewportEl.removeClass('is-panning');
+        document.removeEventListener('mousemove', this.handleMouseMove);
+        document.removeEventListener('mouseup', this.handleMouseUp);
+    };
+
+    private handleTouchStart = (e: TouchEvent): void => {
+        if (e.touches.length !== 2) return;
+        e.preventDefault();
+        this.pinchStart = { ...this.measurePinch(e), state: this.getState() };
+    };
+
+    private handleTouchMove = (e: TouchEvent): void => {
+        if (!this.pinchStart || e.touches.length !== 2) return;
+        e.preventDefault();
+
+        const pinch = this.measurePinch(e);
+        const start = this.pinchStart;
+        const zoomed = zoomAtPoint(
+            start.state,
+            start.state.zoom * (pinch.distance / start.distance),
+            start.centerX,
+            start.centerY
+        );
+
+        // 2本指の中心の移動に合わせてパンする
+        this.setState({
+            ...zoomed,
+            x: zoomed.x + pinch.centerX - start.centerX,
+            y: zoomed.y + pinch.centerY - start.centerY
+        });
+    };
+
+    private handleTouchEnd = (e: TouchEvent): void => {
+        if (this.pinchStart && e.touches.length < 2) {
+            this.pinchStart = undefined;
+            this.lastPanEndTime = Date.now();
+        }
+    };
+
+    private handleKeyDown = (e: KeyboardEvent): void => {
+        // 入力欄での入力中はスペースを入力に使う（イベントの対象がフォーカスのある要素と異なる場合も含む）
+        if (e.code !== 'Space' || isEditableTarget(e.target) || isEditableTarget(document.activeElement)) return;
+        // ビューが表示されていない場合は他の操作を妨げない
+        if (!this.viewportEl.isConnected || this.viewportEl.offsetParent === null) return;
+        // ビューの外のボタンの操作やスクロールにはスペースを使う
+        if (!this.pointerInside && !this.hasFocusWithin()) return;
+
+        e.preventDefault();
+        this.spacePressed = true;
+        this.viewportEl.addClass('is-pan-ready');
+    };
+
+    private handleKeyUp = (e: KeyboardEvent): void => {
+        if (e.code !== 'Space') return;
+        this.spacePressed = false;
+        this.viewportEl.removeClass('is-pan-ready');
+    };
+
+    private handleMouseEnter = (): void => {
+        this.pointerInside = true;
+    };
+
+    private handleMouseLeave = (): void => {
+        this.pointerInside = false;
+    };
+
+    /**
+     * フォーカスのある要素がこのビューの中にあるか
+     */
+    private hasFocusWithin(): boolean {
+        const leaf = this.viewportEl.closest('.workspace-leaf') ?? this.viewportEl;
+        return leaf.contains(document.activeElement);
+    }
+
+    private measurePinch(e: TouchEvent): { distance: number; centerX: number; centerY: number } {
+        const rect = this.viewportEl.getBoundingClientRect();
+        const [a, b] = [e.touches[0], e.touches[1]];
+        return {
+            distance: Math.max(1, Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY)),
+            centerX: (a.clientX + b.clientX) / 2 - rect.left,
+            centerY: (a.clientY + b.clientY) / 2 - rect.top
+        };
+    }
+
+    private applyTransform(): void {
+        this.canvasEl.style.transform = `translate(${this.state.x}px, ${this.state.y}px) scale(${this.state.zoom})`;
+        // グリッド等の背景をパンとズームに追従させる
+        this.viewportEl.style.setProperty('--postodo-zoom', String(this.state.zoom));
+        this.viewportEl.style.setProperty('--postodo-pan-x', `${this.state.x}px`);
+        this.viewportEl.style.setProperty('--postodo-pan-y', `${this.state.y}px`);
+    }
+
+    private notifyChange(): void {
+        const state = this.getState();
+        this.changeListeners.forEach(listener => {
+            try {
+                listener(state);
+            } catch (error) {
+                console.error('Error in viewport change listener:', error);
+            }
+        });
+    }
+}
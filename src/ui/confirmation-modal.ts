@@ -0,0 +1,55 @@
+import { App, Modal } from 'obsidian';
+
+/**
+ * 確認ダイアログ
+ */
+export class ConfirmationModal extends Modal {
+    private confirmed = false;
+
+    constructor(
+        app: App,
+        private title: string,
+        private message: string,
+        private cancelText: string,
+        private confirmText: string,
+        private callback: (confirmed: boolean) => void
+    ) {
+        super(app);
+    }
+
+    /**
+     * ダイアログを開き、ユーザーの選択を待つ
+     * @returns 確認された場合はtrue（キャンセルまたは閉じた場合はfalse）
+     */
+    static prompt(app: App, title: string, message: string, cancelText: string, confirmText: string): Promise<boolean> {
+        return new Promise(resolve => {
+            new ConfirmationModal(app, title, message, cancelText, confirmText, resolve).open();
+        });
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: this.title });
+        contentEl.createEl('p', { text: this.message });
+
+        const buttonContainer = contentEl.createDiv('modal-button-container');
+        
+        const cancelBtn = buttonContainer.createEl('button', { text: this.cancelText });
+        cancelBtn.onclick = () => this.close();
+
+        const confirmBtn = buttonContainer.createEl('button', { 
+            text: this.confirmText,
+            cls: 'mod-warning'
+        });
+        confirmBtn.onclick = () => {
+            this.confirmed = true;
+            this.close();
+        };
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        // 選択せずに閉じた場合はキャンセルとして扱う
+        this.callback(this.confirmed);
+    }
+}
@@ -0,0 +1,112 @@
+import { App, Modal } from 'obsidian';
+import { StickyNote } from '../types/core-types';
+import { ContentConflictChoice } from '../interfaces/sync/i-conflict-resolver';
+import { Translations } from '../i18n/translations';
+import { TextMerger } from '../utils/text-merge';
+
+/**
+ * コンテンツ競合の解決モーダル
+ * ファイルとキャンバスの内容を並べて表示し、どちらを残すか、または編集したマージ結果を選択させる
+ */
+export class ConflictResolutionModal extends Modal {
+    private choice: ContentConflictChoice | null = null;
+
+    constructor(
+        app: App,
+        private fileNote: StickyNote,
+        private uiNote: StickyNote,
+        private t: Translations,
+        private callback: (choice: ContentConflictChoice | null) => void,
+        private baseNote?: StickyNote
+    ) {
+        super(app);
+    }
+
+    /**
+     * モーダルを開き、ユーザーの選択を待つ
+     * @param baseNote 最後に同期した付箋（指定時はマージ結果の初期値に三方向マージを使用）
+     * @returns 選択結果（選択せずに閉じた場合はnull）
+     */
+    static prompt(
+        app: App,
+        fileNote: StickyNote,
+        uiNote: StickyNote,
+        t: Translations,
+        baseNote?: StickyNote
+    ): Promise<ContentConflictChoice | null> {
+        return new Promise(resolve => {
+            new ConflictResolutionModal(app, fileNote, uiNote, t, resolve, baseNote).open();
+        });
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        const t = this.t.conflictModal;
+
+        this.modalEl.addClass('postodo-conflict-modal');
+        contentEl.createEl('h2', { text: t.title });
+        contentEl.createEl('p', {
+            text: t.description.replace('{title}', this.uiNote.title || this.fileNote.title)
+        });
+
+        // 両方の内容を並べて表示
+        const columnsEl = contentEl.createDiv('postodo-conflict-columns');
+        this.renderVersion(columnsEl, t.fileVersion, this.fileNote);
+        this.renderVersion(columnsEl, t.canvasVersion, this.uiNote);
+
+        // 編集可能なマージ結果（三方向マージの結果、基準がなければキャンバスの内容を初期値とする）
+        const mergedEl = contentEl.createDiv('postodo-conflict-merged');
+        mergedEl.createEl('h4', { text: t.mergedVersion });
+        const titleInput = mergedEl.createEl('input', {
+            type: 'text',
+            cls: 'postodo-conflict-title-input',
+            attr: { placeholder: t.titleLabel }
+        });
+        titleInput.value = this.uiNote.title;
+        const contentInput = mergedEl.createEl('textarea', { cls: 'postodo-conflict-textarea' });
+        contentInput.value = this.baseNote
+            ? TextMerger.threeWayMerge(this.baseNote.content, this.uiNote.content, this.fileNote.content).merged
+            : this.uiNote.content;
+
+        const buttonContainer = contentEl.createDiv('modal-button-container');
+
+        const keepFileBtn = buttonContainer.createEl('button', { text: t.keepFile });
+        keepFileBtn.onclick = () => this.choose({ choice: 'file' });
+
+        const keepCanvasBtn = buttonContainer.createEl('button', { text: t.keepCanvas });
+        keepCanvasBtn.onclick = () => this.choose({ choice: 'ui' });
+
+        const useMergedBtn = buttonContainer.createEl('button', {
+            text: t.useMerged,
+            cls: 'mod-cta'
+        });
+        useMergedBtn.onclick = () => this.choose({
+            choice: 'merged',
+            title: titleInput.value.trim(),
+            content: contentInput.value
+        });
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        // 選択せずに閉じた場合はnullを返す
+        this.callback(this.choice);
+    }
+
+    private choose(choice: ContentConflictChoice): void {
+        this.choice = choice;
+        this.close();
+    }
+
+    private renderVersion(containerEl: HTMLElement, label: string, note: StickyNote): void {
+        const t = this.t.conflictModal;
+        const versionEl = containerEl.createDiv('postodo-conflict-version');
+        versionEl.createEl('h4', { text: label });
+        versionEl.createEl('div', { text: note.title, cls: 'postodo-conflict-title' });
+        versionEl.createEl('div', {
+            text: note.completed ? t.completed : t.incomplete,
+            cls: 'postodo-conflict-status'
+        });
+        versionEl.createEl('pre', { text: note.content, cls: 'postodo-conflict-content' });
+    }
+}
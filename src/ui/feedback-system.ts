@@ -58,6 +58,16 @@ export class FeedbackSystem {
         }
     }
 
+    /**
+     * 検索などで移動した付箋を目立たせる
+     */
+    showNoteFocused(noteId: string): void {
+        const noteElement = this.findNoteElement(noteId);
+        if (noteElement) {
+            this.animateNoteFocus(noteElement);
+        }
+    }
+
     showValidationError(message: string): void {
         this.showNotification(message, 'error');
     }
@@ -152,6 +162,20 @@ export class FeedbackSystem {
         }, 300);
     }
 
+    private animateNoteFocus(element: HTMLElement): void {
+        // 連続して移動した場合も最初から再生する
+        element.removeClass('postodo-focus-pulse');
+        void element.offsetWidth;
+        element.addClass('postodo-focus-pulse');
+        
+        const handleEnd = (e: AnimationEvent) => {
+            if (e.animationName !== 'postodo-focus-pulse') return;
+            element.removeClass('postodo-focus-pulse');
+            element.removeEventListener('animationend', handleEnd);
+        };
+        element.addEventListener('animationend', handleEnd);
+    }
+
     private animateDragStart(element: HTMLElement): void {
         element.style.transition = 'transform 0.2s ease, box-shadow 0.2s ease';
         element.style.transform = 'scale(1.05) rotate(2deg)';
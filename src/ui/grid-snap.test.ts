@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { snapToGrid, snapPosition, normalizeGridSize, MIN_GRID_SIZE, MAX_GRID_SIZE } from './grid-snap';
+
+const gridSizeArb = fc.integer({ min: MIN_GRID_SIZE, max: MAX_GRID_SIZE });
+const coordinateArb = fc.integer({ min: -10000, max: 10000 });
+
+/**
+ * グリッドスナップのテスト
+ */
+describe('Grid snap', () => {
+    /**
+     * スナップ後の座標はグリッドの倍数で、元の座標から半グリッド以内にある
+     */
+    it('should snap to the nearest grid line', () => {
+        fc.assert(
+            fc.property(coordinateArb, gridSizeArb, (value, gridSize) => {
+                const snapped = snapToGrid(value, gridSize);
+
+                expect(Math.abs(snapped % gridSize)).toBe(0);
+                expect(Math.abs(snapped - value)).toBeLessThanOrEqual(gridSize / 2);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * スナップは冪等である
+     */
+    it('should be idempotent', () => {
+        fc.assert(
+            fc.property(coordinateArb, gridSizeArb, (value, gridSize) => {
+                const snapped = snapToGrid(value, gridSize);
+                expect(snapToGrid(snapped, gridSize)).toBe(snapped);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 付箋の位置は原点より手前にならない
+     */
+    it('should keep snapped positions non-negative', () => {
+        fc.assert(
+            fc.property(coordinateArb, coordinateArb, gridSizeArb, (x, y, gridSize) => {
+                const position = snapPosition(x, y, gridSize);
+                expect(position.x).toBeGreaterThanOrEqual(0);
+                expect(position.y).toBeGreaterThanOrEqual(0);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 不正なグリッドサイズは許容範囲に補正される
+     */
+    it('should normalize invalid grid sizes', () => {
+        expect(normalizeGridSize(0)).toBe(MIN_GRID_SIZE);
+        expect(normalizeGridSize(1000)).toBe(MAX_GRID_SIZE);
+        expect(normalizeGridSize(NaN)).toBe(20);
+        expect(snapToGrid(13, 0)).toBe(15);
+    });
+});
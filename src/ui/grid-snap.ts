@@ -0,0 +1,29 @@
+export const MIN_GRID_SIZE = 5;
+export const MAX_GRID_SIZE = 200;
+export const DEFAULT_GRID_SIZE = 20;
+
+/**
+ * グリッドサイズを許容範囲に収める
+ */
+export function normalizeGridSize(gridSize: number): number {
+    if (!Number.isFinite(gridSize)) return DEFAULT_GRID_SIZE;
+    return Math.min(MAX_GRID_SIZE, Math.max(MIN_GRID_SIZE, Math.round(gridSize)));
+}
+
+/**
+ * 座標を最も近いグリッド線に合わせる
+ */
+export function snapToGrid(value: number, gridSize: number): number {
+    const size = normalizeGridSize(gridSize);
+    return Math.round(value / size) * size;
+}
+
+/**
+ * 付箋の位置をグリッドに合わせる（原点より手前には置かない）
+ */
+export function snapPosition(x: number, y: number, gridSize: number): { x: number; y: number } {
+    return {
+        x: Math.max(0, snapToGrid(x, gridSize)),
+        y: Math.max(0, snapToGrid(y, gridSize))
+    };
+}
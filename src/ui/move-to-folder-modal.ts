@@ -0,0 +1,91 @@
+import { App, Modal } from 'obsidian';
+import { Translations } from '../i18n/translations';
+
+/**
+ * 付箋の移動先フォルダを入力するモーダル
+ * 移動先はPostodoフォルダ内のサブフォルダに限定する（フォルダ外に移動するとキャンバスに表示されなくなるため）
+ */
+export class MoveToFolderModal extends Modal {
+    private folder: string | null = null;
+
+    constructor(
+        app: App,
+        private rootFolder: string,
+        private existingFolders: string[],
+        private noteCount: number,
+        private t: Translations,
+        private callback: (folder: string | null) => void
+    ) {
+        super(app);
+    }
+
+    /**
+     * モーダルを開き、移動先の入力を待つ
+     * @param existingFolders 候補として表示する既存のサブフォルダ（ルートからの相対パス）
+     * @returns 移動先のフォルダパス（キャンセルした場合はnull）
+     */
+    static prompt(
+        app: App,
+        rootFolder: string,
+        existingFolders: string[],
+        noteCount: number,
+        t: Translations
+    ): Promise<string | null> {
+        return new Promise(resolve => {
+            new MoveToFolderModal(app, rootFolder, existingFolders, noteCount, t, resolve).open();
+        });
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        const t = this.t.moveModal;
+
+        contentEl.createEl('h2', { text: t.title });
+        contentEl.createEl('p', {
+            text: t.description
+                .replace('{count}', String(this.noteCount))
+                .replace('{root}', this.rootFolder)
+        });
+
+        // 既存のサブフォルダを入力候補として表示
+        const datalistId = 'postodo-move-folder-options';
+        const datalist = contentEl.createEl('datalist', { attr: { id: datalistId } });
+        this.existingFolders.forEach(folder => {
+            datalist.createEl('option', { attr: { value: folder } });
+        });
+
+        const input = contentEl.createEl('input', {
+            type: 'text',
+            cls: 'postodo-move-folder-input',
+            attr: { placeholder: t.placeholder, list: datalistId }
+        });
+
+        const buttonContainer = contentEl.createDiv('modal-button-container');
+
+        const cancelBtn = buttonContainer.createEl('button', { text: t.cancel });
+        cancelBtn.onclick = () => this.close();
+
+        const moveBtn = buttonContainer.createEl('button', { text: t.move, cls: 'mod-cta' });
+        const submit = () => {
+            const folder = input.value.trim().replace(/^\/+|\/+$/g, '');
+            if (!folder) return;
+            this.folder = `${this.rootFolder}/${folder}`;
+            this.close();
+        };
+        moveBtn.onclick = submit;
+        input.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                submit();
+            }
+        });
+
+        input.focus();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        // 入力せずに閉じた場合はnullを返す
+        this.callback(this.folder);
+    }
+}
@@ -0,0 +1,89 @@
+import { App, Modal } from 'obsidian';
+
+/**
+ * 名前を入力するモーダルの表示文字列
+ */
+export interface NameInputTexts {
+    title: string;
+    placeholder: string;
+    save: string;
+    cancel: string;
+}
+
+/**
+ * 保存した表示やボードの名前を入力するモーダル
+ */
+export class NameInputModal extends Modal {
+    private name: string | null = null;
+
+    constructor(
+        app: App,
+        private texts: NameInputTexts,
+        private existingNames: string[],
+        private callback: (name: string | null) => void,
+        private initialValue = ''
+    ) {
+        super(app);
+    }
+
+    /**
+     * モーダルを開き、名前の入力を待つ
+     * @param existingNames 候補として表示する既存の名前
+     * @param initialValue 入力欄の初期値（名前の変更時に使用）
+     * @returns 入力した名前（キャンセルした場合はnull）
+     */
+    static prompt(app: App, texts: NameInputTexts, existingNames: string[], initialValue = ''): Promise<string | null> {
+        return new Promise(resolve => {
+            new NameInputModal(app, texts, existingNames, resolve, initialValue).open();
+        });
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        const t = this.texts;
+
+        contentEl.createEl('h2', { text: t.title });
+
+        // 既存の名前を入力候補として表示
+        const datalistId = 'postodo-name-input-options';
+        const datalist = contentEl.createEl('datalist', { attr: { id: datalistId } });
+        this.existingNames.forEach(name => {
+            datalist.createEl('option', { attr: { value: name } });
+        });
+
+        const input = contentEl.createEl('input', {
+            type: 'text',
+            cls: 'postodo-name-input',
+            attr: { placeholder: t.placeholder, list: datalistId }
+        });
+        input.value = this.initialValue;
+
+        const buttonContainer = contentEl.createDiv('modal-button-container');
+
+        const cancelBtn = buttonContainer.createEl('button', { text: t.cancel });
+        cancelBtn.onclick = () => this.close();
+
+        const saveBtn = buttonContainer.createEl('button', { text: t.save, cls: 'mod-cta' });
+        const submit = () => {
+            const name = input.value.trim();
+            if (!name) return;
+            this.name = name;
+            this.close();
+        };
+        saveBtn.onclick = submit;
+        input.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                submit();
+            }
+        });
+
+        input.focus();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        // 入力せずに閉じた場合はnullを返す
+        this.callback(this.name);
+    }
+}
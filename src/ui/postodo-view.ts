@@ -1,9 +1,9 @@
-import { ItemView, WorkspaceLeaf, Menu, Platform } from 'obsidian';
+import { ItemView, WorkspaceLeaf, Menu, Platform, TFolder, Scope, ViewStateResult } from 'obsidian';
 import { DIContainer } from '../core/container';
 import { DataManager } from '../implementations/data/data-manager';
-import { StickyNote, NoteColor, NoteSize } from '../types/core-types';
+import { StickyNote, NoteColor, NoteSize, UpdateNoteOptions, TrashEntry, Result, Position } from '../types/core-types';
 import { SERVICE_TOKENS } from '../types/core-types';
-import { SimpleDragHandler } from './simple-drag-handler';
+import { SimpleDragHandler, DragGroupMember } from './simple-drag-handler';
 import { FeedbackSystem } from './feedback-system';
 import { NoteValidator } from '../utils/validators';
 import { ErrorHandler, PostodoError } from '../utils/error-handler';
@@ -11,33 +11,129 @@ import { IEventBus } from '../core/event-bus';
 import { PostodoNoteDetector } from '../utils/postodo-note-detector';
 import { DisplayFilter } from '../implementations/ui/display-filter';
 import { DisplayFilterType } from '../interfaces/ui/i-display-filter';
+import { SelectionManager, findNotesInRect } from '../implementations/ui/selection-manager';
+import { IHistoryManager, HistoryCommand } from '../interfaces/data/i-history-manager';
 import { ConfigProvider } from '../providers/config-provider';
 import { getTranslations, Language, Translations } from '../i18n/translations';
+import { ISyncManager } from '../interfaces/sync/i-sync-manager';
+import { CanvasViewport, ViewportState, DEFAULT_VIEWPORT, isEditableTarget } from './canvas-viewport';
+import { PersistentStore } from '../core/persistent-store';
+import { MoveToFolderModal } from './move-to-folder-modal';
+import { ConfirmationModal } from './confirmation-modal';
+import { TrashPanel } from './trash-panel';
+import { ITrashManager } from '../interfaces/data/i-trash-manager';
+import { selectNotesToRender } from './render-window';
+import { snapPosition, normalizeGridSize, DEFAULT_GRID_SIZE } from './grid-snap';
+import { getDueStatus, getNoteTaskDates, daysUntil, msUntilNextDay, DEFAULT_DUE_SOON_DAYS } from '../utils/due-date';
+import { PRIORITY_EMOJI, getNotePriority } from '../utils/priority';
+import { PriorityLevel, NoteSortOrder, SavedView, KanbanSettings, LayoutMode } from '../types/config-types';
+import { DISPLAY_FILTER_TYPES, SavedFilterParts, parseSavedFilter, serializeSavedFilter } from '../utils/filter-condition';
+import { arrangeNotes, getNoteComparator } from '../utils/note-sort';
+import { parseSavedViews, SAVED_VIEW_OPTION_PREFIX } from '../utils/saved-views';
+import { NoteSearchIndex } from '../implementations/data/note-search-index';
+import { BoardManager, DEFAULT_BOARD_ID } from '../implementations/data/board-manager';
+import { BoardPlacement } from '../interfaces/data/i-board-manager';
+import { CanvasLayoutFile } from '../implementations/storage/canvas-layout-file';
+import { bringToFront } from '../utils/canvas-layout';
+import { NameInputModal } from './name-input-modal';
+import { parseKanbanSettings, groupNotesIntoColumns, getKanbanColumnUpdate, getKanbanColumnValue } from '../utils/kanban';
+
+// 表示範囲の外側に先行して描画する幅（画面上のピクセル）
+const RENDER_MARGIN_PX = 300;
+// 範囲選択を開始するまでのマウス移動量（ピクセル）
+const MARQUEE_THRESHOLD_PX = 4;
+// 期日の状態ごとに付箋の要素に付けるクラス
+const DUE_STATUS_CLASSES = ['postodo-due-overdue', 'postodo-due-today', 'postodo-due-upcoming'];
+
+const PRIORITY_CLASSES = ['postodo-priority-highest', 'postodo-priority-high', 'postodo-priority-low'];
+
+// 整列する時の付箋の間隔（グリッドに吸着しない場合）
+const ARRANGE_GAP_PX = 20;
+
+// カンバンのカードをドラッグする時のデータの種類（付箋のID）
+const KANBAN_DRAG_TYPE = 'application/x-postodo-note';
 
 export class PostodoView extends ItemView {
     private dataManager: DataManager;
     private canvasEl!: HTMLElement;
+    private viewportEl!: HTMLElement;
+    private viewport?: CanvasViewport;
+    // カンバン表示の列（キャンバス表示の場合は空）
+    private kanbanEl!: HTMLElement;
+    private zoomLabelEl!: HTMLButtonElement;
     private inputEl!: HTMLInputElement;
     private filterSelectEl!: HTMLSelectElement;
+    private showArchivedEl!: HTMLInputElement;
+    private priorityFilterEl!: HTMLSelectElement;
+    private conditionChipEl!: HTMLButtonElement;
+    // フィルターの選択肢のうち、保存した表示のグループ
+    private savedViewsGroupEl?: HTMLOptGroupElement;
+    private arrangeBtnEl!: HTMLButtonElement;
+    // 選択中の保存した表示（フィルターを個別に変更すると解除する）
+    private activeView: SavedView | null = null;
+    private searchInputEl!: HTMLInputElement;
+    private searchCountEl!: HTMLElement;
+    private searchIndex: NoteSearchIndex;
+    private searchIndexUnsubscribe?: () => void;
+    // 検索に一致した表示中の付箋のID（一致の度合いの高い順）と、Enterで移動した位置
+    private searchMatches: string[] = [];
+    private searchCursor = -1;
+    private searchFrame: number | null = null;
+    private boardManager: BoardManager;
+    private canvasLayout: CanvasLayoutFile;
+    // 表示中のボード（既定のボードはPostodoフォルダの全ての付箋をファイルに保存した位置で表示する）
+    private boardId = DEFAULT_BOARD_ID;
+    private boardSelectEl!: HTMLSelectElement;
+    private syncBadgeEl!: HTMLButtonElement;
+    private syncManager: ISyncManager;
+    private history: IHistoryManager;
+    private trashManager: ITrashManager;
+    private trashPanel?: TrashPanel;
     private notes: StickyNote[] = [];
     private dragHandlers = new Map<string, SimpleDragHandler>();
+    // 表示範囲外になった付箋の要素（再び表示範囲に入った時に再利用する）
+    private detachedNoteEls = new Map<string, HTMLElement>();
+    private visibleNotesFrame: number | null = null;
+    // 日付が変わった時に期日の表示を更新するタイマー
+    private dayChangeTimer: number | null = null;
     private feedbackSystem!: FeedbackSystem;
     private errorHandler: ErrorHandler;
     private lastDragEndTime = 0;
     private displayFilter: DisplayFilter;
     private filterUnsubscribe?: () => void;
+    // 読み込み済みの付箋にアーカイブ済みの付箋を含めているかどうか
+    private archivedLoaded = false;
+    private selection = new SelectionManager();
+    private selectionUnsubscribe?: () => void;
+    private marquee?: { startX: number; startY: number; el?: HTMLElement };
+    private lastMarqueeEndTime = 0;
+    // イベントバスの購読の解除（ビューを閉じる時に呼び出す）
+    private eventUnsubscribers: (() => void)[] = [];
 
     constructor(leaf: WorkspaceLeaf, private container: DIContainer) {
         super(leaf);
         this.dataManager = container.resolve<DataManager>(SERVICE_TOKENS.DATA_MANAGER);
+        this.syncManager = container.resolve<ISyncManager>(SERVICE_TOKENS.SYNC_STRATEGY);
+        this.history = container.resolve<IHistoryManager>(SERVICE_TOKENS.HISTORY_MANAGER);
+        this.trashManager = container.resolve<ITrashManager>(SERVICE_TOKENS.TRASH_MANAGER);
+        this.boardManager = container.resolve<BoardManager>(SERVICE_TOKENS.BOARD_MANAGER);
+        this.canvasLayout = container.resolve<CanvasLayoutFile>(SERVICE_TOKENS.CANVAS_LAYOUT);
         this.errorHandler = ErrorHandler.getInstance(container.resolve(SERVICE_TOKENS.EVENT_BUS));
         
         // 設定からデフォルト表示フィルターを取得
         const configProvider = container.resolve<ConfigProvider>(SERVICE_TOKENS.CONFIG);
-        const defaultFilter = configProvider.get<DisplayFilterType>('defaultDisplayFilter') || 'incomplete';
+        const defaultFilter = parseSavedFilter(configProvider.get<string>('defaultDisplayFilter'));
+        const dueSoonDays = configProvider.get<number>('ui.dueSoonDays') ?? DEFAULT_DUE_SOON_DAYS;
         
-        // DisplayFilterの初期化（設定のデフォルトフィルターを使用）
-        this.displayFilter = new DisplayFilter(defaultFilter);
+        // DisplayFilterの初期化（設定のデフォルトフィルターを使用、組み合わせた条件も復元する）
+        this.displayFilter = new DisplayFilter(defaultFilter?.filter || 'incomplete', dueSoonDays);
+        if (defaultFilter) {
+            this.displayFilter.applySavedFilter(defaultFilter);
+        }
+        
+        // 検索インデックス（付箋の変更イベントで更新され、検索結果を更新する）
+        this.searchIndex = new NoteSearchIndex(container.resolve<IEventBus>(SERVICE_TOKENS.EVENT_BUS));
+        this.searchIndexUnsubscribe = this.searchIndex.onChanged(() => this.scheduleSearchUpdate());
         
         this.setupEventListeners();
     }
@@ -47,7 +143,20 @@ export class PostodoView extends ItemView {
     }
 
     getDisplayText(): string {
-        return 'Postodo';
+        const board = this.boardManager.getBoard(this.boardId);
+        return board ? `Postodo: ${board.name}` : 'Postodo';
+    }
+
+    // 表示中のボードはワークスペースのレイアウトと一緒に保存する
+    getState(): Record<string, unknown> {
+        return { ...super.getState(), boardId: this.boardId };
+    }
+
+    async setState(state: any, result: ViewStateResult): Promise<void> {
+        if (typeof state?.boardId === 'string' && state.boardId !== this.boardId) {
+            await this.switchBoard(state.boardId);
+        }
+        await super.setState(state, result);
     }
 
     async onOpen(): Promise<void> {
@@ -57,6 +166,21 @@ export class PostodoView extends ItemView {
         // UIの構築
         this.buildUI(container);
         
+        // パンとズームの初期化（キャンバスごとに保存した表示位置を復元）
+        this.setupViewport();
+        
+        // グリッド表示の初期化
+        this.applyGridSettings();
+        
+        // 表示方法（キャンバス・カンバン）の初期化
+        this.applyLayoutClass();
+        
+        // 複数選択（Shiftクリック、範囲選択）の初期化
+        this.setupSelection();
+        
+        // 元に戻す・やり直すのショートカット
+        this.setupHistoryHotkeys();
+        
         // フィードバックシステムの初期化
         this.feedbackSystem = new FeedbackSystem(this.canvasEl);
         
@@ -66,8 +190,14 @@ export class PostodoView extends ItemView {
         // ウィンドウリサイズ時の高さ調整
         window.addEventListener('resize', this.adjustCanvasHeight.bind(this));
         
+        // ウィンドウリサイズ時は表示範囲が変わるため描画対象を更新
+        this.registerDomEvent(window, 'resize', () => this.scheduleVisibleNotesUpdate());
+        
         // 既存の付箋を読み込み
         await this.loadNotes();
+        
+        // 日付が変わったら期日の表示とフィルターを更新
+        this.scheduleDayChangeRefresh();
     }
 
     async onClose(): Promise<void> {
@@ -75,6 +205,40 @@ export class PostodoView extends ItemView {
         this.dragHandlers.forEach(handler => handler.cleanup());
         this.dragHandlers.clear();
         
+        // 仮想化描画のクリーンアップ
+        if (this.visibleNotesFrame !== null) {
+            window.cancelAnimationFrame(this.visibleNotesFrame);
+            this.visibleNotesFrame = null;
+        }
+        this.detachedNoteEls.clear();
+        
+        if (this.dayChangeTimer !== null) {
+            window.clearTimeout(this.dayChangeTimer);
+            this.dayChangeTimer = null;
+        }
+        
+        // 検索のクリーンアップ
+        if (this.searchFrame !== null) {
+            window.cancelAnimationFrame(this.searchFrame);
+            this.searchFrame = null;
+        }
+        if (this.searchIndexUnsubscribe) {
+            this.searchIndexUnsubscribe();
+        }
+        this.searchIndex.cleanup();
+        
+        // ゴミ箱パネルのクリーンアップ
+        if (this.trashPanel) {
+            this.trashPanel.destroy();
+            this.trashPanel = undefined;
+        }
+        
+        // ビューポートのクリーンアップ
+        if (this.viewport) {
+            this.viewport.destroy();
+            this.viewport = undefined;
+        }
+        
         // フィードバックシステムのクリーンアップ
         if (this.feedbackSystem) {
             this.feedbackSystem.cleanup();
@@ -86,6 +250,17 @@ export class PostodoView extends ItemView {
         }
         this.displayFilter.cleanup();
         
+        // 選択状態のクリーンアップ
+        if (this.selectionUnsubscribe) {
+            this.selectionUnsubscribe();
+        }
+        this.selection.cleanup();
+        this.endMarquee();
+        
+        // イベントバスの購読を解除
+        this.eventUnsubscribers.forEach(unsubscribe => unsubscribe());
+        this.eventUnsubscribers = [];
+        
         // ウィンドウリサイズイベントの削除
         window.removeEventListener('resize', this.adjustCanvasHeight.bind(this));
     }
@@ -97,6 +272,9 @@ export class PostodoView extends ItemView {
         // コントロールパネル
         const controlsEl = mainContainer.createEl('div', { cls: 'postodo-controls' });
         
+        // ボードの切り替え
+        this.buildBoardSwitcher(controlsEl);
+        
         // 入力フィールド
         this.inputEl = controlsEl.createEl('input', {
             type: 'text',
@@ -110,6 +288,16 @@ export class PostodoView extends ItemView {
             cls: 'postodo-add-btn'
         });
 
+        // 検索（タイトル・本文・タグ・ファイル名のあいまい検索）
+        const searchTexts = this.getTranslations().search;
+        const searchContainer = controlsEl.createEl('div', { cls: 'postodo-search-container' });
+        this.searchInputEl = searchContainer.createEl('input', {
+            type: 'search',
+            cls: 'postodo-search-input',
+            attr: { placeholder: searchTexts.placeholder, 'aria-label': searchTexts.placeholder }
+        });
+        this.searchCountEl = searchContainer.createEl('span', { cls: 'postodo-search-count' });
+
         // フィルターコントロール
         const filterContainer = controlsEl.createEl('div', { cls: 'postodo-filter-container' });
         const filterLabel = filterContainer.createEl('label', {
@@ -122,24 +310,80 @@ export class PostodoView extends ItemView {
         });
         
         // フィルターオプションを追加
-        const filterOptions: { value: DisplayFilterType; label: string }[] = [
-            { value: 'incomplete', label: '未完了のみ' },
-            { value: 'complete', label: '完了のみ' },
-            { value: 'all', label: 'すべて' }
-        ];
-        
-        filterOptions.forEach(option => {
+        DISPLAY_FILTER_TYPES.forEach(filter => {
             const optionEl = this.filterSelectEl.createEl('option', {
-                value: option.value,
-                text: option.label
+                value: filter,
+                text: this.getFilterLabel(filter)
             });
-            if (option.value === this.displayFilter.currentFilter) {
+            if (filter === this.displayFilter.currentFilter) {
+                optionEl.selected = true;
+            }
+        });
+
+        // 保存した表示（フィルター・表示位置・整列の並び順をまとめて切り替える）
+        this.renderSavedViewOptions();
+
+        // アーカイブ済みの付箋の表示切り替え
+        const showArchivedLabel = filterContainer.createEl('label', { cls: 'postodo-show-archived' });
+        this.showArchivedEl = showArchivedLabel.createEl('input', { type: 'checkbox' });
+        this.showArchivedEl.checked = this.displayFilter.includeArchived;
+        showArchivedLabel.appendText(this.getTranslations().archive.showArchived);
+
+        // 優先度のフィルター（指定した優先度以上の付箋だけを表示）
+        const priorityTexts = this.getTranslations().priority;
+        this.priorityFilterEl = filterContainer.createEl('select', {
+            cls: 'postodo-filter-select postodo-priority-filter',
+            attr: { 'aria-label': priorityTexts.filter }
+        });
+        const priorityOptions: { value: PriorityLevel; label: string }[] = [
+            { value: 'low', label: priorityTexts.options.all },
+            { value: 'normal', label: priorityTexts.options.normal },
+            { value: 'high', label: priorityTexts.options.high },
+            { value: 'highest', label: priorityTexts.options.highest }
+        ];
+        priorityOptions.forEach(option => {
+            const optionEl = this.priorityFilterEl.createEl('option', { value: option.value, text: option.label });
+            if (option.value === this.displayFilter.minPriority) {
                 optionEl.selected = true;
             }
         });
 
-        // キャンバス
-        this.canvasEl = mainContainer.createEl('div', { cls: 'postodo-canvas' });
+        // 組み合わせた条件が適用されている時の表示（クリックで解除）
+        const filterTexts = this.getTranslations().filter;
+        this.conditionChipEl = filterContainer.createEl('button', {
+            text: filterTexts.conditionActive,
+            cls: 'postodo-filter-condition-chip',
+            attr: { 'aria-label': filterTexts.clearCondition }
+        });
+        this.updateConditionChip();
+
+        // 未同期の変更数バッジ（手動・定期同期時のみ表示）
+        this.syncBadgeEl = controlsEl.createEl('button', { cls: 'postodo-sync-badge' });
+        this.updateSyncBadge(this.syncManager.getDirtyCount());
+
+        // ズームコントロール
+        this.buildZoomControls(controlsEl);
+
+        // ゴミ箱パネル
+        const t = this.getTranslations();
+        const trashBtn = controlsEl.createEl('button', {
+            text: t.trash.title,
+            cls: 'postodo-trash-btn',
+            attr: { 'aria-label': t.trash.open }
+        });
+        this.trashPanel = new TrashPanel(mainContainer, this.trashManager, () => this.getTranslations(), {
+            restore: (entry) => this.restoreFromTrash(entry),
+            purge: (entry) => this.purgeFromTrash(entry),
+            emptyTrash: () => this.emptyTrash()
+        });
+        trashBtn.addEventListener('click', () => this.trashPanel?.toggle());
+
+        // キャンバス（ビューポート内でパン・ズームされる）
+        this.viewportEl = mainContainer.createEl('div', { cls: 'postodo-viewport' });
+        this.canvasEl = this.viewportEl.createEl('div', { cls: 'postodo-canvas' });
+
+        // カンバン（表示方法がカンバンの場合にキャンバスの代わりに表示する）
+        this.kanbanEl = mainContainer.createEl('div', { cls: 'postodo-kanban' });
 
         // イベントリスナーの設定
         this.setupUIEventListeners(addBtn);
@@ -158,39 +402,340 @@ export class PostodoView extends ItemView {
             }
         });
 
-        // キャンバスクリック（ドラッグ直後のクリックは無視）
-        this.canvasEl.addEventListener('click', (e) => {
-            if (e.target === this.canvasEl && Date.now() - this.lastDragEndTime > 100) {
-                this.createNoteAtPosition(e.offsetX, e.offsetY);
+        // 検索（入力のたびに一致を更新し、Enterで次の一致、Shift+Enterで前の一致に移動する）
+        this.searchInputEl.addEventListener('input', () => {
+            this.searchCursor = -1;
+            this.updateSearchMatches();
+        });
+        this.searchInputEl.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                this.focusSearchMatch(e.shiftKey ? -1 : 1);
+            } else if (e.key === 'Escape') {
+                e.preventDefault();
+                this.clearSearch();
+            }
+        });
+
+        // キャンバスクリック（ドラッグ・パン・範囲選択直後のクリックは無視）
+        this.viewportEl.addEventListener('click', (e) => {
+            const isBackground = e.target === this.viewportEl || e.target === this.canvasEl;
+            if (!isBackground || Date.now() - this.lastDragEndTime <= 100 || this.viewport?.isPanningRecently()) {
+                return;
+            }
+            if (Date.now() - this.lastMarqueeEndTime <= 100) {
+                return;
+            }
+            // 選択中の場合は選択解除のみ
+            if (this.selection.size > 0 && !e.shiftKey) {
+                this.selection.clear();
+                return;
             }
+            const position = this.viewport
+                ? this.viewport.screenToCanvas(e.clientX, e.clientY)
+                : { x: e.offsetX, y: e.offsetY };
+            // Altキーを押している場合はグリッドに吸着しない
+            const placed = this.placeOnGrid(position.x, position.y, e.altKey);
+            this.createNoteAtPosition(placed.x, placed.y);
+        });
+
+        // 未同期バッジのクリックで保留中の変更を書き込む
+        this.syncBadgeEl.addEventListener('click', async () => {
+            await this.syncPendingChanges();
         });
 
         // フィルター変更
         this.filterSelectEl.addEventListener('change', () => {
-            const newFilter = this.filterSelectEl.value as DisplayFilterType;
-            this.displayFilter.setFilter(newFilter);
+            const value = this.filterSelectEl.value;
+            if (value.startsWith(SAVED_VIEW_OPTION_PREFIX)) {
+                const id = value.slice(SAVED_VIEW_OPTION_PREFIX.length);
+                const view = this.getSavedViews().find(v => v.id === id);
+                if (view) {
+                    this.applySavedView(view);
+                }
+                return;
+            }
+            this.deactivateSavedView();
+            this.displayFilter.setFilter(value as DisplayFilterType);
+        });
+
+        this.showArchivedEl.addEventListener('change', () => {
+            this.displayFilter.setIncludeArchived(this.showArchivedEl.checked);
+        });
+
+        this.priorityFilterEl.addEventListener('change', () => {
+            this.deactivateSavedView();
+            this.displayFilter.setMinPriority(this.priorityFilterEl.value as PriorityLevel);
+        });
+
+        this.conditionChipEl.addEventListener('click', () => {
+            this.deactivateSavedView();
+            this.displayFilter.setCondition(null);
         });
 
-        // フィルター変更時の再描画
+        // フィルター変更時の再描画（アーカイブの表示を切り替えた場合は読み込み直す）
         this.filterUnsubscribe = this.displayFilter.onFilterChanged(() => {
-            this.renderAllNotes();
+            this.updateConditionChip();
+            this.scheduleSearchUpdate();
+            if (this.displayFilter.includeArchived !== this.archivedLoaded) {
+                this.loadNotes();
+            } else {
+                this.renderAllNotes();
+            }
+        });
+    }
+
+    private buildZoomControls(controlsEl: HTMLElement): void {
+        const t = this.getTranslations();
+        const zoomContainer = controlsEl.createEl('div', { cls: 'postodo-zoom-controls' });
+
+        const zoomOutBtn = zoomContainer.createEl('button', { text: '−', attr: { 'aria-label': t.viewport.zoomOut } });
+        zoomOutBtn.addEventListener('click', () => this.viewport?.zoomBy(1 / 1.2));
+
+        this.zoomLabelEl = zoomContainer.createEl('button', {
+            text: '100%',
+            cls: 'postodo-zoom-label',
+            attr: { 'aria-label': t.viewport.resetZoom }
+        });
+        this.zoomLabelEl.addEventListener('click', () => {
+            if (!this.viewport) return;
+            const state = this.viewport.getState();
+            this.viewport.setState({ ...state, zoom: 1 });
+        });
+
+        const zoomInBtn = zoomContainer.createEl('button', { text: '+', attr: { 'aria-label': t.viewport.zoomIn } });
+        zoomInBtn.addEventListener('click', () => this.viewport?.zoomBy(1.2));
+
+        const fitBtn = zoomContainer.createEl('button', { text: '⤢', attr: { 'aria-label': t.viewport.zoomToFit } });
+        fitBtn.addEventListener('click', () => this.zoomToFit());
+
+        // 選択中の保存した表示の並び順（なければ優先度順）で整列する
+        this.arrangeBtnEl = zoomContainer.createEl('button', { text: '⇅' });
+        this.arrangeBtnEl.addEventListener('click', () => this.arrangeNotes());
+        this.updateArrangeButton();
+    }
+
+    private setupViewport(): void {
+        const viewportStore = this.container.resolve<PersistentStore<ViewportState>>(SERVICE_TOKENS.VIEWPORT_STORE);
+        const eventBus = this.container.resolve<IEventBus>(SERVICE_TOKENS.EVENT_BUS);
+
+        this.viewport = new CanvasViewport(this.viewportEl, this.canvasEl, viewportStore.get(this.getViewportKey()));
+        this.updateZoomLabel(this.viewport.getZoom());
+
+        this.viewport.onChange((state) => {
+            viewportStore.set(this.getViewportKey(), state);
+            this.updateZoomLabel(state.zoom);
+            eventBus.emit('canvas-zoom-changed', state);
+            this.scheduleVisibleNotesUpdate();
+        });
+    }
+
+    private applyGridSettings(): void {
+        if (!this.viewportEl) return;
+
+        const configProvider = this.container.resolve<ConfigProvider>(SERVICE_TOKENS.CONFIG);
+        const showGrid = configProvider.get<boolean>('ui.showGrid') === true;
+        const gridSize = normalizeGridSize(configProvider.get<number>('ui.gridSize') || DEFAULT_GRID_SIZE);
+
+        this.viewportEl.toggleClass('has-grid', showGrid);
+        this.viewportEl.style.setProperty('--postodo-grid-size', `${gridSize}px`);
+    }
+
+    // スナップが有効な場合のグリッド間隔（無効な場合は0）
+    private getSnapGridSize(): number {
+        const configProvider = this.container.resolve<ConfigProvider>(SERVICE_TOKENS.CONFIG);
+        if (configProvider.get<boolean>('ui.snapToGrid') !== true) {
+            return 0;
+        }
+        return normalizeGridSize(configProvider.get<number>('ui.gridSize') || DEFAULT_GRID_SIZE);
+    }
+
+    // 新しい付箋の配置位置（スナップが有効ならグリッドに合わせる）
+    private placeOnGrid(x: number, y: number, disableSnap = false): { x: number; y: number } {
+        const gridSize = disableSnap ? 0 : this.getSnapGridSize();
+        if (gridSize > 0) {
+            return snapPosition(x, y, gridSize);
+        }
+        return { x: Math.max(0, Math.round(x)), y: Math.max(0, Math.round(y)) };
+    }
+
+    private setupSelection(): void {
+        this.selectionUnsubscribe = this.selection.onSelectionChanged(() => {
+            this.applySelectionState();
+        });
+
+        // 背景のドラッグで範囲選択
+        this.viewportEl.addEventListener('mousedown', (e) => {
+            const isBackground = e.target === this.viewportEl || e.target === this.canvasEl;
+            // スペース+ドラッグはパンのため範囲選択しない
+            if (e.button !== 0 || !isBackground || this.viewportEl.hasClass('is-pan-ready')) {
+                return;
+            }
+            this.marquee = { startX: e.clientX, startY: e.clientY };
+            document.addEventListener('mousemove', this.handleMarqueeMove);
+            document.addEventListener('mouseup', this.handleMarqueeEnd);
+        });
+    }
+
+    private handleMarqueeMove = (e: MouseEvent): void => {
+        if (!this.marquee) return;
+
+        const width = Math.abs(e.clientX - this.marquee.startX);
+        const height = Math.abs(e.clientY - this.marquee.startY);
+        if (!this.marquee.el && Math.max(width, height) < MARQUEE_THRESHOLD_PX) {
+            return;
+        }
+
+        if (!this.marquee.el) {
+            this.marquee.el = this.viewportEl.createDiv('postodo-marquee');
+        }
+
+        const viewportRect = this.viewportEl.getBoundingClientRect();
+        this.marquee.el.style.left = `${Math.min(e.clientX, this.marquee.startX) - viewportRect.left}px`;
+        this.marquee.el.style.top = `${Math.min(e.clientY, this.marquee.startY) - viewportRect.top}px`;
+        this.marquee.el.style.width = `${width}px`;
+        this.marquee.el.style.height = `${height}px`;
+    };
+
+    private handleMarqueeEnd = (e: MouseEvent): void => {
+        const marquee = this.marquee;
+        this.endMarquee();
+        if (!marquee?.el || !this.viewport) return;
+
+        // 画面上の範囲をキャンバス座標に変換して選択
+        const start = this.viewport.screenToCanvas(marquee.startX, marquee.startY);
+        const end = this.viewport.screenToCanvas(e.clientX, e.clientY);
+        const rect = {
+            x: Math.min(start.x, end.x),
+            y: Math.min(start.y, end.y),
+            width: Math.abs(end.x - start.x),
+            height: Math.abs(end.y - start.y)
+        };
+        const displayedNotes = this.notes.filter(note => this.displayFilter.shouldDisplay(note));
+        const selectedIds = findNotesInRect(displayedNotes, rect).map(note => note.id);
+
+        // Shiftキーを押している場合は既存の選択に追加
+        this.selection.select(selectedIds, e.shiftKey);
+        this.lastMarqueeEndTime = Date.now();
+    };
+
+    private endMarquee(): void {
+        this.marquee?.el?.remove();
+        this.marquee = undefined;
+        document.removeEventListener('mousemove', this.handleMarqueeMove);
+        document.removeEventListener('mouseup', this.handleMarqueeEnd);
+    }
+
+    private applySelectionState(): void {
+        this.canvasEl.querySelectorAll<HTMLElement>('.sticky-note[data-note-id]').forEach(noteEl => {
+            noteEl.toggleClass('is-selected', this.selection.has(noteEl.getAttribute('data-note-id')!));
         });
     }
 
+    /**
+     * ドラッグする付箋と一緒に移動する付箋を取得する
+     * 選択されていない付箋をドラッグした場合は選択を解除し、その付箋のグループの付箋とだけ移動する
+     */
+    private getDragGroup(noteId: string): DragGroupMember[] {
+        if (!this.selection.has(noteId)) {
+            this.selection.clear();
+        }
+
+        // グループに含まれる付箋は同じグループの付箋と一緒に移動する
+        const ids = new Set(this.selection.has(noteId) ? this.selection.getSelectedIds() : [noteId]);
+        this.boardManager.getGroups(this.boardId)
+            .filter(group => group.noteIds.some(id => ids.has(id)))
+            .forEach(group => group.noteIds.forEach(id => ids.add(id)));
+        ids.delete(noteId);
+
+        return [...ids]
+            .map(id => this.notes.find(note => note.id === id))
+            .filter((note): note is StickyNote => note !== undefined)
+            .map(note => ({
+                note,
+                element: (this.canvasEl.querySelector(`[data-note-id="${note.id}"]`) as HTMLElement | null) ?? undefined
+            }));
+    }
+
+    // ビューポートはボードごとにキャンバスファイルに保存する
+    private getViewportKey(): string {
+        return this.boardId;
+    }
+
+    private updateZoomLabel(zoom: number): void {
+        if (this.zoomLabelEl) {
+            this.zoomLabelEl.setText(`${Math.round(zoom * 100)}%`);
+        }
+    }
+
+    /**
+     * 表示中の付箋が全て収まるように表示する
+     */
+    zoomToFit(): void {
+        if (!this.viewport) return;
+
+        const rects = this.notes
+            .filter(note => this.displayFilter.shouldDisplay(note))
+            .map(note => ({
+                x: note.position.x,
+                y: note.position.y,
+                width: note.dimensions.width,
+                height: note.dimensions.height
+            }));
+        this.viewport.zoomToFit(rects);
+    }
+
+    /**
+     * 選択中の付箋（選択がなければ表示中の付箋）を指定した順に並べ直す
+     * 並べる範囲の左上を起点とし、1回の操作として元に戻せる
+     * @param order 並び順（省略時は選択中の保存した表示の並び順）
+     */
+    async arrangeNotes(order: NoteSortOrder = this.getActiveSortOrder()): Promise<void> {
+        const t = this.getTranslations();
+        const targets = this.selection.size > 0
+            ? this.getSelectedNotes()
+            : this.notes.filter(note => this.displayFilter.shouldDisplay(note));
+        if (targets.length === 0) return;
+
+        const origin = this.placeOnGrid(
+            Math.min(...targets.map(note => note.position.x)),
+            Math.min(...targets.map(note => note.position.y))
+        );
+        const gap = this.getSnapGridSize() || ARRANGE_GAP_PX;
+        const positions = arrangeNotes(targets, order, origin, gap);
+
+        const result = await this.savePositions(positions);
+        if (result.success) {
+            this.feedbackSystem?.showSuccess(t.views.arranged
+                .replace('{count}', String(result.data.length))
+                .replace('{sort}', t.views.sortOrders[order]));
+        } else {
+            this.handleError(result.error, 'arrangeNotes');
+        }
+    }
+
     private setupEventListeners(): void {
         const eventBus = this.container.resolve<IEventBus>(SERVICE_TOKENS.EVENT_BUS);
         
         // データマネージャーからのイベントを監視（外部からの変更のみ）
-        this.dataManager.onNoteCreated((note) => {
+        this.dataManager.onNoteCreated((created) => {
+            // 表示中のボードに含まれない付箋は表示しない
+            const note = this.toBoardNote(created);
+            if (!note) return;
             // 外部からの作成の場合のみ処理（通常の作成は直接制御）
             if (!this.notes.some(n => n.id === note.id)) {
                 this.renderNote(note);
                 this.notes.push(note);
+                this.scheduleVisibleNotesUpdate();
             }
         });
 
-        this.dataManager.onNoteUpdated((note) => {
-            console.log(`[DEBUG] PostodoView: Note updated event for ${note.id}, completed: ${note.completed}`);
+        this.dataManager.onNoteUpdated((updated) => {
+            console.log(`[DEBUG] PostodoView: Note updated event for ${updated.id}, completed: ${updated.completed}`);
+            
+            // 表示中のボードでは付箋のファイルの位置ではなくボード上の位置で表示する
+            const note = this.toBoardNote(updated);
+            if (!note) return;
             
             // 編集中の場合は外部変更を無視
             if (this.dataManager.isNoteBeingEdited(note.id)) {
@@ -227,14 +772,84 @@ export class PostodoView extends ItemView {
                     this.hideNoteElement(note.id);
                 }
             }
+            
+            // 移動により表示範囲外になった場合に備えて描画対象を更新
+            this.scheduleVisibleNotesUpdate();
         });
 
         this.dataManager.onNoteDeleted((id) => {
             console.log(`[DEBUG] PostodoView: Note deleted event for ${id}`);
             this.notes = this.notes.filter(n => n.id !== id);
+            this.selection.deselect([id]);
             this.removeNoteElement(id);
+            this.scheduleVisibleNotesUpdate();
         });
 
+        // ボードの変更を監視
+        // キャンバスファイルを読み込んだ（外部で変更された）場合は位置とボードを反映する
+        this.eventUnsubscribers.push(eventBus.on('canvas-layout-loaded', () => {
+            if (this.boardId !== DEFAULT_BOARD_ID && !this.boardManager.getBoard(this.boardId)) {
+                this.switchBoard(DEFAULT_BOARD_ID);
+                return;
+            }
+            this.renderBoardOptions();
+            this.restoreViewport();
+            this.loadNotes();
+        }));
+
+        this.eventUnsubscribers.push(eventBus.on('boards-changed', () => {
+            if (this.boardId !== DEFAULT_BOARD_ID && !this.boardManager.getBoard(this.boardId)) {
+                // 表示中のボードが削除された場合は既定のボードに戻る
+                this.switchBoard(DEFAULT_BOARD_ID);
+                return;
+            }
+            this.renderBoardOptions();
+            (this.leaf as any).updateHeader?.();
+        }));
+
+        this.eventUnsubscribers.push(eventBus.on('board-notes-changed', (event: any) => {
+            if (event?.boardId === this.boardId) {
+                this.loadNotes();
+            }
+        }));
+
+        this.eventUnsubscribers.push(eventBus.on('board-positions-changed', (event: any) => {
+            if (event?.boardId === this.boardId && Array.isArray(event.placements)) {
+                this.applyBoardPlacements(event.placements);
+            }
+        }));
+
+        this.eventUnsubscribers.push(eventBus.on('board-groups-changed', (event: any) => {
+            if (event?.boardId === this.boardId) {
+                this.scheduleVisibleNotesUpdate();
+            }
+        }));
+
+        // アーカイブされた付箋はファイルの場所が変わるため読み込み直す
+        this.eventUnsubscribers.push(eventBus.on('notes-archived', (event: any) => {
+            if (Array.isArray(event?.noteIds) && event.noteIds.length > 0) {
+                this.loadNotes();
+            }
+        }));
+
+        // グリッド設定の変更を監視
+        this.eventUnsubscribers.push(eventBus.on('config-changed', (event: any) => {
+            if (typeof event?.path === 'string' && event.path.startsWith('ui.')) {
+                this.applyGridSettings();
+            }
+            if (event?.path === 'ui.dueSoonDays' && typeof event.value === 'number') {
+                this.displayFilter.setDueSoonDays(event.value);
+                this.filterSelectEl?.querySelector('option[value="due-soon"]')?.setText(this.getFilterLabel('due-soon'));
+            }
+            if (event?.path === 'savedViews') {
+                this.renderSavedViewOptions();
+            }
+            if (event?.path === 'ui.layout' || event?.path === 'ui.kanban') {
+                this.applyLayoutClass();
+                this.renderAllNotes();
+            }
+        }));
+
         // 設定変更のイベントを監視
         eventBus.on('max-notes-changed', (event: any) => {
             if (event?.maxNotes !== undefined) {
@@ -261,6 +876,13 @@ export class PostodoView extends ItemView {
             }
         });
 
+        // 未同期の変更数の監視
+        this.eventUnsubscribers.push(eventBus.on('sync-dirty-changed', (event: any) => {
+            if (event?.count !== undefined) {
+                this.updateSyncBadge(event.count);
+            }
+        }));
+
         // 外部変更の監視
         eventBus.on('note-externally-modified', (event: any) => {
             if (event?.noteId && event?.newNote) {
@@ -283,12 +905,36 @@ export class PostodoView extends ItemView {
         });
     }
 
+    private updateSyncBadge(count: number): void {
+        if (!this.syncBadgeEl) return;
+
+        const t = this.getTranslations();
+        this.syncBadgeEl.setText(t.sync.pendingChanges.replace('{count}', String(count)));
+        this.syncBadgeEl.setAttribute('title', t.sync.pendingTooltip);
+        this.syncBadgeEl.toggleClass('is-hidden', count === 0);
+    }
+
+    private async syncPendingChanges(): Promise<void> {
+        const t = this.getTranslations();
+        const result = await this.syncManager.flush();
+
+        if (result.failed > 0) {
+            this.feedbackSystem?.showError(t.sync.failed.replace('{count}', String(result.failed)));
+        } else if (result.synced > 0) {
+            this.feedbackSystem?.showSuccess(t.sync.synced.replace('{count}', String(result.synced)));
+        }
+    }
+
     private async loadNotes(): Promise<void> {
         console.log('[DEBUG] PostodoView: Loading notes...');
-        const result = await this.dataManager.getAllNotes();
+        const includeArchived = this.displayFilter.includeArchived;
+        const result = await this.dataManager.getAllNotes({ includeArchived });
         if (result.success) {
             console.log(`[DEBUG] PostodoView: Loaded ${result.data.length} notes`);
-            this.notes = result.data;
+            // 表示中のボードに含まれる付箋だけをボード上の位置で表示する
+            this.notes = this.boardManager.placeNotes(this.boardId, result.data);
+            this.archivedLoaded = includeArchived;
+            this.searchIndex.setNotes(this.notes);
             this.renderAllNotes();
         } else {
             console.error('[DEBUG] PostodoView: Failed to load notes:', result.error);
@@ -324,11 +970,7 @@ export class PostodoView extends ItemView {
 
         const result = await this.dataManager.createNote({
             content,
-            position: {
-                x: Math.random() * (this.canvasEl.offsetWidth - dimensions.width),
-                y: Math.random() * (this.canvasEl.offsetHeight - dimensions.height),
-                zIndex: 1
-            },
+            position: this.getRandomVisiblePosition(dimensions),
             appearance: {
                 color: defaultColor as any,
                 size: defaultSize as any
@@ -338,7 +980,7 @@ export class PostodoView extends ItemView {
 
         if (result.success) {
             this.inputEl.value = '';
-            this.notes.push(result.data);
+            await this.addCreatedNoteToBoard(result.data);
             // 付箋をキャンバスに描画（強制描画）
             this.renderNote(result.data, true);
             // アニメーションのみ実行
@@ -350,6 +992,19 @@ export class PostodoView extends ItemView {
         }
     }
 
+    // 現在表示されている範囲内のランダムな位置
+    private getRandomVisiblePosition(dimensions: { width: number; height: number }): { x: number; y: number; zIndex: number } {
+        const visible = this.viewport
+            ? this.viewport.getVisibleRect()
+            : { x: 0, y: 0, width: this.viewportEl.offsetWidth, height: this.viewportEl.offsetHeight };
+
+        const placed = this.placeOnGrid(
+            visible.x + Math.random() * Math.max(0, visible.width - dimensions.width),
+            visible.y + Math.random() * Math.max(0, visible.height - dimensions.height)
+        );
+        return { ...placed, zIndex: 1 };
+    }
+
     private async createNoteAtPosition(x: number, y: number): Promise<void> {
         // 設定からデフォルト値を取得
         const configProvider = this.container.resolve<ConfigProvider>(SERVICE_TOKENS.CONFIG);
@@ -375,7 +1030,7 @@ export class PostodoView extends ItemView {
         });
 
         if (result.success) {
-            this.notes.push(result.data);
+            await this.addCreatedNoteToBoard(result.data);
             // 付箋をキャンバスに描画（強制描画）
             this.renderNote(result.data, true);
             // アニメーションのみ実行
@@ -399,7 +1054,8 @@ export class PostodoView extends ItemView {
             // ローカルの状態を更新
             const noteIndex = this.notes.findIndex(n => n.id === noteId);
             if (noteIndex !== -1) {
-                this.notes[noteIndex] = { ...this.notes[noteIndex], completed: newCompleted };
+                // 完了日時と履歴も反映するため保存後の付箋で置き換える
+                this.notes[noteIndex] = this.toBoardNote(result.data) || result.data;
                 
                 // DisplayFilterを使用して表示を更新
                 const shouldShow = this.displayFilter.shouldDisplay(this.notes[noteIndex]);
@@ -433,21 +1089,142 @@ export class PostodoView extends ItemView {
     private renderAllNotes(): void {
         console.log(`[DEBUG] PostodoView: Rendering ${this.notes.length} notes with filter: ${this.displayFilter.currentFilter}`);
         this.canvasEl.empty();
+        this.detachedNoteEls.clear();
         
         // 全てのドラッグハンドラーをクリーンアップ
         this.dragHandlers.forEach(handler => handler.cleanup());
         this.dragHandlers.clear();
         
+        // フィルターで非表示になった付箋は選択から外す
+        this.selection.retain(this.notes.filter(note => this.displayFilter.shouldDisplay(note)).map(note => note.id));
+        
+        this.updateVisibleNotes();
+    }
+
+    // 表示範囲の変更後、次のフレームで描画対象を更新する
+    private scheduleVisibleNotesUpdate(): void {
+        if (this.visibleNotesFrame !== null) return;
+
+        this.visibleNotesFrame = window.requestAnimationFrame(() => {
+            this.visibleNotesFrame = null;
+            this.updateVisibleNotes();
+        });
+    }
+
+    /**
+     * 表示範囲（と周辺の余白）に重なる付箋だけをDOMに配置する
+     * 仮想化が無効の場合はフィルター条件に合う全ての付箋を配置する
+     */
+    private updateVisibleNotes(): void {
+        if (!this.canvasEl) return;
+
+        // カンバン表示では全ての付箋を列に並べ直す
+        const kanban = this.getKanbanSettings();
+        if (kanban) {
+            this.renderKanban(kanban);
+            return;
+        }
+
+        const configProvider = this.container.resolve<ConfigProvider>(SERVICE_TOKENS.CONFIG);
+        const virtualization = configProvider.get<boolean>('rendering.virtualization') !== false;
+        const maxRenderedNotes = configProvider.get<number>('rendering.maxRenderedNotes') || 100;
+
         // DisplayFilterを使用して表示する付箋をフィルタリング
         const notesToShow = this.notes.filter(note => this.displayFilter.shouldDisplay(note));
-        console.log(`[DEBUG] PostodoView: Showing ${notesToShow.length} notes after filtering`);
-        
-        notesToShow.forEach(note => {
-            this.renderNote(note);
+        const targets = virtualization && this.viewport
+            ? selectNotesToRender(notesToShow, this.viewport.getVisibleRect(), {
+                margin: RENDER_MARGIN_PX / this.viewport.getZoom(),
+                maxRendered: maxRenderedNotes
+            })
+            : notesToShow;
+        const targetIds = new Set(targets.map(note => note.id));
+
+        // 範囲外になった付箋を取り外す（ドラッグ中・編集中の付箋はそのまま残す）
+        const mountedIds = new Set<string>();
+        this.canvasEl.querySelectorAll<HTMLElement>('.sticky-note[data-note-id]').forEach(noteEl => {
+            const noteId = noteEl.getAttribute('data-note-id')!;
+            if (targetIds.has(noteId) || noteEl.hasClass('dragging') || this.dataManager.isNoteBeingEdited(noteId)) {
+                mountedIds.add(noteId);
+                return;
+            }
+            this.detachNoteElement(noteId, noteEl, maxRenderedNotes);
+        });
+
+        // 範囲内に入った付箋を配置する（保持している要素があれば再利用）
+        targets.forEach(note => {
+            if (mountedIds.has(note.id)) return;
+
+            const detachedEl = this.detachedNoteEls.get(note.id);
+            if (detachedEl) {
+                this.detachedNoteEls.delete(note.id);
+                this.canvasEl.appendChild(detachedEl);
+                this.updateNoteElement(note);
+            } else {
+                this.renderNote(note);
+            }
+        });
+
+        this.renderGroups();
+    }
+
+    /**
+     * 表示中のボードのグループの枠を付箋の後ろに描画する
+     * 枠の範囲は付箋の現在の位置と大きさに合わせて更新する
+     */
+    private renderGroups(): void {
+        this.boardManager.updateGroupBounds(this.boardId, this.notes);
+        const groups = this.boardManager.getGroups(this.boardId);
+        const groupIds = new Set(groups.map(group => group.id));
+
+        this.canvasEl.querySelectorAll<HTMLElement>('.postodo-group[data-group-id]').forEach(groupEl => {
+            if (!groupIds.has(groupEl.getAttribute('data-group-id')!)) {
+                groupEl.remove();
+            }
+        });
+
+        groups.forEach(group => {
+            let groupEl = this.canvasEl.querySelector<HTMLElement>(`.postodo-group[data-group-id="${group.id}"]`);
+            if (!groupEl) {
+                groupEl = this.canvasEl.createDiv({ cls: 'postodo-group', attr: { 'data-group-id': group.id } });
+            }
+            groupEl.style.left = `${group.bounds.x}px`;
+            groupEl.style.top = `${group.bounds.y}px`;
+            groupEl.style.width = `${group.bounds.width}px`;
+            groupEl.style.height = `${group.bounds.height}px`;
         });
     }
 
+    private detachNoteElement(noteId: string, noteEl: HTMLElement, maxDetached: number): void {
+        noteEl.remove();
+        this.detachedNoteEls.delete(noteId);
+        this.detachedNoteEls.set(noteId, noteEl);
+
+        // 保持する要素数を制限し、古いものから破棄する
+        while (this.detachedNoteEls.size > maxDetached) {
+            const oldestId = this.detachedNoteEls.keys().next().value as string;
+            this.detachedNoteEls.delete(oldestId);
+            this.disposeDragHandler(oldestId);
+        }
+    }
+
+    private disposeDragHandler(noteId: string): void {
+        const dragHandler = this.dragHandlers.get(noteId);
+        if (dragHandler) {
+            dragHandler.cleanup();
+            this.dragHandlers.delete(noteId);
+        }
+    }
+
     private renderNote(note: StickyNote, forceRender: boolean = false): void {
+        // カンバン表示ではキャンバスに描画せず、列を並べ直す
+        if (this.getKanbanSettings()) {
+            this.scheduleVisibleNotesUpdate();
+            return;
+        }
+
+        // 保持している要素は使わずに新しく描画する
+        this.detachedNoteEls.delete(note.id);
+
         const existingEl = this.canvasEl.querySelector(`[data-note-id="${note.id}"]`);
         
         if (existingEl && !forceRender) {
@@ -477,7 +1254,7 @@ export class PostodoView extends ItemView {
 
         const isTaskNote = PostodoNoteDetector.isTaskNote(note);
         const noteEl = this.canvasEl.createEl('div', {
-            cls: `sticky-note ${note.completed ? 'completed' : 'pending'} ${isTaskNote ? 'task-note' : 'regular-note'}`,
+            cls: `sticky-note ${note.completed ? 'completed' : 'pending'} ${isTaskNote ? 'task-note' : 'regular-note'}${this.selection.has(note.id) ? ' is-selected' : ''}`,
             attr: {
                 'data-note-id': note.id
             }
@@ -507,6 +1284,11 @@ export class PostodoView extends ItemView {
             noteEl.style.opacity = '0.6';
         }
 
+        // 期日・優先度・検索の一致に応じた強調表示
+        this.applyDueStatus(noteEl, note);
+        this.applyPriority(noteEl, note, isTaskNote);
+        this.applySearchMatch(noteEl, note.id);
+
         // タスクヘッダー（タスクノートの場合のみ）
         if (isTaskNote) {
             this.createTaskHeader(noteEl, note);
@@ -543,64 +1325,237 @@ export class PostodoView extends ItemView {
         this.setupNoteEventListeners(noteEl, note, contentEl, checkboxEl);
     }
 
-    private createTaskHeader(noteEl: HTMLElement, note: StickyNote): void {
-        const taskInfo = note.metadata.taskInfo;
-        if (!taskInfo) return;
+    /**
+     * 期日に応じたクラスとバッジを付箋の要素に設定する
+     * 期限切れと今日の付箋にはバッジを表示し、開始前の付箋は薄く表示する
+     */
+    private applyDueStatus(noteEl: HTMLElement, note: StickyNote): void {
+        const now = new Date();
+        const status = getDueStatus(note, now);
+        const t = this.getTranslations().due;
+
+        DUE_STATUS_CLASSES.forEach(cls => noteEl.removeClass(cls));
+        noteEl.querySelector('.postodo-due-badge')?.remove();
+        if (status === 'none') return;
+
+        noteEl.addClass(`postodo-due-${status}`);
+        if (status === 'upcoming') return;
+
+        const dueDate = getNoteTaskDates(note).dueDate;
+        const badgeEl = noteEl.createSpan({
+            cls: 'postodo-due-badge',
+            text: status === 'overdue' ? t.overdue : t.today
+        });
+        badgeEl.title = status === 'overdue' && dueDate
+            ? t.overdueTooltip
+                .replace('{days}', String(-(daysUntil(dueDate, now) ?? 0)))
+                .replace('{date}', dueDate)
+            : t.todayTooltip;
+    }
 
-        const headerEl = noteEl.createEl('div', { cls: 'task-header' });
-        
-        // 優先度インジケーター
-        if (taskInfo.priority) {
-            const priorityEl = headerEl.createEl('span', { cls: `task-priority priority-${taskInfo.priority}` });
-            const priorityEmoji = {
-                'highest': '⏫',
-                'high': '🔼',
-                'low': '🔽'
-            }[taskInfo.priority];
-            priorityEl.textContent = priorityEmoji;
-            priorityEl.title = `優先度: ${taskInfo.priority}`;
+    /**
+     * 次に日付が変わった時に全ての付箋を再描画する（期日の状態と「期日が近い」フィルターの結果が変わるため）
+     */
+    private scheduleDayChangeRefresh(): void {
+        if (this.dayChangeTimer !== null) {
+            window.clearTimeout(this.dayChangeTimer);
         }
+        // タイマーの誤差で日付が変わる前に実行されないよう少し遅らせる
+        this.dayChangeTimer = window.setTimeout(() => {
+            this.dayChangeTimer = null;
+            this.renderAllNotes();
+            this.scheduleDayChangeRefresh();
+        }, msUntilNextDay(new Date()) + 1000);
+    }
 
-        // 期日インジケーター
-        if (taskInfo.dueDate) {
-            const dueDateEl = headerEl.createEl('span', { cls: 'task-due-date' });
-            dueDateEl.textContent = `📅 ${taskInfo.dueDate}`;
-            dueDateEl.title = `期日: ${taskInfo.dueDate}`;
-            
-            // 期日が近い場合は警告色
-            const dueDate = new Date(taskInfo.dueDate);
-            const today = new Date();
-            const diffDays = Math.ceil((dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-            
-            if (diffDays <= 0) {
-                dueDateEl.classList.add('overdue');
-            } else if (diffDays <= 3) {
-                dueDateEl.classList.add('due-soon');
-            }
-        }
+    /**
+     * 優先度に応じたクラスを付箋の要素に設定する
+     * タスクノートはヘッダーに優先度を表示するため、通常の付箋にだけバッジを表示する
+     */
+    private applyPriority(noteEl: HTMLElement, note: StickyNote, isTaskNote: boolean): void {
+        const priority = getNotePriority(note);
 
-        // 繰り返しインジケーター
-        if (taskInfo.recurrence) {
-            const recurrenceEl = headerEl.createEl('span', { cls: 'task-recurrence' });
-            recurrenceEl.textContent = `🔁 ${taskInfo.recurrence}`;
-            recurrenceEl.title = `繰り返し: ${taskInfo.recurrence}`;
-        }
-    }
+        PRIORITY_CLASSES.forEach(cls => noteEl.removeClass(cls));
+        noteEl.querySelector('.postodo-priority-badge')?.remove();
+        if (priority === 'normal') return;
 
-    private setupNoteEventListeners(
-        noteEl: HTMLElement,
-        note: StickyNote,
-        contentEl: HTMLElement,
-        checkboxEl: HTMLInputElement
-    ): void {
-        // 既存のドラッグハンドラーをクリーンアップ
-        const existingHandler = this.dragHandlers.get(note.id);
-        if (existingHandler) {
-            existingHandler.cleanup();
-        }
+        noteEl.addClass(`postodo-priority-${priority}`);
+        if (isTaskNote) return;
+
+        const badgeEl = noteEl.createSpan({ cls: 'postodo-priority-badge', text: PRIORITY_EMOJI[priority] });
+        badgeEl.title = this.getPriorityTooltip(priority);
+    }
+
+    /**
+     * 検索に一致した付箋と、Enterで移動した付箋にクラスを設定する
+     */
+    private applySearchMatch(noteEl: HTMLElement, noteId: string): void {
+        const index = this.searchMatches.indexOf(noteId);
+        noteEl.toggleClass('postodo-search-match', index !== -1);
+        noteEl.toggleClass('postodo-search-current', index !== -1 && index === this.searchCursor);
+    }
+
+    // 表示中の付箋（キャンバスの付箋とカンバンのカード）に検索の一致を反映する
+    private applySearchMatches(): void {
+        this.containerEl.querySelectorAll<HTMLElement>('.sticky-note[data-note-id], .postodo-kanban-card[data-note-id]').forEach(noteEl => {
+            this.applySearchMatch(noteEl, noteEl.getAttribute('data-note-id')!);
+        });
+    }
+
+    // 付箋の変更やフィルターの変更の後、次のフレームで検索結果を更新する
+    private scheduleSearchUpdate(): void {
+        if (this.searchFrame !== null) return;
+
+        this.searchFrame = window.requestAnimationFrame(() => {
+            this.searchFrame = null;
+            this.updateSearchMatches();
+        });
+    }
+
+    /**
+     * 検索語に一致する表示中の付箋を求め、キャンバス上の強調表示と件数を更新する
+     * 移動済みの付箋が引き続き一致する場合は、その位置から次の一致に移動する
+     */
+    private updateSearchMatches(): void {
+        if (!this.searchInputEl || !this.canvasEl) return;
+
+        const currentId = this.searchCursor >= 0 ? this.searchMatches[this.searchCursor] : undefined;
+        const displayedIds = new Set(this.notes.filter(note => this.displayFilter.shouldDisplay(note)).map(note => note.id));
+        this.searchMatches = this.searchIndex.search(this.searchInputEl.value)
+            .map(result => result.noteId)
+            .filter(id => displayedIds.has(id));
+        this.searchCursor = currentId ? this.searchMatches.indexOf(currentId) : -1;
+
+        this.canvasEl.toggleClass('is-searching', this.searchInputEl.value.trim().length > 0);
+        this.kanbanEl.toggleClass('is-searching', this.searchInputEl.value.trim().length > 0);
+        this.applySearchMatches();
+        this.updateSearchCount();
+    }
+
+    private updateSearchCount(): void {
+        const t = this.getTranslations().search;
+        if (!this.searchInputEl.value.trim()) {
+            this.searchCountEl.setText('');
+        } else if (this.searchMatches.length === 0) {
+            this.searchCountEl.setText(t.noMatches);
+        } else {
+            this.searchCountEl.setText(t.count
+                .replace('{current}', this.searchCursor >= 0 ? String(this.searchCursor + 1) : '-')
+                .replace('{total}', String(this.searchMatches.length)));
+        }
+    }
+
+    /**
+     * 次（または前）の一致した付箋が中央に来るように移動し、強調する
+     * @param step 1で次の一致、-1で前の一致
+     */
+    private focusSearchMatch(step: 1 | -1): void {
+        const count = this.searchMatches.length;
+        if (count === 0) return;
+
+        this.searchCursor = this.searchCursor === -1
+            ? (step > 0 ? 0 : count - 1)
+            : (this.searchCursor + step + count) % count;
+        const note = this.notes.find(n => n.id === this.searchMatches[this.searchCursor]);
+        if (!note) return;
+
+        // カンバン表示ではカードが見えるようにスクロールする
+        if (this.getKanbanSettings()) {
+            this.applySearchMatches();
+            this.updateSearchCount();
+            this.kanbanEl.querySelector(`[data-note-id="${note.id}"]`)?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+            return;
+        }
+
+        this.viewport?.centerOn({
+            x: note.position.x,
+            y: note.position.y,
+            width: note.dimensions.width,
+            height: note.dimensions.height
+        });
+        // 移動先の付箋を描画してから強調する
+        this.updateVisibleNotes();
+        this.applySearchMatches();
+        this.updateSearchCount();
+        this.feedbackSystem?.showNoteFocused(note.id);
+    }
+
+    private clearSearch(): void {
+        this.searchInputEl.value = '';
+        this.searchCursor = -1;
+        this.updateSearchMatches();
+    }
+
+    /**
+     * 検索欄にフォーカスする（コマンドから呼び出す）
+     */
+    focusSearch(): void {
+        this.searchInputEl?.focus();
+        this.searchInputEl?.select();
+    }
+
+    private getPriorityTooltip(priority: PriorityLevel): string {
+        const t = this.getTranslations().priority;
+        return t.tooltip.replace('{level}', t.levels[priority]);
+    }
+
+    private createTaskHeader(noteEl: HTMLElement, note: StickyNote): void {
+        const taskInfo = note.metadata.taskInfo || PostodoNoteDetector.extractTaskMetadata(note.content);
+
+        const headerEl = noteEl.createEl('div', { cls: 'task-header' });
+        
+        // 優先度インジケーター
+        if (taskInfo.priority) {
+            const priorityEl = headerEl.createEl('span', { cls: `task-priority priority-${taskInfo.priority}` });
+            priorityEl.textContent = PRIORITY_EMOJI[taskInfo.priority];
+            priorityEl.title = this.getPriorityTooltip(taskInfo.priority);
+        }
+
+        // 期日インジケーター
+        if (taskInfo.dueDate) {
+            const dueDateEl = headerEl.createEl('span', { cls: 'task-due-date' });
+            dueDateEl.textContent = `📅 ${taskInfo.dueDate}`;
+            dueDateEl.title = `期日: ${taskInfo.dueDate}`;
+            
+            // 期日が近い場合は警告色
+            const diffDays = daysUntil(taskInfo.dueDate, new Date());
+            
+            if (diffDays !== null && diffDays <= 0) {
+                dueDateEl.classList.add('overdue');
+            } else if (diffDays !== null && diffDays <= this.displayFilter.dueSoonDays) {
+                dueDateEl.classList.add('due-soon');
+            }
+        }
+
+        // 繰り返しインジケーター
+        if (taskInfo.recurrence) {
+            const recurrenceEl = headerEl.createEl('span', { cls: 'task-recurrence' });
+            recurrenceEl.textContent = `🔁 ${taskInfo.recurrence}`;
+            recurrenceEl.title = `繰り返し: ${taskInfo.recurrence}`;
+        }
+    }
+
+    private setupNoteEventListeners(
+        noteEl: HTMLElement,
+        note: StickyNote,
+        contentEl: HTMLElement,
+        checkboxEl: HTMLInputElement
+    ): void {
+        // 既存のドラッグハンドラーをクリーンアップ
+        const existingHandler = this.dragHandlers.get(note.id);
+        if (existingHandler) {
+            existingHandler.cleanup();
+        }
 
         // シンプルドラッグハンドラーの設定
-        const dragHandler = new SimpleDragHandler(this.dataManager);
+        const dragHandler = new SimpleDragHandler(this.dataManager, {
+            getZoom: () => this.viewport ? this.viewport.getZoom() : 1,
+            getSnapGridSize: () => this.getSnapGridSize(),
+            onToggleSelect: (noteId) => this.selection.toggle(noteId),
+            getDragGroup: (noteId) => this.getDragGroup(noteId),
+            // 移動した付箋は最前面に表示する
+            savePositions: (placements) => this.savePositions(bringToFront(placements, this.notes))
+        });
         dragHandler.setupDragHandlers(noteEl, note, this.canvasEl, (timestamp) => {
             this.lastDragEndTime = timestamp;
         });
@@ -674,6 +1629,12 @@ export class PostodoView extends ItemView {
 
     // コンテキストメニューの表示
     private showContextMenu(note: StickyNote, event: MouseEvent | TouchEvent): void {
+        // 複数選択中の付箋の場合は一括操作メニューを表示
+        if (this.selection.size > 1 && this.selection.has(note.id)) {
+            this.showBulkContextMenu(event);
+            return;
+        }
+
         const menu = new Menu();
         const t = this.getTranslations();
 
@@ -691,7 +1652,8 @@ export class PostodoView extends ItemView {
             item.setTitle(t.contextMenu.edit)
                 .setIcon('pencil')
                 .onClick(() => {
-                    const noteEl = this.canvasEl.querySelector(`[data-note-id="${note.id}"]`);
+                    // キャンバスの付箋またはカンバンのカード
+                    const noteEl = this.containerEl.querySelector(`[data-note-id="${note.id}"]`);
                     const contentEl = noteEl?.querySelector('.note-content, .task-content') as HTMLElement;
                     if (contentEl) {
                         this.editNote(note, contentEl);
@@ -762,6 +1724,15 @@ export class PostodoView extends ItemView {
 
         menu.addSeparator();
 
+        // カンバンの列の移動（ドラッグできない環境でも移動できるようにする）
+        this.addKanbanMenuItems(menu, note);
+
+        // グループの解除
+        this.addGroupMenuItems(menu, [note]);
+
+        // ボードへの追加・ボードから外す
+        this.addBoardMenuItems(menu, [note]);
+
         // ファイル名をコピー
         menu.addItem((item) => {
             item.setTitle(t.contextMenu.copyFilename)
@@ -780,7 +1751,120 @@ export class PostodoView extends ItemView {
                 });
         });
 
-        // メニューを表示
+        this.showMenuAtEvent(menu, event);
+    }
+
+    // 選択中の付箋の一括操作メニュー
+    private showBulkContextMenu(event: MouseEvent | TouchEvent): void {
+        const menu = new Menu();
+        const t = this.getTranslations();
+        const notes = this.getSelectedNotes();
+
+        menu.addItem((item) => {
+            item.setTitle(t.bulkActions.selectedCount.replace('{count}', String(notes.length)))
+                .setIcon('check-square')
+                .setDisabled(true);
+        });
+
+        menu.addSeparator();
+
+        // 色を変更（サブメニュー）
+        menu.addItem((item) => {
+            item.setTitle(t.contextMenu.changeColor)
+                .setIcon('palette');
+
+            const submenu = (item as any).setSubmenu();
+            const colors: NoteColor[] = ['yellow', 'pink', 'blue', 'green', 'orange', 'purple'];
+            colors.forEach(color => {
+                submenu.addItem((subItem: any) => {
+                    subItem.setTitle(t.contextMenu.colors[color])
+                        .onClick(async () => {
+                            await this.bulkUpdateNotes(notes, { appearance: { color } }, t.bulkActions.colorChanged);
+                        });
+                });
+            });
+        });
+
+        // サイズ変更（サブメニュー）
+        menu.addItem((item) => {
+            item.setTitle(t.contextMenu.changeSize)
+                .setIcon('maximize');
+
+            const submenu = (item as any).setSubmenu();
+            const sizeMap: Record<NoteSize, { width: number; height: number }> = {
+                small: { width: 150, height: 150 },
+                medium: { width: 200, height: 180 },
+                large: { width: 250, height: 220 }
+            };
+            (Object.keys(sizeMap) as NoteSize[]).forEach(size => {
+                submenu.addItem((subItem: any) => {
+                    subItem.setTitle(t.contextMenu.sizes[size])
+                        .onClick(async () => {
+                            await this.bulkUpdateNotes(
+                                notes,
+                                { dimensions: sizeMap[size], appearance: { size } },
+                                t.bulkActions.sizeChanged
+                            );
+                        });
+                });
+            });
+        });
+
+        menu.addSeparator();
+
+        // 完了/未完了（全て完了済みの場合のみ未完了に戻す）
+        const allCompleted = notes.every(note => note.completed);
+        menu.addItem((item) => {
+            item.setTitle(allCompleted ? t.contextMenu.markIncomplete : t.contextMenu.markComplete)
+                .setIcon(allCompleted ? 'circle' : 'check-circle')
+                .onClick(async () => {
+                    await this.bulkUpdateNotes(
+                        notes,
+                        { completed: !allCompleted },
+                        allCompleted ? t.bulkActions.markedIncomplete : t.bulkActions.markedComplete
+                    );
+                });
+        });
+
+        menu.addSeparator();
+
+        // ファイル名をコピー
+        menu.addItem((item) => {
+            item.setTitle(t.bulkActions.copyFilenames)
+                .setIcon('copy')
+                .onClick(async () => {
+                    await this.copyFilenames(notes);
+                });
+        });
+
+        // フォルダに移動
+        menu.addItem((item) => {
+            item.setTitle(t.bulkActions.moveToFolder)
+                .setIcon('folder-input')
+                .onClick(async () => {
+                    await this.moveNotesToFolder(notes);
+                });
+        });
+
+        // グループにまとめる・グループの解除
+        this.addGroupMenuItems(menu, notes);
+
+        // ボードへの追加・ボードから外す
+        this.addBoardMenuItems(menu, notes);
+
+        // 削除
+        menu.addItem((item) => {
+            item.setTitle(t.contextMenu.delete)
+                .setIcon('trash')
+                .onClick(async () => {
+                    await this.deleteNotes(notes);
+                });
+        });
+
+        this.showMenuAtEvent(menu, event);
+    }
+
+    private showMenuAtEvent(menu: Menu, event: MouseEvent | TouchEvent): void {
         if (event instanceof MouseEvent) {
             menu.showAtMouseEvent(event);
         } else {
@@ -790,6 +1874,186 @@ export class PostodoView extends ItemView {
         }
     }
 
+    private getSelectedNotes(): StickyNote[] {
+        return this.selection.getSelectedIds()
+            .map(id => this.notes.find(note => note.id === id))
+            .filter((note): note is StickyNote => note !== undefined);
+    }
+
+    // 選択中の付箋をまとめて更新し、結果を1つの通知にまとめる
+    private async bulkUpdateNotes(notes: StickyNote[], options: UpdateNoteOptions, successMessage: string): Promise<void> {
+        const result = await this.dataManager.updateNotes(notes.map(note => ({ id: note.id, options })));
+
+        if (result.success) {
+            this.feedbackSystem?.showSuccess(successMessage.replace('{count}', String(result.data.length)));
+        } else {
+            this.handleError(result.error, 'bulkUpdateNotes');
+        }
+    }
+
+    private async deleteNotes(notes: StickyNote[]): Promise<void> {
+        const t = this.getTranslations();
+        const results = await this.history.batch('delete', () =>
+            Promise.all(notes.map(note => this.dataManager.deleteNote(note.id)))
+        );
+        const failed = results.filter(result => !result.success).length;
+
+        this.selection.clear();
+        this.showBulkResult(t.bulkActions.deleted, notes.length, failed);
+    }
+
+    private async moveNotesToFolder(notes: StickyNote[]): Promise<void> {
+        const t = this.getTranslations();
+        const configProvider = this.container.resolve<ConfigProvider>(SERVICE_TOKENS.CONFIG);
+        const rootFolder = configProvider.get<string>('postodoFolder') || 'Postodo';
+
+        // Postodoフォルダ内の既存のサブフォルダを候補にする
+        const existingFolders = this.app.vault.getAllLoadedFiles()
+            .filter((file): file is TFolder => file instanceof TFolder && file.path.startsWith(`${rootFolder}/`))
+            .map(folder => folder.path.substring(rootFolder.length + 1))
+            .sort();
+
+        const targetFolder = await MoveToFolderModal.prompt(this.app, rootFolder, existingFolders, notes.length, t);
+        if (!targetFolder) return;
+
+        const results = await this.history.batch('move', () =>
+            Promise.all(notes.map(note => this.dataManager.moveNote(note.id, targetFolder)))
+        );
+        const failed = results.filter(result => !result.success).length;
+
+        this.showBulkResult(t.bulkActions.moved.replace('{folder}', targetFolder), notes.length, failed);
+    }
+
+    /**
+     * ビュー内でのみ有効な元に戻す・やり直すのショートカットを登録する
+     * テキスト入力中はエディタ標準の取り消しを優先する
+     */
+    private setupHistoryHotkeys(): void {
+        this.scope = new Scope(this.app.scope);
+
+        const register = (modifiers: ('Mod' | 'Shift')[], key: string, action: () => Promise<void>) => {
+            this.scope!.register(modifiers, key, (evt) => {
+                if (isEditableTarget(evt.target)) return true;
+                void action();
+                return false;
+            });
+        };
+
+        register(['Mod'], 'z', () => this.undo());
+        register(['Mod', 'Shift'], 'z', () => this.redo());
+        register(['Mod'], 'y', () => this.redo());
+    }
+
+    async undo(): Promise<void> {
+        const t = this.getTranslations();
+        const result = await this.history.undo();
+        this.showHistoryResult(result, t.history.undone, t.history.nothingToUndo);
+    }
+
+    async redo(): Promise<void> {
+        const t = this.getTranslations();
+        const result = await this.history.redo();
+        this.showHistoryResult(result, t.history.redone, t.history.nothingToRedo);
+    }
+
+    private showHistoryResult(
+        result: Result<HistoryCommand | null>,
+        successMessage: string,
+        emptyMessage: string
+    ): void {
+        const t = this.getTranslations();
+
+        if (!result.success) {
+            console.error('Failed to apply history:', result.error);
+            this.feedbackSystem?.showError(t.history.failed);
+            return;
+        }
+
+        if (!result.data) {
+            this.feedbackSystem?.showInfo(emptyMessage);
+            return;
+        }
+
+        this.feedbackSystem?.showSuccess(
+            successMessage
+                .replace('{action}', t.history.actions[result.data.type])
+                .replace('{count}', String(result.data.noteCount))
+        );
+    }
+
+    private async restoreFromTrash(entry: TrashEntry): Promise<void> {
+        const t = this.getTranslations();
+        const result = await this.dataManager.restoreFromTrash(entry.id);
+        if (result.success) {
+            this.feedbackSystem?.showSuccess(t.trash.restored.replace('{title}', result.data.title || entry.title));
+        } else {
+            console.error('Failed to restore note from trash:', result.error);
+            this.feedbackSystem?.showError(t.trash.restoreFailed);
+        }
+    }
+
+    private async purgeFromTrash(entry: TrashEntry): Promise<void> {
+        const t = this.getTranslations();
+        const result = await this.trashManager.purge(entry.id);
+        if (result.success) {
+            this.feedbackSystem?.showSuccess(t.trash.purged.replace('{title}', entry.title));
+        } else {
+            console.error('Failed to purge note from trash:', result.error);
+            this.feedbackSystem?.showError(t.trash.purgeFailed);
+        }
+    }
+
+    private async emptyTrash(): Promise<void> {
+        const t = this.getTranslations();
+        const count = this.trashManager.getEntries().length;
+        if (count === 0) return;
+
+        const confirmed = await ConfirmationModal.prompt(
+            this.app,
+            t.trash.emptyTrash,
+            t.trash.confirmEmptyMessage.replace('{count}', String(count)),
+            t.trash.cancel,
+            t.trash.emptyTrash
+        );
+        if (!confirmed) return;
+
+        const result = await this.trashManager.purgeAll();
+        if (result.success) {
+            this.feedbackSystem?.showSuccess(t.trash.emptied.replace('{count}', String(result.data)));
+        } else {
+            console.error('Failed to empty trash:', result.error);
+            this.feedbackSystem?.showError(t.trash.purgeFailed);
+        }
+    }
+
+    private async copyFilenames(notes: StickyNote[]): Promise<void> {
+        const t = this.getTranslations();
+        try {
+            const filenames = notes.map(note => note.filePath.split('/').pop() || note.filePath);
+            await navigator.clipboard.writeText(filenames.join('\n'));
+            this.feedbackSystem?.showSuccess(t.bulkActions.filenamesCopied.replace('{count}', String(notes.length)));
+        } catch (error) {
+            console.error('Failed to copy filenames:', error);
+            this.feedbackSystem?.showError('コピーに失敗しました');
+        }
+    }
+
+    // 一括操作の結果を1つの通知にまとめて表示する
+    private showBulkResult(successMessage: string, total: number, failed: number): void {
+        const t = this.getTranslations();
+        const message = successMessage.replace('{count}', String(total - failed));
+
+        if (failed > 0) {
+            this.feedbackSystem?.showWarning(
+                t.bulkActions.partialFailure
+                    .replace('{message}', message)
+                    .replace('{failed}', String(failed))
+            );
+        } else {
+            this.feedbackSystem?.showSuccess(message);
+        }
+    }
+
     // ノートファイルを開く
     private async openNoteFile(note: StickyNote): Promise<void> {
         try {
@@ -814,8 +2078,8 @@ export class PostodoView extends ItemView {
         if (result.success) {
             const noteIndex = this.notes.findIndex(n => n.id === noteId);
             if (noteIndex !== -1) {
-                this.notes[noteIndex] = result.data;
-                this.updateNoteElement(result.data);
+                this.notes[noteIndex] = this.toBoardNote(result.data) || result.data;
+                this.updateNoteElement(this.notes[noteIndex]);
             }
             this.feedbackSystem?.showSuccess('色を変更しました');
         } else {
@@ -840,8 +2104,8 @@ export class PostodoView extends ItemView {
         if (result.success) {
             const noteIndex = this.notes.findIndex(n => n.id === noteId);
             if (noteIndex !== -1) {
-                this.notes[noteIndex] = result.data;
-                this.updateNoteElement(result.data);
+                this.notes[noteIndex] = this.toBoardNote(result.data) || result.data;
+                this.updateNoteElement(this.notes[noteIndex]);
             }
             this.feedbackSystem?.showSuccess('サイズを変更しました');
         } else {
@@ -995,6 +2259,7 @@ export class PostodoView extends ItemView {
         // 位置の更新
         noteEl.style.left = `${note.position.x}px`;
         noteEl.style.top = `${note.position.y}px`;
+        noteEl.style.zIndex = note.position.zIndex.toString();
 
         // サイズの更新
         if (note.dimensions) {
@@ -1022,6 +2287,7 @@ export class PostodoView extends ItemView {
 
         // 完了状態に応じてスタイルを更新
         noteEl.className = `sticky-note ${note.completed ? 'completed' : 'pending'} ${isTaskNote ? 'task-note' : 'regular-note'}`;
+        noteEl.toggleClass('is-selected', this.selection.has(note.id));
         
         if (note.completed) {
             noteEl.style.opacity = '0.6';
@@ -1029,12 +2295,17 @@ export class PostodoView extends ItemView {
                 contentEl.style.textDecoration = 'line-through';
             }
         } else {
-            noteEl.style.opacity = '1';
+            // 期日のスタイル（開始前の付箋の透明度）を優先するためインラインの指定は外す
+            noteEl.style.opacity = '';
             if (contentEl) {
                 contentEl.style.textDecoration = 'none';
             }
         }
 
+        this.applyDueStatus(noteEl, note);
+        this.applyPriority(noteEl, note, isTaskNote);
+        this.applySearchMatch(noteEl, note.id);
+
         // チェックボックスの更新
         const checkboxEl = noteEl.querySelector('.note-checkbox, .task-checkbox') as HTMLInputElement;
         if (checkboxEl) {
@@ -1057,6 +2328,7 @@ export class PostodoView extends ItemView {
     }
 
     private removeNoteElement(noteId: string): void {
+        this.detachedNoteEls.delete(noteId);
         const noteEl = this.canvasEl.querySelector(`[data-note-id="${noteId}"]`);
         if (noteEl) {
             noteEl.remove();
@@ -1072,13 +2344,12 @@ export class PostodoView extends ItemView {
             
             setTimeout(() => {
                 noteEl.remove();
+                if (this.detachedNoteEls.get(noteId) === noteEl) {
+                    this.detachedNoteEls.delete(noteId);
+                }
                 
                 // ドラッグハンドラーのクリーンアップ
-                const dragHandler = this.dragHandlers.get(noteId);
-                if (dragHandler) {
-                    dragHandler.cleanup();
-                    this.dragHandlers.delete(noteId);
-                }
+                this.disposeDragHandler(noteId);
             }, 300);
         }
     }
@@ -1152,21 +2423,8 @@ export class PostodoView extends ItemView {
     }
 
     private optimizeRendering(): void {
-        // 描画の最適化処理
-        // 現在は基本的な実装のみ
-        const visibleNotes = this.notes.slice(0, 100); // 仮の最大値
-        
-        // 表示範囲外の付箋を非表示にする
-        this.notes.forEach((note, index) => {
-            const noteEl = this.canvasEl.querySelector(`[data-note-id="${note.id}"]`) as HTMLElement;
-            if (noteEl) {
-                if (index < 100) {
-                    noteEl.style.display = 'block';
-                } else {
-                    noteEl.style.display = 'none';
-                }
-            }
-        });
+        // 新しい最大描画数で描画対象を選び直す
+        this.updateVisibleNotes();
     }
 
     private handleSyncStatusChange(noteId: string, status: 'syncing' | 'synced' | 'error'): void {
@@ -1203,7 +2461,10 @@ export class PostodoView extends ItemView {
         indicator.title = `同期状態: ${status}`;
     }
 
-    private handleExternalModification(noteId: string, newNote: StickyNote): void {
+    private handleExternalModification(noteId: string, modified: StickyNote): void {
+        const newNote = this.toBoardNote(modified);
+        if (!newNote) return;
+
         // 通知
         this.feedbackSystem?.showWarning('付箋が外部で変更されました');
         
@@ -1233,29 +2494,604 @@ export class PostodoView extends ItemView {
         }
     }
 
-    private handleDefaultDisplayFilterChange(filter: DisplayFilterType): void {
+    private buildBoardSwitcher(controlsEl: HTMLElement): void {
+        const t = this.getTranslations().boards;
+        const boardContainer = controlsEl.createEl('div', { cls: 'postodo-board-container' });
+
+        this.boardSelectEl = boardContainer.createEl('select', {
+            cls: 'postodo-board-select',
+            attr: { 'aria-label': t.label }
+        });
+        this.renderBoardOptions();
+        this.boardSelectEl.addEventListener('change', () => {
+            this.switchBoard(this.boardSelectEl.value);
+        });
+
+        // ボードの作成・名前の変更・削除
+        const menuBtn = boardContainer.createEl('button', {
+            text: '⋯',
+            cls: 'postodo-board-menu-btn',
+            attr: { 'aria-label': t.menu }
+        });
+        menuBtn.addEventListener('click', (e) => this.showBoardMenu(e));
+    }
+
+    private renderBoardOptions(): void {
+        if (!this.boardSelectEl) return;
+
+        const t = this.getTranslations().boards;
+        this.boardSelectEl.empty();
+        this.boardSelectEl.createEl('option', { value: DEFAULT_BOARD_ID, text: t.allNotes });
+        this.boardManager.getBoards().forEach(board => {
+            this.boardSelectEl.createEl('option', { value: board.id, text: board.name });
+        });
+        this.boardSelectEl.value = this.boardId;
+    }
+
+    private showBoardMenu(event: MouseEvent): void {
+        const t = this.getTranslations().boards;
+        const board = this.boardManager.getBoard(this.boardId);
+        const menu = new Menu();
+
+        menu.addItem((item) => {
+            item.setTitle(t.newBoard)
+                .setIcon('plus')
+                .onClick(async () => {
+                    await this.createBoard();
+                });
+        });
+
+        if (board) {
+            menu.addItem((item) => {
+                item.setTitle(t.renameBoard)
+                    .setIcon('pencil')
+                    .onClick(async () => {
+                        const names = this.boardManager.getBoards().map(b => b.name);
+                        const name = await NameInputModal.prompt(this.app, t.renameModal, names, board.name);
+                        if (!name) return;
+                        const result = await this.boardManager.renameBoard(board.id, name);
+                        if (!result.success) {
+                            this.feedbackSystem?.showError(result.error.message);
+                        }
+                    });
+            });
+
+            menu.addItem((item) => {
+                item.setTitle(t.deleteBoard)
+                    .setIcon('trash')
+                    .onClick(async () => {
+                        const confirmed = await ConfirmationModal.prompt(
+                            this.app,
+                            t.deleteConfirmTitle,
+                            t.deleteConfirmMessage.replace('{name}', board.name),
+                            t.cancel,
+                            t.delete
+                        );
+                        if (confirmed) {
+                            await this.boardManager.deleteBoard(board.id);
+                        }
+                    });
+            });
+        }
+
+        menu.showAtMouseEvent(event);
+    }
+
+    /**
+     * 名前を入力してボードを作成し、作成したボードに切り替える
+     */
+    async createBoard(): Promise<void> {
+        const t = this.getTranslations().boards;
+        const names = this.boardManager.getBoards().map(board => board.name);
+        const name = await NameInputModal.prompt(this.app, t.nameModal, names);
+        if (!name) return;
+
+        const result = await this.boardManager.createBoard(name);
+        if (!result.success) {
+            this.feedbackSystem?.showError(result.error.message);
+            return;
+        }
+        await this.switchBoard(result.data.id);
+        this.feedbackSystem?.showSuccess(t.created.replace('{name}', result.data.name));
+    }
+
+    /**
+     * 表示するボードを切り替える
+     * ボードごとに保存した表示位置を復元し、付箋を読み込み直す
+     */
+    async switchBoard(boardId: string): Promise<void> {
+        // キャンバスファイルの読み込み前（ワークスペースの復元時）はボードの有無を読み込み後に確認する
+        const exists = this.boardManager.getBoard(boardId) !== undefined || !this.canvasLayout.isLoaded();
+        const nextBoardId = exists ? boardId : DEFAULT_BOARD_ID;
+        if (nextBoardId === this.boardId) {
+            this.renderBoardOptions();
+            return;
+        }
+
+        this.boardId = nextBoardId;
+        this.selection.clear();
+        this.renderBoardOptions();
+        (this.leaf as any).updateHeader?.();
+
+        this.restoreViewport();
+        await this.loadNotes();
+        this.app.workspace.requestSaveLayout();
+    }
+
+    /**
+     * 表示中のボードに保存した表示位置に戻す
+     */
+    private restoreViewport(): void {
+        if (!this.viewport) return;
+        const viewportStore = this.container.resolve<PersistentStore<ViewportState>>(SERVICE_TOKENS.VIEWPORT_STORE);
+        this.viewport.setState(viewportStore.get(this.getViewportKey()) || DEFAULT_VIEWPORT);
+    }
+
+    getBoardId(): string {
+        return this.boardId;
+    }
+
+    /**
+     * 付箋を表示中のボード上の位置に置き換える
+     * @returns ボードに含まれない付箋の場合はnull（既定のボードでは常に返す）
+     */
+    private toBoardNote(note: StickyNote): StickyNote | null {
+        return this.boardManager.placeNotes(this.boardId, [note])[0] || null;
+    }
+
+    /**
+     * 作成した付箋を表示中の付箋に加える（ボードを表示中の場合は作成した位置でボードにも追加する）
+     */
+    private async addCreatedNoteToBoard(note: StickyNote): Promise<void> {
+        if (this.boardId !== DEFAULT_BOARD_ID) {
+            // ボードの変更イベントで読み込み直さないよう、先に表示中の付箋に加える
+            this.notes.push(note);
+            await this.boardManager.addNotes(this.boardId, [{ id: note.id, position: note.position }]);
+            return;
+        }
+        this.notes.push(note);
+    }
+
+    /**
+     * 付箋の位置をキャンバスファイルに保存する（付箋のファイルは書き換えない）
+     */
+    private async savePositions(placements: BoardPlacement[]): Promise<Result<StickyNote[]>> {
+        const result = await this.boardManager.setPositions(this.boardId, placements);
+        if (!result.success) {
+            return result;
+        }
+        const notes = placements
+            .map(({ id }) => this.notes.find(note => note.id === id))
+            .filter((note): note is StickyNote => note !== undefined);
+        return { success: true, data: notes };
+    }
+
+    /**
+     * ボード上で移動した付箋の表示を更新する（元に戻す・やり直すや他のビューでの移動も含む）
+     * 位置がない付箋は、保存した位置を取り消したため付箋のファイルの位置に戻す
+     */
+    private async applyBoardPlacements(placements: { id: string; position?: Position }[]): Promise<void> {
+        for (const { id, position } of placements) {
+            let nextPosition = position;
+            if (!nextPosition) {
+                const result = await this.dataManager.getNote(id);
+                if (!result.success || !result.data) continue;
+                nextPosition = result.data.position;
+            }
+
+            const index = this.notes.findIndex(note => note.id === id);
+            if (index === -1) continue;
+            this.notes[index] = { ...this.notes[index], position: { ...nextPosition } };
+            this.updateNoteElement(this.notes[index]);
+        }
+        this.scheduleVisibleNotesUpdate();
+    }
+
+    /**
+     * 付箋をグループにまとめる・グループを解除するメニューを追加する
+     * カンバン表示では位置を使用しないためグループを扱わない
+     */
+    private addGroupMenuItems(menu: Menu, notes: StickyNote[]): void {
+        if (this.getKanbanSettings()) return;
+
+        const t = this.getTranslations().boards;
+        const noteIds = notes.map(note => note.id);
+        const grouped = this.boardManager.getGroups(this.boardId).some(group => group.noteIds.some(id => noteIds.includes(id)));
+
+        if (notes.length >= 2) {
+            menu.addItem((item) => {
+                item.setTitle(t.groupNotes)
+                    .setIcon('group')
+                    .onClick(async () => {
+                        const result = await this.boardManager.groupNotes(this.boardId, notes);
+                        if (result.success) {
+                            this.feedbackSystem?.showSuccess(t.grouped.replace('{count}', String(notes.length)));
+                        } else {
+                            this.handleError(result.error, 'groupNotes');
+                        }
+                    });
+            });
+        }
+
+        if (grouped) {
+            menu.addItem((item) => {
+                item.setTitle(t.ungroupNotes)
+                    .setIcon('ungroup')
+                    .onClick(async () => {
+                        const result = await this.boardManager.ungroupNotes(this.boardId, noteIds);
+                        if (result.success) {
+                            this.feedbackSystem?.showSuccess(t.ungrouped);
+                        } else {
+                            this.handleError(result.error, 'ungroupNotes');
+                        }
+                    });
+            });
+        }
+    }
+
+    /**
+     * 付箋をボードに追加・表示中のボードから外すメニューを追加する
+     */
+    private addBoardMenuItems(menu: Menu, notes: StickyNote[]): void {
+        const t = this.getTranslations().boards;
+        const boards = this.boardManager.getBoards().filter(board => board.id !== this.boardId);
+
+        if (boards.length > 0) {
+            menu.addItem((item) => {
+                item.setTitle(t.addToBoard)
+                    .setIcon('layout-dashboard');
+
+                const submenu = (item as any).setSubmenu();
+                boards.forEach(board => {
+                    submenu.addItem((subItem: any) => {
+                        subItem.setTitle(board.name)
+                            .onClick(async () => {
+                                // 表示中の位置で追加する（追加後は各ボードで別々に移動できる）
+                                const result = await this.boardManager.addNotes(
+                                    board.id,
+                                    notes.map(note => ({ id: note.id, position: note.position }))
+                                );
+                                if (result.success) {
+                                    this.feedbackSystem?.showSuccess(t.added
+                                        .replace('{count}', String(notes.length))
+                                        .replace('{name}', board.name));
+                                } else {
+                                    this.handleError(result.error, 'addToBoard');
+                                }
+                            });
+                    });
+                });
+            });
+        }
+
+        if (this.boardId !== DEFAULT_BOARD_ID) {
+            menu.addItem((item) => {
+                item.setTitle(t.removeFromBoard)
+                    .setIcon('minus-circle')
+                    .onClick(async () => {
+                        const result = await this.boardManager.removeNotes(this.boardId, notes.map(note => note.id));
+                        if (result.success) {
+                            this.feedbackSystem?.showSuccess(t.removed.replace('{count}', String(notes.length)));
+                        } else {
+                            this.handleError(result.error, 'removeFromBoard');
+                        }
+                    });
+            });
+        }
+
+        if (boards.length > 0 || this.boardId !== DEFAULT_BOARD_ID) {
+            menu.addSeparator();
+        }
+    }
+
+    /**
+     * カンバン表示の列の設定を返す
+     * @returns 表示方法がキャンバスの場合はnull
+     */
+    private getKanbanSettings(): KanbanSettings | null {
+        const configProvider = this.container.resolve<ConfigProvider>(SERVICE_TOKENS.CONFIG);
+        if (configProvider.get<LayoutMode>('ui.layout') !== 'kanban') return null;
+        return parseKanbanSettings(configProvider.get<KanbanSettings>('ui.kanban'));
+    }
+
+    // 表示方法に応じてキャンバスとカンバンの表示を切り替える
+    private applyLayoutClass(): void {
+        const kanban = this.getKanbanSettings() !== null;
+        this.containerEl.toggleClass('postodo-kanban-layout', kanban);
+        if (!kanban) {
+            this.kanbanEl?.empty();
+        }
+    }
+
+    private getKanbanColumnLabel(value: string | null, settings: KanbanSettings): string {
+        const t = this.getTranslations().kanban;
+        if (value === null) return t.noValue;
+        if (settings.source === 'completion') {
+            return value === 'complete' ? t.complete : t.incomplete;
+        }
+        return settings.source === 'tag' ? `#${value}` : value;
+    }
+
+    /**
+     * 表示中の付箋をカンバンの列に分けて描画する
+     * 各列の付箋は選択中の保存した表示の並び順で積み重ねる（キャンバス上の位置は使用しない）
+     */
+    private renderKanban(settings: KanbanSettings): void {
+        // 編集中のカードを置き換えないよう、編集が終わるまで描画し直さない
+        if (this.notes.some(note => this.dataManager.isNoteBeingEdited(note.id))) return;
+
+        this.kanbanEl.empty();
+        const notesToShow = this.notes
+            .filter(note => this.displayFilter.shouldDisplay(note))
+            .sort(getNoteComparator(this.getActiveSortOrder()));
+
+        groupNotesIntoColumns(notesToShow, settings).forEach(column => {
+            const columnEl = this.kanbanEl.createEl('div', { cls: 'postodo-kanban-column' });
+            const headerEl = columnEl.createEl('div', { cls: 'postodo-kanban-column-header' });
+            headerEl.createEl('span', { cls: 'postodo-kanban-column-title', text: this.getKanbanColumnLabel(column.value, settings) });
+            headerEl.createEl('span', { cls: 'postodo-kanban-column-count', text: String(column.notes.length) });
+
+            const cardsEl = columnEl.createEl('div', { cls: 'postodo-kanban-cards' });
+            column.notes.forEach(note => this.renderKanbanCard(cardsEl, note));
+            this.setupKanbanDropTarget(columnEl, column.value);
+        });
+    }
+
+    private renderKanbanCard(cardsEl: HTMLElement, note: StickyNote): void {
+        const isTaskNote = PostodoNoteDetector.isTaskNote(note);
+        const cardEl = cardsEl.createEl('div', {
+            cls: `postodo-kanban-card ${note.completed ? 'completed' : 'pending'}`,
+            attr: { 'data-note-id': note.id, draggable: 'true' }
+        });
+        const filename = note.filePath.split('/').pop() || note.filePath;
+        cardEl.title = this.t('tooltip.filename').replace('{filename}', filename);
+        cardEl.style.backgroundColor = this.getColorValue(note.appearance.color);
+
+        this.applyDueStatus(cardEl, note);
+        this.applyPriority(cardEl, note, isTaskNote);
+        this.applySearchMatch(cardEl, note.id);
+
+        if (note.title) {
+            cardEl.createEl('div', { cls: 'postodo-kanban-card-title', text: note.title });
+        }
+        const contentEl = cardEl.createEl('div', {
+            cls: isTaskNote ? 'task-content' : 'note-content',
+            text: isTaskNote ? PostodoNoteDetector.formatTaskContent(note) : note.content
+        });
+
+        const checkboxEl = cardEl.createEl('input', { type: 'checkbox', cls: 'note-checkbox' });
+        checkboxEl.checked = note.completed;
+        const t = this.getTranslations();
+        checkboxEl.title = note.completed ? t.actionBar.complete : t.actionBar.incomplete;
+        checkboxEl.addEventListener('change', () => this.toggleNoteCompletion(note.id));
+
+        contentEl.addEventListener('dblclick', () => this.editNote(note, contentEl));
+        cardEl.addEventListener('contextmenu', (e) => {
+            e.preventDefault();
+            this.showContextMenu(note, e);
+        });
+        cardEl.addEventListener('dragstart', (e) => {
+            e.dataTransfer?.setData(KANBAN_DRAG_TYPE, note.id);
+            if (e.dataTransfer) {
+                e.dataTransfer.effectAllowed = 'move';
+            }
+            cardEl.addClass('dragging');
+        });
+        cardEl.addEventListener('dragend', () => cardEl.removeClass('dragging'));
+    }
+
+    // カードを列にドロップすると、その列の値に書き換える
+    private setupKanbanDropTarget(columnEl: HTMLElement, value: string | null): void {
+        columnEl.addEventListener('dragover', (e) => {
+            if (!e.dataTransfer?.types.includes(KANBAN_DRAG_TYPE)) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'move';
+            columnEl.addClass('is-drop-target');
+        });
+        columnEl.addEventListener('dragleave', (e) => {
+            if (!columnEl.contains(e.relatedTarget as Node | null)) {
+                columnEl.removeClass('is-drop-target');
+            }
+        });
+        columnEl.addEventListener('drop', (e) => {
+            const noteId = e.dataTransfer?.getData(KANBAN_DRAG_TYPE);
+            columnEl.removeClass('is-drop-target');
+            if (!noteId) return;
+            e.preventDefault();
+            this.moveNoteToColumn(noteId, value);
+        });
+    }
+
+    /**
+     * 付箋をカンバンの列に移動する
+     * 列を決める値（完了状態、タグ、フロントマターの項目）だけを書き換え、キャンバスに戻した時のため位置は変更しない
+     */
+    private async moveNoteToColumn(noteId: string, value: string | null): Promise<void> {
+        const settings = this.getKanbanSettings();
+        const note = this.notes.find(n => n.id === noteId);
+        if (!settings || !note) return;
+
+        const options = getKanbanColumnUpdate(note, value, settings);
+        if (!options) return;
+
+        const result = await this.dataManager.updateNote(note.id, options);
+        if (result.success) {
+            this.feedbackSystem?.showSuccess(this.getTranslations().kanban.moved
+                .replace('{column}', this.getKanbanColumnLabel(value, settings)));
+        } else {
+            this.handleError(result.error, 'moveNoteToColumn');
+        }
+    }
+
+    // カンバン表示の場合に、付箋を他の列に移動するメニューを追加する
+    private addKanbanMenuItems(menu: Menu, note: StickyNote): void {
+        const settings = this.getKanbanSettings();
+        if (!settings) return;
+
+        const current = getKanbanColumnValue(note, settings);
+        const values = groupNotesIntoColumns(this.notes, settings)
+            .map(column => column.value)
+            .filter(value => value !== current);
+        if (values.length === 0) return;
+
+        menu.addItem((item) => {
+            item.setTitle(this.getTranslations().kanban.moveToColumn)
+                .setIcon('columns');
+
+            const submenu = (item as any).setSubmenu();
+            values.forEach(value => {
+                submenu.addItem((subItem: any) => {
+                    subItem.setTitle(this.getKanbanColumnLabel(value, settings))
+                        .onClick(() => this.moveNoteToColumn(note.id, value));
+                });
+            });
+        });
+        menu.addSeparator();
+    }
+
+    private handleDefaultDisplayFilterChange(value: string): void {
         // デフォルト表示フィルターの変更に応じた処理
-        console.log(`[DEBUG] PostodoView: Default display filter changed to ${filter}`);
+        console.log(`[DEBUG] PostodoView: Default display filter changed to ${value}`);
         
+        const parts = parseSavedFilter(value);
+        if (!parts) return;
+
         // 現在のフィルターを新しいデフォルトに更新
-        this.displayFilter.setFilter(filter);
-        
-        // フィルターセレクトボックスの値を更新
-        if (this.filterSelectEl) {
-            this.filterSelectEl.value = filter;
-        }
+        this.applySavedFilter(parts);
         
         // 通知を表示
-        const filterLabels: Record<DisplayFilterType, string> = {
-            'incomplete': '未完了のみ',
-            'complete': '完了のみ',
-            'all': 'すべて'
-        };
-        this.feedbackSystem?.showInfo(`デフォルトフィルターが「${filterLabels[filter]}」に変更されました`);
+        const isCustom = parts.minPriority !== 'low' || parts.condition !== null;
+        this.feedbackSystem?.showInfo(`デフォルトフィルターが「${isCustom ? 'カスタム' : this.getFilterLabel(parts.filter)}」に変更されました`);
         
         // 付箋の表示を更新（setFilterで自動的にonFilterChangedが呼ばれるため、renderAllNotesは不要）
     }
 
+    /**
+     * フィルターの表示名（期日が近いものは設定の日数を含める）
+     */
+    private getFilterLabel(filter: DisplayFilterType): string {
+        switch (filter) {
+            case 'incomplete':
+                return '未完了のみ';
+            case 'complete':
+                return '完了のみ';
+            case 'all':
+                return 'すべて';
+            case 'due-soon':
+                return `期日が${this.displayFilter.dueSoonDays}日以内`;
+        }
+    }
+
+    private updateConditionChip(): void {
+        this.conditionChipEl?.toggle(this.displayFilter.condition !== null);
+    }
+
+    /**
+     * 現在のフィルターの設定を返す（デフォルトのフィルターとして保存する時に使用する）
+     */
+    getSavedFilter(): SavedFilterParts {
+        return this.displayFilter.getSavedFilter();
+    }
+
+    /**
+     * 保存したフィルターを適用し、ヘッダーのフィルターの表示を合わせる
+     */
+    applySavedFilter(parts: SavedFilterParts): void {
+        this.activeView = null;
+        this.displayFilter.applySavedFilter(parts);
+        if (this.filterSelectEl) {
+            this.filterSelectEl.value = parts.filter;
+        }
+        if (this.priorityFilterEl) {
+            this.priorityFilterEl.value = parts.minPriority;
+        }
+        this.updateArrangeButton();
+    }
+
+    private getSavedViews(): SavedView[] {
+        const configProvider = this.container.resolve<ConfigProvider>(SERVICE_TOKENS.CONFIG);
+        return parseSavedViews(configProvider.get<SavedView[]>('savedViews'));
+    }
+
+    /**
+     * 保存した表示をフィルターの選択肢に追加する（設定が変更された時は作り直す）
+     */
+    private renderSavedViewOptions(): void {
+        if (!this.filterSelectEl) return;
+
+        this.savedViewsGroupEl?.remove();
+        this.savedViewsGroupEl = undefined;
+
+        const views = this.getSavedViews();
+        // 選択中の表示が削除された場合は解除し、名前や並び順の変更は反映する
+        if (this.activeView) {
+            this.activeView = views.find(view => view.id === this.activeView!.id) || null;
+            this.updateArrangeButton();
+        }
+        if (views.length > 0) {
+            this.savedViewsGroupEl = this.filterSelectEl.createEl('optgroup', {
+                attr: { label: this.getTranslations().views.group }
+            });
+            views.forEach(view => {
+                this.savedViewsGroupEl!.createEl('option', { value: SAVED_VIEW_OPTION_PREFIX + view.id, text: view.name });
+            });
+        }
+        this.filterSelectEl.value = this.activeView
+            ? SAVED_VIEW_OPTION_PREFIX + this.activeView.id
+            : this.displayFilter.currentFilter;
+    }
+
+    /**
+     * 保存した表示に切り替える
+     * フィルターを適用し、表示位置が保存されていればその位置に移動する
+     */
+    applySavedView(view: SavedView): void {
+        const parts = parseSavedFilter(view.filter);
+        if (parts) {
+            this.applySavedFilter(parts);
+        }
+        if (view.viewport && this.viewport) {
+            this.viewport.setState({ ...view.viewport });
+        }
+
+        this.activeView = view;
+        if (this.filterSelectEl) {
+            this.filterSelectEl.value = SAVED_VIEW_OPTION_PREFIX + view.id;
+        }
+        this.updateArrangeButton();
+    }
+
+    /**
+     * 保存した表示の選択を解除し、ヘッダーのフィルターの表示を現在のフィルターに戻す
+     */
+    private deactivateSavedView(): void {
+        if (!this.activeView) return;
+        this.activeView = null;
+        this.filterSelectEl.value = this.displayFilter.currentFilter;
+        this.updateArrangeButton();
+    }
+
+    /**
+     * 現在の表示を保存する内容を返す（表示の名前とIDは保存する側で付ける）
+     */
+    getCurrentViewState(): Pick<SavedView, 'filter' | 'viewport' | 'sort'> {
+        return {
+            filter: serializeSavedFilter(this.getSavedFilter()),
+            viewport: this.viewport?.getState(),
+            sort: this.getActiveSortOrder()
+        };
+    }
+
+    private getActiveSortOrder(): NoteSortOrder {
+        return this.activeView?.sort || 'priority';
+    }
+
+    private updateArrangeButton(): void {
+        if (!this.arrangeBtnEl) return;
+        const t = this.getTranslations();
+        this.arrangeBtnEl.setAttribute('aria-label', t.views.arrange.replace('{sort}', t.views.sortOrders[this.getActiveSortOrder()]));
+    }
+
     private handleNamingStrategyChange(strategy: string): void {
         // 命名方式の変更に応じた処理
         console.log(`[DEBUG] PostodoView: Naming strategy changed to ${strategy}`);
@@ -1272,7 +3108,7 @@ export class PostodoView extends ItemView {
     }
 
     private adjustCanvasHeight(): void {
-        if (!this.canvasEl) return;
+        if (!this.viewportEl) return;
         
         // ウィンドウの高さを取得
         const windowHeight = window.innerHeight;
@@ -1283,7 +3119,6 @@ export class PostodoView extends ItemView {
         // 最小高さを設定（スクロール可能）
         const minHeight = Math.max(800, windowHeight - controlsHeight - 100);
         
-        this.canvasEl.style.minHeight = `${minHeight}px`;
-        this.canvasEl.style.height = 'auto';
+        this.viewportEl.style.minHeight = `${minHeight}px`;
     }
 }
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { Notice } from 'obsidian';
+import { DueReminder } from '../interfaces/data/i-reminder-service';
+import { Translations } from '../i18n/translations';
+
+/**
+ * リマインダーの通知の操作
+ */
+export interface ReminderNoticeActions {
+    snooze(reminder: DueReminder): void;
+    complete(reminder: DueReminder): Promise<void>;
+}
+
+/**
+ * リマインダーを閉じるまで表示し続ける通知
+ * スヌーズと完了のボタンを表示し、どちらかを押すと閉じる
+ */
+export function showReminderNotice(
+    dueReminder: DueReminder,
+    t: Translations,
+    snoozeMinutes: number,
+    actions: ReminderNoticeActions
+): Notice {
+    const { reminder, note } = dueReminder;
+    const message = (reminder.kind === 'due' ? t.reminder.due : t.reminder.scheduled)
+        .replace('{time}', reminder.time ? `${reminder.date} ${reminder.time}` : reminder.date)
+        .replace('{title}', note.title || note.content.split('\n')[0]);
+
+    const fragment = document.createDocumentFragment();
+    const containerEl = fragment.createDiv('postodo-reminder-notice');
+    containerEl.createDiv({ cls: 'postodo-reminder-message', text: message });
+
+    const buttonsEl = containerEl.createDiv('postodo-reminder-actions');
+    const snoozeBtn = buttonsEl.createEl('button', {
+        text: t.reminder.snooze.replace('{minutes}', String(snoozeMinutes))
+    });
+    const completeBtn = buttonsEl.createEl('button', { cls: 'mod-cta', text: t.reminder.complete });
+
+    // 時間では閉じず、操作するか通知をクリックするまで表示する
+    const notice = new Notice(fragment, 0);
+
+    snoozeBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        actions.snooze(dueReminder);
+        notice.hide();
+    });
+    completeBtn.addEventListener('click', async (e) => {
+        e.stopPropagation();
+        notice.hide();
+        await actions.complete(dueReminder);
+    });
+
+    return notice;
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { StickyNote } from '../types/core-types';
+import { CanvasRect } from './canvas-viewport';
+import { rectsIntersect, selectNotesToRender } from './render-window';
+
+const positionArb = fc.record({
+    x: fc.integer({ min: 0, max: 10000 }),
+    y: fc.integer({ min: 0, max: 10000 })
+});
+
+const notesArb = fc.array(positionArb, { minLength: 0, maxLength: 300 })
+    .map(positions => positions.map((position, index) => createNote(`note-${index}`, position.x, position.y)));
+
+const visibleRectArb: fc.Arbitrary<CanvasRect> = fc.record({
+    x: fc.integer({ min: 0, max: 8000 }),
+    y: fc.integer({ min: 0, max: 8000 }),
+    width: fc.integer({ min: 100, max: 3000 }),
+    height: fc.integer({ min: 100, max: 3000 })
+});
+
+/**
+ * 表示範囲による描画対象の選択のテスト
+ */
+describe('selectNotesToRender', () => {
+    /**
+     * 最大数以内であれば、表示範囲と余白に重なる付箋だけが全て選択される
+     */
+    it('should select exactly the notes intersecting the expanded visible rect', () => {
+        fc.assert(
+            fc.property(notesArb, visibleRectArb, fc.integer({ min: 0, max: 500 }), (notes, visibleRect, margin) => {
+                const selected = selectNotesToRender(notes, visibleRect, { margin, maxRendered: notes.length });
+                const selectedIds = new Set(selected.map(note => note.id));
+                const renderRect = {
+                    x: visibleRect.x - margin,
+                    y: visibleRect.y - margin,
+                    width: visibleRect.width + margin * 2,
+                    height: visibleRect.height + margin * 2
+                };
+
+                notes.forEach(note => {
+                    const intersects = rectsIntersect(
+                        { x: note.position.x, y: note.position.y, width: note.dimensions.width, height: note.dimensions.height },
+                        renderRect
+                    );
+                    expect(selectedIds.has(note.id)).toBe(intersects);
+                });
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 選択数は最大数を超えず、入力の順序を保持する
+     */
+    it('should cap the selection and keep the input order', () => {
+        fc.assert(
+            fc.property(notesArb, visibleRectArb, fc.integer({ min: 0, max: 50 }), (notes, visibleRect, maxRendered) => {
+                const selected = selectNotesToRender(notes, visibleRect, { margin: 200, maxRendered });
+
+                expect(selected.length).toBeLessThanOrEqual(maxRendered);
+                const indexes = selected.map(note => notes.indexOf(note));
+                expect(indexes).toEqual([...indexes].sort((a, b) => a - b));
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 最大数を超える場合は表示範囲の中心に近い付箋を優先する
+     */
+    it('should prefer notes closest to the center when over the limit', () => {
+        const visibleRect = { x: 0, y: 0, width: 1000, height: 1000 };
+        const center = createNote('center', 400, 410);
+        const corner = createNote('corner', 0, 0);
+        const edge = createNote('edge', 800, 400);
+
+        const selected = selectNotesToRender([corner, edge, center], visibleRect, { margin: 0, maxRendered: 2 });
+
+        expect(selected.map(note => note.id)).toEqual(['edge', 'center']);
+    });
+
+    /**
+     * 1000枚の付箋でも表示範囲外の付箋は選択されない
+     */
+    it('should skip off-screen notes on a board at the max note limit', () => {
+        const notes = Array.from({ length: 1000 }, (_, i) => createNote(`note-${i}`, (i % 40) * 250, Math.floor(i / 40) * 250));
+
+        const selected = selectNotesToRender(notes, { x: 0, y: 0, width: 1200, height: 800 }, { margin: 200, maxRendered: 100 });
+
+        expect(selected.length).toBeGreaterThan(0);
+        expect(selected.length).toBeLessThan(100);
+        selected.forEach(note => {
+            expect(note.position.x).toBeLessThan(1400);
+            expect(note.position.y).toBeLessThan(1000);
+        });
+    });
+});
+
+/**
+ * テスト用の付箋を作成するヘルパー
+ */
+function createNote(id: string, x: number, y: number): StickyNote {
+    return {
+        id,
+        filePath: `Postodo/${id}.md`,
+        title: id,
+        content: 'Content',
+        position: { x, y, zIndex: 1 },
+        dimensions: { width: 200, height: 180 },
+        appearance: { color: 'yellow', size: 'medium', rotation: 0 },
+        metadata: { created: '2025-01-01T00:00:00.000Z', modified: '2025-01-01T00:00:00.000Z', tags: [], links: [], attachments: [] },
+        completed: false
+    };
+}
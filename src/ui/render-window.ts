@@ -0,0 +1,79 @@
+import { StickyNote } from '../types/core-types';
+import { CanvasRect } from './canvas-viewport';
+
+/**
+ * 描画対象の選択オプション
+ */
+export interface RenderWindowOptions {
+    // 表示範囲の外側に追加で描画する幅（キャンバス座標系）
+    margin: number;
+    // 同時に描画する付箋の最大数
+    maxRendered: number;
+}
+
+/**
+ * 矩形を四方に広げる
+ */
+export function expandRect(rect: CanvasRect, margin: number): CanvasRect {
+    return {
+        x: rect.x - margin,
+        y: rect.y - margin,
+        width: rect.width + margin * 2,
+        height: rect.height + margin * 2
+    };
+}
+
+/**
+ * 2つの矩形が重なっているかどうか（辺が接するだけの場合は重ならない）
+ */
+export function rectsIntersect(a: CanvasRect, b: CanvasRect): boolean {
+    return a.x < b.x + b.width &&
+        b.x < a.x + a.width &&
+        a.y < b.y + b.height &&
+        b.y < a.y + a.height;
+}
+
+function noteRect(note: StickyNote): CanvasRect {
+    return {
+        x: note.position.x,
+        y: note.position.y,
+        width: note.dimensions.width,
+        height: note.dimensions.height
+    };
+}
+
+/**
+ * 表示範囲（とその周辺）に重なる付箋を選択する
+ * 最大数を超える場合は表示範囲の中心に近い付箋を優先する
+ * @returns 描画する付箋（入力の順序を保持）
+ */
+export function selectNotesToRender(
+    notes: StickyNote[],
+    visibleRect: CanvasRect,
+    options: RenderWindowOptions
+): StickyNote[] {
+    const renderRect = expandRect(visibleRect, options.margin);
+    const candidates = notes.filter(note => rectsIntersect(noteRect(note), renderRect));
+
+    const maxRendered = Math.max(0, options.maxRendered);
+    if (candidates.length <= maxRendered) {
+        return candidates;
+    }
+
+    const centerX = visibleRect.x + visibleRect.width / 2;
+    const centerY = visibleRect.y + visibleRect.height / 2;
+    const distance = (note: StickyNote): number => {
+        const x = note.position.x + note.dimensions.width / 2;
+        const y = note.position.y + note.dimensions.height / 2;
+        return (x - centerX) ** 2 + (y - centerY) ** 2;
+    };
+
+    const selectedIds = new Set(
+        candidates
+            .map(note => ({ id: note.id, distance: distance(note) }))
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, maxRendered)
+            .map(entry => entry.id)
+    );
+    return candidates.filter(note => selectedIds.has(note.id));
+}
@@ -0,0 +1,31 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { SavedView } from '../types/config-types';
+import { Translations } from '../i18n/translations';
+
+/**
+ * 保存した表示を名前で検索して選択するモーダル
+ */
+export class SavedViewSuggestModal extends FuzzySuggestModal<SavedView> {
+    constructor(
+        app: App,
+        private views: SavedView[],
+        t: Translations,
+        private onChoose: (view: SavedView) => void
+    ) {
+        super(app);
+        this.setPlaceholder(t.views.switchPlaceholder);
+        this.emptyStateText = t.views.noViews;
+    }
+
+    getItems(): SavedView[] {
+        return this.views;
+    }
+
+    getItemText(view: SavedView): string {
+        return view.name;
+    }
+
+    onChooseItem(view: SavedView): void {
+        this.onChoose(view);
+    }
+}
@@ -1,5 +1,30 @@
-import { StickyNote } from '../types/core-types';
+import { StickyNote, Position, Result } from '../types/core-types';
 import { DataManager } from '../implementations/data/data-manager';
+import { snapPosition } from './grid-snap';
+
+export interface DragHandlerOptions {
+    // キャンバスの表示倍率（ズーム中も付箋がポインタに追従するように使用）
+    getZoom?: () => number;
+    // スナップするグリッドの間隔（スナップしない場合は0）
+    getSnapGridSize?: () => number;
+    // Shiftクリック時に選択を切り替える（指定時はShiftクリックでドラッグを開始しない）
+    onToggleSelect?: (noteId: string) => void;
+    // ドラッグ対象と一緒に移動する付箋（ドラッグ対象自身は含まない）
+    getDragGroup?: (noteId: string) => DragGroupMember[];
+    // 移動後の位置の保存先（省略時は付箋のファイルに書き込む。キャンバスファイルへの保存に使用する）
+    savePositions?: (placements: { id: string; position: Position }[]) => Promise<Result<StickyNote[]>>;
+}
+
+export interface DragGroupMember {
+    note: StickyNote;
+    // 仮想化により描画されていない場合はundefined
+    element?: HTMLElement;
+}
+
+interface DraggingMember extends DragGroupMember {
+    initialX: number;
+    initialY: number;
+}
 
 export class SimpleDragHandler {
     private isDragging = false;
@@ -13,8 +38,11 @@ export class SimpleDragHandler {
     private noteElement?: HTMLElement;
     private canvasElement?: HTMLElement;
     private onDragEnd?: (timestamp: number) => void;
+    private group: DraggingMember[] = [];
+    private deltaX = 0;
+    private deltaY = 0;
 
-    constructor(private dataManager: DataManager) {}
+    constructor(private dataManager: DataManager, private options: DragHandlerOptions = {}) {}
 
     setupDragHandlers(noteElement: HTMLElement, note: StickyNote, canvasElement: HTMLElement, onDragEnd?: (timestamp: number) => void): void {
         this.noteElement = noteElement;
@@ -34,6 +62,13 @@ export class SimpleDragHandler {
             return;
         }
 
+        // Shiftクリックは選択の切り替えのみ
+        if (e.shiftKey && this.options.onToggleSelect && this.currentNote) {
+            e.preventDefault();
+            this.options.onToggleSelect(this.currentNote.id);
+            return;
+        }
+
         e.preventDefault();
         this.startDrag(e.clientX, e.clientY);
     };
@@ -51,21 +86,33 @@ export class SimpleDragHandler {
 
         // 付箋の現在位置を取得
         const noteRect = this.noteElement.getBoundingClientRect();
-        const canvasRect = this.canvasElement.getBoundingClientRect();
+        const zoom = this.getZoom();
         
-        // マウス位置と付箋左上角の相対位置を計算
-        this.offsetX = clientX - noteRect.left;
-        this.offsetY = clientY - noteRect.top;
+        // マウス位置と付箋左上角の相対位置を計算（キャンバス座標系）
+        this.offsetX = (clientX - noteRect.left) / zoom;
+        this.offsetY = (clientY - noteRect.top) / zoom;
         
         this.isDragging = true;
         this.startX = clientX;
         this.startY = clientY;
-        this.initialX = this.currentNote.position.x;
-        this.initialY = this.currentNote.position.y;
+        // 外部からの変更で位置が更新されている場合があるため、表示中の位置を基準にする
+        this.initialX = this.readPosition(this.noteElement.style.left, this.currentNote.position.x);
+        this.initialY = this.readPosition(this.noteElement.style.top, this.currentNote.position.y);
+        this.deltaX = 0;
+        this.deltaY = 0;
+
+        // 選択中の他の付箋も相対位置を保ったまま移動する
+        const group = this.options.getDragGroup ? this.options.getDragGroup(this.currentNote.id) : [];
+        this.group = group.map(member => ({
+            ...member,
+            initialX: member.note.position.x,
+            initialY: member.note.position.y
+        }));
 
         // ドラッグ中のスタイル
         this.noteElement.classList.add('dragging');
         this.noteElement.style.zIndex = '1000';
+        this.group.forEach(member => member.element?.classList.add('dragging'));
 
         // ドキュメントレベルでイベントリスナーを追加
         document.addEventListener('mousemove', this.handleMouseMove);
@@ -77,7 +124,8 @@ export class SimpleDragHandler {
     private handleMouseMove = (e: MouseEvent): void => {
         if (!this.isDragging) return;
         e.preventDefault();
-        this.updatePosition(e.clientX, e.clientY);
+        // Altキーを押している間はグリッドに吸着しない
+        this.updatePosition(e.clientX, e.clientY, e.altKey);
     };
 
     private handleTouchMove = (e: TouchEvent): void => {
@@ -88,28 +136,40 @@ export class SimpleDragHandler {
         this.updatePosition(touch.clientX, touch.clientY);
     };
 
-    private updatePosition(clientX: number, clientY: number): void {
+    private updatePosition(clientX: number, clientY: number, disableSnap = false): void {
         if (!this.noteElement || !this.currentNote || !this.canvasElement) return;
 
-        // キャンバスの座標系に変換
+        // キャンバスの座標系に変換（変形後の矩形と倍率から逆算）
         const canvasRect = this.canvasElement.getBoundingClientRect();
-        const canvasX = clientX - canvasRect.left;
-        const canvasY = clientY - canvasRect.top;
+        const zoom = this.getZoom();
+        const canvasX = (clientX - canvasRect.left) / zoom;
+        const canvasY = (clientY - canvasRect.top) / zoom;
         
         // オフセットを考慮した新しい位置を計算
-        const newX = canvasX - this.offsetX;
-        const newY = canvasY - this.offsetY;
+        const newX = Math.round(canvasX - this.offsetX);
+        const newY = Math.round(canvasY - this.offsetY);
 
-        // 境界チェック
-        const maxX = this.canvasElement.offsetWidth - this.noteElement.offsetWidth;
-        const maxY = this.canvasElement.offsetHeight - this.noteElement.offsetHeight;
-        
-        const boundedX = Math.max(0, Math.min(maxX, newX));
-        const boundedY = Math.max(0, Math.min(maxY, newY));
+        // 境界チェック（キャンバスはパンで広がるため原点側のみ制限）
+        const gridSize = disableSnap ? 0 : this.getSnapGridSize();
+        const snapped = gridSize > 0
+            ? snapPosition(newX, newY, gridSize)
+            : { x: Math.max(0, newX), y: Math.max(0, newY) };
+
+        // グループ全体が原点より手前に出ないように移動量を制限
+        const minX = Math.min(this.initialX, ...this.group.map(member => member.initialX));
+        const minY = Math.min(this.initialY, ...this.group.map(member => member.initialY));
+        this.deltaX = Math.max(snapped.x - this.initialX, -minX);
+        this.deltaY = Math.max(snapped.y - this.initialY, -minY);
 
         // 位置の更新
-        this.noteElement.style.left = `${boundedX}px`;
-        this.noteElement.style.top = `${boundedY}px`;
+        this.noteElement.style.left = `${this.initialX + this.deltaX}px`;
+        this.noteElement.style.top = `${this.initialY + this.deltaY}px`;
+        this.group.forEach(member => {
+            if (member.element) {
+                member.element.style.left = `${member.initialX + this.deltaX}px`;
+                member.element.style.top = `${member.initialY + this.deltaY}px`;
+            }
+        });
     }
 
     private handleMouseUp = (): void => {
@@ -128,6 +188,7 @@ export class SimpleDragHandler {
         // スタイルのリセット
         this.noteElement.classList.remove('dragging');
         this.noteElement.style.zIndex = this.currentNote.position.zIndex.toString();
+        this.group.forEach(member => member.element?.classList.remove('dragging'));
 
         // イベントリスナーの削除
         document.removeEventListener('mousemove', this.handleMouseMove);
@@ -141,21 +202,72 @@ export class SimpleDragHandler {
             this.onDragEnd(now);
         }
 
+        const group = this.group;
+        this.group = [];
+        if (this.deltaX === 0 && this.deltaY === 0) {
+            return;
+        }
+
         // 位置の保存
-        const newX = parseInt(this.noteElement.style.left);
-        const newY = parseInt(this.noteElement.style.top);
-
-        if (newX !== this.currentNote.position.x || newY !== this.currentNote.position.y) {
-            await this.dataManager.updateNote(this.currentNote.id, {
-                position: {
-                    ...this.currentNote.position,
-                    x: newX,
-                    y: newY
+        const newX = this.initialX + this.deltaX;
+        const newY = this.initialY + this.deltaY;
+        const position = { ...this.currentNote.position, x: newX, y: newY };
+
+        if (this.options.savePositions) {
+            const result = await this.options.savePositions([
+                { id: this.currentNote.id, position },
+                ...group.map(member => ({
+                    id: member.note.id,
+                    position: { ...member.note.position, x: member.initialX + this.deltaX, y: member.initialY + this.deltaY }
+                }))
+            ]);
+            if (result.success && result.data.length > 0) {
+                this.currentNote = result.data[0];
+            }
+            return;
+        }
+
+        if (group.length === 0) {
+            const result = await this.dataManager.updateNote(this.currentNote.id, { position });
+            if (result.success) {
+                this.currentNote = result.data;
+            }
+            return;
+        }
+
+        // グループ移動は1回の一括更新で書き込む
+        const result = await this.dataManager.updateNotes([
+            { id: this.currentNote.id, options: { position } },
+            ...group.map(member => ({
+                id: member.note.id,
+                options: {
+                    position: {
+                        ...member.note.position,
+                        x: member.initialX + this.deltaX,
+                        y: member.initialY + this.deltaY
+                    }
                 }
-            });
+            }))
+        ]);
+        if (result.success) {
+            this.currentNote = result.data[0];
         }
     }
 
+    private readPosition(styleValue: string, fallback: number): number {
+        const value = parseInt(styleValue);
+        return Number.isFinite(value) ? value : fallback;
+    }
+
+    private getZoom(): number {
+        const zoom = this.options.getZoom ? this.options.getZoom() : 1;
+        return zoom > 0 ? zoom : 1;
+    }
+
+    private getSnapGridSize(): number {
+        return this.options.getSnapGridSize ? this.options.getSnapGridSize() : 0;
+    }
+
     cleanup(): void {
         // イベントリスナーの削除
         document.removeEventListener('mousemove', this.handleMouseMove);
@@ -0,0 +1,96 @@
+import { TrashEntry } from '../types/core-types';
+import { ITrashManager } from '../interfaces/data/i-trash-manager';
+import { Translations } from '../i18n/translations';
+
+/**
+ * ゴミ箱パネルの操作
+ */
+export interface TrashPanelActions {
+    restore(entry: TrashEntry): Promise<void>;
+    purge(entry: TrashEntry): Promise<void>;
+    emptyTrash(): Promise<void>;
+}
+
+/**
+ * ゴミ箱内の付箋を一覧表示し、復元や完全な削除を行うパネル
+ */
+export class TrashPanel {
+    private panelEl: HTMLElement;
+    private unsubscribe: () => void;
+
+    constructor(
+        parentEl: HTMLElement,
+        private trashManager: ITrashManager,
+        private getTranslations: () => Translations,
+        private actions: TrashPanelActions
+    ) {
+        this.panelEl = parentEl.createDiv('postodo-trash-panel');
+        this.panelEl.hide();
+        this.unsubscribe = this.trashManager.onTrashChanged(() => {
+            if (this.isOpen()) this.render();
+        });
+    }
+
+    isOpen(): boolean {
+        return this.panelEl.isShown();
+    }
+
+    toggle(): void {
+        if (this.isOpen()) {
+            this.panelEl.hide();
+        } else {
+            this.render();
+            this.panelEl.show();
+        }
+    }
+
+    destroy(): void {
+        this.unsubscribe();
+        this.panelEl.remove();
+    }
+
+    private render(): void {
+        const t = this.getTranslations().trash;
+        const entries = this.trashManager.getEntries();
+        this.panelEl.empty();
+
+        const headerEl = this.panelEl.createDiv('postodo-trash-header');
+        headerEl.createEl('h4', { text: t.title });
+
+        const emptyBtn = headerEl.createEl('button', { text: t.emptyTrash, cls: 'mod-warning' });
+        emptyBtn.disabled = entries.length === 0;
+        emptyBtn.addEventListener('click', () => this.actions.emptyTrash());
+
+        const closeBtn = headerEl.createEl('button', { text: '×', cls: 'postodo-trash-close' });
+        closeBtn.addEventListener('click', () => this.panelEl.hide());
+
+        if (this.trashManager.getMode() !== 'folder') {
+            this.panelEl.createEl('p', { text: t.notInFolderMode, cls: 'postodo-trash-notice' });
+        }
+
+        if (entries.length === 0) {
+            this.panelEl.createEl('p', { text: t.empty, cls: 'postodo-trash-empty' });
+            return;
+        }
+
+        const listEl = this.panelEl.createEl('ul', { cls: 'postodo-trash-list' });
+        entries.forEach(entry => {
+            const itemEl = listEl.createEl('li', { cls: 'postodo-trash-item' });
+            const fileName = entry.originalPath.substring(entry.originalPath.lastIndexOf('/') + 1);
+
+            const infoEl = itemEl.createDiv('postodo-trash-info');
+            infoEl.createDiv({ text: entry.title || fileName, cls: 'postodo-trash-title', attr: { title: entry.originalPath } });
+            infoEl.createDiv({
+                text: t.deletedAt.replace('{date}', new Date(entry.deletedAt).toLocaleString()),
+                cls: 'postodo-trash-date'
+            });
+
+            const buttonsEl = itemEl.createDiv('postodo-trash-buttons');
+            const restoreBtn = buttonsEl.createEl('button', { text: t.restore });
+            restoreBtn.addEventListener('click', () => this.actions.restore(entry));
+
+            const purgeBtn = buttonsEl.createEl('button', { text: t.purge, cls: 'mod-warning' });
+            purgeBtn.addEventListener('click', () => this.actions.purge(entry));
+        });
+    }
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+    CanvasLayout,
+    bringToFront,
+    GROUP_PADDING,
+    createEmptyCanvasLayout,
+    getGroupBounds,
+    migrateLegacyLayout,
+    parseCanvasLayout,
+    serializeCanvasLayout
+} from './canvas-layout';
+import { PostodoNoteDetector } from './postodo-note-detector';
+
+/**
+ * キャンバスファイルの内容の読み書きのテスト
+ */
+describe('canvas layout', () => {
+    const idArb = fc.string({ minLength: 1, maxLength: 12 })
+        .filter(s => s !== '__proto__' && s !== 'constructor');
+    const positionArb = fc.record({
+        x: fc.integer({ min: -5000, max: 5000 }),
+        y: fc.integer({ min: -5000, max: 5000 }),
+        zIndex: fc.nat(1000)
+    });
+    const layoutArb: fc.Arbitrary<CanvasLayout> = fc.record({
+        positions: fc.dictionary(idArb, positionArb),
+        boards: fc.dictionary(idArb, fc.record({
+            name: fc.string({ minLength: 1, maxLength: 12 }).filter(name => name.trim().length > 0),
+            positions: fc.dictionary(idArb, positionArb)
+        })),
+        groups: fc.dictionary(idArb, fc.record({
+            boardId: idArb,
+            noteIds: fc.uniqueArray(idArb, { minLength: 1, maxLength: 5 }),
+            bounds: fc.record({
+                x: fc.integer({ min: -5000, max: 5000 }),
+                y: fc.integer({ min: -5000, max: 5000 }),
+                width: fc.integer({ min: 0, max: 5000 }),
+                height: fc.integer({ min: 0, max: 5000 })
+            })
+        })),
+        viewports: fc.dictionary(idArb, fc.record({
+            x: fc.integer({ min: -5000, max: 5000 }),
+            y: fc.integer({ min: -5000, max: 5000 }),
+            zoom: fc.constantFrom(0.2, 0.5, 1, 2, 3)
+        }))
+    }).map(({ positions, boards, groups, viewports }) => ({
+        ...createEmptyCanvasLayout(),
+        positions,
+        boards: Object.fromEntries(Object.entries(boards).map(([id, board]) => [id, { id, ...board }])),
+        groups: Object.fromEntries(Object.entries(groups).map(([id, group]) => [id, { id, ...group }])),
+        viewports
+    }));
+
+    /**
+     * 書き込んだ内容を読み込むと同じ状態に戻り、付箋としては読み込まれない
+     */
+    it('should round-trip layouts through the canvas file', () => {
+        fc.assert(
+            fc.property(layoutArb, (layout) => {
+                expect(parseCanvasLayout(serializeCanvasLayout(layout))).toEqual(layout);
+            }),
+            { numRuns: 100 }
+        );
+        expect(PostodoNoteDetector.extractPostodoData(serializeCanvasLayout(createEmptyCanvasLayout()), 'Postodo/postodo-canvas.md')).toBeNull();
+    });
+
+    /**
+     * 正しくない位置やボード、グループは読み飛ばし、状態のブロックがない場合は読み込まない
+     */
+    it('should skip invalid entries', () => {
+        const content = [
+            '```json',
+            JSON.stringify({
+                positions: { a: { x: 1, y: 2, zIndex: 3 }, b: { x: 'left', y: 0 }, c: { x: 1, y: 1 } },
+                boards: { valid: { name: 'Sprint', positions: {} }, unnamed: { name: ' ', positions: {} } },
+                groups: {
+                    g1: { boardId: 'default', noteIds: ['a', 'c', 'a', 3], bounds: { x: 0, y: 0, width: 10, height: 10 } },
+                    empty: { boardId: 'default', noteIds: [], bounds: { x: 0, y: 0, width: 10, height: 10 } },
+                    unbounded: { boardId: 'default', noteIds: ['a'] }
+                },
+                viewports: { default: { x: 0, y: 0, zoom: 10 }, broken: { x: 0 } }
+            }),
+            '```'
+        ].join('\n');
+
+        expect(parseCanvasLayout(content)).toEqual({
+            ...createEmptyCanvasLayout(),
+            positions: { a: { x: 1, y: 2, zIndex: 3 }, c: { x: 1, y: 1, zIndex: 1 } },
+            boards: { valid: { id: 'valid', name: 'Sprint', positions: {} } },
+            groups: { g1: { id: 'g1', boardId: 'default', noteIds: ['a', 'c'], bounds: { x: 0, y: 0, width: 10, height: 10 } } },
+            viewports: { default: { x: 0, y: 0, zoom: 3 } }
+        });
+        expect(parseCanvasLayout('# Postodo canvas')).toBeNull();
+        expect(parseCanvasLayout('```json\n{ broken\n```')).toBeNull();
+    });
+
+    /**
+     * 移動した付箋は他の付箋より手前になり、移動した付箋同士の重なり順は変わらない
+     */
+    it('should bring moved notes to the front', () => {
+        fc.assert(
+            fc.property(
+                fc.uniqueArray(fc.record({ id: idArb, position: positionArb }), { selector: note => note.id, minLength: 1, maxLength: 8 }),
+                fc.nat(),
+                (notes, seed) => {
+                    const moved = notes.filter((_, i) => (seed >> (i % 30)) & 1 || i === 0);
+                    const placed = bringToFront(moved, notes);
+                    const others = notes.filter(note => !moved.includes(note));
+                    const zOf = (id: string) => placed.find(p => p.id === id)!.position.zIndex;
+
+                    placed.forEach(p => others.forEach(o => expect(p.position.zIndex).toBeGreaterThan(o.position.zIndex)));
+                    moved.forEach(a => moved.forEach(b => {
+                        if (a.position.zIndex < b.position.zIndex) {
+                            expect(zOf(a.id)).toBeLessThan(zOf(b.id));
+                        }
+                    }));
+                }
+            ),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * グループの枠は全ての付箋を余白を空けて囲む
+     */
+    it('should surround every note with the group bounds', () => {
+        const noteArb = fc.record({
+            position: positionArb,
+            dimensions: fc.record({ width: fc.integer({ min: 100, max: 500 }), height: fc.integer({ min: 100, max: 500 }) })
+        });
+
+        fc.assert(
+            fc.property(fc.array(noteArb, { minLength: 1, maxLength: 8 }), (notes) => {
+                const bounds = getGroupBounds(notes)!;
+
+                notes.forEach(note => {
+                    expect(note.position.x - bounds.x).toBeGreaterThanOrEqual(GROUP_PADDING);
+                    expect(note.position.y - bounds.y).toBeGreaterThanOrEqual(GROUP_PADDING);
+                    expect(bounds.x + bounds.width - (note.position.x + note.dimensions.width)).toBeGreaterThanOrEqual(GROUP_PADDING);
+                    expect(bounds.y + bounds.height - (note.position.y + note.dimensions.height)).toBeGreaterThanOrEqual(GROUP_PADDING);
+                });
+                expect(notes.some(note => note.position.x - bounds.x === GROUP_PADDING)).toBe(true);
+            }),
+            { numRuns: 100 }
+        );
+        expect(getGroupBounds([])).toBeNull();
+    });
+
+    /**
+     * プラグインデータのボードと現在のキャンバスファイルの表示位置だけを移行する
+     */
+    it('should migrate boards and viewports from plugin data', () => {
+        const migrated = migrateLegacyLayout(
+            { b1: { id: 'b1', name: 'Sprint', positions: { n1: { x: 1, y: 2, zIndex: 1 } } } },
+            {
+                'postodo-canvas.md': { x: 10, y: 20, zoom: 1 },
+                'postodo-canvas.md#b1': { x: 30, y: 40, zoom: 2 },
+                'other.md': { x: 0, y: 0, zoom: 1 }
+            },
+            'postodo-canvas.md'
+        );
+
+        expect(migrated).toEqual({
+            boards: { b1: { id: 'b1', name: 'Sprint', positions: { n1: { x: 1, y: 2, zIndex: 1 } } } },
+            viewports: { default: { x: 10, y: 20, zoom: 1 }, b1: { x: 30, y: 40, zoom: 2 } }
+        });
+        expect(migrateLegacyLayout(undefined, undefined, 'postodo-canvas.md')).toEqual({ boards: {}, viewports: {} });
+    });
+});
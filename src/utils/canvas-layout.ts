@@ -0,0 +1,214 @@
+import { Board, NoteGroup, Position } from '../types/core-types';
+import { ViewportState, clampZoom } from '../ui/canvas-viewport';
+
+/**
+ * キャンバスファイルに保存するキャンバス全体の状態
+ * 付箋の移動で付箋のファイルを書き換えないよう、位置と重なり順はここにまとめて保存する
+ */
+export interface CanvasLayout {
+    version: number;
+    // 全ての付箋を表示するボードでの位置と重なり順（付箋のIDごと。ない場合は付箋のファイルの位置を使用する）
+    positions: Record<string, Position>;
+    // 名前付きのボード（付箋のまとまりとボード上の位置）
+    boards: Record<string, Board>;
+    // 付箋のグループ（グループのIDごと）
+    groups: Record<string, NoteGroup>;
+    // ボードごとの表示位置（全ての付箋を表示するボードはDEFAULT_LAYOUT_VIEWPORT_KEY）
+    viewports: Record<string, ViewportState>;
+}
+
+export const CANVAS_LAYOUT_VERSION = 1;
+
+// 全ての付箋を表示するボードの表示位置のキー（ボード管理の既定のボードIDと同じ値）
+export const DEFAULT_LAYOUT_VIEWPORT_KEY = 'default';
+
+const LAYOUT_BLOCK_PATTERN = /```json\n([\s\S]*?)\n```/;
+
+export function createEmptyCanvasLayout(): CanvasLayout {
+    return { version: CANVAS_LAYOUT_VERSION, positions: {}, boards: {}, groups: {}, viewports: {} };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+function parsePosition(value: unknown): Position | null {
+    if (!value || typeof value !== 'object') return null;
+    const raw = value as Record<string, unknown>;
+    if (!isFiniteNumber(raw.x) || !isFiniteNumber(raw.y)) return null;
+    return { x: raw.x, y: raw.y, zIndex: isFiniteNumber(raw.zIndex) && raw.zIndex >= 0 ? raw.zIndex : 1 };
+}
+
+function parsePositions(value: unknown): Record<string, Position> {
+    const positions: Record<string, Position> = {};
+    if (!value || typeof value !== 'object') return positions;
+
+    Object.entries(value as Record<string, unknown>).forEach(([id, raw]) => {
+        const position = parsePosition(raw);
+        if (position) {
+            positions[id] = position;
+        }
+    });
+    return positions;
+}
+
+function parseBoards(value: unknown): Record<string, Board> {
+    const boards: Record<string, Board> = {};
+    if (!value || typeof value !== 'object') return boards;
+
+    Object.entries(value as Record<string, unknown>).forEach(([id, raw]) => {
+        const board = raw as Record<string, unknown> | null;
+        if (!board || typeof board !== 'object' || typeof board.name !== 'string' || !board.name.trim()) return;
+        boards[id] = { id, name: board.name, positions: parsePositions(board.positions) };
+    });
+    return boards;
+}
+
+function parseGroups(value: unknown): Record<string, NoteGroup> {
+    const groups: Record<string, NoteGroup> = {};
+    if (!value || typeof value !== 'object') return groups;
+
+    Object.entries(value as Record<string, unknown>).forEach(([id, raw]) => {
+        const group = raw as Record<string, unknown> | null;
+        if (!group || typeof group !== 'object' || typeof group.boardId !== 'string' || !Array.isArray(group.noteIds)) return;
+        const bounds = group.bounds as Record<string, unknown> | null;
+        if (!bounds || typeof bounds !== 'object' ||
+            ![bounds.x, bounds.y, bounds.width, bounds.height].every(isFiniteNumber)) return;
+
+        const noteIds = [...new Set(group.noteIds.filter((noteId): noteId is string => typeof noteId === 'string'))];
+        if (noteIds.length === 0) return;
+        groups[id] = {
+            id,
+            boardId: group.boardId,
+            noteIds,
+            bounds: { x: bounds.x as number, y: bounds.y as number, width: bounds.width as number, height: bounds.height as number }
+        };
+    });
+    return groups;
+}
+
+function parseViewport(value: unknown): ViewportState | null {
+    if (!value || typeof value !== 'object') return null;
+    const raw = value as Record<string, unknown>;
+    if (!isFiniteNumber(raw.x) || !isFiniteNumber(raw.y) || !isFiniteNumber(raw.zoom)) return null;
+    return { x: raw.x, y: raw.y, zoom: clampZoom(raw.zoom) };
+}
+
+/**
+ * キャンバスファイルの内容を読み込む
+ * 正しくない付箋の位置、ボード、グループは読み飛ばす
+ * @returns 状態のブロックがない、またはJSONとして読めない場合はnull
+ */
+export function parseCanvasLayout(content: string): CanvasLayout | null {
+    const match = LAYOUT_BLOCK_PATTERN.exec(content);
+    if (!match) return null;
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(match[1]);
+    } catch {
+        return null;
+    }
+    if (!parsed || typeof parsed !== 'object') return null;
+    const raw = parsed as Record<string, unknown>;
+
+    const layout = createEmptyCanvasLayout();
+    layout.positions = parsePositions(raw.positions);
+    layout.boards = parseBoards(raw.boards);
+    layout.groups = parseGroups(raw.groups);
+
+    if (raw.viewports && typeof raw.viewports === 'object') {
+        Object.entries(raw.viewports as Record<string, unknown>).forEach(([id, value]) => {
+            const viewport = parseViewport(value);
+            if (viewport) {
+                layout.viewports[id] = viewport;
+            }
+        });
+    }
+
+    return layout;
+}
+
+/**
+ * キャンバスの状態をキャンバスファイルの内容にする
+ * 付箋として読み込まれないようフロントマターは付けず、状態はJSONのコードブロックに書き込む
+ */
+export function serializeCanvasLayout(layout: CanvasLayout): string {
+    return [
+        '# Postodo canvas',
+        '',
+        'This file stores the Postodo board layout (positions, z-order, boards, groups and viewports). Do not edit it by hand.',
+        '',
+        '```json',
+        JSON.stringify({ ...layout, version: CANVAS_LAYOUT_VERSION }, null, 2),
+        '```',
+        ''
+    ].join('\n');
+}
+
+/**
+ * 移動した付箋を他の付箋より手前に表示する位置にする
+ * 既に最前面にある付箋だけを移動した場合は重なり順を変えない
+ */
+export function bringToFront<T extends { id: string; position: Position }>(placements: T[], notes: { id: string; position: Position }[]): T[] {
+    const movedIds = new Set(placements.map(placement => placement.id));
+    const others = notes.filter(note => !movedIds.has(note.id));
+    const topOfOthers = others.reduce((max, note) => Math.max(max, note.position.zIndex), 0);
+
+    if (placements.every(placement => placement.position.zIndex > topOfOthers)) {
+        return placements;
+    }
+    // 移動した付箋同士の重なり順は保つ
+    const order = [...placements].sort((a, b) => a.position.zIndex - b.position.zIndex).map(placement => placement.id);
+    return placements.map(placement => ({
+        ...placement,
+        position: { ...placement.position, zIndex: topOfOthers + 1 + order.indexOf(placement.id) }
+    }));
+}
+
+// グループの枠と付箋の間の余白
+export const GROUP_PADDING = 16;
+
+/**
+ * グループの付箋を余白を空けて囲む枠の範囲を返す
+ * @returns 付箋がない場合はnull
+ */
+export function getGroupBounds(notes: { position: Position; dimensions: { width: number; height: number } }[]): NoteGroup['bounds'] | null {
+    if (notes.length === 0) return null;
+
+    const left = Math.min(...notes.map(note => note.position.x));
+    const top = Math.min(...notes.map(note => note.position.y));
+    const right = Math.max(...notes.map(note => note.position.x + note.dimensions.width));
+    const bottom = Math.max(...notes.map(note => note.position.y + note.dimensions.height));
+    return {
+        x: left - GROUP_PADDING,
+        y: top - GROUP_PADDING,
+        width: right - left + GROUP_PADDING * 2,
+        height: bottom - top + GROUP_PADDING * 2
+    };
+}
+
+/**
+ * 以前プラグインデータに保存していたボードと表示位置をキャンバスファイルの状態にする
+ * 表示位置は「キャンバスファイル名」または「キャンバスファイル名#ボードID」をキーにしていたため、現在のキャンバスファイルの分だけを移行する
+ */
+export function migrateLegacyLayout(
+    boards: unknown,
+    viewports: unknown,
+    canvasFileName: string
+): Pick<CanvasLayout, 'boards' | 'viewports'> {
+    const migrated: Pick<CanvasLayout, 'boards' | 'viewports'> = { boards: parseBoards(boards), viewports: {} };
+
+    if (viewports && typeof viewports === 'object') {
+        Object.entries(viewports as Record<string, unknown>).forEach(([key, value]) => {
+            const viewport = parseViewport(value);
+            if (!viewport) return;
+            if (key === canvasFileName) {
+                migrated.viewports[DEFAULT_LAYOUT_VIEWPORT_KEY] = viewport;
+            } else if (key.startsWith(`${canvasFileName}#`)) {
+                migrated.viewports[key.substring(canvasFileName.length + 1)] = viewport;
+            }
+        });
+    }
+    return migrated;
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { applyCompletionChange, applyCompletionUpdate, parseCompletionHistory, MAX_COMPLETION_HISTORY } from './completion';
+import { StickyNote } from '../types/core-types';
+
+function createNote(completed: boolean): StickyNote {
+    return {
+        id: 'note-1',
+        filePath: 'Postodo/note-1.md',
+        title: 'title',
+        content: 'content',
+        position: { x: 0, y: 0, zIndex: 1 },
+        dimensions: { width: 200, height: 180 },
+        appearance: { color: 'yellow', size: 'medium', rotation: 0 },
+        completed,
+        metadata: { created: '', modified: '', tags: ['postodo'], links: [], attachments: [] }
+    };
+}
+
+/**
+ * 完了状態の記録のテスト
+ */
+describe('completion', () => {
+    /**
+     * 完了状態を切り替えるたびに履歴が追加され、完了日時は完了中のみ記録される
+     */
+    it('should record every toggle and keep completedAt only while completed', () => {
+        fc.assert(
+            fc.property(fc.array(fc.boolean(), { maxLength: 80 }), (toggles) => {
+                let note = createNote(false);
+                let changes = 0;
+
+                toggles.forEach((completed, i) => {
+                    if (completed !== note.completed) changes++;
+                    note = { ...note, ...applyCompletionChange(note, completed, new Date(i * 1000)) };
+
+                    expect(note.completed).toBe(completed);
+                    expect(note.completedAt !== undefined).toBe(completed && changes > 0);
+                });
+
+                const history = note.completionHistory || [];
+                expect(history.length).toBe(Math.min(changes, MAX_COMPLETION_HISTORY));
+                history.slice(1).forEach((record, i) => {
+                    expect(record.completed).not.toBe(history[i].completed);
+                });
+                if (note.completed && history.length > 0) {
+                    expect(note.completedAt).toBe(history[history.length - 1].at);
+                }
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 完了日時と履歴を指定した更新ではその値に戻す
+     */
+    it('should restore explicit completion fields', () => {
+        const note = { ...createNote(false), ...applyCompletionChange(createNote(false), true, new Date(0)) };
+
+        expect(applyCompletionUpdate(note, { completed: false, completedAt: undefined, completionHistory: [] }))
+            .toEqual({ completed: false, completedAt: undefined, completionHistory: undefined });
+        expect(applyCompletionUpdate(note, { content: 'changed' })).toEqual({});
+    });
+
+    /**
+     * 形式が正しくない履歴の記録は取り除く
+     */
+    it('should drop malformed history records', () => {
+        const valid = { completed: true, at: '2025-01-01T00:00:00.000Z' };
+
+        expect(parseCompletionHistory([valid, { completed: 'yes', at: valid.at }, { completed: false, at: 'invalid' }, null]))
+            .toEqual([valid]);
+        expect(parseCompletionHistory('not an array')).toBeUndefined();
+        expect(parseCompletionHistory([])).toBeUndefined();
+    });
+});
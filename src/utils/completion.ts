@@ -0,0 +1,76 @@
+import { StickyNote, UpdateNoteOptions, CompletionRecord } from '../types/core-types';
+
+// 付箋ごとに保持する完了状態の変更履歴の最大件数
+export const MAX_COMPLETION_HISTORY = 50;
+
+/**
+ * 付箋の完了状態に関する項目
+ */
+export type CompletionFields = Pick<StickyNote, 'completed' | 'completedAt' | 'completionHistory'>;
+
+/**
+ * 付箋の完了状態に関する項目を取り出す
+ * 競合解決などで完了状態を別の付箋から引き継ぐ際に、完了日時と履歴も一緒に引き継ぐために使用する
+ */
+export function getCompletionFields(note: StickyNote): CompletionFields {
+    return {
+        completed: note.completed,
+        completedAt: note.completedAt,
+        completionHistory: note.completionHistory
+    };
+}
+
+/**
+ * 完了状態を変更した後の完了状態に関する項目を返す
+ * 完了にした場合は完了日時を記録し、未完了に戻した場合は完了日時を消す。
+ * 状態が変わらない場合は現在の値をそのまま返す
+ */
+export function applyCompletionChange(note: StickyNote, completed: boolean, at: Date = new Date()): CompletionFields {
+    if (note.completed === completed) {
+        return getCompletionFields(note);
+    }
+
+    const record: CompletionRecord = { completed, at: at.toISOString() };
+    const history = [...(note.completionHistory || []), record].slice(-MAX_COMPLETION_HISTORY);
+
+    return {
+        completed,
+        completedAt: completed ? record.at : undefined,
+        completionHistory: history
+    };
+}
+
+/**
+ * 更新オプションを適用した後の完了状態に関する項目を返す
+ * 完了日時と履歴が指定されている場合はその値に戻し、それ以外は完了状態の変更として記録する
+ * @returns 完了状態を更新しない場合は空のオブジェクト
+ */
+export function applyCompletionUpdate(note: StickyNote, options: UpdateNoteOptions): Partial<CompletionFields> {
+    if (options.completed === undefined) return {};
+
+    if (options.completionHistory !== undefined) {
+        return {
+            completed: options.completed,
+            completedAt: options.completedAt,
+            completionHistory: options.completionHistory.length > 0 ? options.completionHistory : undefined
+        };
+    }
+    return applyCompletionChange(note, options.completed);
+}
+
+/**
+ * フロントマターから読み込んだ完了履歴を検証する
+ * 形式が正しくない記録は取り除く
+ */
+export function parseCompletionHistory(value: unknown): CompletionRecord[] | undefined {
+    if (!Array.isArray(value)) return undefined;
+
+    const history = value.filter((record): record is CompletionRecord =>
+        !!record &&
+        typeof record === 'object' &&
+        typeof record.completed === 'boolean' &&
+        typeof record.at === 'string' &&
+        Number.isFinite(Date.parse(record.at))
+    );
+    return history.length > 0 ? history.slice(-MAX_COMPLETION_HISTORY) : undefined;
+}
@@ -271,7 +271,9 @@ export class DataRestorationValidator {
                 links: [],
                 attachments: []
             },
-            completed: note.completed || false
+            completed: note.completed || false,
+            completedAt: note.completedAt,
+            completionHistory: note.completionHistory
         };
 
         // 警告をログに記録
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { daysUntil, getDueStatus, isDueWithin, msUntilNextDay, toLocalTaskDate } from './due-date';
+import { StickyNote } from '../types/core-types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createNote(content: string, completed = false): StickyNote {
+    return {
+        id: 'note',
+        filePath: 'Postodo/note.md',
+        title: 'note',
+        content,
+        position: { x: 0, y: 0, zIndex: 1 },
+        dimensions: { width: 200, height: 180 },
+        appearance: { color: 'yellow', size: 'medium', rotation: 0 },
+        completed,
+        metadata: { created: '', modified: '', tags: [], links: [], attachments: [] }
+    } as StickyNote;
+}
+
+/**
+ * 期日の判定のテスト
+ */
+describe('due date', () => {
+    const now = new Date(2025, 5, 15, 14, 30);
+
+    /**
+     * 今日からの日数は日付の差になり、時刻の影響を受けない
+     */
+    it('should count days between local dates', () => {
+        fc.assert(
+            fc.property(fc.integer({ min: -400, max: 400 }), fc.integer({ min: 0, max: 23 }), (offset, hour) => {
+                const current = new Date(2025, 0, 1, hour);
+                const target = new Date(2025, 0, 1 + offset);
+                expect(daysUntil(toLocalTaskDate(target), current)).toBe(offset);
+            }),
+            { numRuns: 100 }
+        );
+        expect(daysUntil('2025-02-30', now)).toBeNull();
+    });
+
+    /**
+     * 期日・予定日・開始日から期限切れ、今日、これからを判定する
+     */
+    it('should classify notes by their dates', () => {
+        expect(getDueStatus(createNote('Task 📅 2025-06-14'), now)).toBe('overdue');
+        expect(getDueStatus(createNote('Task 📅 2025-06-15'), now)).toBe('today');
+        expect(getDueStatus(createNote('Task ⏳ 2025-06-15 📅 2025-06-20'), now)).toBe('today');
+        expect(getDueStatus(createNote('Task 🛫 2025-06-16 📅 2025-06-20'), now)).toBe('upcoming');
+        expect(getDueStatus(createNote('Task ⏳ 2025-06-18'), now)).toBe('upcoming');
+        expect(getDueStatus(createNote('Task 📅 2025-06-20'), now)).toBe('none');
+        expect(getDueStatus(createNote('Task'), now)).toBe('none');
+    });
+
+    /**
+     * 完了した付箋は期日に関係なく強調しない
+     */
+    it('should ignore completed notes', () => {
+        expect(getDueStatus(createNote('Task 📅 2025-06-01', true), now)).toBe('none');
+        expect(isDueWithin(createNote('Task 📅 2025-06-01', true), 3, now)).toBe(false);
+    });
+
+    /**
+     * 期日が指定日数以内の未完了の付箋だけが対象になり、期限切れも含む
+     */
+    it('should select notes due within the given days', () => {
+        fc.assert(
+            fc.property(fc.integer({ min: -30, max: 30 }), fc.integer({ min: 0, max: 14 }), (offset, days) => {
+                const due = toLocalTaskDate(new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset));
+                expect(isDueWithin(createNote(`Task 📅 ${due}`), days, now)).toBe(offset <= days);
+            }),
+            { numRuns: 100 }
+        );
+        expect(isDueWithin(createNote('Task'), 3, now)).toBe(false);
+    });
+
+    /**
+     * 次の日付に変わるまでの時間は1日以内で、経過後は翌日になる
+     */
+    it('should compute the time until the next day', () => {
+        fc.assert(
+            fc.property(fc.integer({ min: 0, max: 4102444800000 }), (time) => {
+                const current = new Date(time);
+                const ms = msUntilNextDay(current);
+
+                expect(ms).toBeGreaterThan(0);
+                expect(ms).toBeLessThanOrEqual(DAY_MS + 60 * 60 * 1000);
+                expect(toLocalTaskDate(new Date(time + ms))).not.toBe(toLocalTaskDate(current));
+            }),
+            { numRuns: 100 }
+        );
+    });
+});
@@ -0,0 +1,90 @@
+import { StickyNote } from '../types/core-types';
+import { PostodoNoteDetector } from './postodo-note-detector';
+import { TaskDates, parseTaskDate } from './recurrence';
+
+/**
+ * 期日に基づく付箋の状態
+ * - overdue: 期日を過ぎている
+ * - today: 期日または予定日が今日
+ * - upcoming: 開始日（なければ予定日）がまだ来ていない
+ * - none: 上記以外（完了済み、日付なしを含む）
+ */
+export type DueStatus = 'overdue' | 'today' | 'upcoming' | 'none';
+
+// 「期日が近い」フィルターで対象とする日数の既定値
+export const DEFAULT_DUE_SOON_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 日時のローカルの日付をYYYY-MM-DD形式にする
+ */
+export function toLocalTaskDate(date: Date): string {
+    const year = String(date.getFullYear()).padStart(4, '0');
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+}
+
+/**
+ * 付箋のタスクの日付を返す
+ * タスクから作成した付箋はタスク情報を、それ以外は本文中のTasksプラグイン形式の日付を使用する
+ */
+export function getNoteTaskDates(note: StickyNote): TaskDates {
+    const taskInfo = note.metadata.taskInfo || PostodoNoteDetector.extractTaskMetadata(note.content);
+    return {
+        dueDate: taskInfo.dueDate,
+        scheduledDate: taskInfo.scheduledDate,
+        startDate: taskInfo.startDate
+    };
+}
+
+/**
+ * 今日から指定した日付までの日数を返す（過去の場合は負の値）
+ * @returns 不正な日付の場合はnull
+ */
+export function daysUntil(date: string, now: Date): number | null {
+    const target = parseTaskDate(date);
+    const today = parseTaskDate(toLocalTaskDate(now));
+    if (!target || !today) return null;
+    return Math.round((target.getTime() - today.getTime()) / DAY_MS);
+}
+
+/**
+ * 付箋の期日に基づく状態を返す
+ */
+export function getDueStatus(note: StickyNote, now: Date = new Date()): DueStatus {
+    if (note.completed) return 'none';
+
+    const dates = getNoteTaskDates(note);
+    const dueDays = dates.dueDate ? daysUntil(dates.dueDate, now) : null;
+    if (dueDays !== null && dueDays < 0) return 'overdue';
+
+    const scheduledDays = dates.scheduledDate ? daysUntil(dates.scheduledDate, now) : null;
+    if (dueDays === 0 || scheduledDays === 0) return 'today';
+
+    const startDate = dates.startDate || dates.scheduledDate;
+    const startDays = startDate ? daysUntil(startDate, now) : null;
+    if (startDays !== null && startDays > 0) return 'upcoming';
+
+    return 'none';
+}
+
+/**
+ * 未完了で、期日が指定した日数以内（期限切れを含む）の付箋かどうかを判定する
+ */
+export function isDueWithin(note: StickyNote, days: number, now: Date = new Date()): boolean {
+    if (note.completed) return false;
+
+    const dueDate = getNoteTaskDates(note).dueDate;
+    const dueDays = dueDate ? daysUntil(dueDate, now) : null;
+    return dueDays !== null && dueDays <= days;
+}
+
+/**
+ * 次の日付に変わるまでのミリ秒を返す
+ */
+export function msUntilNextDay(now: Date): number {
+    const nextDay = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+    return nextDay.getTime() - now.getTime();
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+    evaluateFilterCondition,
+    parseFilterCondition,
+    parseSavedFilter,
+    serializeSavedFilter,
+    resolveFilterDate,
+    SavedFilterParts,
+    DISPLAY_FILTER_TYPES
+} from './filter-condition';
+import { PRIORITY_LEVELS } from './priority';
+import { StickyNote } from '../types/core-types';
+import { FilterCondition, NoteColorType } from '../types/config-types';
+
+function createNote(overrides: Partial<StickyNote> = {}, tags: string[] = []): StickyNote {
+    return {
+        id: 'note',
+        filePath: 'Postodo/Sticky-20261019.md',
+        title: 'Weekly report',
+        content: 'Write the report',
+        position: { x: 0, y: 0, zIndex: 1 },
+        dimensions: { width: 200, height: 180 },
+        appearance: { color: 'yellow', size: 'medium', rotation: 0 },
+        completed: false,
+        metadata: { created: '2026-10-01T09:00:00.000Z', modified: '2026-10-18T09:00:00.000Z', tags, links: [], attachments: [] },
+        ...overrides
+    } as StickyNote;
+}
+
+const context = { now: new Date(2026, 9, 19, 12, 0), dueSoonDays: 3 };
+
+/**
+ * 組み合わせ可能なフィルター条件のテスト
+ */
+describe('filter condition', () => {
+    // 葉の条件のArbitrary
+    const leafArb: fc.Arbitrary<FilterCondition> = fc.oneof(
+        fc.constantFrom(...DISPLAY_FILTER_TYPES).map(status => ({ type: 'completion' as const, status })),
+        fc.constantFrom('work', 'home', '#Work').map(tag => ({ type: 'tag' as const, tag })),
+        fc.subarray<NoteColorType>(['yellow', 'pink', 'blue']).map(colors => ({ type: 'color' as const, colors })),
+        fc.constantFrom('report', 'missing', '').map(query => ({ type: 'text' as const, query })),
+        fc.constantFrom(...PRIORITY_LEVELS).map(min => ({ type: 'priority' as const, min })),
+        fc.boolean().map(value => ({ type: 'has-links' as const, value }))
+    );
+    const conditionArb: fc.Arbitrary<FilterCondition> = fc.letrec<{ condition: FilterCondition }>(tie => ({
+        condition: fc.oneof(
+            { depthSize: 'small', withCrossShrink: true },
+            leafArb,
+            fc.record({ type: fc.constant('not' as const), condition: tie('condition') }),
+            fc.record({
+                type: fc.constantFrom('and' as const, 'or' as const),
+                conditions: fc.array(tie('condition'), { maxLength: 3 })
+            })
+        )
+    })).condition;
+    const noteArb = fc.record({
+        completed: fc.boolean(),
+        color: fc.constantFrom<NoteColorType>('yellow', 'pink', 'blue', 'green'),
+        tags: fc.subarray(['work', 'home', 'work/sub']),
+        content: fc.constantFrom('Write the report', 'See [[Other]] ⏫', 'Buy milk 🔽')
+    }).map(spec => createNote(
+        { completed: spec.completed, content: spec.content, appearance: { color: spec.color, size: 'medium', rotation: 0 } },
+        spec.tags
+    ));
+
+    /**
+     * ANDは全ての条件、ORはいずれかの条件、NOTは条件の否定と一致する
+     */
+    it('should combine conditions with and, or and not', () => {
+        fc.assert(
+            fc.property(fc.array(conditionArb, { maxLength: 3 }), noteArb, (conditions, note) => {
+                const results = conditions.map(condition => evaluateFilterCondition(condition, note, context));
+
+                expect(evaluateFilterCondition({ type: 'and', conditions }, note, context)).toBe(results.every(r => r));
+                expect(evaluateFilterCondition({ type: 'or', conditions }, note, context)).toBe(results.some(r => r));
+                conditions.forEach((condition, i) => {
+                    expect(evaluateFilterCondition({ type: 'not', condition }, note, context)).toBe(!results[i]);
+                });
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 条件はJSONにしてから読み込んでも同じ条件になり、判定結果も変わらない
+     */
+    it('should round-trip conditions through JSON', () => {
+        fc.assert(
+            fc.property(conditionArb, noteArb, (condition, note) => {
+                const parsed = parseFilterCondition(JSON.parse(JSON.stringify(condition)));
+
+                expect(parsed).toEqual(condition);
+                expect(evaluateFilterCondition(parsed!, note, context)).toBe(evaluateFilterCondition(condition, note, context));
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 正しくない条件は読み込まない
+     */
+    it('should reject invalid conditions', () => {
+        expect(parseFilterCondition(null)).toBeNull();
+        expect(parseFilterCondition({ type: 'unknown' })).toBeNull();
+        expect(parseFilterCondition({ type: 'color', colors: ['red'] })).toBeNull();
+        expect(parseFilterCondition({ type: 'date', field: 'due', from: 'tomorrow' })).toBeNull();
+        expect(parseFilterCondition({ type: 'and', conditions: [{ type: 'tag', tag: 'work' }, { type: 'tag' }] })).toBeNull();
+    });
+
+    /**
+     * タグ・テキスト・リンクの条件で付箋を判定する
+     */
+    it('should match tags, text and links', () => {
+        const note = createNote({ content: 'See [[Budget]]' }, ['work/q4']);
+
+        expect(evaluateFilterCondition({ type: 'tag', tag: '#work' }, note, context)).toBe(true);
+        expect(evaluateFilterCondition({ type: 'tag', tag: 'wor' }, note, context)).toBe(false);
+        expect(evaluateFilterCondition({ type: 'text', query: 'WEEKLY' }, note, context)).toBe(true);
+        expect(evaluateFilterCondition({ type: 'text', query: 'sticky-2026' }, note, context)).toBe(true);
+        expect(evaluateFilterCondition({ type: 'has-links', value: true }, note, context)).toBe(true);
+        expect(evaluateFilterCondition({ type: 'has-links', value: true }, createNote(), context)).toBe(false);
+    });
+
+    /**
+     * 日付の範囲は両端を含み、相対指定は今日を基準にする
+     */
+    it('should filter by date ranges', () => {
+        expect(resolveFilterDate('today', context.now)).toBe('2026-10-19');
+        expect(resolveFilterDate('+1w', context.now)).toBe('2026-10-26');
+        expect(resolveFilterDate('-3d', context.now)).toBe('2026-10-16');
+        expect(resolveFilterDate('2026-02-30', context.now)).toBeNull();
+
+        const thisWeek: FilterCondition = { type: 'date', field: 'due', from: 'today', to: '+6d' };
+        expect(evaluateFilterCondition(thisWeek, createNote({ content: 'Task 📅 2026-10-19' }), context)).toBe(true);
+        expect(evaluateFilterCondition(thisWeek, createNote({ content: 'Task 📅 2026-10-25' }), context)).toBe(true);
+        expect(evaluateFilterCondition(thisWeek, createNote({ content: 'Task 📅 2026-10-26' }), context)).toBe(false);
+        expect(evaluateFilterCondition(thisWeek, createNote(), context)).toBe(false);
+        expect(evaluateFilterCondition({ type: 'date', field: 'created', to: '2026-10-01' }, createNote(), context)).toBe(true);
+    });
+
+    /**
+     * 保存したフィルターを読み込むと元の設定に戻り、完了状態だけの場合は従来の形式で保存する
+     */
+    it('should round-trip saved filters', () => {
+        fc.assert(
+            fc.property(
+                fc.constantFrom(...DISPLAY_FILTER_TYPES),
+                fc.constantFrom(...PRIORITY_LEVELS),
+                fc.option(leafArb.filter(c => c.type !== 'completion' && c.type !== 'priority'), { nil: null }),
+                (filter, minPriority, condition) => {
+                    const parts: SavedFilterParts = { filter, minPriority, condition };
+                    const saved = serializeSavedFilter(parts);
+
+                    expect(parseSavedFilter(saved)).toEqual(parts);
+                    if (minPriority === 'low' && !condition) {
+                        expect(saved).toBe(filter);
+                    }
+                }
+            ),
+            { numRuns: 100 }
+        );
+        expect(parseSavedFilter('not json')).toBeNull();
+        expect(parseSavedFilter(JSON.stringify({ type: 'tag', tag: 'work' })))
+            .toEqual({ filter: 'all', minPriority: 'low', condition: { type: 'tag', tag: 'work' } });
+    });
+});
@@ -0,0 +1,272 @@
+import { StickyNote } from '../types/core-types';
+import {
+    DisplayFilterType,
+    FilterCondition,
+    FilterDateField,
+    NoteColorType,
+    NoteSizeType,
+    PriorityLevel
+} from '../types/config-types';
+import { PostodoNoteDetector } from './postodo-note-detector';
+import { isDueWithin, toLocalTaskDate } from './due-date';
+import { isAtLeastPriority, PRIORITY_LEVELS } from './priority';
+import { parseTaskDate, formatTaskDate } from './recurrence';
+
+/**
+ * 条件を判定する時の基準
+ */
+export interface FilterContext {
+    now: Date;
+    // 「期日が近い」で対象とする日数
+    dueSoonDays: number;
+}
+
+/**
+ * 保存されたフィルターを表示フィルターの各設定に分けたもの
+ */
+export interface SavedFilterParts {
+    filter: DisplayFilterType;
+    minPriority: PriorityLevel;
+    // 完了状態と優先度以外の条件（ない場合はnull）
+    condition: FilterCondition | null;
+}
+
+export const DISPLAY_FILTER_TYPES: DisplayFilterType[] = ['incomplete', 'complete', 'all', 'due-soon'];
+
+const NOTE_COLORS: NoteColorType[] = ['yellow', 'pink', 'blue', 'green', 'orange', 'purple'];
+const NOTE_SIZES: NoteSizeType[] = ['small', 'medium', 'large'];
+const DATE_FIELDS: FilterDateField[] = ['due', 'scheduled', 'start', 'created', 'modified', 'completed'];
+
+// 条件の入れ子の深さの上限（設定の読み込み時に検証する）
+const MAX_CONDITION_DEPTH = 16;
+
+const WIKI_LINK_PATTERN = /\[\[[^\]]+\]\]/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 完了状態のフィルターの判定
+ */
+export function matchesCompletion(note: StickyNote, status: DisplayFilterType, context: FilterContext): boolean {
+    switch (status) {
+        case 'incomplete':
+            return !note.completed;
+        case 'complete':
+            return note.completed;
+        case 'due-soon':
+            return isDueWithin(note, context.dueSoonDays, context.now);
+        case 'all':
+        default:
+            return true;
+    }
+}
+
+/**
+ * 日付の指定（YYYY-MM-DD、today、+7d、-2w）をYYYY-MM-DD形式にする
+ * @returns 不正な指定の場合はnull
+ */
+export function resolveFilterDate(value: string, now: Date): string | null {
+    const trimmed = value.trim().toLowerCase();
+    const today = parseTaskDate(toLocalTaskDate(now))!;
+
+    if (trimmed === 'today') {
+        return formatTaskDate(today);
+    }
+
+    const relative = /^([+-]\d+)([dw])$/.exec(trimmed);
+    if (relative) {
+        const days = Number(relative[1]) * (relative[2] === 'w' ? 7 : 1);
+        return formatTaskDate(new Date(today.getTime() + days * DAY_MS));
+    }
+
+    return parseTaskDate(trimmed) ? trimmed : null;
+}
+
+/**
+ * 付箋の日付をYYYY-MM-DD形式で返す
+ */
+function getNoteDate(note: StickyNote, field: FilterDateField): string | undefined {
+    switch (field) {
+        case 'due':
+        case 'scheduled':
+        case 'start': {
+            const metadata = note.metadata.taskInfo || PostodoNoteDetector.extractTaskMetadata(note.content);
+            return field === 'due' ? metadata.dueDate : field === 'scheduled' ? metadata.scheduledDate : metadata.startDate;
+        }
+        case 'created':
+        case 'modified':
+        case 'completed': {
+            const value = field === 'completed' ? note.completedAt : note.metadata[field];
+            const time = value ? Date.parse(value) : NaN;
+            return Number.isFinite(time) ? toLocalTaskDate(new Date(time)) : undefined;
+        }
+    }
+}
+
+function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+/**
+ * 付箋が条件を満たすかどうかを判定する
+ */
+export function evaluateFilterCondition(condition: FilterCondition, note: StickyNote, context: FilterContext): boolean {
+    switch (condition.type) {
+        case 'completion':
+            return matchesCompletion(note, condition.status, context);
+        case 'tag': {
+            const tag = normalizeTag(condition.tag);
+            // 階層タグ（#project/sub）は親のタグでも一致させる
+            return note.metadata.tags.some(noteTag => {
+                const normalized = normalizeTag(noteTag);
+                return normalized === tag || normalized.startsWith(`${tag}/`);
+            });
+        }
+        case 'color':
+            return condition.colors.includes(note.appearance.color);
+        case 'size':
+            return condition.sizes.includes(note.appearance.size);
+        case 'text': {
+            const query = condition.query.trim().toLowerCase();
+            if (!query) return true;
+            return [note.title, note.content, note.filePath].some(text => text.toLowerCase().includes(query));
+        }
+        case 'date': {
+            const date = getNoteDate(note, condition.field);
+            if (!date) return false;
+            const from = condition.from ? resolveFilterDate(condition.from, context.now) : null;
+            const to = condition.to ? resolveFilterDate(condition.to, context.now) : null;
+            return (!from || date >= from) && (!to || date <= to);
+        }
+        case 'priority':
+            return isAtLeastPriority(note, condition.min);
+        case 'has-links':
+            return (note.metadata.links.length > 0 || WIKI_LINK_PATTERN.test(note.content)) === condition.value;
+        case 'not':
+            return !evaluateFilterCondition(condition.condition, note, context);
+        case 'and':
+            return condition.conditions.every(child => evaluateFilterCondition(child, note, context));
+        case 'or':
+            return condition.conditions.some(child => evaluateFilterCondition(child, note, context));
+        default:
+            return true;
+    }
+}
+
+function isStringArrayOf<T extends string>(value: unknown, allowed: T[]): value is T[] {
+    return Array.isArray(value) && value.every(item => allowed.includes(item));
+}
+
+/**
+ * 設定から読み込んだ値を条件として検証する
+ * @returns 条件として正しくない場合はnull
+ */
+export function parseFilterCondition(value: unknown, depth = 0): FilterCondition | null {
+    if (!value || typeof value !== 'object' || depth > MAX_CONDITION_DEPTH) return null;
+    const raw = value as Record<string, unknown>;
+
+    switch (raw.type) {
+        case 'completion':
+            return DISPLAY_FILTER_TYPES.includes(raw.status as DisplayFilterType)
+                ? { type: 'completion', status: raw.status as DisplayFilterType }
+                : null;
+        case 'tag':
+            return typeof raw.tag === 'string' && normalizeTag(raw.tag) ? { type: 'tag', tag: raw.tag } : null;
+        case 'color':
+            return isStringArrayOf(raw.colors, NOTE_COLORS) ? { type: 'color', colors: raw.colors } : null;
+        case 'size':
+            return isStringArrayOf(raw.sizes, NOTE_SIZES) ? { type: 'size', sizes: raw.sizes } : null;
+        case 'text':
+            return typeof raw.query === 'string' ? { type: 'text', query: raw.query } : null;
+        case 'date': {
+            if (!DATE_FIELDS.includes(raw.field as FilterDateField)) return null;
+            const now = new Date();
+            const isValidDate = (date: unknown) => date === undefined || (typeof date === 'string' && resolveFilterDate(date, now) !== null);
+            if (!isValidDate(raw.from) || !isValidDate(raw.to)) return null;
+            return {
+                type: 'date',
+                field: raw.field as FilterDateField,
+                ...(raw.from !== undefined ? { from: raw.from as string } : {}),
+                ...(raw.to !== undefined ? { to: raw.to as string } : {})
+            };
+        }
+        case 'priority':
+            return PRIORITY_LEVELS.includes(raw.min as PriorityLevel) ? { type: 'priority', min: raw.min as PriorityLevel } : null;
+        case 'has-links':
+            return typeof raw.value === 'boolean' ? { type: 'has-links', value: raw.value } : null;
+        case 'not': {
+            const condition = parseFilterCondition(raw.condition, depth + 1);
+            return condition ? { type: 'not', condition } : null;
+        }
+        case 'and':
+        case 'or': {
+            if (!Array.isArray(raw.conditions)) return null;
+            const conditions = raw.conditions.map(child => parseFilterCondition(child, depth + 1));
+            if (conditions.some(condition => condition === null)) return null;
+            return { type: raw.type, conditions: conditions as FilterCondition[] };
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * 表示フィルターの各設定を1つの条件にまとめて、設定に保存できる文字列にする
+ * 完了状態だけの場合は従来どおりフィルターの種類をそのまま返す
+ */
+export function serializeSavedFilter(parts: SavedFilterParts): string {
+    if (parts.minPriority === 'low' && !parts.condition) {
+        return parts.filter;
+    }
+
+    const conditions: FilterCondition[] = [{ type: 'completion', status: parts.filter }];
+    if (parts.minPriority !== 'low') {
+        conditions.push({ type: 'priority', min: parts.minPriority });
+    }
+    if (parts.condition) {
+        conditions.push(parts.condition);
+    }
+    return JSON.stringify({ type: 'and', conditions });
+}
+
+/**
+ * 設定に保存したフィルターを表示フィルターの各設定に分ける
+ * 最上位（またはANDの直下）の完了状態と優先度の条件はそれぞれの設定に、それ以外は追加の条件にする
+ * @returns 解析できない場合はnull
+ */
+export function parseSavedFilter(value: string | undefined): SavedFilterParts | null {
+    if (!value) return null;
+    if (DISPLAY_FILTER_TYPES.includes(value as DisplayFilterType)) {
+        return { filter: value as DisplayFilterType, minPriority: 'low', condition: null };
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(value);
+    } catch {
+        return null;
+    }
+    const condition = parseFilterCondition(parsed);
+    if (!condition) return null;
+
+    const parts: SavedFilterParts = { filter: 'all', minPriority: 'low', condition: null };
+    const rest: FilterCondition[] = [];
+    const children = condition.type === 'and' ? condition.conditions : [condition];
+    let hasCompletion = false;
+    let hasPriority = false;
+
+    children.forEach(child => {
+        if (child.type === 'completion' && !hasCompletion) {
+            parts.filter = child.status;
+            hasCompletion = true;
+        } else if (child.type === 'priority' && !hasPriority) {
+            parts.minPriority = child.min;
+            hasPriority = true;
+        } else {
+            rest.push(child);
+        }
+    });
+
+    parts.condition = rest.length === 0 ? null : rest.length === 1 ? rest[0] : { type: 'and', conditions: rest };
+    return parts;
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { fuzzyScore, normalizeSearchText, splitSearchTerms } from './fuzzy-search';
+
+/**
+ * あいまい検索のテスト
+ */
+describe('fuzzy search', () => {
+    const textArb = fc.stringOf(fc.constantFrom('a', 'b', 'c', 'd', ' ', '-'), { minLength: 1, maxLength: 30 });
+
+    /**
+     * テキストの部分文字列は必ず一致し、文字が飛んだ一致より高く評価される
+     */
+    it('should rank substrings above scattered matches', () => {
+        fc.assert(
+            fc.property(textArb, fc.nat(), fc.nat(), textArb, (text, a, b, other) => {
+                const start = a % text.length;
+                const term = text.slice(start, start + 1 + (b % (text.length - start)));
+                const score = fuzzyScore(term, text);
+
+                expect(score).not.toBeNull();
+                const otherScore = fuzzyScore(term, other);
+                if (otherScore !== null && !other.includes(term)) {
+                    expect(score!).toBeGreaterThan(otherScore);
+                }
+            }),
+            { numRuns: 200 }
+        );
+    });
+
+    /**
+     * 検索語の文字が近い範囲に順に現れれば一致し、順序が違う場合や離れすぎている場合は一致しない
+     */
+    it('should match characters in order within a short span', () => {
+        expect(fuzzyScore('wkrp', 'weekly report')).not.toBeNull();
+        expect(fuzzyScore('wkz', 'weekly report')).toBeNull();
+        expect(fuzzyScore('wkly', 'weekly report')).not.toBeNull();
+        expect(fuzzyScore('ylkw', 'weekly report')).toBeNull();
+        expect(fuzzyScore('rpt', 'weekly report')).not.toBeNull();
+        expect(fuzzyScore('rpt', 'r' + ' '.repeat(20) + 'pt')).toBeNull();
+    });
+
+    /**
+     * 全角英数字や大文字を区別せず、空白で検索語を区切る
+     */
+    it('should normalize width and case', () => {
+        expect(normalizeSearchText('ＲＥＰＯＲＴ ２０２６')).toBe('report 2026');
+        expect(splitSearchTerms('  Weekly　Report ')).toEqual(['weekly', 'report']);
+        expect(splitSearchTerms('   ')).toEqual([]);
+    });
+});
@@ -0,0 +1,60 @@
+// 本文などの長いテキストで、離れた文字同士が一致しないよう制限する（検索語の長さに対する倍率）
+const MAX_SPAN_RATIO = 3;
+
+/**
+ * 検索用にテキストを正規化する（全角英数字を半角に、大文字を小文字にする）
+ */
+export function normalizeSearchText(text: string): string {
+    return text.normalize('NFKC').toLowerCase();
+}
+
+/**
+ * 検索語を空白で区切る（全ての語に一致した付箋を結果とする）
+ */
+export function splitSearchTerms(query: string): string[] {
+    return normalizeSearchText(query).split(/\s+/).filter(term => term.length > 0);
+}
+
+function isWordStart(text: string, index: number): boolean {
+    return index === 0 || /[\s\-_/.#[\]()、。]/.test(text[index - 1]);
+}
+
+/**
+ * 検索語とテキストのあいまい一致のスコアを返す
+ * 連続した一致（部分文字列）を最も高く評価し、それ以外は検索語の文字が順に現れれば一致とする
+ * どちらも単語の先頭での一致を高く評価する
+ * @param term 正規化済みの検索語
+ * @param text 正規化済みのテキスト
+ * @returns 一致しない場合はnull
+ */
+export function fuzzyScore(term: string, text: string): number | null {
+    if (!term) return 0;
+
+    const index = text.indexOf(term);
+    if (index !== -1) {
+        return term.length * 3 + (isWordStart(text, index) ? 2 : 0);
+    }
+
+    const maxSpan = term.length * MAX_SPAN_RATIO;
+    let best: number | null = null;
+    for (let start = text.indexOf(term[0]); start !== -1; start = text.indexOf(term[0], start + 1)) {
+        let score = 1 + (isWordStart(text, start) ? 1 : 0);
+        let previous = start;
+        let matched = true;
+
+        for (let i = 1; i < term.length; i++) {
+            const next = text.indexOf(term[i], previous + 1);
+            if (next === -1 || next - start >= maxSpan) {
+                matched = false;
+                break;
+            }
+            score += (next === previous + 1 ? 2 : 1) + (isWordStart(text, next) ? 1 : 0);
+            previous = next;
+        }
+
+        if (matched && (best === null || score > best)) {
+            best = score;
+        }
+    }
+    return best;
+}
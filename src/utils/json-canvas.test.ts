@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+    NOTE_COLOR_TO_CANVAS,
+    canvasColorToNoteColor,
+    exportNotesToJsonCanvas,
+    parseJsonCanvas,
+    planJsonCanvasImport,
+    toCanvasFileBaseName
+} from './json-canvas';
+import { StickyNote } from '../types/core-types';
+import { NoteColorType } from '../types/config-types';
+
+function createNote(id: string, x: number, y: number, zIndex = 1, color: NoteColorType = 'yellow'): StickyNote {
+    return {
+        id,
+        filePath: `Postodo/${id}.md`,
+        title: id,
+        content: id,
+        position: { x, y, zIndex },
+        dimensions: { width: 200, height: 180 },
+        appearance: { color, size: 'medium', rotation: 0 },
+        completed: false,
+        metadata: { created: '', modified: '', tags: [], links: [], attachments: [] }
+    } as StickyNote;
+}
+
+/**
+ * JSON Canvasとの変換のテスト
+ */
+describe('json canvas', () => {
+    const colorArb = fc.constantFrom<NoteColorType>('yellow', 'pink', 'blue', 'green', 'orange', 'purple');
+    const noteArb = fc.record({
+        x: fc.integer({ min: 0, max: 10000 }),
+        y: fc.integer({ min: 0, max: 10000 }),
+        zIndex: fc.integer({ min: 1, max: 100 }),
+        color: colorArb
+    });
+
+    /**
+     * 書き出したキャンバスを読み込むと、同じ付箋が同じ位置と重なり順で置かれる
+     */
+    it('should round-trip notes through the canvas format', () => {
+        fc.assert(
+            fc.property(fc.array(noteArb, { minLength: 1, maxLength: 10 }), (specs) => {
+                const notes = specs.map((spec, i) => createNote(`n${i}`, spec.x, spec.y, spec.zIndex, spec.color));
+                const canvas = parseJsonCanvas(JSON.stringify(exportNotesToJsonCanvas(notes)))!;
+                const plan = planJsonCanvasImport(canvas, new Map(notes.map(note => [note.filePath, note])));
+
+                expect(plan.create).toEqual([]);
+                expect(plan.skipped).toBe(0);
+                notes.forEach(note => {
+                    const placed = plan.place.find(p => p.id === note.id)!;
+                    expect([placed.position.x, placed.position.y]).toEqual([note.position.x, note.position.y]);
+                });
+                // 重なり順（奥から手前への並び）は変わらない
+                const byZ = (ids: string[], z: (id: string) => number) => [...ids].sort((a, b) => z(a) - z(b) || ids.indexOf(a) - ids.indexOf(b));
+                const original = byZ(notes.map(n => n.id), id => notes.find(n => n.id === id)!.position.zIndex);
+                expect(plan.place.map(p => p.id)).toEqual(original);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 付箋の色はプリセットの色と相互に変換でき、任意の色は最も近い色にする
+     */
+    it('should map colors', () => {
+        (Object.keys(NOTE_COLOR_TO_CANVAS) as NoteColorType[]).forEach(color => {
+            expect(canvasColorToNoteColor(NOTE_COLOR_TO_CANVAS[color])).toBe(color);
+        });
+        expect(canvasColorToNoteColor('#ff0000')).toBe('pink');
+        expect(canvasColorToNoteColor('#2050ff')).toBe('purple');
+        expect(canvasColorToNoteColor('#00ffff')).toBe('blue');
+        expect(canvasColorToNoteColor(undefined)).toBeUndefined();
+        expect(canvasColorToNoteColor('7')).toBeUndefined();
+    });
+
+    /**
+     * テキストとファイルのノードから付箋を作成し、範囲外の座標は配置を保ったまま範囲内に移動する
+     */
+    it('should plan notes from text and file nodes', () => {
+        const canvas = parseJsonCanvas(JSON.stringify({
+            nodes: [
+                { id: 'a', type: 'text', text: ' Buy milk ', x: -500, y: -200, width: 250, height: 60, color: '4' },
+                { id: 'b', type: 'file', file: 'Docs/Plan.md', x: -100, y: 0, width: 800, height: 400 },
+                { id: 'c', type: 'group', x: 0, y: 0, width: 1000, height: 1000, label: 'Group' },
+                { id: 'd', type: 'link', url: 'https://example.com', x: 0, y: 0, width: 200, height: 200 },
+                { id: 'e', type: 'text', text: 'x'.repeat(1001), x: 0, y: 0, width: 200, height: 200 },
+                { id: 'f', type: 'text', text: 'No position' }
+            ],
+            edges: []
+        }))!;
+
+        const plan = planJsonCanvasImport(canvas, new Map());
+
+        expect(canvas.nodes).toHaveLength(5);
+        expect(plan.skipped).toBe(3);
+        expect(plan.place).toEqual([]);
+        expect(plan.create).toEqual([
+            {
+                content: 'Buy milk',
+                position: { x: 100, y: 100, zIndex: 1 },
+                dimensions: { width: 250, height: 100 },
+                appearance: { color: 'green' }
+            },
+            {
+                content: '![[Docs/Plan.md]]',
+                position: { x: 500, y: 300, zIndex: 2 },
+                dimensions: { width: 500, height: 400 }
+            }
+        ]);
+        expect(parseJsonCanvas('not json')).toBeNull();
+        expect(parseJsonCanvas('{"nodes": {}}')).toBeNull();
+    });
+
+    /**
+     * ファイル名に使用できない文字や相対パスにならないようにする
+     */
+    it('should build safe file names', () => {
+        expect(toCanvasFileBaseName('Sprint: 10/19')).toBe('Sprint- 10-19');
+        expect(toCanvasFileBaseName('..hidden')).toBe('hidden');
+        expect(toCanvasFileBaseName('a..b')).toBe('a.b');
+        expect(toCanvasFileBaseName('  ')).toBe('Postodo');
+    });
+});
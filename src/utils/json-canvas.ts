@@ -0,0 +1,204 @@
+import { StickyNote, CreateNoteOptions, Dimensions, Position } from '../types/core-types';
+import { NoteColorType } from '../types/config-types';
+import { NoteValidator } from './validators';
+
+/**
+ * JSON Canvas（Obsidianの.canvasファイル）のノード
+ * https://jsoncanvas.org/ のうち、付箋との変換に使用する項目だけを扱う
+ */
+export interface JsonCanvasNode {
+    id: string;
+    type: 'text' | 'file' | 'link' | 'group';
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    // プリセットの色（'1'〜'6'）または#RRGGBB
+    color?: string;
+    text?: string;
+    file?: string;
+}
+
+export interface JsonCanvasData {
+    nodes: JsonCanvasNode[];
+    edges: unknown[];
+}
+
+/**
+ * .canvasファイルの読み込み結果を付箋にする方法
+ */
+export interface JsonCanvasImportPlan {
+    // 新しく作成する付箋
+    create: CreateNoteOptions[];
+    // 既存の付箋（ファイルのノード）をボードに置く位置
+    place: { id: string; position: Position }[];
+    // 付箋にできないノード（グループ・リンク・長すぎるテキスト）の数
+    skipped: number;
+}
+
+// 付箋の色とJSON Canvasのプリセットの色（1:赤 2:オレンジ 3:黄 4:緑 5:シアン 6:紫）
+export const NOTE_COLOR_TO_CANVAS: Record<NoteColorType, string> = {
+    pink: '1',
+    orange: '2',
+    yellow: '3',
+    green: '4',
+    blue: '5',
+    purple: '6'
+};
+
+// 任意の色（#RRGGBB）を最も近い付箋の色にするための、Obsidianのプリセットの色
+const CANVAS_PRESET_RGB: Record<string, [number, number, number]> = {
+    '1': [0xfb, 0x46, 0x4c],
+    '2': [0xe9, 0x97, 0x3f],
+    '3': [0xe0, 0xde, 0x71],
+    '4': [0x44, 0xcf, 0x6e],
+    '5': [0x53, 0xdf, 0xdd],
+    '6': [0xa8, 0x82, 0xff]
+};
+
+// 付箋の位置の範囲（NoteValidatorの制限）
+const MAX_COORDINATE = 10000;
+// 範囲外の座標を含むキャンバスを読み込む時の左上の位置
+const IMPORT_MARGIN = 100;
+
+/**
+ * JSON Canvasの色を付箋の色にする
+ * @returns 色がない、または解釈できない場合はundefined
+ */
+export function canvasColorToNoteColor(color: string | undefined): NoteColorType | undefined {
+    if (!color) return undefined;
+
+    let preset = color;
+    const hex = /^#([0-9a-f]{6})$/i.exec(color);
+    if (hex) {
+        const value = parseInt(hex[1], 16);
+        const rgb = [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+        preset = Object.entries(CANVAS_PRESET_RGB).reduce((best, [key, presetRgb]) => {
+            const distance = presetRgb.reduce((sum, channel, i) => sum + (channel - rgb[i]) ** 2, 0);
+            return distance < best.distance ? { key, distance } : best;
+        }, { key: '3', distance: Infinity }).key;
+    }
+
+    const entry = Object.entries(NOTE_COLOR_TO_CANVAS).find(([, canvasColor]) => canvasColor === preset);
+    return entry ? entry[0] as NoteColorType : undefined;
+}
+
+/**
+ * 付箋をJSON Canvasにする
+ * 各付箋は付箋のファイルを表示するノードにし、重なり順の奥のものから並べる（JSON Canvasでは後のノードが手前になる）
+ */
+export function exportNotesToJsonCanvas(notes: StickyNote[]): JsonCanvasData {
+    const nodes = [...notes]
+        .sort((a, b) => a.position.zIndex - b.position.zIndex)
+        .map((note): JsonCanvasNode => ({
+            id: note.id,
+            type: 'file',
+            file: note.filePath,
+            x: Math.round(note.position.x),
+            y: Math.round(note.position.y),
+            width: Math.round(note.dimensions.width),
+            height: Math.round(note.dimensions.height),
+            color: NOTE_COLOR_TO_CANVAS[note.appearance.color as NoteColorType]
+        }));
+    return { nodes, edges: [] };
+}
+
+/**
+ * .canvasファイルの内容を読み込む
+ * 位置や大きさが正しくないノードは読み飛ばす
+ * @returns JSON Canvasとして読めない場合はnull
+ */
+export function parseJsonCanvas(content: string): JsonCanvasData | null {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(content);
+    } catch {
+        return null;
+    }
+    if (!parsed || typeof parsed !== 'object') return null;
+    const raw = parsed as Record<string, unknown>;
+    if (raw.nodes !== undefined && !Array.isArray(raw.nodes)) return null;
+
+    const nodes = ((raw.nodes as unknown[]) || []).filter((node): node is JsonCanvasNode => {
+        if (!node || typeof node !== 'object') return false;
+        const n = node as Record<string, unknown>;
+        return typeof n.id === 'string' &&
+            typeof n.type === 'string' &&
+            [n.x, n.y, n.width, n.height].every(value => typeof value === 'number' && Number.isFinite(value));
+    });
+    return { nodes, edges: Array.isArray(raw.edges) ? raw.edges : [] };
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
+
+function toDimensions(node: JsonCanvasNode): Dimensions {
+    return {
+        width: clamp(Math.round(node.width), NoteValidator.MIN_NOTE_SIZE, NoteValidator.MAX_NOTE_SIZE),
+        height: clamp(Math.round(node.height), NoteValidator.MIN_NOTE_SIZE, NoteValidator.MAX_NOTE_SIZE)
+    };
+}
+
+/**
+ * JSON Canvasのテキストとファイルのノードを付箋にする方法を決める
+ * - Postodoの付箋のファイルのノードは、その付箋をノードの位置に置く
+ * - その他のファイルのノードは、ファイルを埋め込んだ付箋を作成する
+ * - テキストのノードは、テキストを内容とする付箋を作成する
+ * 付箋の位置の範囲外の座標を含む場合は、全体を左上に寄せて配置を保ったまま範囲内に移動する
+ * @param notesByPath 既存の付箋（ファイルパスごと）
+ */
+export function planJsonCanvasImport(canvas: JsonCanvasData, notesByPath: Map<string, StickyNote>): JsonCanvasImportPlan {
+    const plan: JsonCanvasImportPlan = { create: [], place: [], skipped: 0 };
+    const nodes = canvas.nodes.filter(node => {
+        const importable = (node.type === 'text' && typeof node.text === 'string' && node.text.trim().length > 0 &&
+                node.text.trim().length <= NoteValidator.MAX_CONTENT_LENGTH) ||
+            (node.type === 'file' && typeof node.file === 'string' && node.file.length > 0);
+        if (!importable) plan.skipped++;
+        return importable;
+    });
+    if (nodes.length === 0) return plan;
+
+    const minX = Math.min(...nodes.map(node => node.x));
+    const minY = Math.min(...nodes.map(node => node.y));
+    const maxX = Math.max(...nodes.map(node => node.x));
+    const maxY = Math.max(...nodes.map(node => node.y));
+    const fits = minX >= 0 && minY >= 0 && maxX <= MAX_COORDINATE && maxY <= MAX_COORDINATE;
+    const offsetX = fits ? 0 : IMPORT_MARGIN - minX;
+    const offsetY = fits ? 0 : IMPORT_MARGIN - minY;
+
+    // JSON Canvasでは後のノードが手前になるため、順番を重なり順にする
+    nodes.forEach((node, index) => {
+        const position: Position = {
+            x: clamp(Math.round(node.x + offsetX), 0, MAX_COORDINATE),
+            y: clamp(Math.round(node.y + offsetY), 0, MAX_COORDINATE),
+            zIndex: index + 1
+        };
+        const existing = node.type === 'file' ? notesByPath.get(node.file!) : undefined;
+        if (existing) {
+            plan.place.push({ id: existing.id, position });
+            return;
+        }
+
+        const color = canvasColorToNoteColor(node.color);
+        plan.create.push({
+            content: node.type === 'text' ? node.text!.trim() : `![[${node.file}]]`,
+            position,
+            dimensions: toDimensions(node),
+            ...(color ? { appearance: { color } } : {})
+        });
+    });
+    return plan;
+}
+
+/**
+ * 書き出す.canvasファイルの名前にする
+ * ファイル名に使用できない文字を置き換え、隠しファイルや相対パスにならないようにする
+ */
+export function toCanvasFileBaseName(name: string): string {
+    return name
+        .replace(/[<>:"/\\|?*#^[\]]/g, '-')
+        .replace(/\.{2,}/g, '.')
+        .replace(/^\.+/, '')
+        .trim() || 'Postodo';
+}
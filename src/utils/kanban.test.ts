@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { parseKanbanSettings, getKanbanColumnValue, groupNotesIntoColumns, getKanbanColumnUpdate } from './kanban';
+import { applyNoteUpdate } from '../implementations/data/note-repository';
+import { KanbanSettings } from '../types/config-types';
+import { StickyNote, NotePropertyValue } from '../types/core-types';
+
+function createNote(id: string, options: { completed?: boolean; tags?: string[]; properties?: Record<string, NotePropertyValue> } = {}): StickyNote {
+    return {
+        id,
+        filePath: `Postodo/${id}.md`,
+        title: id,
+        content: id,
+        position: { x: 10, y: 20, zIndex: 3 },
+        dimensions: { width: 200, height: 180 },
+        appearance: { color: 'yellow', size: 'medium', rotation: 0 },
+        completed: options.completed ?? false,
+        metadata: {
+            created: '',
+            modified: '',
+            tags: ['postodo', ...(options.tags || [])],
+            links: [],
+            attachments: [],
+            ...(options.properties ? { properties: options.properties } : {})
+        }
+    };
+}
+
+/**
+ * カンバン表示の列分けと列の移動のテスト
+ */
+describe('kanban', () => {
+    const tagSettings: KanbanSettings = { source: 'tag', field: 'status', columns: ['todo', 'doing', 'done'] };
+    const fieldSettings: KanbanSettings = { source: 'field', field: 'status', columns: ['todo', 'doing', 'done'] };
+    const completionSettings: KanbanSettings = { source: 'completion', field: 'status', columns: [] };
+
+    /**
+     * 設定の正しくない項目は既定値になり、列の値は空白と重複を除く
+     */
+    it('should parse settings with defaults for invalid values', () => {
+        expect(parseKanbanSettings(undefined)).toEqual({ source: 'completion', field: 'status', columns: ['todo', 'doing', 'done'] });
+        expect(parseKanbanSettings({ source: 'unknown', field: 'postodo_id', columns: [' a ', 'a', '', 3, 'b'] }))
+            .toEqual({ source: 'completion', field: 'status', columns: ['a', 'b'] });
+    });
+
+    /**
+     * 値のない付箋の列を先頭にし、項目の場合は設定にない値の列を後ろに加える
+     */
+    it('should group notes into configured and extra columns', () => {
+        const notes = [
+            createNote('a', { properties: { status: 'doing' } }),
+            createNote('b', { properties: { status: 'blocked' } }),
+            createNote('c'),
+            createNote('d', { properties: { status: 'doing' } })
+        ];
+
+        const columns = groupNotesIntoColumns(notes, fieldSettings);
+
+        expect(columns.map(column => column.value)).toEqual([null, 'todo', 'doing', 'done', 'blocked']);
+        expect(columns.map(column => column.notes.map(note => note.id))).toEqual([['c'], [], ['a', 'd'], [], ['b']]);
+        expect(groupNotesIntoColumns([createNote('e', { completed: true })], completionSettings).map(column => column.notes.length))
+            .toEqual([0, 1]);
+    });
+
+    /**
+     * 列を移動する更新を適用すると移動先の列に入り、位置は変わらない
+     */
+    it('should move a note to any column without changing its position', () => {
+        const settingsArb = fc.constantFrom(tagSettings, fieldSettings, completionSettings);
+        const noteArb = fc.record({
+            completed: fc.boolean(),
+            tags: fc.subarray(['todo', 'doing', 'done', 'other']),
+            properties: fc.option(fc.record({ status: fc.constantFrom('todo', 'doing', 'blocked') }), { nil: undefined })
+        }).map(options => createNote('n', options));
+
+        fc.assert(
+            fc.property(settingsArb, noteArb, fc.nat(), (settings, note, index) => {
+                const values = groupNotesIntoColumns([note], settings).map(column => column.value);
+                const target = values[index % values.length];
+
+                const update = getKanbanColumnUpdate(note, target, settings);
+                const moved = update ? applyNoteUpdate(note, update) : note;
+
+                expect(getKanbanColumnValue(moved, settings)).toBe(target);
+                expect(update?.position).toBeUndefined();
+                expect(moved.position).toEqual(note.position);
+                expect(moved.metadata.tags).toContain('postodo');
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * タグの列の移動では他の列のタグだけを外し、それ以外のタグは残す
+     */
+    it('should replace only the column tags when moving between tag columns', () => {
+        const note = createNote('a', { tags: ['Todo', 'project'] });
+
+        expect(getKanbanColumnValue(note, tagSettings)).toBe('todo');
+        expect(getKanbanColumnUpdate(note, 'done', tagSettings)).toEqual({ tags: ['postodo', 'project', 'done'] });
+        expect(getKanbanColumnUpdate(note, null, tagSettings)).toEqual({ tags: ['postodo', 'project'] });
+        expect(getKanbanColumnUpdate(note, 'todo', tagSettings)).toBeNull();
+    });
+});
@@ -0,0 +1,118 @@
+import { StickyNote, UpdateNoteOptions } from '../types/core-types';
+import { KanbanSettings, KanbanColumnSource, DEFAULT_SETTINGS } from '../types/config-types';
+import { NoteValidator } from './validators';
+
+/**
+ * カンバン表示の1列
+ */
+export interface KanbanColumn {
+    // 列の値（完了状態の場合はKANBAN_COMPLETION_VALUESのいずれか）。値のない付箋の列はnull
+    value: string | null;
+    notes: StickyNote[];
+}
+
+// 完了状態で列に分ける場合の列の値（左の列から順）
+export const KANBAN_COMPLETION_VALUES = ['incomplete', 'complete'];
+
+const KANBAN_COLUMN_SOURCES: KanbanColumnSource[] = ['completion', 'tag', 'field'];
+
+// 付箋として読み込むためのタグ（列のタグとしては扱わない）
+const POSTODO_TAG = 'postodo';
+
+function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+/**
+ * 設定から読み込んだ値をカンバン表示の列の設定として検証する
+ * 正しくない項目は既定値にし、列の値は前後の空白を除いて重複と空の値を除く
+ */
+export function parseKanbanSettings(value: unknown): KanbanSettings {
+    const defaults = DEFAULT_SETTINGS.ui.kanban;
+    if (!value || typeof value !== 'object') {
+        return { ...defaults, columns: [...defaults.columns] };
+    }
+
+    const raw = value as Record<string, unknown>;
+    const source = KANBAN_COLUMN_SOURCES.includes(raw.source as KanbanColumnSource)
+        ? raw.source as KanbanColumnSource
+        : defaults.source;
+    const field = typeof raw.field === 'string' && NoteValidator.validatePropertyKey(raw.field).valid
+        ? raw.field
+        : defaults.field;
+    const columns = Array.isArray(raw.columns)
+        ? [...new Set(raw.columns.filter((column): column is string => typeof column === 'string').map(column => column.trim()))]
+            .filter(column => column.length > 0)
+        : [...defaults.columns];
+    return { source, field, columns };
+}
+
+/**
+ * 付箋が入る列の値を返す
+ * タグの場合は列の順に最初に一致したタグ、項目の場合は項目の値を文字列にしたものを使用する
+ * @returns 列の値がない場合はnull
+ */
+export function getKanbanColumnValue(note: StickyNote, settings: KanbanSettings): string | null {
+    switch (settings.source) {
+        case 'completion':
+            return note.completed ? 'complete' : 'incomplete';
+        case 'tag': {
+            const tags = new Set(note.metadata.tags.map(normalizeTag));
+            return settings.columns.find(column => tags.has(normalizeTag(column))) ?? null;
+        }
+        case 'field': {
+            const value = note.metadata.properties?.[settings.field];
+            const text = value === undefined ? '' : String(value).trim();
+            return text.length > 0 ? text : null;
+        }
+    }
+}
+
+/**
+ * 付箋を列に分ける
+ * タグと項目の場合は値のない付箋の列を先頭に置き、項目の場合は設定にない値の列を値の順に後ろに加える
+ * 各列の付箋は渡された順に並べる
+ */
+export function groupNotesIntoColumns(notes: StickyNote[], settings: KanbanSettings): KanbanColumn[] {
+    const values: (string | null)[] = settings.source === 'completion'
+        ? [...KANBAN_COMPLETION_VALUES]
+        : [null, ...settings.columns];
+
+    const noteValues = notes.map(note => getKanbanColumnValue(note, settings));
+    if (settings.source === 'field') {
+        const extra = [...new Set(noteValues.filter((value): value is string => value !== null && !values.includes(value)))];
+        values.push(...extra.sort((a, b) => a.localeCompare(b)));
+    }
+
+    const columns = values.map((value): KanbanColumn => ({ value, notes: [] }));
+    notes.forEach((note, index) => {
+        const column = columns.find(c => c.value === noteValues[index]);
+        column?.notes.push(note);
+    });
+    return columns;
+}
+
+/**
+ * 付箋を指定した列に移動するための更新内容を返す
+ * 列を決める値（完了状態、タグ、フロントマターの項目）だけを変更し、位置などの他の値は変更しない
+ * @returns 既にその列にある場合はnull
+ */
+export function getKanbanColumnUpdate(note: StickyNote, value: string | null, settings: KanbanSettings): UpdateNoteOptions | null {
+    if (getKanbanColumnValue(note, settings) === value) return null;
+
+    switch (settings.source) {
+        case 'completion':
+            return value === null ? null : { completed: value === 'complete' };
+        case 'tag': {
+            // 他の列のタグを外してから移動先の列のタグを付ける
+            const columnTags = new Set(settings.columns.map(normalizeTag));
+            const tags = note.metadata.tags.filter(tag => tag === POSTODO_TAG || !columnTags.has(normalizeTag(tag)));
+            if (value !== null) {
+                tags.push(value.trim().replace(/^#/, ''));
+            }
+            return { tags };
+        }
+        case 'field':
+            return { properties: { [settings.field]: value } };
+    }
+}
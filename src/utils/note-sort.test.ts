@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { arrangeNotes, getNoteComparator, NOTE_SORT_ORDERS } from './note-sort';
+import { PRIORITY_LEVELS, PRIORITY_EMOJI, getNotePriority } from './priority';
+import { PriorityLevel } from '../types/config-types';
+import { StickyNote } from '../types/core-types';
+
+function createNote(id: string, content: string, x = 0, y = 0, width = 200, height = 180, created = ''): StickyNote {
+    return {
+        id,
+        filePath: `Postodo/${id}.md`,
+        title: id,
+        content,
+        position: { x, y, zIndex: 1 },
+        dimensions: { width, height },
+        appearance: { color: 'yellow', size: 'medium', rotation: 0 },
+        completed: false,
+        metadata: { created, modified: '', tags: [], links: [], attachments: [] }
+    } as StickyNote;
+}
+
+function contentFor(priority: PriorityLevel): string {
+    return priority === 'normal' ? 'Task' : `Task ${PRIORITY_EMOJI[priority]}`;
+}
+
+/**
+ * 付箋の並び順と整列のテスト
+ */
+describe('note sort', () => {
+    const specArb = fc.array(fc.record({
+        priority: fc.constantFrom<PriorityLevel>(...PRIORITY_LEVELS),
+        width: fc.integer({ min: 150, max: 250 }),
+        height: fc.integer({ min: 150, max: 220 })
+    }), { minLength: 1, maxLength: 12 });
+
+    /**
+     * どの並び順でも付箋同士は重ならず、左上から並び、先に並ぶ付箋ほど手前になる
+     */
+    it('should arrange notes without overlaps', () => {
+        fc.assert(
+            fc.property(specArb, fc.constantFrom(...NOTE_SORT_ORDERS), (specs, order) => {
+                const notes = specs.map((spec, i) => createNote(`n${i}`, contentFor(spec.priority), i * 7, i * 3, spec.width, spec.height));
+                const arranged = arrangeNotes(notes, order, { x: 100, y: 50 }, 20);
+                const byId = new Map(notes.map(note => [note.id, note]));
+
+                expect(arranged.map(a => a.id).sort()).toEqual(notes.map(n => n.id).sort());
+                expect(arranged[0].position).toMatchObject({ x: 100, y: 50 });
+
+                for (let i = 0; i < arranged.length; i++) {
+                    for (let j = i + 1; j < arranged.length; j++) {
+                        const a = arranged[i].position, b = arranged[j].position;
+                        const na = byId.get(arranged[i].id)!, nb = byId.get(arranged[j].id)!;
+                        const overlaps = a.x < b.x + nb.dimensions.width && b.x < a.x + na.dimensions.width
+                            && a.y < b.y + nb.dimensions.height && b.y < a.y + na.dimensions.height;
+                        expect(overlaps).toBe(false);
+                        expect(a.zIndex).toBeGreaterThan(b.zIndex);
+                    }
+                }
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 優先度順では優先度の高い順に並ぶ
+     */
+    it('should arrange notes by priority', () => {
+        fc.assert(
+            fc.property(specArb, (specs) => {
+                const notes = specs.map((spec, i) => createNote(`n${i}`, contentFor(spec.priority), i * 7, i * 3));
+                const byId = new Map(notes.map(note => [note.id, note]));
+                const ranks = arrangeNotes(notes, 'priority', { x: 0, y: 0 }, 20)
+                    .map(a => PRIORITY_LEVELS.indexOf(getNotePriority(byId.get(a.id)!)));
+
+                expect(ranks).toEqual([...ranks].sort((a, b) => a - b));
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 期日・作成日・タイトルの順に並べ、期日のない付箋は後ろにする
+     */
+    it('should sort notes by due date, creation date and title', () => {
+        const notes = [
+            createNote('b', 'Task 📅 2026-12-01', 0, 0, 200, 180, '2026-10-03T00:00:00.000Z'),
+            createNote('c', 'Task', 0, 0, 200, 180, '2026-10-01T00:00:00.000Z'),
+            createNote('a', 'Task 📅 2026-11-01', 0, 0, 200, 180, '2026-10-02T00:00:00.000Z')
+        ];
+        const sortBy = (order: typeof NOTE_SORT_ORDERS[number]) => [...notes].sort(getNoteComparator(order)).map(note => note.id);
+
+        expect(sortBy('due')).toEqual(['a', 'b', 'c']);
+        expect(sortBy('created')).toEqual(['c', 'a', 'b']);
+        expect(sortBy('title')).toEqual(['a', 'b', 'c']);
+    });
+});
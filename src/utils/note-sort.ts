@@ -0,0 +1,81 @@
+import { StickyNote, Position } from '../types/core-types';
+import { NoteSortOrder } from '../types/config-types';
+import { PostodoNoteDetector } from './postodo-note-detector';
+import { compareByPriority } from './priority';
+
+export const NOTE_SORT_ORDERS: NoteSortOrder[] = ['priority', 'due', 'created', 'title'];
+
+/**
+ * 現在の位置（上から、左から）の順に比較する
+ */
+function compareByPosition(a: StickyNote, b: StickyNote): number {
+    return a.position.y - b.position.y || a.position.x - b.position.x;
+}
+
+/**
+ * 期日の早い順に比較する（期日なしは後ろ）
+ */
+function compareByDueDate(a: StickyNote, b: StickyNote): number {
+    const dueA = PostodoNoteDetector.extractTaskMetadata(a.content).dueDate;
+    const dueB = PostodoNoteDetector.extractTaskMetadata(b.content).dueDate;
+    if (dueA === dueB) return compareByPosition(a, b);
+    if (!dueA) return 1;
+    if (!dueB) return -1;
+    return dueA < dueB ? -1 : 1;
+}
+
+/**
+ * 並び順に応じた比較関数を返す
+ * 同じ順位の付箋は現在の位置の順にする
+ */
+export function getNoteComparator(order: NoteSortOrder): (a: StickyNote, b: StickyNote) => number {
+    switch (order) {
+        case 'due':
+            return compareByDueDate;
+        case 'created':
+            return (a, b) => a.metadata.created.localeCompare(b.metadata.created) || compareByPosition(a, b);
+        case 'title':
+            return (a, b) => a.title.localeCompare(b.title) || compareByPosition(a, b);
+        case 'priority':
+        default:
+            return compareByPriority;
+    }
+}
+
+/**
+ * 付箋を指定した順に左上から格子状に並べた位置を返す
+ * 各行の高さはその行で最も高い付箋に合わせる。重なった場合も先に並ぶ付箋が上に表示されるよう、
+ * 並び順の逆順にzIndexを割り当てる
+ * @param origin 左上の付箋の位置
+ * @param gap 付箋の間隔
+ * @param columns 1行に並べる付箋の数（省略時は付箋の数の平方根に近い数）
+ */
+export function arrangeNotes(
+    notes: StickyNote[],
+    order: NoteSortOrder,
+    origin: { x: number; y: number },
+    gap: number,
+    columns?: number
+): { id: string; position: Position }[] {
+    const sorted = [...notes].sort(getNoteComparator(order));
+    const columnCount = Math.max(1, columns ?? Math.ceil(Math.sqrt(sorted.length)));
+    const columnWidth = Math.max(0, ...sorted.map(note => note.dimensions.width));
+
+    const result: { id: string; position: Position }[] = [];
+    let y = origin.y;
+    for (let rowStart = 0; rowStart < sorted.length; rowStart += columnCount) {
+        const row = sorted.slice(rowStart, rowStart + columnCount);
+        row.forEach((note, column) => {
+            result.push({
+                id: note.id,
+                position: {
+                    x: origin.x + column * (columnWidth + gap),
+                    y,
+                    zIndex: sorted.length - (rowStart + column)
+                }
+            });
+        });
+        y += Math.max(...row.map(note => note.dimensions.height)) + gap;
+    }
+    return result;
+}
@@ -0,0 +1,13 @@
+/**
+ * パスがフォルダ内にあるかどうか（サブフォルダ内も含む）
+ */
+export function isInFolder(filePath: string, folderPath: string): boolean {
+    return filePath.startsWith(`${folderPath}/`);
+}
+
+/**
+ * 設定されたフォルダ名の前後の区切り文字と空白を取り除く
+ */
+export function normalizeFolderPath(folder: string | undefined): string {
+    return (folder || '').trim().replace(/^\/+|\/+$/g, '');
+}
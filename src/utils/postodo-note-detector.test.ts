@@ -174,4 +174,60 @@ describe('PostodoNoteDetector - Title and Content Independence', () => {
             { numRuns: 100 }
         );
     });
+
+    /**
+     * 完了日時と完了履歴のラウンドトリップテスト：
+     * フロントマターに書き込んだ完了日時と履歴が解析後も保持される
+     */
+    it('should preserve completedAt and completion history through round-trip', () => {
+        const recordArb = fc.record({
+            completed: fc.boolean(),
+            at: fc.integer({ min: 0, max: 4102444800000 }).map(time => new Date(time).toISOString())
+        });
+
+        fc.assert(
+            fc.property(stickyNoteArb, fc.array(recordArb, { minLength: 1, maxLength: 5 }), (note, history) => {
+                const completedAt = note.completed ? history[history.length - 1].at : undefined;
+                const noteWithHistory: StickyNote = { ...note, completedAt, completionHistory: history };
+
+                const markdownContent = PostodoNoteDetector.updateNoteContent('', noteWithHistory);
+                const extractedData = PostodoNoteDetector.extractPostodoData(markdownContent, note.filePath);
+
+                expect(extractedData?.completed).toBe(note.completed);
+                expect(extractedData?.completedAt).toBe(completedAt);
+                expect(extractedData?.completionHistory).toEqual(history);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * タグとフロントマターの項目のラウンドトリップテスト：
+     * 数値や真偽値に見える文字列も含め、書き込んだタグと項目の値が解析後も同じ型で保持される
+     */
+    it('should preserve tags and frontmatter fields through round-trip', () => {
+        const propertiesArb = fc.dictionary(
+            fc.constantFrom('status', 'project', 'due-date', 'ステータス'),
+            fc.oneof(fc.string(), fc.integer(), fc.boolean(), fc.constantFrom('true', '12', ' doing', '#tag', 'a: b', 'null'))
+        );
+        const tagsArb = fc.subarray(['todo', 'doing', 'done', 'project/alpha']);
+
+        fc.assert(
+            fc.property(stickyNoteArb, tagsArb, propertiesArb, (note, tags, properties) => {
+                const noteWithMetadata: StickyNote = {
+                    ...note,
+                    metadata: { ...note.metadata, tags: ['postodo', ...tags], properties }
+                };
+
+                const markdownContent = PostodoNoteDetector.updateNoteContent('', noteWithMetadata);
+                const extractedData = PostodoNoteDetector.extractPostodoData(markdownContent, note.filePath);
+                const restored = PostodoNoteDetector.toStickyNote(extractedData!, note.filePath);
+
+                expect(restored.metadata.tags).toEqual(['postodo', ...tags]);
+                expect(restored.metadata.properties || {}).toEqual(properties);
+                expect(restored.position).toEqual(note.position);
+            }),
+            { numRuns: 100 }
+        );
+    });
 });
@@ -1,13 +1,16 @@
 import { TFile } from 'obsidian';
-import { StickyNote, NoteColor, NoteSize } from '../types/core-types';
+import { StickyNote, NoteColor, NoteSize, CompletionRecord, NotePropertyValue } from '../types/core-types';
 import { DataRestorationValidator, DEFAULT_VALUES } from './data-restoration-validator';
+import { parseCompletionHistory } from './completion';
 
 export interface TaskInfo {
     isTask: boolean;
     completed: boolean;
     content: string;
     dueDate?: string;
+    dueTime?: string;
     scheduledDate?: string;
+    scheduledTime?: string;
     startDate?: string;
     recurrence?: string;
     priority?: 'highest' | 'high' | 'low';
@@ -29,6 +32,9 @@ export interface PostodoNoteData {
     title: string;
     content: string;
     completed: boolean;
+    completedAt?: string;
+    completionHistory?: CompletionRecord[];
+    recurrenceNextId?: string;
     position?: { x: number; y: number; zIndex: number };
     dimensions?: { width: number; height: number };
     appearance?: {
@@ -36,6 +42,18 @@ export interface PostodoNoteData {
         size: NoteSize;
         rotation: number;
     };
+    // フロントマターのタグ（postodoタグを含む）
+    tags?: string[];
+    // Postodo以外のフロントマターの項目
+    properties?: Record<string, NotePropertyValue>;
+}
+
+/**
+ * Postodoが管理するフロントマターの項目かどうかを判定する
+ * これらの項目は付箋の各値から書き込むため、付箋のフロントマターの項目としては扱わない
+ */
+export function isPostodoFrontmatterKey(key: string): boolean {
+    return key === 'tags' || key.startsWith('postodo_');
 }
 
 export class PostodoNoteDetector {
@@ -45,7 +63,11 @@ export class PostodoNoteDetector {
         DUE_DATE: /📅\s*(\d{4}-\d{2}-\d{2})/,
         SCHEDULED_DATE: /⏳\s*(\d{4}-\d{2}-\d{2})/,
         START_DATE: /🛫\s*(\d{4}-\d{2}-\d{2})/,
-        RECURRENCE: /🔁\s*([^\s]+)/,
+        // 期日・予定日の後ろの時刻（"📅 2026-10-20 14:00"）
+        DUE_TIME: /📅\s*\d{4}-\d{2}-\d{2}\s+(\d{1,2}:\d{2})(?!\d)/,
+        SCHEDULED_TIME: /⏳\s*\d{4}-\d{2}-\d{2}\s+(\d{1,2}:\d{2})(?!\d)/,
+        // Tasksプラグインの繰り返し指定（"every 2 days when done"など複数語）
+        RECURRENCE: /🔁\s*([A-Za-z0-9, ]*[A-Za-z0-9])/,
         PRIORITY_HIGHEST: /⏫/,
         PRIORITY_HIGH: /🔼/,
         PRIORITY_LOW: /🔽/
@@ -143,22 +165,12 @@ export class PostodoNoteDetector {
         const completed = checkbox.toLowerCase().includes('x');
         
         // Extract task metadata
-        const dueMatch = this.TASK_PATTERNS.DUE_DATE.exec(content);
-        const scheduledMatch = this.TASK_PATTERNS.SCHEDULED_DATE.exec(content);
-        const startMatch = this.TASK_PATTERNS.START_DATE.exec(content);
-        const recurrenceMatch = this.TASK_PATTERNS.RECURRENCE.exec(content);
-        
-        let priority: 'highest' | 'high' | 'low' | undefined;
-        if (this.TASK_PATTERNS.PRIORITY_HIGHEST.test(content)) {
-            priority = 'highest';
-        } else if (this.TASK_PATTERNS.PRIORITY_HIGH.test(content)) {
-            priority = 'high';
-        } else if (this.TASK_PATTERNS.PRIORITY_LOW.test(content)) {
-            priority = 'low';
-        }
+        const metadata = this.extractTaskMetadata(content);
 
         // Clean content by removing emoji metadata
         let cleanContent = content
+            .replace(this.TASK_PATTERNS.DUE_TIME, '')
+            .replace(this.TASK_PATTERNS.SCHEDULED_TIME, '')
             .replace(this.TASK_PATTERNS.DUE_DATE, '')
             .replace(this.TASK_PATTERNS.SCHEDULED_DATE, '')
             .replace(this.TASK_PATTERNS.START_DATE, '')
@@ -172,15 +184,36 @@ export class PostodoNoteDetector {
             isTask: true,
             completed,
             content: cleanContent,
-            dueDate: dueMatch?.[1],
-            scheduledDate: scheduledMatch?.[1],
-            startDate: startMatch?.[1],
-            recurrence: recurrenceMatch?.[1],
-            priority,
+            ...metadata,
             originalText: taskText
         };
     }
 
+    /**
+     * テキストに含まれるTasksプラグイン形式の日付・時刻・繰り返し・優先度を抽出する
+     * チェックボックスのない付箋の本文にも使用できる
+     */
+    static extractTaskMetadata(text: string): Pick<TaskInfo, 'dueDate' | 'dueTime' | 'scheduledDate' | 'scheduledTime' | 'startDate' | 'recurrence' | 'priority'> {
+        let priority: 'highest' | 'high' | 'low' | undefined;
+        if (this.TASK_PATTERNS.PRIORITY_HIGHEST.test(text)) {
+            priority = 'highest';
+        } else if (this.TASK_PATTERNS.PRIORITY_HIGH.test(text)) {
+            priority = 'high';
+        } else if (this.TASK_PATTERNS.PRIORITY_LOW.test(text)) {
+            priority = 'low';
+        }
+
+        return {
+            dueDate: this.TASK_PATTERNS.DUE_DATE.exec(text)?.[1],
+            dueTime: this.TASK_PATTERNS.DUE_TIME.exec(text)?.[1],
+            scheduledDate: this.TASK_PATTERNS.SCHEDULED_DATE.exec(text)?.[1],
+            scheduledTime: this.TASK_PATTERNS.SCHEDULED_TIME.exec(text)?.[1],
+            startDate: this.TASK_PATTERNS.START_DATE.exec(text)?.[1],
+            recurrence: this.TASK_PATTERNS.RECURRENCE.exec(text)?.[1],
+            priority
+        };
+    }
+
     static extractTasksFromFile(content: string, filePath: string): StickyNote[] {
         console.log(`[DEBUG] Extracting tasks from ${filePath}`);
         
@@ -394,9 +427,14 @@ export class PostodoNoteDetector {
                 title,
                 content: contentWithoutTitle,
                 completed: frontmatter.postodo_completed || false,
+                completedAt: typeof frontmatter.postodo_completed_at === 'string' ? frontmatter.postodo_completed_at : undefined,
+                completionHistory: parseCompletionHistory(frontmatter.postodo_completion_history),
+                recurrenceNextId: typeof frontmatter.postodo_recurrence_next === 'string' ? frontmatter.postodo_recurrence_next : undefined,
                 position: frontmatter.postodo_position,
                 dimensions: frontmatter.postodo_dimensions,
-                appearance: frontmatter.postodo_appearance ? this.validateAppearance(frontmatter.postodo_appearance) : undefined
+                appearance: frontmatter.postodo_appearance ? this.validateAppearance(frontmatter.postodo_appearance) : undefined,
+                tags: frontmatter.tags.map((tag: unknown) => String(tag)),
+                properties: this.extractProperties(frontmatter)
             };
             
             console.log(`[DEBUG] Successfully extracted postodo data from ${filePath}:`, result);
@@ -440,11 +478,15 @@ export class PostodoNoteDetector {
             metadata: {
                 created: now,
                 modified: now,
-                tags: ['postodo'],
+                tags: data.tags ? [...data.tags] : ['postodo'],
                 links: [],
-                attachments: []
+                attachments: [],
+                ...(data.properties && Object.keys(data.properties).length > 0 ? { properties: { ...data.properties } } : {})
             },
-            completed: data.completed
+            completed: data.completed,
+            completedAt: data.completedAt,
+            completionHistory: data.completionHistory,
+            recurrenceNextId: data.recurrenceNextId
         };
     }
 
@@ -455,7 +497,10 @@ export class PostodoNoteDetector {
             postodo_position: note.position,
             postodo_dimensions: note.dimensions,
             postodo_appearance: note.appearance,
-            postodo_completed: note.completed
+            postodo_completed: note.completed,
+            postodo_completed_at: note.completedAt,
+            postodo_completion_history: note.completionHistory?.length ? note.completionHistory : undefined,
+            postodo_recurrence_next: note.recurrenceNextId
         };
 
         console.log(`[DEBUG] Creating frontmatter for ${note.id}:`, frontmatter);
@@ -474,8 +519,12 @@ export class PostodoNoteDetector {
         // 他のプロパティを処理
         Object.entries(frontmatter).forEach(([key, value]) => {
             if (key === 'tags') return; // 既に処理済み
+            if (value === undefined) return; // 未設定の項目は書き込まない
             
-            if (typeof value === 'object' && value !== null) {
+            if (Array.isArray(value)) {
+                // 配列はJSON形式（YAMLのフロースタイル）で1行に書き込む
+                yamlContent += `${key}: ${JSON.stringify(value)}\n`;
+            } else if (typeof value === 'object' && value !== null) {
                 yamlContent += `${key}:\n`;
                 Object.entries(value).forEach(([subKey, subValue]) => {
                     yamlContent += `  ${subKey}: ${subValue}\n`;
@@ -485,6 +534,12 @@ export class PostodoNoteDetector {
             }
         });
 
+        // Postodo以外のフロントマターの項目を書き戻す
+        Object.entries(note.metadata.properties || {}).forEach(([key, value]) => {
+            if (isPostodoFrontmatterKey(key)) return;
+            yamlContent += `${key}: ${this.formatPropertyValue(value)}\n`;
+        });
+
         const result = `---\n${yamlContent}---\n\n`;
         console.log(`[DEBUG] Generated frontmatter for ${note.id}:`, result.length, 'chars');
         return result;
@@ -503,6 +558,41 @@ export class PostodoNoteDetector {
         return finalContent;
     }
 
+    /**
+     * フロントマターからPostodo以外の項目を取り出す
+     * 読み書きできない配列やオブジェクトの項目は扱わない
+     */
+    private static extractProperties(frontmatter: Record<string, unknown>): Record<string, NotePropertyValue> | undefined {
+        const entries = Object.entries(frontmatter).filter((entry): entry is [string, NotePropertyValue] => {
+            const [key, value] = entry;
+            return !isPostodoFrontmatterKey(key) &&
+                (typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value)));
+        });
+        return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+    }
+
+    /**
+     * フロントマターの項目の値を書き込む形式にする
+     * そのまま書くと別の値として読み込まれる文字列（数値や真偽値に見えるもの、記号で始まるものなど）は引用符で囲む
+     */
+    private static formatPropertyValue(value: NotePropertyValue): string {
+        if (typeof value !== 'string') {
+            return String(value);
+        }
+        let reinterpreted = true;
+        try {
+            JSON.parse(value);
+        } catch {
+            reinterpreted = false;
+        }
+        const plain = !reinterpreted &&
+            value.length > 0 &&
+            value === value.trim() &&
+            !/[\n\r]|: | #/.test(value) &&
+            !/^[-?:,[\]{}#&*!|>'"%@`]/.test(value);
+        return plain ? value : JSON.stringify(value);
+    }
+
     private static generateIdFromPath(filePath: string): string {
         const filename = filePath.split('/').pop()?.replace('.md', '') || 'unknown';
         return `note-${Date.now()}-${filename}`;
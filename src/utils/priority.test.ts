@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { PRIORITY_LEVELS, PRIORITY_EMOJI, getNotePriority, isAtLeastPriority, compareByPriority } from './priority';
+import { PriorityLevel } from '../types/config-types';
+import { StickyNote } from '../types/core-types';
+
+function createNote(id: string, content: string): StickyNote {
+    return {
+        id,
+        filePath: `Postodo/${id}.md`,
+        title: id,
+        content,
+        position: { x: 0, y: 0, zIndex: 1 },
+        dimensions: { width: 200, height: 180 },
+        appearance: { color: 'yellow', size: 'medium', rotation: 0 },
+        completed: false,
+        metadata: { created: '', modified: '', tags: [], links: [], attachments: [] }
+    } as StickyNote;
+}
+
+function contentFor(priority: PriorityLevel, suffix = ''): string {
+    return priority === 'normal' ? `Task${suffix}` : `Task ${PRIORITY_EMOJI[priority]}${suffix}`;
+}
+
+/**
+ * 優先度の判定と比較のテスト
+ */
+describe('priority', () => {
+    const priorityArb = fc.constantFrom<PriorityLevel>(...PRIORITY_LEVELS);
+
+    /**
+     * 本文の優先度の絵文字から優先度を判定し、絵文字がなければ通常とする
+     */
+    it('should read the priority from the content', () => {
+        PRIORITY_LEVELS.forEach(priority => {
+            expect(getNotePriority(createNote('a', contentFor(priority)))).toBe(priority);
+        });
+    });
+
+    /**
+     * 指定した優先度以上の判定は優先度の順序と一致する
+     */
+    it('should compare priorities in order', () => {
+        fc.assert(
+            fc.property(priorityArb, priorityArb, (priority, minPriority) => {
+                const note = createNote('a', contentFor(priority));
+                expect(isAtLeastPriority(note, minPriority))
+                    .toBe(PRIORITY_LEVELS.indexOf(priority) <= PRIORITY_LEVELS.indexOf(minPriority));
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 同じ優先度では期日の早い順に並ぶ
+     */
+    it('should order notes with the same priority by due date', () => {
+        const notes = [
+            createNote('none', 'Task ⏫'),
+            createNote('late', 'Task ⏫ 📅 2026-12-01'),
+            createNote('early', 'Task ⏫ 📅 2026-11-01')
+        ];
+
+        expect([...notes].sort(compareByPriority).map(note => note.id)).toEqual(['early', 'late', 'none']);
+    });
+});
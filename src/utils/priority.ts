@@ -0,0 +1,54 @@
+import { StickyNote } from '../types/core-types';
+import { PriorityLevel } from '../types/config-types';
+import { PostodoNoteDetector } from './postodo-note-detector';
+
+// 優先度の高い順
+export const PRIORITY_LEVELS: PriorityLevel[] = ['highest', 'high', 'normal', 'low'];
+
+export const PRIORITY_EMOJI: Record<Exclude<PriorityLevel, 'normal'>, string> = {
+    highest: '⏫',
+    high: '🔼',
+    low: '🔽'
+};
+
+const PRIORITY_RANK: Record<PriorityLevel, number> = {
+    highest: 3,
+    high: 2,
+    normal: 1,
+    low: 0
+};
+
+/**
+ * 付箋の優先度を返す
+ * タスクから作成した付箋はタスク情報を、それ以外は本文中の優先度の絵文字を使用する
+ */
+export function getNotePriority(note: StickyNote): PriorityLevel {
+    const priority = note.metadata.taskInfo?.priority || PostodoNoteDetector.extractTaskMetadata(note.content).priority;
+    return priority || 'normal';
+}
+
+/**
+ * 付箋の優先度が指定した優先度以上かどうかを判定する
+ */
+export function isAtLeastPriority(note: StickyNote, minPriority: PriorityLevel): boolean {
+    return PRIORITY_RANK[getNotePriority(note)] >= PRIORITY_RANK[minPriority];
+}
+
+/**
+ * 付箋を並べる順に比較する
+ * 優先度の高い順、同じ優先度では期日の早い順（期日なしは後ろ）、その後は現在の位置（上から、左から）の順にする
+ */
+export function compareByPriority(a: StickyNote, b: StickyNote): number {
+    const rankDiff = PRIORITY_RANK[getNotePriority(b)] - PRIORITY_RANK[getNotePriority(a)];
+    if (rankDiff !== 0) return rankDiff;
+
+    const dueA = PostodoNoteDetector.extractTaskMetadata(a.content).dueDate;
+    const dueB = PostodoNoteDetector.extractTaskMetadata(b.content).dueDate;
+    if (dueA !== dueB) {
+        if (!dueA) return 1;
+        if (!dueB) return -1;
+        return dueA < dueB ? -1 : 1;
+    }
+
+    return a.position.y - b.position.y || a.position.x - b.position.x;
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+    parseRecurrence,
+    nextOccurrence,
+    computeNextTaskDates,
+    replaceTaskDates,
+    parseTaskDate,
+    formatTaskDate,
+    RecurrenceRule
+} from './recurrence';
+import { PostodoNoteDetector } from './postodo-note-detector';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 1970年〜2100年のUTCの0時
+const dateArb = fc.integer({ min: 0, max: 47000 }).map(days => new Date(days * DAY_MS));
+
+/**
+ * 繰り返し指定の解析のテスト
+ */
+describe('parseRecurrence', () => {
+    /**
+     * Tasksプラグインの代表的な書式を解析できる
+     */
+    it('should parse the Tasks plugin recurrence grammar', () => {
+        expect(parseRecurrence('every day')).toEqual({ interval: 1, unit: 'day', whenDone: false });
+        expect(parseRecurrence('every 2 days when done')).toEqual({ interval: 2, unit: 'day', whenDone: true });
+        expect(parseRecurrence('every other week')).toEqual({ interval: 2, unit: 'week', whenDone: false });
+        expect(parseRecurrence('Every Weekday')).toEqual({ interval: 1, unit: 'week', weekdays: [1, 2, 3, 4, 5], whenDone: false });
+        expect(parseRecurrence('every monday')).toEqual({ interval: 1, unit: 'week', weekdays: [1], whenDone: false });
+        expect(parseRecurrence('every week on Friday, Tuesday')).toEqual({ interval: 1, unit: 'week', weekdays: [2, 5], whenDone: false });
+        expect(parseRecurrence('every 3 months on the 31st')).toEqual({ interval: 3, unit: 'month', dayOfMonth: 31, whenDone: false });
+        expect(parseRecurrence('every month on the last')).toEqual({ interval: 1, unit: 'month', dayOfMonth: -1, whenDone: false });
+        expect(parseRecurrence('every year')).toEqual({ interval: 1, unit: 'year', whenDone: false });
+    });
+
+    /**
+     * 解析できない書式はnullを返す
+     */
+    it('should return null for unsupported text', () => {
+        expect(parseRecurrence('daily')).toBeNull();
+        expect(parseRecurrence('every 0 days')).toBeNull();
+        expect(parseRecurrence('every month on the 32nd')).toBeNull();
+        expect(parseRecurrence('every funday')).toBeNull();
+    });
+
+    /**
+     * 本文から複数語の繰り返し指定を抽出できる
+     */
+    it('should extract multi-word recurrence from note content', () => {
+        const metadata = PostodoNoteDetector.extractTaskMetadata('Water plants 🔁 every 2 days when done 📅 2025-01-10');
+
+        expect(metadata.recurrence).toBe('every 2 days when done');
+        expect(metadata.dueDate).toBe('2025-01-10');
+    });
+});
+
+/**
+ * 次の繰り返し日の計算のテスト
+ */
+describe('nextOccurrence', () => {
+    /**
+     * 日・週単位の繰り返しは常に間隔分だけ先の日付になる
+     */
+    it('should advance by the interval for day and week units', () => {
+        fc.assert(
+            fc.property(dateArb, fc.integer({ min: 1, max: 30 }), fc.constantFrom<'day' | 'week'>('day', 'week'), (base, interval, unit) => {
+                const next = nextOccurrence({ interval, unit, whenDone: false }, base);
+                const days = unit === 'day' ? interval : interval * 7;
+                expect(next.getTime() - base.getTime()).toBe(days * DAY_MS);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 曜日指定の繰り返しは基準日より後の指定した曜日になる
+     */
+    it('should land on one of the given weekdays after the base date', () => {
+        fc.assert(
+            fc.property(
+                dateArb,
+                fc.uniqueArray(fc.integer({ min: 0, max: 6 }), { minLength: 1, maxLength: 7 }),
+                fc.integer({ min: 1, max: 4 }),
+                (base, weekdays, interval) => {
+                    const next = nextOccurrence({ interval, unit: 'week', weekdays, whenDone: false }, base);
+                    expect(next.getTime()).toBeGreaterThan(base.getTime());
+                    expect(next.getTime() - base.getTime()).toBeLessThanOrEqual(interval * 7 * DAY_MS + 6 * DAY_MS);
+                    expect(weekdays).toContain(next.getUTCDay());
+                }
+            ),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 月単位の繰り返しは存在しない日を月末に丸める
+     */
+    it('should clamp monthly recurrence to the end of the month', () => {
+        const monthly: RecurrenceRule = { interval: 1, unit: 'month', whenDone: false };
+
+        expect(formatTaskDate(nextOccurrence(monthly, parseTaskDate('2025-01-31')!))).toBe('2025-02-28');
+        expect(formatTaskDate(nextOccurrence({ ...monthly, dayOfMonth: 15 }, parseTaskDate('2025-01-10')!))).toBe('2025-01-15');
+        expect(formatTaskDate(nextOccurrence({ ...monthly, dayOfMonth: 15 }, parseTaskDate('2025-01-15')!))).toBe('2025-02-15');
+        expect(formatTaskDate(nextOccurrence({ ...monthly, dayOfMonth: -1 }, parseTaskDate('2024-01-31')!))).toBe('2024-02-29');
+        expect(formatTaskDate(nextOccurrence({ interval: 1, unit: 'year', whenDone: false }, parseTaskDate('2024-02-29')!))).toBe('2025-02-28');
+    });
+});
+
+/**
+ * 次のタスクの日付の計算のテスト
+ */
+describe('computeNextTaskDates', () => {
+    /**
+     * 期日を基準に次の日付を求め、他の日付は期日との差を保つ
+     */
+    it('should keep the offsets between dates', () => {
+        fc.assert(
+            fc.property(dateArb, fc.integer({ min: 0, max: 10 }), fc.integer({ min: 1, max: 10 }), (due, lead, interval) => {
+                const dueDate = formatTaskDate(due);
+                const startDate = formatTaskDate(new Date(due.getTime() - lead * DAY_MS));
+                const rule: RecurrenceRule = { interval, unit: 'day', whenDone: false };
+
+                const next = computeNextTaskDates({ dueDate, startDate }, rule, new Date());
+
+                expect(next.dueDate).toBe(formatTaskDate(new Date(due.getTime() + interval * DAY_MS)));
+                expect(parseTaskDate(next.dueDate!)!.getTime() - parseTaskDate(next.startDate!)!.getTime()).toBe(lead * DAY_MS);
+                expect(next.scheduledDate).toBeUndefined();
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * "when done"の場合と日付がない場合は完了日を基準にする
+     */
+    it('should use the completion date for "when done" and undated tasks', () => {
+        const completedAt = new Date(2025, 4, 20, 23, 30);
+        const rule: RecurrenceRule = { interval: 3, unit: 'day', whenDone: true };
+
+        expect(computeNextTaskDates({ dueDate: '2025-05-01' }, rule, completedAt)).toEqual({ dueDate: '2025-05-23' });
+        expect(computeNextTaskDates({}, { ...rule, whenDone: false }, completedAt)).toEqual({ dueDate: '2025-05-23' });
+    });
+
+    /**
+     * 本文中の日付を置き換え、ない日付は繰り返し指定の後ろに追加する
+     */
+    it('should replace dates in the content', () => {
+        expect(replaceTaskDates('Report 🔁 every week 📅 2025-01-06', { dueDate: '2025-01-13' }))
+            .toBe('Report 🔁 every week 📅 2025-01-13');
+        expect(replaceTaskDates('Stretch 🔁 every day', { dueDate: '2025-01-02' }))
+            .toBe('Stretch 🔁 every day 📅 2025-01-02');
+    });
+});
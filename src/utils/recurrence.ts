@@ -0,0 +1,236 @@
+import { PostodoNoteDetector } from './postodo-note-detector';
+
+export type RecurrenceUnit = 'day' | 'week' | 'month' | 'year';
+
+/**
+ * Tasksプラグイン形式の繰り返し指定（🔁 every ...）を解析した結果
+ */
+export interface RecurrenceRule {
+    // 繰り返しの間隔（unit単位）
+    interval: number;
+    unit: RecurrenceUnit;
+    // 週単位の繰り返しで対象とする曜日（0=日曜〜6=土曜）
+    weekdays?: number[];
+    // 月単位の繰り返しで対象とする日（1〜31、-1は月末）
+    dayOfMonth?: number;
+    // 完了日を基準に次の日付を決める（"when done"）
+    whenDone: boolean;
+}
+
+/**
+ * 付箋の本文に含まれるタスクの日付（YYYY-MM-DD）
+ */
+export interface TaskDates {
+    dueDate?: string;
+    scheduledDate?: string;
+    startDate?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS: Record<string, number> = {
+    sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6
+};
+
+const DATE_MARKERS: Record<keyof TaskDates, string> = {
+    dueDate: '📅',
+    scheduledDate: '⏳',
+    startDate: '🛫'
+};
+
+const DATE_PATTERNS: Record<keyof TaskDates, RegExp> = {
+    dueDate: PostodoNoteDetector.TASK_PATTERNS.DUE_DATE,
+    scheduledDate: PostodoNoteDetector.TASK_PATTERNS.SCHEDULED_DATE,
+    startDate: PostodoNoteDetector.TASK_PATTERNS.START_DATE
+};
+
+/**
+ * 間隔の指定（"2"、"other"、省略時は1）を数値にする
+ */
+function parseInterval(value: string | undefined): number {
+    if (!value) return 1;
+    if (value === 'other') return 2;
+    return parseInt(value, 10);
+}
+
+/**
+ * 曜日の列挙（"monday, friday"、"tuesday and thursday"）を曜日番号の配列にする
+ * @returns 曜日以外の語を含む場合はnull
+ */
+function parseWeekdays(value: string): number[] | null {
+    const names = value.split(/\s*,\s*|\s+and\s+/).filter(name => name.length > 0);
+    if (names.length === 0) return null;
+
+    const weekdays: number[] = [];
+    for (const name of names) {
+        const weekday = WEEKDAYS[name.replace(/s$/, '')];
+        if (weekday === undefined) return null;
+        if (!weekdays.includes(weekday)) weekdays.push(weekday);
+    }
+    return weekdays.sort((a, b) => a - b);
+}
+
+/**
+ * Tasksプラグイン形式の繰り返し指定を解析する
+ * 対応する書式: "every day"、"every 3 days"、"every other week"、"every weekday"、
+ * "every monday"、"every week on tuesday, friday"、"every month on the 15th"、
+ * "every month on the last"、"every 2 years"。末尾に"when done"を付けると完了日基準になる
+ * @returns 解析できない場合はnull
+ */
+export function parseRecurrence(text: string): RecurrenceRule | null {
+    let value = text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+    const whenDone = / when done$/.test(value);
+    if (whenDone) {
+        value = value.replace(/ when done$/, '');
+    }
+
+    if (!value.startsWith('every ')) return null;
+    value = value.substring('every '.length);
+
+    let rule: Omit<RecurrenceRule, 'whenDone'> | null = null;
+    let match: RegExpExecArray | null;
+
+    if ((match = /^(?:(\d+|other) )?(day|week|month|year)s?$/.exec(value))) {
+        rule = { interval: parseInterval(match[1]), unit: match[2] as RecurrenceUnit };
+    } else if (value === 'weekday') {
+        rule = { interval: 1, unit: 'week', weekdays: [1, 2, 3, 4, 5] };
+    } else if ((match = /^(?:(\d+|other) )?weeks? on (.+)$/.exec(value))) {
+        const weekdays = parseWeekdays(match[2]);
+        rule = weekdays ? { interval: parseInterval(match[1]), unit: 'week', weekdays } : null;
+    } else if ((match = /^(?:(\d+|other) )?months? on the (last|\d{1,2})(?:st|nd|rd|th)?$/.exec(value))) {
+        const dayOfMonth = match[2] === 'last' ? -1 : parseInt(match[2], 10);
+        rule = dayOfMonth === -1 || (dayOfMonth >= 1 && dayOfMonth <= 31)
+            ? { interval: parseInterval(match[1]), unit: 'month', dayOfMonth }
+            : null;
+    } else {
+        const weekdays = parseWeekdays(value);
+        rule = weekdays ? { interval: 1, unit: 'week', weekdays } : null;
+    }
+
+    if (!rule || !(rule.interval >= 1)) return null;
+    return { ...rule, whenDone };
+}
+
+/**
+ * YYYY-MM-DD形式の日付をUTCの0時として解析する（タイムゾーンや夏時間の影響を受けないようにする）
+ * @returns 不正な日付の場合はnull
+ */
+export function parseTaskDate(value: string): Date | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) return null;
+
+    const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+    return formatTaskDate(date) === value ? date : null;
+}
+
+/**
+ * 日付をYYYY-MM-DD形式にする
+ */
+export function formatTaskDate(date: Date): string {
+    const year = String(date.getUTCFullYear()).padStart(4, '0');
+    const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+    const day = String(date.getUTCDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+}
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * 指定した月の日付を返す（存在しない日は月末に丸める）
+ */
+function dateInMonth(year: number, month: number, day: number): Date {
+    const normalized = new Date(Date.UTC(year, month, 1));
+    const lastDay = daysInMonth(normalized.getUTCFullYear(), normalized.getUTCMonth());
+    const clamped = day === -1 ? lastDay : Math.min(day, lastDay);
+    return new Date(Date.UTC(normalized.getUTCFullYear(), normalized.getUTCMonth(), clamped));
+}
+
+/**
+ * 基準日の次の繰り返し日を返す
+ * @param base 基準日（UTCの0時）
+ */
+export function nextOccurrence(rule: RecurrenceRule, base: Date): Date {
+    const year = base.getUTCFullYear();
+    const month = base.getUTCMonth();
+    const day = base.getUTCDate();
+
+    switch (rule.unit) {
+        case 'day':
+            return new Date(base.getTime() + rule.interval * DAY_MS);
+        case 'week': {
+            if (!rule.weekdays || rule.weekdays.length === 0) {
+                return new Date(base.getTime() + rule.interval * 7 * DAY_MS);
+            }
+            // 週は月曜始まりとし、同じ週の残りの曜日がなければ間隔分先の週の最初の曜日にする
+            const weekdayOffsets = rule.weekdays.map(weekday => (weekday + 6) % 7).sort((a, b) => a - b);
+            const baseOffset = (base.getUTCDay() + 6) % 7;
+            const weekStart = base.getTime() - baseOffset * DAY_MS;
+            const laterInWeek = weekdayOffsets.find(offset => offset > baseOffset);
+            if (laterInWeek !== undefined) {
+                return new Date(weekStart + laterInWeek * DAY_MS);
+            }
+            return new Date(weekStart + (rule.interval * 7 + weekdayOffsets[0]) * DAY_MS);
+        }
+        case 'month': {
+            if (rule.dayOfMonth !== undefined) {
+                const thisMonth = dateInMonth(year, month, rule.dayOfMonth);
+                if (thisMonth.getTime() > base.getTime()) return thisMonth;
+                return dateInMonth(year, month + rule.interval, rule.dayOfMonth);
+            }
+            return dateInMonth(year, month + rule.interval, day);
+        }
+        case 'year':
+            return dateInMonth(year + rule.interval, month, day);
+    }
+}
+
+/**
+ * 繰り返しタスクを完了した時の、次のタスクの日付を返す
+ * 期日・予定日・開始日の順に最初にある日付を基準に次の日付を求め、他の日付は基準との差を保つ。
+ * 日付が1つもない場合は完了日を基準にした期日を返す
+ * @param completedAt 完了日時
+ */
+export function computeNextTaskDates(dates: TaskDates, rule: RecurrenceRule, completedAt: Date): TaskDates {
+    const completedDate = new Date(Date.UTC(completedAt.getFullYear(), completedAt.getMonth(), completedAt.getDate()));
+    const referenceKey = (['dueDate', 'scheduledDate', 'startDate'] as (keyof TaskDates)[])
+        .find(key => dates[key] && parseTaskDate(dates[key]!));
+
+    if (!referenceKey) {
+        return { dueDate: formatTaskDate(nextOccurrence(rule, completedDate)) };
+    }
+
+    const reference = parseTaskDate(dates[referenceKey]!)!;
+    const next = nextOccurrence(rule, rule.whenDone ? completedDate : reference);
+
+    const result: TaskDates = {};
+    (Object.keys(DATE_MARKERS) as (keyof TaskDates)[]).forEach(key => {
+        const date = dates[key] ? parseTaskDate(dates[key]!) : null;
+        if (date) {
+            result[key] = formatTaskDate(new Date(next.getTime() + (date.getTime() - reference.getTime())));
+        }
+    });
+    return result;
+}
+
+/**
+ * 本文中のタスクの日付を置き換える
+ * 本文にない日付は繰り返し指定の後ろに追加する
+ */
+export function replaceTaskDates(content: string, dates: TaskDates): string {
+    let result = content;
+    (Object.keys(DATE_MARKERS) as (keyof TaskDates)[]).forEach(key => {
+        const date = dates[key];
+        if (!date) return;
+
+        const marker = `${DATE_MARKERS[key]} ${date}`;
+        if (DATE_PATTERNS[key].test(result)) {
+            result = result.replace(DATE_PATTERNS[key], marker);
+        } else {
+            result = result.replace(PostodoNoteDetector.TASK_PATTERNS.RECURRENCE, match => `${match} ${marker}`);
+        }
+    });
+    return result;
+}
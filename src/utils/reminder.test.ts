@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { getNoteReminders, getReminderTime, parseReminderTime, findDueReminders, getNextFireTime } from './reminder';
+import { PostodoNoteDetector } from './postodo-note-detector';
+import { StickyNote, ReminderState } from '../types/core-types';
+
+function createNote(id: string, content: string, completed = false): StickyNote {
+    return {
+        id,
+        filePath: `Postodo/${id}.md`,
+        title: id,
+        content,
+        position: { x: 0, y: 0, zIndex: 1 },
+        dimensions: { width: 200, height: 180 },
+        appearance: { color: 'yellow', size: 'medium', rotation: 0 },
+        completed,
+        metadata: { created: '', modified: '', tags: [], links: [], attachments: [] }
+    } as StickyNote;
+}
+
+/**
+ * リマインダーの計算のテスト
+ */
+describe('reminder', () => {
+    /**
+     * 期日・予定日の後ろの時刻を抽出し、タスクの本文からは取り除く
+     */
+    it('should extract times after due and scheduled dates', () => {
+        const metadata = PostodoNoteDetector.extractTaskMetadata('Call 📅 2026-10-20 14:00 ⏳ 2026-10-19');
+        expect(metadata).toMatchObject({ dueDate: '2026-10-20', dueTime: '14:00', scheduledDate: '2026-10-19', scheduledTime: undefined });
+
+        const taskInfo = PostodoNoteDetector.parseTaskInfo('- [ ] Call 📅 2026-10-20 9:30');
+        expect(taskInfo.content).toBe('Call');
+        expect(taskInfo.dueTime).toBe('9:30');
+    });
+
+    /**
+     * 正しい時刻だけを解析する
+     */
+    it('should parse valid times only', () => {
+        fc.assert(
+            fc.property(fc.integer({ min: 0, max: 23 }), fc.integer({ min: 0, max: 59 }), (hours, minutes) => {
+                const value = `${hours}:${String(minutes).padStart(2, '0')}`;
+                expect(parseReminderTime(value)).toEqual({ hours, minutes });
+            }),
+            { numRuns: 100 }
+        );
+        expect(parseReminderTime('24:00')).toBeNull();
+        expect(parseReminderTime('12:60')).toBeNull();
+        expect(parseReminderTime(undefined)).toBeNull();
+    });
+
+    /**
+     * 時刻のない日付は既定の時刻に通知し、時刻のある日付はその時刻に通知する
+     */
+    it('should create reminders at the given or default time', () => {
+        const reminders = getNoteReminders(createNote('a', 'Call 📅 2026-10-20 14:00 ⏳ 2026-10-19'), '08:15');
+
+        expect(reminders).toEqual([
+            { key: 'a|due|2026-10-20 14:00', noteId: 'a', kind: 'due', date: '2026-10-20', time: '14:00', at: new Date(2026, 9, 20, 14, 0).getTime() },
+            { key: 'a|scheduled|2026-10-19', noteId: 'a', kind: 'scheduled', date: '2026-10-19', time: undefined, at: new Date(2026, 9, 19, 8, 15).getTime() }
+        ]);
+        expect(getNoteReminders(createNote('b', 'Call 📅 2026-10-20', true))).toEqual([]);
+        expect(getReminderTime('2026-02-30', undefined)).toBeNull();
+    });
+
+    /**
+     * 通知日時を過ぎた未通知のリマインダーだけを選び、スヌーズ中はスヌーズ後の日時で判定する
+     */
+    it('should select due reminders respecting fired and snoozed states', () => {
+        fc.assert(
+            fc.property(
+                fc.array(fc.record({
+                    offset: fc.integer({ min: -1000, max: 1000 }),
+                    fired: fc.boolean(),
+                    snoozeOffset: fc.option(fc.integer({ min: -1000, max: 1000 }), { nil: undefined })
+                }), { maxLength: 10 }),
+                (specs) => {
+                    const now = 1_000_000;
+                    const reminders = specs.map((spec, i) => ({
+                        key: `r${i}`, noteId: `n${i}`, kind: 'due' as const, date: '2026-01-01', at: now + spec.offset
+                    }));
+                    const states = new Map<string, ReminderState>();
+                    specs.forEach((spec, i) => {
+                        if (spec.fired) {
+                            states.set(`r${i}`, { firedAt: new Date(now).toISOString() });
+                        } else if (spec.snoozeOffset !== undefined) {
+                            states.set(`r${i}`, { snoozedUntil: new Date(now + spec.snoozeOffset).toISOString() });
+                        }
+                    });
+                    const fireTime = (i: number) => specs[i].snoozeOffset !== undefined ? now + specs[i].snoozeOffset! : now + specs[i].offset;
+
+                    const due = findDueReminders(reminders, key => states.get(key), now);
+                    const expected = reminders
+                        .map((_, i) => i)
+                        .filter(i => !specs[i].fired && fireTime(i) <= now);
+                    expect(due.map(r => r.key).sort()).toEqual(expected.map(i => `r${i}`).sort());
+
+                    const pending = reminders.map((_, i) => i).filter(i => !specs[i].fired).map(fireTime);
+                    expect(getNextFireTime(reminders, key => states.get(key))).toBe(pending.length > 0 ? Math.min(...pending) : null);
+                }
+            ),
+            { numRuns: 100 }
+        );
+    });
+});
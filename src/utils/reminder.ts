@@ -0,0 +1,125 @@
+import { StickyNote, ReminderState } from '../types/core-types';
+import { PostodoNoteDetector } from './postodo-note-detector';
+import { parseTaskDate } from './recurrence';
+
+/**
+ * リマインダーの種類
+ * - due: 期日（📅）
+ * - scheduled: 予定日（⏳）
+ */
+export type ReminderKind = 'due' | 'scheduled';
+
+/**
+ * 付箋の期日・予定日から作成したリマインダー
+ */
+export interface Reminder {
+    // 通知状態を記録するためのキー（付箋・種類・日時ごとに一意）
+    key: string;
+    noteId: string;
+    kind: ReminderKind;
+    // 日付（YYYY-MM-DD）
+    date: string;
+    // 時刻（HH:mm）。本文に時刻がない場合は未定義
+    time?: string;
+    // 通知する日時（ミリ秒）
+    at: number;
+}
+
+// 時刻のない期日・予定日を通知する時刻の既定値
+export const DEFAULT_REMINDER_TIME = '09:00';
+
+// スヌーズする時間（分）の既定値
+export const DEFAULT_SNOOZE_MINUTES = 10;
+
+/**
+ * HH:mm形式の時刻を解析する
+ * @returns 不正な時刻の場合はnull
+ */
+export function parseReminderTime(value: string | undefined): { hours: number; minutes: number } | null {
+    const match = value ? /^(\d{1,2}):(\d{2})$/.exec(value.trim()) : null;
+    if (!match) return null;
+
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    return hours <= 23 && minutes <= 59 ? { hours, minutes } : null;
+}
+
+/**
+ * 日付と時刻からローカルの日時（ミリ秒）を求める
+ * 時刻がない、または不正な場合は既定の時刻を使用する
+ * @returns 不正な日付の場合はnull
+ */
+export function getReminderTime(date: string, time: string | undefined, defaultTime: string = DEFAULT_REMINDER_TIME): number | null {
+    const day = parseTaskDate(date);
+    if (!day) return null;
+
+    const { hours, minutes } = parseReminderTime(time) || parseReminderTime(defaultTime) || parseReminderTime(DEFAULT_REMINDER_TIME)!;
+    return new Date(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hours, minutes).getTime();
+}
+
+/**
+ * 付箋のリマインダーを返す
+ * 完了した付箋にはリマインダーを作成しない
+ */
+export function getNoteReminders(note: StickyNote, defaultTime: string = DEFAULT_REMINDER_TIME): Reminder[] {
+    if (note.completed) return [];
+
+    const metadata = PostodoNoteDetector.extractTaskMetadata(note.content);
+    const candidates: { kind: ReminderKind; date?: string; time?: string }[] = [
+        { kind: 'due', date: metadata.dueDate, time: metadata.dueTime },
+        { kind: 'scheduled', date: metadata.scheduledDate, time: metadata.scheduledTime }
+    ];
+
+    const reminders: Reminder[] = [];
+    candidates.forEach(({ kind, date, time }) => {
+        if (!date) return;
+        const at = getReminderTime(date, time, defaultTime);
+        if (at === null) return;
+
+        // 時刻の指定がない場合は既定の時刻を変更しても同じリマインダーとして扱う
+        reminders.push({ key: `${note.id}|${kind}|${date}${time ? ` ${time}` : ''}`, noteId: note.id, kind, date, time, at });
+    });
+    return reminders;
+}
+
+/**
+ * リマインダーを次に通知する日時を返す
+ * @returns 通知済みの場合はnull
+ */
+export function getFireTime(reminder: Reminder, state: ReminderState | undefined): number | null {
+    if (state?.firedAt) return null;
+    return state?.snoozedUntil ? Date.parse(state.snoozedUntil) : reminder.at;
+}
+
+/**
+ * 通知する日時を過ぎた未通知のリマインダーを通知日時の順に返す
+ */
+export function findDueReminders(
+    reminders: Reminder[],
+    getState: (key: string) => ReminderState | undefined,
+    now: number
+): Reminder[] {
+    return reminders
+        .map(reminder => ({ reminder, fireTime: getFireTime(reminder, getState(reminder.key)) }))
+        .filter((entry): entry is { reminder: Reminder; fireTime: number } => entry.fireTime !== null && entry.fireTime <= now)
+        .sort((a, b) => a.fireTime - b.fireTime)
+        .map(entry => entry.reminder);
+}
+
+/**
+ * 未通知のリマインダーのうち最も早い通知日時を返す
+ * @returns 未通知のリマインダーがない場合はnull
+ */
+export function getNextFireTime(
+    reminders: Reminder[],
+    getState: (key: string) => ReminderState | undefined
+): number | null {
+    let next: number | null = null;
+    reminders.forEach(reminder => {
+        const fireTime = getFireTime(reminder, getState(reminder.key));
+        if (fireTime !== null && !isNaN(fireTime) && (next === null || fireTime < next)) {
+            next = fireTime;
+        }
+    });
+    return next;
+}
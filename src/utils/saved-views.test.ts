@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { createSavedView, parseSavedViews, upsertSavedView } from './saved-views';
+import { NOTE_SORT_ORDERS } from './note-sort';
+import { DISPLAY_FILTER_TYPES } from './filter-condition';
+
+/**
+ * 保存した表示のテスト
+ */
+describe('saved views', () => {
+    const viewArb = fc.record({
+        name: fc.string({ minLength: 1, maxLength: 12 }).filter(name => name.trim().length > 0),
+        filter: fc.constantFrom<string>(...DISPLAY_FILTER_TYPES, JSON.stringify({ type: 'tag', tag: 'work' })),
+        sort: fc.constantFrom(...NOTE_SORT_ORDERS),
+        viewport: fc.option(fc.record({
+            x: fc.integer({ min: -5000, max: 5000 }),
+            y: fc.integer({ min: -5000, max: 5000 }),
+            zoom: fc.double({ min: 0.1, max: 4, noNaN: true })
+        }), { nil: undefined })
+    }).map(spec => createSavedView(spec.name, spec.filter, spec.sort, spec.viewport));
+
+    /**
+     * 設定に保存して読み込んでも同じ表示になる
+     */
+    it('should round-trip views through the settings', () => {
+        fc.assert(
+            fc.property(fc.array(viewArb, { maxLength: 5 }), (views) => {
+                expect(parseSavedViews(JSON.parse(JSON.stringify(views)))).toEqual(views);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 正しくない表示や重複したIDの表示は除外し、不明な並び順は優先度順にする
+     */
+    it('should drop invalid views', () => {
+        const valid = { id: 'view-1', name: 'Work', filter: 'all', sort: 'title' };
+
+        expect(parseSavedViews(null)).toEqual([]);
+        expect(parseSavedViews([
+            valid,
+            { ...valid },
+            { id: 'view-2', name: ' ', filter: 'all', sort: 'title' },
+            { id: 'view-3', name: 'Broken', filter: '{"type":"unknown"}', sort: 'title' },
+            { id: 'view-4', name: 'Old', filter: 'complete', sort: 'size', viewport: { x: 0, y: 0, zoom: 0 } }
+        ])).toEqual([
+            valid,
+            { id: 'view-4', name: 'Old', filter: 'complete', sort: 'priority' }
+        ]);
+    });
+
+    /**
+     * 同じ名前の表示はIDを引き継いで上書きし、それ以外は末尾に追加する
+     */
+    it('should replace views with the same name', () => {
+        const work = createSavedView('Work', 'all', 'priority');
+        const home = createSavedView('Home', 'incomplete', 'due');
+        const updated = createSavedView('Work', 'complete', 'title', { x: 10, y: 20, zoom: 2 });
+
+        const views = upsertSavedView([work, home], updated);
+
+        expect(views).toEqual([{ ...updated, id: work.id }, home]);
+        expect(upsertSavedView(views, createSavedView('Later', 'all', 'created')).map(v => v.name)).toEqual(['Work', 'Home', 'Later']);
+    });
+});
@@ -0,0 +1,72 @@
+import { SavedView, NoteSortOrder } from '../types/config-types';
+import { NOTE_SORT_ORDERS } from './note-sort';
+import { parseSavedFilter } from './filter-condition';
+
+// ヘッダーのフィルターの選択肢で、保存した表示を表す値の接頭辞
+export const SAVED_VIEW_OPTION_PREFIX = 'view:';
+
+/**
+ * 保存する表示を作成する
+ */
+export function createSavedView(
+    name: string,
+    filter: string,
+    sort: NoteSortOrder,
+    viewport?: { x: number; y: number; zoom: number }
+): SavedView {
+    return {
+        id: 'view-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9),
+        name: name.trim(),
+        filter,
+        ...(viewport ? { viewport: { x: viewport.x, y: viewport.y, zoom: viewport.zoom } } : {}),
+        sort
+    };
+}
+
+/**
+ * 同じ名前の表示があれば置き換え、なければ末尾に追加した一覧を返す
+ * 置き換える場合は元の表示のIDを引き継ぐ（元の一覧は変更しない）
+ */
+export function upsertSavedView(views: SavedView[], view: SavedView): SavedView[] {
+    const index = views.findIndex(existing => existing.name === view.name);
+    if (index === -1) {
+        return [...views, view];
+    }
+    return views.map((existing, i) => i === index ? { ...view, id: existing.id } : existing);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * 設定から読み込んだ値を保存した表示の一覧として検証する
+ * 正しくない表示は除外する（他の環境で編集された設定も読み込めるようにするため）
+ */
+export function parseSavedViews(value: unknown): SavedView[] {
+    if (!Array.isArray(value)) return [];
+
+    const views: SavedView[] = [];
+    const ids = new Set<string>();
+    value.forEach(item => {
+        if (!item || typeof item !== 'object') return;
+        const raw = item as Record<string, unknown>;
+        if (typeof raw.id !== 'string' || !raw.id || ids.has(raw.id)) return;
+        if (typeof raw.name !== 'string' || !raw.name.trim()) return;
+        if (typeof raw.filter !== 'string' || !parseSavedFilter(raw.filter)) return;
+
+        const viewport = raw.viewport as Record<string, unknown> | undefined;
+        const hasViewport = !!viewport && isFiniteNumber(viewport.x) && isFiniteNumber(viewport.y)
+            && isFiniteNumber(viewport.zoom) && viewport.zoom > 0;
+
+        ids.add(raw.id);
+        views.push({
+            id: raw.id,
+            name: raw.name,
+            filter: raw.filter,
+            ...(hasViewport ? { viewport: { x: viewport!.x as number, y: viewport!.y as number, zoom: viewport!.zoom as number } } : {}),
+            sort: NOTE_SORT_ORDERS.includes(raw.sort as NoteSortOrder) ? raw.sort as NoteSortOrder : 'priority'
+        });
+    });
+    return views;
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { TextMerger } from './text-merge';
+
+/**
+ * 改行を含まない行のArbitrary
+ */
+const lineArb = fc.string({ minLength: 0, maxLength: 20 }).map(s => s.replace(/\n/g, ''));
+const textArb = fc.array(lineArb, { minLength: 0, maxLength: 8 }).map(lines => lines.join('\n'));
+
+/**
+ * 行単位の三方向マージ
+ */
+describe('TextMerger - threeWayMerge', () => {
+    /**
+     * 片側のみが変更された場合は変更側がそのまま採用される
+     */
+    it('should take the changed side when only one side changed', () => {
+        fc.assert(
+            fc.property(textArb, textArb, (base, changed) => {
+                const oursChanged = TextMerger.threeWayMerge(base, changed, base);
+                const theirsChanged = TextMerger.threeWayMerge(base, base, changed);
+
+                expect(oursChanged).toEqual({ merged: changed, hasConflicts: false });
+                expect(theirsChanged).toEqual({ merged: changed, hasConflicts: false });
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 両側が同じ変更をした場合は競合にならない
+     */
+    it('should not conflict when both sides made the same change', () => {
+        fc.assert(
+            fc.property(textArb, textArb, (base, changed) => {
+                const result = TextMerger.threeWayMerge(base, changed, changed);
+
+                expect(result).toEqual({ merged: changed, hasConflicts: false });
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    /**
+     * 異なる行への変更は両方取り込まれる
+     */
+    it('should combine edits on different lines', () => {
+        const base = ['buy milk', 'call mom', 'write report'].join('\n');
+        const canvas = ['buy oat milk', 'call mom', 'write report'].join('\n');
+        const file = ['buy milk', 'call mom', 'write report by friday'].join('\n');
+
+        const result = TextMerger.threeWayMerge(base, canvas, file);
+
+        expect(result.hasConflicts).toBe(false);
+        expect(result.merged).toBe(['buy oat milk', 'call mom', 'write report by friday'].join('\n'));
+    });
+
+    /**
+     * 両側の追記は両方残る
+     */
+    it('should keep lines appended and inserted on both sides', () => {
+        const base = ['a', 'b', 'c'].join('\n');
+        const canvas = ['top', 'a', 'b', 'c'].join('\n');
+        const file = ['a', 'b', 'c', 'bottom'].join('\n');
+
+        const result = TextMerger.threeWayMerge(base, canvas, file);
+
+        expect(result.hasConflicts).toBe(false);
+        expect(result.merged).toBe(['top', 'a', 'b', 'c', 'bottom'].join('\n'));
+    });
+
+    /**
+     * 同じ行への異なる変更は競合マーカー付きで両方残る
+     */
+    it('should insert conflict markers when both sides changed the same line', () => {
+        const base = ['title', 'original'].join('\n');
+        const canvas = ['title', 'from canvas'].join('\n');
+        const file = ['title', 'from mobile'].join('\n');
+
+        const result = TextMerger.threeWayMerge(base, canvas, file);
+
+        expect(result.hasConflicts).toBe(true);
+        expect(result.merged).toBe([
+            'title',
+            '<<<<<<< canvas',
+            'from canvas',
+            '=======',
+            'from mobile',
+            '>>>>>>> file'
+        ].join('\n'));
+        expect(TextMerger.hasConflictMarkers(result.merged)).toBe(true);
+    });
+
+    /**
+     * 競合の有無にかかわらず、両側の内容が失われない
+     */
+    it('should never lose lines that either side added', () => {
+        fc.assert(
+            fc.property(textArb, lineArb, lineArb, (base, ourLine, theirLine) => {
+                const ours = `${base}\nours:${ourLine}`;
+                const theirs = `theirs:${theirLine}\n${base}`;
+
+                const result = TextMerger.threeWayMerge(base, ours, theirs);
+
+                expect(result.merged).toContain(`ours:${ourLine}`);
+                expect(result.merged).toContain(`theirs:${theirLine}`);
+            }),
+            { numRuns: 100 }
+        );
+    });
+});
@@ -0,0 +1,180 @@
+/**
+ * 三方向マージの結果
+ */
+export interface MergeResult {
+    /** マージ後のテキスト（競合部分は競合マーカー付き） */
+    merged: string;
+    /** 競合が残っているかどうか */
+    hasConflicts: boolean;
+}
+
+/**
+ * 競合マーカーに表示するラベル
+ */
+export interface MergeLabels {
+    ours: string;
+    theirs: string;
+}
+
+const DEFAULT_LABELS: MergeLabels = {
+    ours: 'canvas',
+    theirs: 'file'
+};
+
+/**
+ * 行単位の三方向マージ
+ *
+ * 最後に同期した内容（base）を基準に、両側（ours/theirs）の変更を取り込む。
+ * 同じ箇所を両側が異なる内容に変更した場合は競合マーカーを挿入する。
+ */
+export class TextMerger {
+    /**
+     * テキストを三方向マージする
+     * @param base 最後に同期した内容
+     * @param ours こちら側（キャンバス）の内容
+     * @param theirs 相手側（ファイル）の内容
+     * @param labels 競合マーカーのラベル
+     */
+    static threeWayMerge(
+        base: string,
+        ours: string,
+        theirs: string,
+        labels: MergeLabels = DEFAULT_LABELS
+    ): MergeResult {
+        // 片側のみの変更は行分割せずにそのまま採用
+        if (ours === theirs || base === theirs) {
+            return { merged: ours, hasConflicts: false };
+        }
+        if (base === ours) {
+            return { merged: theirs, hasConflicts: false };
+        }
+
+        const baseLines = base.split('\n');
+        const ourLines = ours.split('\n');
+        const theirLines = theirs.split('\n');
+
+        const ourMatches = this.matchLines(baseLines, ourLines);
+        const theirMatches = this.matchLines(baseLines, theirLines);
+
+        const output: string[] = [];
+        let hasConflicts = false;
+        let baseIndex = 0;
+        let ourIndex = 0;
+        let theirIndex = 0;
+
+        const flushChunk = (baseEnd: number, ourEnd: number, theirEnd: number) => {
+            const chunk = this.mergeChunk(
+                baseLines.slice(baseIndex, baseEnd),
+                ourLines.slice(ourIndex, ourEnd),
+                theirLines.slice(theirIndex, theirEnd),
+                labels
+            );
+            output.push(...chunk.lines);
+            hasConflicts = hasConflicts || chunk.conflict;
+        };
+
+        while (true) {
+            // 両側で変更されていない次の行（安定行）を探す
+            let stable = baseIndex;
+            while (stable < baseLines.length && (ourMatches[stable] === undefined || theirMatches[stable] === undefined)) {
+                stable++;
+            }
+
+            if (stable >= baseLines.length) {
+                flushChunk(baseLines.length, ourLines.length, theirLines.length);
+                break;
+            }
+
+            const ourStable = ourMatches[stable]!;
+            const theirStable = theirMatches[stable]!;
+
+            if (stable > baseIndex || ourStable > ourIndex || theirStable > theirIndex) {
+                flushChunk(stable, ourStable, theirStable);
+            }
+
+            output.push(baseLines[stable]);
+            baseIndex = stable + 1;
+            ourIndex = ourStable + 1;
+            theirIndex = theirStable + 1;
+        }
+
+        return { merged: output.join('\n'), hasConflicts };
+    }
+
+    /**
+     * テキストに競合マーカーが含まれているかどうか
+     */
+    static hasConflictMarkers(text: string): boolean {
+        return /^<{7} /m.test(text) && /^={7}$/m.test(text) && /^>{7} /m.test(text);
+    }
+
+    /**
+     * 不安定な区間をマージする
+     */
+    private static mergeChunk(
+        base: string[],
+        ours: string[],
+        theirs: string[],
+        labels: MergeLabels
+    ): { lines: string[]; conflict: boolean } {
+        if (this.linesEqual(ours, theirs) || this.linesEqual(base, theirs)) {
+            return { lines: ours, conflict: false };
+        }
+        if (this.linesEqual(base, ours)) {
+            return { lines: theirs, conflict: false };
+        }
+
+        return {
+            lines: [
+                `<<<<<<< ${labels.ours}`,
+                ...ours,
+                '=======',
+                ...theirs,
+                `>>>>>>> ${labels.theirs}`
+            ],
+            conflict: true
+        };
+    }
+
+    /**
+     * 最長共通部分列で行を対応付ける
+     * @returns baseの各行に対応するotherの行番号（対応しない行はundefined）
+     */
+    private static matchLines(base: string[], other: string[]): (number | undefined)[] {
+        const rows = base.length + 1;
+        const cols = other.length + 1;
+        const table: number[][] = [];
+        for (let i = 0; i < rows; i++) {
+            table.push(new Array(cols).fill(0));
+        }
+
+        for (let i = base.length - 1; i >= 0; i--) {
+            for (let j = other.length - 1; j >= 0; j--) {
+                table[i][j] = base[i] === other[j]
+                    ? table[i + 1][j + 1] + 1
+                    : Math.max(table[i + 1][j], table[i][j + 1]);
+            }
+        }
+
+        const matches: (number | undefined)[] = new Array(base.length).fill(undefined);
+        let i = 0;
+        let j = 0;
+        while (i < base.length && j < other.length) {
+            if (base[i] === other[j]) {
+                matches[i] = j;
+                i++;
+                j++;
+            } else if (table[i + 1][j] >= table[i][j + 1]) {
+                i++;
+            } else {
+                j++;
+            }
+        }
+
+        return matches;
+    }
+
+    private static linesEqual(a: string[], b: string[]): boolean {
+        return a.length === b.length && a.every((line, index) => line === b[index]);
+    }
+}
@@ -197,6 +197,50 @@ export class NoteValidator {
 
         return { valid: true };
     }
+
+    /**
+     * フロントマターのタグを検証する
+     * postodoタグがないと付箋として読み込まれなくなるため、必ず含める
+     */
+    static validateTags(tags: string[]): ValidationResult {
+        if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string' || !/^[^\s#,]+$/.test(tag))) {
+            return {
+                valid: false,
+                error: 'タグには空白、#、カンマを含めることはできません'
+            };
+        }
+
+        if (!tags.includes('postodo')) {
+            return {
+                valid: false,
+                error: 'postodoタグは削除できません'
+            };
+        }
+
+        return { valid: true };
+    }
+
+    /**
+     * フロントマターの項目名を検証する
+     * Postodoが管理する項目（tags、postodo_で始まる項目）は指定できない
+     */
+    static validatePropertyKey(key: string): ValidationResult {
+        if (typeof key !== 'string' || !/^[\p{L}\p{N}_][\p{L}\p{N}_ -]*$/u.test(key) || key !== key.trim()) {
+            return {
+                valid: false,
+                error: '項目名には文字、数字、アンダースコア、ハイフン、空白のみ使用できます'
+            };
+        }
+
+        if (key === 'tags' || key.startsWith('postodo_')) {
+            return {
+                valid: false,
+                error: `「${key}」はPostodoが使用する項目です`
+            };
+        }
+
+        return { valid: true };
+    }
 }
 
 export class FileValidator {